@@ -0,0 +1,175 @@
+// Generates src/lib/api/generated.ts (types, response schemas and one function per operation)
+// from the OpenAPI description of the backend routes.
+//
+//   node scripts/generate-api.js          write the generated client
+//   node scripts/generate-api.js --check  fail when the generated client is out of date
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve, relative } from 'node:path';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const specPath = resolve(root, '../src/main/resources/openapi/documentation.json');
+const outputPath = resolve(root, 'src/lib/api/generated.ts');
+
+const METHODS = ['get', 'post', 'put', 'delete', 'patch'];
+const SCHEMA_PREFIX = '#/components/schemas/';
+
+const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+const schemas = spec.components?.schemas ?? {};
+
+function refName(ref) {
+	if (!ref.startsWith(SCHEMA_PREFIX)) throw new Error(`Unsupported $ref: ${ref}`);
+	const name = ref.slice(SCHEMA_PREFIX.length);
+	if (!schemas[name]) throw new Error(`Unknown schema: ${name}`);
+	return name;
+}
+
+function quote(value) {
+	return `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function docComment(text, indent) {
+	return text ? `${indent}/** ${text} */\n` : '';
+}
+
+// TypeScript type for a schema
+function toType(schema, indent = '') {
+	if (schema.$ref) return refName(schema.$ref);
+	let type;
+	if (schema.oneOf) {
+		type = schema.oneOf.map((alternative) => toType(alternative, indent)).join(' | ');
+	} else if (schema.enum) {
+		type = schema.enum.map(quote).join(' | ');
+	} else if (schema.type === 'array') {
+		const item = toType(schema.items, indent);
+		type = /^\w+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+	} else if (schema.type === 'object') {
+		const required = new Set(schema.required ?? []);
+		const lines = Object.entries(schema.properties ?? {}).map(([name, property]) =>
+			docComment(property.description, `${indent}\t`) +
+			`${indent}\t${name}${required.has(name) ? '' : '?'}: ${toType(property, `${indent}\t`)};`
+		);
+		type = `{\n${lines.join('\n')}\n${indent}}`;
+	} else if (schema.type === 'integer' || schema.type === 'number') {
+		type = 'number';
+	} else if (schema.type === 'string' || schema.type === 'boolean') {
+		type = schema.type;
+	} else {
+		type = 'unknown';
+	}
+	return schema.nullable ? `${type} | null` : type;
+}
+
+// Schema as used by the runtime validator: refs by plain name, documentation left out
+function toRuntimeSchema(schema) {
+	if (schema.$ref) return { $ref: refName(schema.$ref) };
+	const runtime = {};
+	for (const key of ['type', 'enum', 'nullable', 'required']) {
+		if (schema[key] !== undefined) runtime[key] = schema[key];
+	}
+	if (schema.oneOf) runtime.oneOf = schema.oneOf.map(toRuntimeSchema);
+	if (schema.items) runtime.items = toRuntimeSchema(schema.items);
+	if (schema.properties) {
+		runtime.properties = Object.fromEntries(
+			Object.entries(schema.properties).map(([name, property]) => [name, toRuntimeSchema(property)])
+		);
+	}
+	return runtime;
+}
+
+function jsonSchema(schema) {
+	return JSON.stringify(toRuntimeSchema(schema)).replace(/"/g, "'");
+}
+
+function jsonContent(content) {
+	return content?.['application/json']?.schema;
+}
+
+function generateOperation(path, method, operation) {
+	const name = operation.operationId;
+	if (!name) throw new Error(`Missing operationId for ${method.toUpperCase()} ${path}`);
+
+	const parameters = operation.parameters ?? [];
+	const pathParams = parameters.filter((p) => p.in === 'path');
+	const queryParams = parameters.filter((p) => p.in === 'query');
+	const body = jsonContent(operation.requestBody?.content);
+	const success = Object.entries(operation.responses ?? {}).find(([status]) => status.startsWith('2'));
+	if (!success) throw new Error(`No success response for ${name}`);
+	const response = jsonContent(success[1].content);
+	const auth = (operation.security ?? spec.security ?? []).length > 0;
+
+	const args = [];
+	if (parameters.length > 0) {
+		const fields = parameters.map((p) => `${p.name}${p.required ? '' : '?'}: ${toType(p.schema)}`);
+		args.push(`params: { ${fields.join('; ')} }`);
+	}
+	if (body) args.push(`body: ${toType(body)}`);
+	args.push('options?: RequestOptions');
+
+	const urlPath = path.replace(/\{(\w+)\}/g, (_, param) => `\${encodeURIComponent(params.${param})}`);
+	const props = [`operation: ${quote(name)}`, `method: ${quote(method.toUpperCase())}`, `path: \`${urlPath}\``];
+	if (queryParams.length > 0) props.push(`query: { ${queryParams.map((p) => `${p.name}: params.${p.name}`).join(', ')} }`);
+	if (body) props.push('body');
+	if (auth) props.push('auth: true');
+	if (response) props.push(`response: ${jsonSchema(response)}`);
+
+	const returnType = response ? toType(response) : 'void';
+	return (
+		docComment(operation.summary && `${operation.summary} (${method.toUpperCase()} ${path})`, '') +
+		`export function ${name}(${args.join(', ')}): Promise<${returnType}> {\n` +
+		`\treturn request<${returnType}>({ ${props.join(', ')} }, options);\n` +
+		'}\n'
+	);
+}
+
+function generate() {
+	const source = relative(root, specPath);
+	const out = [
+		`// Generated by scripts/generate-api.js from ${source}, do not edit.`,
+		'// Run `npm run generate:api` after changing the API description.',
+		'',
+		"import { request, type RequestOptions } from './client';",
+		"import type { JsonSchema } from './validate';",
+		''
+	];
+
+	for (const [name, schema] of Object.entries(schemas)) {
+		out.push(docComment(schema.description, '') + (schema.type === 'object'
+			? `export interface ${name} ${toType(schema)}\n`
+			: `export type ${name} = ${toType(schema)};\n`));
+	}
+
+	out.push('// Component schemas for response validation');
+	out.push('export const schemas: Record<string, JsonSchema> = {');
+	out.push(Object.entries(schemas).map(([name, schema]) => `\t${name}: ${jsonSchema(schema)}`).join(',\n'));
+	out.push('};\n');
+
+	for (const [path, item] of Object.entries(spec.paths ?? {})) {
+		for (const method of METHODS) {
+			if (item[method]) out.push(generateOperation(path, method, item[method]));
+		}
+	}
+
+	return out.join('\n');
+}
+
+const generated = generate();
+
+if (process.argv.includes('--check')) {
+	let current = '';
+	try {
+		current = readFileSync(outputPath, 'utf8');
+	} catch (e) {
+		// Missing output counts as out of date
+	}
+	if (current !== generated) {
+		console.error(`${relative(root, outputPath)} is out of date with ${relative(root, specPath)}.`);
+		console.error('Run `npm run generate:api` and commit the result.');
+		process.exit(1);
+	}
+	console.log('Generated API client is up to date.');
+} else {
+	writeFileSync(outputPath, generated);
+	console.log(`Wrote ${relative(root, outputPath)}`);
+}
@@ -0,0 +1,16 @@
+// See https://kit.svelte.dev/docs/types#app
+import type { User } from '$lib/api';
+
+declare global {
+	namespace App {
+		interface Locals {
+			user: User | null; // Set by hooks.server.ts from the refresh token cookie
+			accessToken: string | null; // Used by server load functions to call the backend
+			sessionChecked: boolean; // False when the backend could not be asked, user is unknown then
+			actAs: string | null; // Owner ID of the shared account the user switched to, from the act-as cookie
+			profile: string | null; // Selected patient profile of that account, from the profile cookie
+		}
+	}
+}
+
+export {};
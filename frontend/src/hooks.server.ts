@@ -0,0 +1,23 @@
+import { redirect, type Handle } from '@sveltejs/kit';
+import { resolveSession, REFRESH_COOKIE } from '$lib/server/session';
+import { ACT_AS_COOKIE, PROFILE_COOKIE } from '$lib/api/client';
+
+export const handle: Handle = async ({ event, resolve }) => {
+	// API calls are proxied to the backend as they are, it checks the access token itself
+	if (event.url.pathname.startsWith('/api/')) {
+		return resolve(event);
+	}
+
+	const session = await resolveSession(event.cookies.get(REFRESH_COOKIE));
+	event.locals.user = session.user;
+	event.locals.accessToken = session.accessToken;
+	event.locals.sessionChecked = session.checked;
+	event.locals.actAs = session.user ? event.cookies.get(ACT_AS_COOKIE) || null : null;
+	event.locals.profile = session.user ? event.cookies.get(PROFILE_COOKIE) || null : null;
+
+	if (event.url.pathname.startsWith('/admin') && !session.user?.isAdmin) {
+		redirect(303, '/');
+	}
+
+	return resolve(event);
+};
@@ -0,0 +1,315 @@
+// Adherence analytics computed in the browser from the dosage history and the schedules.
+// Every occurrence of a schedule is one expected dose, a history entry takes it when it is
+// for the same medicine on the same day and time slot. A dose skipped on purpose is not
+// expected, and one that is not taken only counts as missed once its grace period is over.
+import type { DayAdherence, DosageHistory, Schedule, SkippedDose, WeeklyAdherence } from '$lib/api';
+import { addDays, daysInMonth, fromDateKey, toDateKey } from '$lib/datetime';
+import { DEFAULT_GRACE_MINUTES, isOverdue } from '$lib/doses';
+import { occurrencesOn, type Occurrence } from '$lib/recurrence';
+
+// Dates are local calendar days as YYYY-MM-DD, `to` is included
+export interface DateRange {
+	from: string;
+	to: string;
+}
+
+export type RangePreset = 'last30' | 'last90' | 'month' | 'year' | 'custom';
+
+export interface RateStats {
+	expected: number; // Without the doses skipped on purpose
+	taken: number;
+	skipped: number;
+	rate: number | null; // Taken share of the expected doses, null when nothing was expected
+}
+
+export interface DayStats extends RateStats {
+	date: string;
+}
+
+export interface MedicineStats extends RateStats {
+	medicineId: string;
+}
+
+export interface TimeSlotStats extends RateStats {
+	time: string;
+}
+
+// Doses taken within this many minutes of the scheduled time count as on time
+export const ON_TIME_MINUTES = 30;
+
+export interface LatenessStats {
+	count: number; // Taken doses with a scheduled time
+	averageMinutes: number | null;
+	medianMinutes: number | null;
+	onTime: number; // Early or at most ON_TIME_MINUTES late
+	upToHour: number;
+	upToThreeHours: number;
+	later: number;
+}
+
+export interface AdherenceAnalytics {
+	range: DateRange; // The requested range, limited to the days there is data for
+	overall: RateStats;
+	days: DayStats[];
+	perMedicine: MedicineStats[];
+	perTimeSlot: TimeSlotStats[];
+	currentStreak: number; // Consecutive complete days up to today
+	longestStreak: number;
+	lateness: LatenessStats;
+}
+
+function minutesOfDay(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+	return hours * 60 + minutes;
+}
+
+export function rangeForPreset(preset: Exclude<RangePreset, 'custom'>, today: Date = new Date()): DateRange {
+	const to = toDateKey(today);
+	switch (preset) {
+		case 'last30':
+			return { from: toDateKey(addDays(today, -29)), to };
+		case 'last90':
+			return { from: toDateKey(addDays(today, -89)), to };
+		case 'month':
+			return { from: toDateKey(new Date(today.getFullYear(), today.getMonth(), 1)), to };
+		case 'year':
+			return { from: toDateKey(new Date(today.getFullYear(), 0, 1)), to };
+	}
+}
+
+export interface AdherenceOptions {
+	skips?: SkippedDose[];
+	graceMinutes?: number;
+	now?: Date;
+}
+
+function rateStats(expected: number, taken: number, skipped: number): RateStats {
+	return { expected, taken, skipped, rate: expected > 0 ? taken / expected : null };
+}
+
+interface DoseSlot {
+	occurrence: Occurrence;
+	taken: DosageHistory | null;
+	skipped: SkippedDose | null;
+}
+
+// Pairs the day's expected doses with its history entries. Entries with a scheduled time go to that
+// slot, entries without one (logged outside the dashboard) to the nearest open slot of the medicine.
+function matchDay(slots: DoseSlot[], histories: DosageHistory[]) {
+	const unmatched: DosageHistory[] = [];
+	for (const history of histories) {
+		const slot = history.scheduledTime
+			? slots.find((s) => !s.taken && s.occurrence.schedule.medicineId === history.medicineId && s.occurrence.time === history.scheduledTime)
+			: undefined;
+		if (slot) {
+			slot.taken = history;
+		} else if (!history.scheduledTime) {
+			unmatched.push(history);
+		}
+	}
+
+	for (const history of unmatched) {
+		const takenAt = minutesOfDay(history.datetime.slice(11, 16));
+		const nearest = slots
+			.filter((s) => !s.taken && s.occurrence.schedule.medicineId === history.medicineId)
+			.sort((a, b) => Math.abs(minutesOfDay(a.occurrence.time) - takenAt) - Math.abs(minutesOfDay(b.occurrence.time) - takenAt))[0];
+		if (nearest) {
+			nearest.taken = history;
+		}
+	}
+}
+
+// The day's doses up to `now`, paired with the day's history entries and skips. Doses not taken
+// are left out while their grace period lasts.
+function daySlots(schedules: Schedule[], date: string, histories: DosageHistory[], skips: SkippedDose[], graceMinutes: number, now: Date): DoseSlot[] {
+	const slots: DoseSlot[] = occurrencesOn(schedules, date)
+		.filter((occurrence) => occurrence.at <= now)
+		.map((occurrence) => ({ occurrence, taken: null, skipped: null }));
+	matchDay(slots, histories);
+	for (const skip of skips) {
+		const slot = slots.find((s) => !s.taken && !s.skipped && s.occurrence.schedule.medicineId === skip.medicineId && s.occurrence.time === skip.scheduledTime);
+		if (slot) {
+			slot.skipped = skip;
+		}
+	}
+	return slots.filter((s) => s.taken || s.skipped || isOverdue(s.occurrence.at, graceMinutes, now));
+}
+
+function skipsByDate(skips: SkippedDose[]): Map<string, SkippedDose[]> {
+	const byDate = new Map<string, SkippedDose[]>();
+	for (const skip of skips) {
+		const date = skip.datetime.slice(0, 10);
+		byDate.set(date, [...(byDate.get(date) ?? []), skip]);
+	}
+	return byDate;
+}
+
+function latenessStats(delays: number[]): LatenessStats {
+	const sorted = [...delays].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return {
+		count: sorted.length,
+		averageMinutes: sorted.length > 0 ? Math.round(sorted.reduce((sum, d) => sum + d, 0) / sorted.length) : null,
+		medianMinutes: sorted.length === 0
+			? null
+			: sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2),
+		onTime: sorted.filter((d) => d <= ON_TIME_MINUTES).length,
+		upToHour: sorted.filter((d) => d > ON_TIME_MINUTES && d <= 60).length,
+		upToThreeHours: sorted.filter((d) => d > 60 && d <= 180).length,
+		later: sorted.filter((d) => d > 180).length
+	};
+}
+
+export function computeAdherence(
+	schedules: Schedule[],
+	histories: DosageHistory[],
+	range: DateRange,
+	{ skips = [], graceMinutes = DEFAULT_GRACE_MINUTES, now = new Date() }: AdherenceOptions = {}
+): AdherenceAnalytics {
+	// Only the current schedules are known, so days before the first logged dose are left out
+	// instead of counting them as missed, and so are days that have not happened yet
+	const today = toDateKey(now);
+	const firstLogged = histories.reduce<string | null>((first, h) => {
+		const date = h.datetime.slice(0, 10);
+		return first === null || date < first ? date : first;
+	}, null);
+	const from = firstLogged && firstLogged > range.from ? firstLogged : range.from;
+	const to = range.to < today ? range.to : today;
+
+	const historiesByDate = new Map<string, DosageHistory[]>();
+	for (const history of histories) {
+		const date = history.datetime.slice(0, 10);
+		if (date < from || date > to) continue;
+		historiesByDate.set(date, [...(historiesByDate.get(date) ?? []), history]);
+	}
+
+	const skipsOn = skipsByDate(skips);
+
+	const days: DayStats[] = [];
+	const medicineCounts = new Map<string, { expected: number; taken: number; skipped: number }>();
+	const slotCounts = new Map<string, { expected: number; taken: number; skipped: number }>();
+	const delays: number[] = [];
+
+	for (let date = fromDateKey(from); toDateKey(date) <= to; date = addDays(date, 1)) {
+		const key = toDateKey(date);
+		// Today's doses only count once their time has come
+		const slots = daySlots(schedules, key, historiesByDate.get(key) ?? [], skipsOn.get(key) ?? [], graceMinutes, now);
+
+		for (const { occurrence, taken, skipped } of slots) {
+			const { medicineId } = occurrence.schedule;
+			const medicine = medicineCounts.get(medicineId) ?? { expected: 0, taken: 0, skipped: 0 };
+			const timeSlot = slotCounts.get(occurrence.time) ?? { expected: 0, taken: 0, skipped: 0 };
+			if (skipped) {
+				medicine.skipped++;
+				timeSlot.skipped++;
+			} else {
+				medicine.expected++;
+				timeSlot.expected++;
+			}
+			if (taken) {
+				medicine.taken++;
+				timeSlot.taken++;
+				delays.push(minutesOfDay(taken.datetime.slice(11, 16)) - minutesOfDay(occurrence.time));
+			}
+			medicineCounts.set(medicineId, medicine);
+			slotCounts.set(occurrence.time, timeSlot);
+		}
+
+		const skippedCount = slots.filter((s) => s.skipped).length;
+		days.push({ date: key, ...rateStats(slots.length - skippedCount, slots.filter((s) => s.taken).length, skippedCount) });
+	}
+
+	// A day without expected doses neither extends nor breaks a streak, and an unfinished today
+	// does not break the current one
+	let streak = 0;
+	let longestStreak = 0;
+	for (const day of days) {
+		if (day.expected === 0) continue;
+		if (day.taken >= day.expected) {
+			streak++;
+			longestStreak = Math.max(longestStreak, streak);
+		} else if (day.date !== today) {
+			streak = 0;
+		}
+	}
+
+	const expected = days.reduce((sum, d) => sum + d.expected, 0);
+	const taken = days.reduce((sum, d) => sum + d.taken, 0);
+	const skipped = days.reduce((sum, d) => sum + d.skipped, 0);
+
+	return {
+		range: { from, to },
+		overall: rateStats(expected, taken, skipped),
+		days,
+		perMedicine: [...medicineCounts].map(([medicineId, c]) => ({ medicineId, ...rateStats(c.expected, c.taken, c.skipped) })),
+		perTimeSlot: [...slotCounts]
+			.map(([time, c]) => ({ time, ...rateStats(c.expected, c.taken, c.skipped) }))
+			.sort((a, b) => a.time.localeCompare(b.time)),
+		currentStreak: range.to >= today ? streak : 0,
+		longestStreak,
+		lateness: latenessStats(delays)
+	};
+}
+
+const DAY_NAMES = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+// The seven days before today for the dashboard tracker, in the shape the backend used to return
+export function lastWeekAdherence(
+	schedules: Schedule[],
+	histories: DosageHistory[],
+	{ skips = [], graceMinutes = DEFAULT_GRACE_MINUTES, now = new Date() }: AdherenceOptions = {}
+): WeeklyAdherence {
+	const skipsOn = skipsByDate(skips);
+	const days: DayAdherence[] = [];
+	for (let daysAgo = 7; daysAgo >= 1; daysAgo--) {
+		const date = addDays(now, -daysAgo);
+		const key = toDateKey(date);
+		const slots = daySlots(schedules, key, histories.filter((h) => h.datetime.slice(0, 10) === key), skipsOn.get(key) ?? [], graceMinutes, now);
+		const takenCount = slots.filter((s) => s.taken).length;
+		const skippedCount = slots.filter((s) => s.skipped).length;
+		const expectedCount = slots.length - skippedCount;
+		days.push({
+			date: key,
+			dayOfWeek: DAY_NAMES[date.getDay()],
+			dayNumber: date.getDate(),
+			month: date.getMonth() + 1,
+			// A day with every dose skipped on purpose is complete, it has nothing left to take
+			status: expectedCount === 0 && skippedCount > 0 ? 'COMPLETE' : takenCount === 0 ? 'NONE' : takenCount >= expectedCount ? 'COMPLETE' : 'PARTIAL',
+			expectedCount,
+			takenCount,
+			skippedCount
+		});
+	}
+	return { days };
+}
+
+export interface HeatmapMonth {
+	year: number;
+	month: number; // 0-11, as in Date
+	// One row per week starting on Monday, null for the padding before the 1st and after the last day
+	weeks: Array<Array<{ date: string; inRange: boolean } | null>>;
+}
+
+// Calendar months covering the range, for the heatmap
+export function heatmapMonths(range: DateRange): HeatmapMonth[] {
+	const months: HeatmapMonth[] = [];
+	const start = fromDateKey(range.from);
+	const end = fromDateKey(range.to);
+
+	for (let first = new Date(start.getFullYear(), start.getMonth(), 1); first <= end; first = new Date(first.getFullYear(), first.getMonth() + 1, 1)) {
+		const days = daysInMonth(first.getFullYear(), first.getMonth() + 1);
+		const cells: Array<{ date: string; inRange: boolean } | null> = Array((first.getDay() + 6) % 7).fill(null);
+		for (let day = 1; day <= days; day++) {
+			const date = toDateKey(new Date(first.getFullYear(), first.getMonth(), day));
+			cells.push({ date, inRange: date >= range.from && date <= range.to });
+		}
+		while (cells.length % 7 !== 0) cells.push(null);
+
+		const weeks = [];
+		for (let i = 0; i < cells.length; i += 7) {
+			weeks.push(cells.slice(i, i + 7));
+		}
+		months.push({ year: first.getFullYear(), month: first.getMonth(), weeks });
+	}
+	return months;
+}
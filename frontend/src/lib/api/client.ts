@@ -0,0 +1,274 @@
+// Transport for the generated API client: auth header, token refresh, typed errors and response validation
+import { browser } from '$app/environment';
+import { ApiError, errorKindForStatus, isApiError } from './errors';
+import { validate, type JsonSchema } from './validate';
+import { refreshToken, schemas } from './generated';
+import { broadcastSession, onSessionMessage } from './sessionChannel';
+
+// Base URL of the API in the browser: relative, nginx or the SvelteKit server proxies it to the backend.
+// Server-side calls pass the backend's own URL as baseUrl (see $lib/server/api.ts), which depends on
+// the server's environment and so cannot be read here.
+const API_BASE = '/api';
+
+// Store access token in memory (not localStorage for security)
+let accessToken: string | null = null;
+
+// Refresh this long before the access token expires, so requests don't run into a 401 first
+const REFRESH_MARGIN_MS = 60 * 1000;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// The one refresh that is running, every request that needs a new token waits for it
+let refreshInFlight: Promise<string> | null = null;
+
+// A caregiver works on the regimen of someone who shared it with them by sending the owner's user ID
+// in this header, the cookie lets server load functions do the same (see hooks.server.ts)
+export const ACT_AS_HEADER = 'X-Act-As';
+export const ACT_AS_COOKIE = 'medicate_act_as';
+
+// User ID of the account the browser session acts for, null for the user's own account
+let actingFor: string | null = null;
+
+export function getActingFor(): string | null {
+	return actingFor;
+}
+
+export function setActingFor(ownerId: string | null): void {
+	actingFor = ownerId;
+}
+
+// The patient profile of the account whose data the requests work on, sent the same way
+export const PROFILE_HEADER = 'X-Profile';
+export const PROFILE_COOKIE = 'medicate_profile';
+
+// ID of the selected patient profile, null for the account holder themselves
+let selectedProfile: string | null = null;
+
+export function getSelectedProfile(): string | null {
+	return selectedProfile;
+}
+
+export function setSelectedProfile(profileId: string | null): void {
+	selectedProfile = profileId;
+}
+
+// Helper function to get the current access token
+export function getAccessToken(): string | null {
+	return accessToken;
+}
+
+// Expiry from the JWT payload, in milliseconds
+function tokenExpiresAt(token: string): number | null {
+	try {
+		const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+		return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+	} catch (e) {
+		return null;
+	}
+}
+
+function scheduleRefresh(token: string | null) {
+	if (refreshTimer) {
+		clearTimeout(refreshTimer);
+		refreshTimer = null;
+	}
+	const expiresAt = token ? tokenExpiresAt(token) : null;
+	if (!browser || expiresAt === null) return;
+
+	refreshTimer = setTimeout(() => {
+		refreshTimer = null;
+		refreshAccessToken().catch((e) => {
+			// Offline: the next request refreshes again once it gets a 401
+			if (!isApiError(e, 'network')) {
+				endSession();
+			}
+		});
+	}, Math.max(0, expiresAt - REFRESH_MARGIN_MS - Date.now()));
+}
+
+function applyAccessToken(token: string | null) {
+	accessToken = token;
+	scheduleRefresh(token);
+}
+
+// Helper function to set the access token, the other tabs take it over
+export function setAccessToken(token: string | null): void {
+	applyAccessToken(token);
+	broadcastSession({ type: 'token', token });
+}
+
+// A token from another tab is as good as our own, which saves this tab a refresh
+if (browser) {
+	onSessionMessage((message) => {
+		if (message.type === 'token') {
+			applyAccessToken(message.token);
+		}
+	});
+}
+
+export interface RequestOptions {
+	locale?: string; // Sent as Accept-Language, used by the backend for emails
+	cache?: RequestCache;
+	// Server-side calls pass their own transport and token, the in-memory token belongs to the browser session
+	fetch?: typeof fetch;
+	accessToken?: string;
+	baseUrl?: string; // Required on the server
+	actAs?: string | null; // Overrides the account the session acts for, null for the user's own
+	profile?: string | null; // Overrides the selected patient profile, null for the account holder
+}
+
+// Description of a single call, built by the generated operation functions
+export interface ApiRequest {
+	operation: string;
+	method: string;
+	path: string;
+	query?: Record<string, string | number | boolean | undefined>;
+	body?: unknown;
+	auth?: boolean;
+	response?: JsonSchema;
+}
+
+function buildUrl(baseUrl: string, path: string, query?: ApiRequest['query']): string {
+	const params = new URLSearchParams();
+	for (const [key, value] of Object.entries(query ?? {})) {
+		if (value !== undefined) params.set(key, String(value));
+	}
+	const search = params.toString();
+	return `${baseUrl}${path}${search ? `?${search}` : ''}`;
+}
+
+async function send(req: ApiRequest, options: RequestOptions): Promise<Response> {
+	const headers: Record<string, string> = {};
+	const token = options.accessToken ?? (browser ? accessToken : null);
+	if (req.auth && token) {
+		headers['Authorization'] = `Bearer ${token}`;
+	}
+	const actAs = options.actAs !== undefined ? options.actAs : browser ? actingFor : null;
+	if (req.auth && actAs) {
+		headers[ACT_AS_HEADER] = actAs;
+	}
+	const profile = options.profile !== undefined ? options.profile : browser ? selectedProfile : null;
+	if (req.auth && profile) {
+		headers[PROFILE_HEADER] = profile;
+	}
+	if (req.body !== undefined) {
+		headers['Content-Type'] = 'application/json';
+	}
+	if (options.locale) {
+		headers['Accept-Language'] = options.locale;
+	}
+
+	const baseUrl = options.baseUrl ?? (browser ? API_BASE : null);
+	if (baseUrl === null) {
+		throw new Error(`${req.operation} called on the server without a baseUrl`);
+	}
+
+	try {
+		const fetchFn = options.fetch ?? fetch;
+		return await fetchFn(buildUrl(baseUrl, req.path, req.query), {
+			method: req.method,
+			headers,
+			body: req.body !== undefined ? JSON.stringify(req.body) : undefined,
+			cache: options.cache ?? (req.method === 'GET' ? 'no-store' : undefined),
+			credentials: 'include' // Include cookies for refresh token
+		});
+	} catch (e) {
+		// fetch() rejects with a TypeError when the request never reached the server
+		throw new ApiError('network', e instanceof Error ? e.message : 'Network error', 0, req.operation);
+	}
+}
+
+async function toApiError(response: Response, operation: string): Promise<ApiError> {
+	let message = `Request failed with status ${response.status}`;
+	try {
+		const errorData = await response.json();
+		if (typeof errorData?.error === 'string' && errorData.error) {
+			message = errorData.error;
+		}
+	} catch (jsonError) {
+		// Empty or non-JSON error body (e.g. from the proxy), keep the status based message
+	}
+	return new ApiError(errorKindForStatus(response.status), message, response.status, operation);
+}
+
+// Web Locks keep tabs from refreshing at the same time, browsers without them refresh per tab
+async function withRefreshLock(refresh: () => Promise<string>): Promise<string> {
+	return navigator.locks ? await navigator.locks.request('medicate-token-refresh', refresh) : refresh();
+}
+
+// Get a new access token using the refresh token from the HttpOnly cookie.
+// Concurrent callers share one refresh, rejects with an ApiError when it fails.
+export function refreshAccessToken(): Promise<string> {
+	if (!browser) {
+		return Promise.reject(new ApiError('unauthorized', 'No session on the server', 401, 'refreshToken'));
+	}
+
+	if (!refreshInFlight) {
+		const staleToken = accessToken;
+		refreshInFlight = withRefreshLock(async () => {
+			// Another tab refreshed while this one waited for the lock
+			if (accessToken && accessToken !== staleToken) return accessToken;
+			const { token } = await refreshToken();
+			setAccessToken(token);
+			return token;
+		}).finally(() => {
+			refreshInFlight = null;
+		});
+	}
+	return refreshInFlight;
+}
+
+// Both tokens are invalid: drop the session here and in the other tabs, the layout shows the login
+function endSession() {
+	setAccessToken(null);
+	localStorage.removeItem('medicate_user');
+	broadcastSession({ type: 'logout' }, { includeThisTab: true });
+}
+
+function expireSession(operation: string): never {
+	if (browser) {
+		endSession();
+	}
+	throw new ApiError('unauthorized', 'Session expired. Please login again.', 401, operation);
+}
+
+export async function request<T>(req: ApiRequest, options: RequestOptions = {}): Promise<T> {
+	let response = await send(req, options);
+
+	// A token passed in by the caller (server-side) is not ours to refresh
+	if (response.status === 401 && req.auth && !options.accessToken) {
+		// Retry once with a fresh access token
+		try {
+			await refreshAccessToken();
+			response = await send(req, options);
+		} catch (e) {
+			// Without a connection the session may still be fine, only a rejected refresh ends it
+			if (isApiError(e, 'network')) throw e;
+			console.error('Failed to refresh token:', e);
+		}
+		if (response.status === 401) {
+			expireSession(req.operation);
+		}
+	}
+
+	if (!response.ok) {
+		throw await toApiError(response, req.operation);
+	}
+
+	if (response.status === 204 || !req.response) {
+		return undefined as T;
+	}
+
+	let data: unknown;
+	try {
+		data = await response.json();
+	} catch (e) {
+		throw new ApiError('invalidResponse', 'Response is not valid JSON', response.status, req.operation);
+	}
+
+	const problems = validate(data, req.response, schemas);
+	if (problems.length > 0) {
+		console.error(`Invalid response for ${req.operation}:`, problems);
+		throw new ApiError('invalidResponse', `Unexpected response from ${req.operation}`, response.status, req.operation, problems);
+	}
+	return data as T;
+}
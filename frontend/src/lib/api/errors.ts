@@ -0,0 +1,51 @@
+// Typed errors thrown by the API client, so callers can tell failures apart without parsing messages
+
+export type ApiErrorKind =
+	| 'network' // The request never reached the backend
+	| 'badRequest'
+	| 'unauthorized'
+	| 'forbidden'
+	| 'notFound'
+	| 'conflict'
+	| 'rateLimited'
+	| 'server'
+	| 'invalidResponse'; // The backend answered, but not in the shape the API description promises
+
+export class ApiError extends Error {
+	kind: ApiErrorKind;
+	status: number; // HTTP status, 0 when there was no response
+	operation: string; // operationId from the API description
+	problems: string[]; // Validation problems for 'invalidResponse'
+
+	constructor(kind: ApiErrorKind, message: string, status: number, operation: string, problems: string[] = []) {
+		super(message);
+		this.name = 'ApiError';
+		this.kind = kind;
+		this.status = status;
+		this.operation = operation;
+		this.problems = problems;
+	}
+}
+
+export function errorKindForStatus(status: number): ApiErrorKind {
+	switch (status) {
+		case 400:
+			return 'badRequest';
+		case 401:
+			return 'unauthorized';
+		case 403:
+			return 'forbidden';
+		case 404:
+			return 'notFound';
+		case 409:
+			return 'conflict';
+		case 429:
+			return 'rateLimited';
+		default:
+			return status >= 500 ? 'server' : 'badRequest';
+	}
+}
+
+export function isApiError(e: unknown, kind?: ApiErrorKind): e is ApiError {
+	return e instanceof ApiError && (kind === undefined || e.kind === kind);
+}
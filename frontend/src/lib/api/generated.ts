@@ -0,0 +1,1065 @@
+// Generated by scripts/generate-api.js from ../src/main/resources/openapi/documentation.json, do not edit.
+// Run `npm run generate:api` after changing the API description.
+
+import { request, type RequestOptions } from './client';
+import type { JsonSchema } from './validate';
+
+/** Body of every non-2xx response */
+export interface ErrorResponse {
+	error: string;
+}
+
+export interface MessageResponse {
+	message: string;
+}
+
+export interface Medicine {
+	id: string;
+	name: string;
+	dose: number;
+	unit: string;
+	stock: number;
+	description?: string;
+	/** URL of the package leaflet */
+	bijsluiter?: string;
+	/** Active substances, e.g. ["PARACETAMOL"], taken from werkzamestoffen of the medicine database */
+	activeIngredients?: string[];
+	/** Set for medicines taken as needed instead of on a schedule */
+	prn?: PrnSettings;
+	/** Packages in stock, doses are taken from the one that expires first. Stock beyond their quantities has no package details */
+	batches?: StockBatch[];
+	/** Day a refill was requested, cleared when stock is added */
+	refillRequestedAt?: string;
+	/** GTIN-14s of scanned packages of this medicine */
+	barcodes?: string[];
+	/** Has to be taken at a steady interval, e.g. insulin or contraceptives. Travel plans shift its doses gradually */
+	timeCritical?: boolean;
+}
+
+export interface MedicineRequest {
+	name: string;
+	dose: number;
+	unit: string;
+	stock: number;
+	description?: string;
+	bijsluiter?: string;
+	/** Active substances, e.g. ["PARACETAMOL"], taken from werkzamestoffen of the medicine database */
+	activeIngredients?: string[];
+	/** Set for medicines taken as needed instead of on a schedule */
+	prn?: PrnSettings;
+	/** GTIN-14s of scanned packages of this medicine */
+	barcodes?: string[];
+	/** Has to be taken at a steady interval, e.g. insulin or contraceptives. Travel plans shift its doses gradually */
+	timeCritical?: boolean;
+}
+
+/** Safeguards for a medicine taken as needed (PRN), checked by the client when a dose is logged */
+export interface PrnSettings {
+	/** Minimum time between two doses */
+	minIntervalHours?: number;
+	/** Maximum amount (number of doses) in any 24 hours */
+	maxAmountPer24Hours?: number;
+}
+
+/** A package of a medicine in stock, as picked up from the pharmacy */
+export interface StockBatch {
+	id: string;
+	/** What is left in the package */
+	quantity: number;
+	lotNumber?: string;
+	/** As printed on the package */
+	expiryDate?: string;
+	/** Day the package was picked up */
+	receivedDate?: string;
+}
+
+export interface MedicineWithExpiry {
+	id: string;
+	name: string;
+	dose: number;
+	unit: string;
+	stock: number;
+	description?: string;
+	/** Moment the stock runs out at the scheduled usage, omitted when it never does */
+	expiryDate?: string;
+}
+
+export interface MedicineSearchResult {
+	productnaam: string;
+	farmaceutischevorm: string;
+	werkzamestoffen: string;
+	bijsluiter_filenaam?: string;
+}
+
+/** Stock with a lot number or expiry date is recorded as a new package */
+export interface AddStockRequest {
+	medicineId: string;
+	amount: number;
+	/** Printed on the package of a pharmacy pickup */
+	lotNumber?: string;
+	/** Printed on the package of a pharmacy pickup */
+	expiryDate?: string;
+}
+
+export interface Schedule {
+	id: string;
+	medicineId: string;
+	/** Time of day, e.g. "08:00" */
+	time: string;
+	amount: number;
+	/** Comma-separated day codes like "MO,WE,FR", omitted or empty means every day */
+	daysOfWeek?: string;
+	recurrence?: ScheduleRecurrence;
+	timezoneMode?: TimezoneMode;
+}
+
+export interface ScheduleRequest {
+	medicineId: string;
+	time: string;
+	amount: number;
+	/** Comma-separated day codes like "MO,WE,FR", omitted or empty means every day */
+	daysOfWeek?: string;
+	recurrence?: ScheduleRecurrence;
+	timezoneMode?: TimezoneMode;
+}
+
+export type RecurrenceType = 'DAYS_OF_WEEK' | 'EVERY_N_DAYS' | 'CYCLE' | 'INTERVAL';
+
+export interface TaperStep {
+	/** Number of days this amount is taken */
+	days: number;
+	amount: number;
+}
+
+/** How often a schedule repeats. Stored as is, occurrences are expanded by the client. Without it a schedule repeats on its daysOfWeek. */
+export interface ScheduleRecurrence {
+	type?: RecurrenceType;
+	/** EVERY_N_DAYS: days between doses */
+	intervalDays?: number;
+	/** CYCLE: days with doses */
+	daysOn?: number;
+	/** CYCLE: days without doses after daysOn */
+	daysOff?: number;
+	/** INTERVAL: hours between doses, counted from time on startDate */
+	intervalHours?: number;
+	/** First day of the course, the anchor for EVERY_N_DAYS, CYCLE and INTERVAL */
+	startDate?: string;
+	/** Last day of the course */
+	endDate?: string;
+	/** Consecutive amounts from startDate replacing amount, the course ends after the last step */
+	taper?: TaperStep[];
+}
+
+/** LOCAL: at the time on the clock wherever the user is. HOME: at the time in the user's home time zone, so the hours between doses stay the same while travelling */
+export type TimezoneMode = 'LOCAL' | 'HOME';
+
+export interface MedicineScheduleItem {
+	medicine: Medicine;
+	amount: number;
+}
+
+export interface TimeSlot {
+	time: string;
+	medicines: MedicineScheduleItem[];
+}
+
+export interface DailySchedule {
+	schedule: TimeSlot[];
+}
+
+export interface DosageHistory {
+	id: string;
+	/** Local date-time without offset */
+	datetime: string;
+	medicineId: string;
+	amount: number;
+	scheduledTime?: string;
+	/** Username of the account that logged the dose, a caregiver's when they logged it for the user */
+	loggedBy?: string;
+}
+
+export interface DosageHistoryRequest {
+	medicineId: string;
+	amount: number;
+	scheduledTime?: string;
+	/** Defaults to now */
+	datetime?: string;
+}
+
+export type SkipReason = 'DOCTORS_ADVICE' | 'SIDE_EFFECTS' | 'FEELING_UNWELL' | 'OUT_OF_STOCK' | 'OTHER';
+
+export interface SkippedDose {
+	id: string;
+	/** When the dose was due: the scheduled time on the day it was skipped, local date-time without offset */
+	datetime: string;
+	medicineId: string;
+	/** HH:MM */
+	scheduledTime: string;
+	reason: SkipReason;
+	note?: string;
+	/** Username of the account that skipped the dose, a caregiver's when they skipped it for the user */
+	loggedBy?: string;
+}
+
+export interface SkipDoseRequest {
+	medicineId: string;
+	/** HH:MM */
+	scheduledTime: string;
+	reason: SkipReason;
+	note?: string;
+	/** When the dose was due, local date-time without offset. Today in the user's home time zone at the scheduled time when not given */
+	datetime?: string;
+}
+
+/** NOTE is free text, SIDE_EFFECT and SYMPTOM have a name and severity, MEASUREMENT a reading */
+export type JournalEntryType = 'NOTE' | 'SIDE_EFFECT' | 'SYMPTOM' | 'MEASUREMENT';
+
+/** PAIN is a score from 0 to 10, BLOOD_PRESSURE systolic over diastolic in mmHg, GLUCOSE mmol/L, HEART_RATE beats per minute, TEMPERATURE °C, WEIGHT kg */
+export type MeasurementType = 'PAIN' | 'BLOOD_PRESSURE' | 'GLUCOSE' | 'HEART_RATE' | 'TEMPERATURE' | 'WEIGHT';
+
+export interface JournalEntry {
+	id: string;
+	/** Local date-time without offset */
+	datetime: string;
+	type: JournalEntryType;
+	/** The symptom or side effect, required for those, e.g. Headache */
+	name?: string;
+	/** 1 (mild) to 10 (severe), required for symptoms and side effects */
+	severity?: number;
+	measurement?: MeasurementType;
+	/** The reading, required for measurements */
+	value?: number;
+	/** Diastolic pressure, required for blood pressure */
+	secondaryValue?: number;
+	/** Required for notes */
+	note?: string;
+	/** Medicine the entry is about */
+	medicineId?: string;
+	/** Dose taken the entry is about */
+	dosageHistoryId?: string;
+	/** HH:MM of the dose the entry is about, with medicineId, e.g. for one that was skipped */
+	scheduledTime?: string;
+	/** Username of the account that wrote the entry, a caregiver's when they wrote it for the user */
+	loggedBy?: string;
+}
+
+export interface JournalEntryRequest {
+	/** Local date-time without offset, now when left out */
+	datetime?: string;
+	type: JournalEntryType;
+	/** The symptom or side effect, required for those, e.g. Headache */
+	name?: string;
+	/** 1 (mild) to 10 (severe), required for symptoms and side effects */
+	severity?: number;
+	measurement?: MeasurementType;
+	/** The reading, required for measurements */
+	value?: number;
+	/** Diastolic pressure, required for blood pressure */
+	secondaryValue?: number;
+	/** Required for notes */
+	note?: string;
+	/** Medicine the entry is about */
+	medicineId?: string;
+	/** Dose taken the entry is about */
+	dosageHistoryId?: string;
+	/** HH:MM of the dose the entry is about, with medicineId, e.g. for one that was skipped */
+	scheduledTime?: string;
+}
+
+export type AdherenceStatus = 'NONE' | 'PARTIAL' | 'COMPLETE';
+
+export interface DayAdherence {
+	date: string;
+	dayOfWeek: string;
+	dayNumber: number;
+	month: number;
+	status: AdherenceStatus;
+	/** Doses due that day, without the ones skipped on purpose */
+	expectedCount: number;
+	takenCount: number;
+	/** Doses skipped on purpose */
+	skippedCount?: number;
+}
+
+export interface WeeklyAdherence {
+	days: DayAdherence[];
+}
+
+export interface UserRequest {
+	username: string;
+	email?: string;
+	password: string;
+}
+
+export interface UpdateProfileRequest {
+	email: string;
+	firstName: string;
+	lastName: string;
+}
+
+export interface HomeTimezoneRequest {
+	/** IANA time zone, null to follow the device */
+	timezone?: string | null;
+}
+
+export interface GracePeriodRequest {
+	/** Minutes after its time before a dose not taken counts as missed, null for the default */
+	minutes?: number | null;
+}
+
+export interface PasswordResetRequest {
+	email: string;
+}
+
+export interface VerifyResetTokenRequest {
+	token: string;
+}
+
+export interface UserResponse {
+	username: string;
+	email: string;
+	firstName: string;
+	lastName: string;
+	isAdmin?: boolean;
+	/** IANA home time zone, e.g. "Europe/Amsterdam", that schedules in home time follow. Not set means the device's */
+	timezone?: string | null;
+	/** Minutes after its time before a dose not taken counts as missed. Not set means the default */
+	graceMinutes?: number | null;
+}
+
+export interface AuthResponse {
+	user: UserResponse;
+	/** Access token, the refresh token is set as HttpOnly cookie */
+	token: string;
+	refreshToken: string;
+}
+
+export interface RefreshResponse {
+	token: string;
+}
+
+export interface RegistrationResponse {
+	message: string;
+	email: string;
+}
+
+export interface ActivationResponse {
+	message: string;
+	user: UserResponse;
+	token: string;
+}
+
+export interface PasswordResetResponse {
+	message: string;
+	emailId: string;
+}
+
+export interface VerifyResetTokenResponse {
+	username: string;
+}
+
+export interface AdminUserResponse {
+	id: string;
+	username: string;
+	email: string;
+	firstName: string;
+	lastName: string;
+	isActive: boolean;
+	isAdmin: boolean;
+	isSelf: boolean;
+	/** Authenticator app or passkey set up */
+	twoFactorEnabled: boolean;
+}
+
+export interface AdminUsersListResponse {
+	users: AdminUserResponse[];
+	/** Matching users on all pages */
+	total: number;
+	page: number;
+	pageSize: number;
+}
+
+export interface AdminUserStatsResponse {
+	medicineCount: number;
+	scheduleCount: number;
+	doseCount: number;
+	patientProfileCount: number;
+	activeSessions: number;
+	/** Last login, token refresh or logged dose, null when never used */
+	lastActivity?: string | null;
+}
+
+export type AuditEventType = 'USER_ACTIVATED' | 'USER_DEACTIVATED' | 'USER_DELETED' | 'ADMIN_GRANTED' | 'ADMIN_REVOKED' | 'ACTIVATION_EMAIL_SENT' | 'TWO_FACTOR_RESET' | 'USER_LOGGED_OUT' | 'LOGIN_FAILED' | 'TWO_FACTOR_FAILED' | 'PASSWORD_CHANGED' | 'TWO_FACTOR_ENABLED' | 'TWO_FACTOR_DISABLED' | 'PASSKEY_ADDED' | 'PASSKEY_REMOVED';
+
+export interface AuditEvent {
+	id: string;
+	type: AuditEventType;
+	/** Who did it, absent when not logged in */
+	actorId?: string | null;
+	actorName?: string | null;
+	/** The account it was done to */
+	targetId?: string | null;
+	targetName?: string | null;
+	details?: string;
+	ipAddress?: string;
+	createdAt: string;
+}
+
+export interface AuditLogResponse {
+	events: AuditEvent[];
+	total: number;
+	page: number;
+	pageSize: number;
+}
+
+/** READ_ONLY sees the regimen, LOG_DOSES also logs and undoes doses, MANAGE also changes medicines, schedules and stock */
+export type SharePermission = 'READ_ONLY' | 'LOG_DOSES' | 'MANAGE';
+
+export type ShareStatus = 'PENDING' | 'ACCEPTED';
+
+/** Access an owner granted a caregiver to their regimen */
+export interface Share {
+	id: string;
+	ownerId: string;
+	ownerName: string;
+	caregiverId: string;
+	caregiverName: string;
+	caregiverEmail: string;
+	permission: SharePermission;
+	status: ShareStatus;
+	/** Local date-time without offset */
+	createdAt: string;
+}
+
+export interface ShareOverview {
+	/** Shares with caregivers */
+	given: Share[];
+	/** Shares from the people the user cares for */
+	received: Share[];
+}
+
+export interface ShareRequest {
+	/** Email address of the caregiver's account */
+	email: string;
+	permission: SharePermission;
+}
+
+export interface UpdateShareRequest {
+	permission: SharePermission;
+}
+
+/** Someone whose medicines the user keeps track of besides their own, e.g. a child or a pet. Selected with the X-Profile header. */
+export interface PatientProfile {
+	id: string;
+	name: string;
+	/** Hex colour, e.g. #4682B4 */
+	color: string;
+	/** Emoji shown next to the name */
+	avatar: string;
+	/** ISO date time */
+	createdAt: string;
+}
+
+export interface PatientProfileRequest {
+	name: string;
+	/** Hex colour, e.g. #4682B4 */
+	color: string;
+	/** Emoji */
+	avatar: string;
+}
+
+export type TwoFactorMethod = 'TOTP' | 'RECOVERY_CODE' | 'PASSKEY';
+
+/** Login response for accounts with two-factor authentication, the session follows the second step */
+export interface TwoFactorChallengeResponse {
+	/** Short-lived, only accepted by the second step */
+	challengeToken: string;
+	methods: TwoFactorMethod[];
+}
+
+export interface TwoFactorLoginRequest {
+	challengeToken: string;
+	/** Code from the authenticator app or a recovery code */
+	code: string;
+}
+
+export interface TotpCodeRequest {
+	/** Code from the authenticator app, or a recovery code to disable it */
+	code: string;
+}
+
+export interface TwoFactorStatusResponse {
+	totpEnabled: boolean;
+	recoveryCodesLeft: number;
+	passkeys: PasskeyResponse[];
+}
+
+export interface PasskeyResponse {
+	/** Credential ID, base64url */
+	id: string;
+	name: string;
+	createdAt: string;
+	lastUsedAt?: string | null;
+}
+
+export interface TotpSetupResponse {
+	/** Base32, for entering by hand */
+	secret: string;
+	/** For the QR code */
+	otpauthUri: string;
+}
+
+export interface RecoveryCodesResponse {
+	recoveryCodes: string[];
+}
+
+/** Options for navigator.credentials.create(), binary fields base64url encoded */
+export interface PasskeyRegistrationOptionsResponse {
+	/** base64url */
+	challenge: string;
+	rpId: string;
+	rpName: string;
+	/** base64url */
+	userId: string;
+	userName: string;
+	userDisplayName: string;
+	excludeCredentials: string[];
+}
+
+export interface PasskeyRegistrationRequest {
+	name: string;
+	/** base64url */
+	credentialId: string;
+	/** base64url */
+	clientDataJSON: string;
+	/** SubjectPublicKeyInfo from getPublicKey(), base64url */
+	publicKey: string;
+	/** COSE algorithm identifier */
+	publicKeyAlgorithm: number;
+}
+
+export interface PasskeyOptionsRequest {
+	/** From the login response, for the second step */
+	challengeToken?: string | null;
+}
+
+/** Options for navigator.credentials.get(), binary fields base64url encoded */
+export interface PasskeyLoginOptionsResponse {
+	/** base64url */
+	challenge: string;
+	rpId: string;
+	/** Empty to let the authenticator offer its passkeys for the site */
+	allowCredentials: string[];
+}
+
+/** Assertion from navigator.credentials.get(), binary fields base64url encoded */
+export interface PasskeyLoginRequest {
+	/** base64url */
+	credentialId: string;
+	/** base64url */
+	clientDataJSON: string;
+	/** base64url */
+	authenticatorData: string;
+	/** base64url */
+	signature: string;
+	/** base64url */
+	userHandle?: string | null;
+}
+
+export interface SessionResponse {
+	id: string;
+	userAgent: string;
+	/** Address the device logged in from */
+	ipAddress: string;
+	/** Approximate city and country, null when unknown */
+	location?: string | null;
+	createdAt: string;
+	lastUsedAt: string;
+	/** The session making the request */
+	current: boolean;
+}
+
+/** Subscription to the doses of the user as an iCalendar feed at /api/calendar/{token}.ics */
+export interface CalendarFeed {
+	/** Secret part of the feed URL */
+	token: string;
+	/** IANA time zone of the schedule times, e.g. Europe/Amsterdam */
+	timezone: string;
+	/** Alarm this many minutes before a dose, no alarm when left out */
+	reminderMinutes?: number | null;
+	createdAt: string;
+}
+
+export interface CalendarFeedRequest {
+	/** IANA time zone, e.g. Europe/Amsterdam */
+	timezone: string;
+	/** Minutes before a dose, null for no alarm */
+	reminderMinutes?: number | null;
+}
+
+// Component schemas for response validation
+export const schemas: Record<string, JsonSchema> = {
+	ErrorResponse: {'type':'object','required':['error'],'properties':{'error':{'type':'string'}}},
+	MessageResponse: {'type':'object','required':['message'],'properties':{'message':{'type':'string'}}},
+	Medicine: {'type':'object','required':['id','name','dose','unit','stock'],'properties':{'id':{'type':'string'},'name':{'type':'string'},'dose':{'type':'number'},'unit':{'type':'string'},'stock':{'type':'number'},'description':{'type':'string'},'bijsluiter':{'type':'string'},'activeIngredients':{'type':'array','items':{'type':'string'}},'prn':{'$ref':'PrnSettings'},'batches':{'type':'array','items':{'$ref':'StockBatch'}},'refillRequestedAt':{'type':'string'},'barcodes':{'type':'array','items':{'type':'string'}},'timeCritical':{'type':'boolean'}}},
+	MedicineRequest: {'type':'object','required':['name','dose','unit','stock'],'properties':{'name':{'type':'string'},'dose':{'type':'number'},'unit':{'type':'string'},'stock':{'type':'number'},'description':{'type':'string'},'bijsluiter':{'type':'string'},'activeIngredients':{'type':'array','items':{'type':'string'}},'prn':{'$ref':'PrnSettings'},'barcodes':{'type':'array','items':{'type':'string'}},'timeCritical':{'type':'boolean'}}},
+	PrnSettings: {'type':'object','properties':{'minIntervalHours':{'type':'number'},'maxAmountPer24Hours':{'type':'number'}}},
+	StockBatch: {'type':'object','required':['id','quantity'],'properties':{'id':{'type':'string'},'quantity':{'type':'number'},'lotNumber':{'type':'string'},'expiryDate':{'type':'string'},'receivedDate':{'type':'string'}}},
+	MedicineWithExpiry: {'type':'object','required':['id','name','dose','unit','stock'],'properties':{'id':{'type':'string'},'name':{'type':'string'},'dose':{'type':'number'},'unit':{'type':'string'},'stock':{'type':'number'},'description':{'type':'string'},'expiryDate':{'type':'string'}}},
+	MedicineSearchResult: {'type':'object','required':['productnaam','farmaceutischevorm','werkzamestoffen'],'properties':{'productnaam':{'type':'string'},'farmaceutischevorm':{'type':'string'},'werkzamestoffen':{'type':'string'},'bijsluiter_filenaam':{'type':'string'}}},
+	AddStockRequest: {'type':'object','required':['medicineId','amount'],'properties':{'medicineId':{'type':'string'},'amount':{'type':'number'},'lotNumber':{'type':'string'},'expiryDate':{'type':'string'}}},
+	Schedule: {'type':'object','required':['id','medicineId','time','amount'],'properties':{'id':{'type':'string'},'medicineId':{'type':'string'},'time':{'type':'string'},'amount':{'type':'number'},'daysOfWeek':{'type':'string'},'recurrence':{'$ref':'ScheduleRecurrence'},'timezoneMode':{'$ref':'TimezoneMode'}}},
+	ScheduleRequest: {'type':'object','required':['medicineId','time','amount'],'properties':{'medicineId':{'type':'string'},'time':{'type':'string'},'amount':{'type':'number'},'daysOfWeek':{'type':'string'},'recurrence':{'$ref':'ScheduleRecurrence'},'timezoneMode':{'$ref':'TimezoneMode'}}},
+	RecurrenceType: {'type':'string','enum':['DAYS_OF_WEEK','EVERY_N_DAYS','CYCLE','INTERVAL']},
+	TaperStep: {'type':'object','required':['days','amount'],'properties':{'days':{'type':'integer'},'amount':{'type':'number'}}},
+	ScheduleRecurrence: {'type':'object','properties':{'type':{'$ref':'RecurrenceType'},'intervalDays':{'type':'integer'},'daysOn':{'type':'integer'},'daysOff':{'type':'integer'},'intervalHours':{'type':'integer'},'startDate':{'type':'string'},'endDate':{'type':'string'},'taper':{'type':'array','items':{'$ref':'TaperStep'}}}},
+	TimezoneMode: {'type':'string','enum':['LOCAL','HOME']},
+	MedicineScheduleItem: {'type':'object','required':['medicine','amount'],'properties':{'medicine':{'$ref':'Medicine'},'amount':{'type':'number'}}},
+	TimeSlot: {'type':'object','required':['time','medicines'],'properties':{'time':{'type':'string'},'medicines':{'type':'array','items':{'$ref':'MedicineScheduleItem'}}}},
+	DailySchedule: {'type':'object','required':['schedule'],'properties':{'schedule':{'type':'array','items':{'$ref':'TimeSlot'}}}},
+	DosageHistory: {'type':'object','required':['id','datetime','medicineId','amount'],'properties':{'id':{'type':'string'},'datetime':{'type':'string'},'medicineId':{'type':'string'},'amount':{'type':'number'},'scheduledTime':{'type':'string'},'loggedBy':{'type':'string'}}},
+	DosageHistoryRequest: {'type':'object','required':['medicineId','amount'],'properties':{'medicineId':{'type':'string'},'amount':{'type':'number'},'scheduledTime':{'type':'string'},'datetime':{'type':'string'}}},
+	SkipReason: {'type':'string','enum':['DOCTORS_ADVICE','SIDE_EFFECTS','FEELING_UNWELL','OUT_OF_STOCK','OTHER']},
+	SkippedDose: {'type':'object','required':['id','datetime','medicineId','scheduledTime','reason'],'properties':{'id':{'type':'string'},'datetime':{'type':'string'},'medicineId':{'type':'string'},'scheduledTime':{'type':'string'},'reason':{'$ref':'SkipReason'},'note':{'type':'string'},'loggedBy':{'type':'string'}}},
+	SkipDoseRequest: {'type':'object','required':['medicineId','scheduledTime','reason'],'properties':{'medicineId':{'type':'string'},'scheduledTime':{'type':'string'},'reason':{'$ref':'SkipReason'},'note':{'type':'string'},'datetime':{'type':'string'}}},
+	JournalEntryType: {'type':'string','enum':['NOTE','SIDE_EFFECT','SYMPTOM','MEASUREMENT']},
+	MeasurementType: {'type':'string','enum':['PAIN','BLOOD_PRESSURE','GLUCOSE','HEART_RATE','TEMPERATURE','WEIGHT']},
+	JournalEntry: {'type':'object','required':['id','datetime','type'],'properties':{'id':{'type':'string'},'datetime':{'type':'string'},'type':{'$ref':'JournalEntryType'},'name':{'type':'string'},'severity':{'type':'integer'},'measurement':{'$ref':'MeasurementType'},'value':{'type':'number'},'secondaryValue':{'type':'number'},'note':{'type':'string'},'medicineId':{'type':'string'},'dosageHistoryId':{'type':'string'},'scheduledTime':{'type':'string'},'loggedBy':{'type':'string'}}},
+	JournalEntryRequest: {'type':'object','required':['type'],'properties':{'datetime':{'type':'string'},'type':{'$ref':'JournalEntryType'},'name':{'type':'string'},'severity':{'type':'integer'},'measurement':{'$ref':'MeasurementType'},'value':{'type':'number'},'secondaryValue':{'type':'number'},'note':{'type':'string'},'medicineId':{'type':'string'},'dosageHistoryId':{'type':'string'},'scheduledTime':{'type':'string'}}},
+	AdherenceStatus: {'type':'string','enum':['NONE','PARTIAL','COMPLETE']},
+	DayAdherence: {'type':'object','required':['date','dayOfWeek','dayNumber','month','status','expectedCount','takenCount'],'properties':{'date':{'type':'string'},'dayOfWeek':{'type':'string'},'dayNumber':{'type':'integer'},'month':{'type':'integer'},'status':{'$ref':'AdherenceStatus'},'expectedCount':{'type':'integer'},'takenCount':{'type':'integer'},'skippedCount':{'type':'integer'}}},
+	WeeklyAdherence: {'type':'object','required':['days'],'properties':{'days':{'type':'array','items':{'$ref':'DayAdherence'}}}},
+	UserRequest: {'type':'object','required':['username','password'],'properties':{'username':{'type':'string'},'email':{'type':'string'},'password':{'type':'string'}}},
+	UpdateProfileRequest: {'type':'object','required':['email','firstName','lastName'],'properties':{'email':{'type':'string'},'firstName':{'type':'string'},'lastName':{'type':'string'}}},
+	HomeTimezoneRequest: {'type':'object','properties':{'timezone':{'type':'string','nullable':true}}},
+	GracePeriodRequest: {'type':'object','properties':{'minutes':{'type':'integer','nullable':true}}},
+	PasswordResetRequest: {'type':'object','required':['email'],'properties':{'email':{'type':'string'}}},
+	VerifyResetTokenRequest: {'type':'object','required':['token'],'properties':{'token':{'type':'string'}}},
+	UserResponse: {'type':'object','required':['username','email','firstName','lastName'],'properties':{'username':{'type':'string'},'email':{'type':'string'},'firstName':{'type':'string'},'lastName':{'type':'string'},'isAdmin':{'type':'boolean'},'timezone':{'type':'string','nullable':true},'graceMinutes':{'type':'integer','nullable':true}}},
+	AuthResponse: {'type':'object','required':['user','token','refreshToken'],'properties':{'user':{'$ref':'UserResponse'},'token':{'type':'string'},'refreshToken':{'type':'string'}}},
+	RefreshResponse: {'type':'object','required':['token'],'properties':{'token':{'type':'string'}}},
+	RegistrationResponse: {'type':'object','required':['message','email'],'properties':{'message':{'type':'string'},'email':{'type':'string'}}},
+	ActivationResponse: {'type':'object','required':['message','user','token'],'properties':{'message':{'type':'string'},'user':{'$ref':'UserResponse'},'token':{'type':'string'}}},
+	PasswordResetResponse: {'type':'object','required':['message','emailId'],'properties':{'message':{'type':'string'},'emailId':{'type':'string'}}},
+	VerifyResetTokenResponse: {'type':'object','required':['username'],'properties':{'username':{'type':'string'}}},
+	AdminUserResponse: {'type':'object','required':['id','username','email','firstName','lastName','isActive','isAdmin','isSelf','twoFactorEnabled'],'properties':{'id':{'type':'string'},'username':{'type':'string'},'email':{'type':'string'},'firstName':{'type':'string'},'lastName':{'type':'string'},'isActive':{'type':'boolean'},'isAdmin':{'type':'boolean'},'isSelf':{'type':'boolean'},'twoFactorEnabled':{'type':'boolean'}}},
+	AdminUsersListResponse: {'type':'object','required':['users','total','page','pageSize'],'properties':{'users':{'type':'array','items':{'$ref':'AdminUserResponse'}},'total':{'type':'integer'},'page':{'type':'integer'},'pageSize':{'type':'integer'}}},
+	AdminUserStatsResponse: {'type':'object','required':['medicineCount','scheduleCount','doseCount','patientProfileCount','activeSessions'],'properties':{'medicineCount':{'type':'integer'},'scheduleCount':{'type':'integer'},'doseCount':{'type':'integer'},'patientProfileCount':{'type':'integer'},'activeSessions':{'type':'integer'},'lastActivity':{'type':'string','nullable':true}}},
+	AuditEventType: {'type':'string','enum':['USER_ACTIVATED','USER_DEACTIVATED','USER_DELETED','ADMIN_GRANTED','ADMIN_REVOKED','ACTIVATION_EMAIL_SENT','TWO_FACTOR_RESET','USER_LOGGED_OUT','LOGIN_FAILED','TWO_FACTOR_FAILED','PASSWORD_CHANGED','TWO_FACTOR_ENABLED','TWO_FACTOR_DISABLED','PASSKEY_ADDED','PASSKEY_REMOVED']},
+	AuditEvent: {'type':'object','required':['id','type','createdAt'],'properties':{'id':{'type':'string'},'type':{'$ref':'AuditEventType'},'actorId':{'type':'string','nullable':true},'actorName':{'type':'string','nullable':true},'targetId':{'type':'string','nullable':true},'targetName':{'type':'string','nullable':true},'details':{'type':'string'},'ipAddress':{'type':'string'},'createdAt':{'type':'string'}}},
+	AuditLogResponse: {'type':'object','required':['events','total','page','pageSize'],'properties':{'events':{'type':'array','items':{'$ref':'AuditEvent'}},'total':{'type':'integer'},'page':{'type':'integer'},'pageSize':{'type':'integer'}}},
+	SharePermission: {'type':'string','enum':['READ_ONLY','LOG_DOSES','MANAGE']},
+	ShareStatus: {'type':'string','enum':['PENDING','ACCEPTED']},
+	Share: {'type':'object','required':['id','ownerId','ownerName','caregiverId','caregiverName','caregiverEmail','permission','status','createdAt'],'properties':{'id':{'type':'string'},'ownerId':{'type':'string'},'ownerName':{'type':'string'},'caregiverId':{'type':'string'},'caregiverName':{'type':'string'},'caregiverEmail':{'type':'string'},'permission':{'$ref':'SharePermission'},'status':{'$ref':'ShareStatus'},'createdAt':{'type':'string'}}},
+	ShareOverview: {'type':'object','required':['given','received'],'properties':{'given':{'type':'array','items':{'$ref':'Share'}},'received':{'type':'array','items':{'$ref':'Share'}}}},
+	ShareRequest: {'type':'object','required':['email','permission'],'properties':{'email':{'type':'string'},'permission':{'$ref':'SharePermission'}}},
+	UpdateShareRequest: {'type':'object','required':['permission'],'properties':{'permission':{'$ref':'SharePermission'}}},
+	PatientProfile: {'type':'object','required':['id','name','color','avatar','createdAt'],'properties':{'id':{'type':'string'},'name':{'type':'string'},'color':{'type':'string'},'avatar':{'type':'string'},'createdAt':{'type':'string'}}},
+	PatientProfileRequest: {'type':'object','required':['name','color','avatar'],'properties':{'name':{'type':'string'},'color':{'type':'string'},'avatar':{'type':'string'}}},
+	TwoFactorMethod: {'type':'string','enum':['TOTP','RECOVERY_CODE','PASSKEY']},
+	TwoFactorChallengeResponse: {'type':'object','required':['challengeToken','methods'],'properties':{'challengeToken':{'type':'string'},'methods':{'type':'array','items':{'$ref':'TwoFactorMethod'}}}},
+	TwoFactorLoginRequest: {'type':'object','required':['challengeToken','code'],'properties':{'challengeToken':{'type':'string'},'code':{'type':'string'}}},
+	TotpCodeRequest: {'type':'object','required':['code'],'properties':{'code':{'type':'string'}}},
+	TwoFactorStatusResponse: {'type':'object','required':['totpEnabled','recoveryCodesLeft','passkeys'],'properties':{'totpEnabled':{'type':'boolean'},'recoveryCodesLeft':{'type':'integer'},'passkeys':{'type':'array','items':{'$ref':'PasskeyResponse'}}}},
+	PasskeyResponse: {'type':'object','required':['id','name','createdAt'],'properties':{'id':{'type':'string'},'name':{'type':'string'},'createdAt':{'type':'string'},'lastUsedAt':{'type':'string','nullable':true}}},
+	TotpSetupResponse: {'type':'object','required':['secret','otpauthUri'],'properties':{'secret':{'type':'string'},'otpauthUri':{'type':'string'}}},
+	RecoveryCodesResponse: {'type':'object','required':['recoveryCodes'],'properties':{'recoveryCodes':{'type':'array','items':{'type':'string'}}}},
+	PasskeyRegistrationOptionsResponse: {'type':'object','required':['challenge','rpId','rpName','userId','userName','userDisplayName','excludeCredentials'],'properties':{'challenge':{'type':'string'},'rpId':{'type':'string'},'rpName':{'type':'string'},'userId':{'type':'string'},'userName':{'type':'string'},'userDisplayName':{'type':'string'},'excludeCredentials':{'type':'array','items':{'type':'string'}}}},
+	PasskeyRegistrationRequest: {'type':'object','required':['name','credentialId','clientDataJSON','publicKey','publicKeyAlgorithm'],'properties':{'name':{'type':'string'},'credentialId':{'type':'string'},'clientDataJSON':{'type':'string'},'publicKey':{'type':'string'},'publicKeyAlgorithm':{'type':'integer'}}},
+	PasskeyOptionsRequest: {'type':'object','required':[],'properties':{'challengeToken':{'type':'string','nullable':true}}},
+	PasskeyLoginOptionsResponse: {'type':'object','required':['challenge','rpId','allowCredentials'],'properties':{'challenge':{'type':'string'},'rpId':{'type':'string'},'allowCredentials':{'type':'array','items':{'type':'string'}}}},
+	PasskeyLoginRequest: {'type':'object','required':['credentialId','clientDataJSON','authenticatorData','signature'],'properties':{'credentialId':{'type':'string'},'clientDataJSON':{'type':'string'},'authenticatorData':{'type':'string'},'signature':{'type':'string'},'userHandle':{'type':'string','nullable':true}}},
+	SessionResponse: {'type':'object','required':['id','userAgent','ipAddress','createdAt','lastUsedAt','current'],'properties':{'id':{'type':'string'},'userAgent':{'type':'string'},'ipAddress':{'type':'string'},'location':{'type':'string','nullable':true},'createdAt':{'type':'string'},'lastUsedAt':{'type':'string'},'current':{'type':'boolean'}}},
+	CalendarFeed: {'type':'object','required':['token','timezone','createdAt'],'properties':{'token':{'type':'string'},'timezone':{'type':'string'},'reminderMinutes':{'type':'integer','nullable':true},'createdAt':{'type':'string'}}},
+	CalendarFeedRequest: {'type':'object','required':['timezone'],'properties':{'timezone':{'type':'string'},'reminderMinutes':{'type':'integer','nullable':true}}}
+};
+
+/** Check the backend and its Redis connection (GET /health) */
+export function getHealth(options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'getHealth', method: 'GET', path: `/health` }, options);
+}
+
+/** Issue a new access token from the refresh token cookie (POST /auth/refresh) */
+export function refreshToken(options?: RequestOptions): Promise<RefreshResponse> {
+	return request<RefreshResponse>({ operation: 'refreshToken', method: 'POST', path: `/auth/refresh`, response: {'$ref':'RefreshResponse'} }, options);
+}
+
+/** Clear the refresh token cookie (POST /auth/logout) */
+export function logout(options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'logout', method: 'POST', path: `/auth/logout`, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Send a password reset link, always succeeds to prevent email enumeration (POST /auth/resetPassword) */
+export function requestPasswordReset(body: PasswordResetRequest, options?: RequestOptions): Promise<PasswordResetResponse> {
+	return request<PasswordResetResponse>({ operation: 'requestPasswordReset', method: 'POST', path: `/auth/resetPassword`, body, response: {'$ref':'PasswordResetResponse'} }, options);
+}
+
+/** Verify a password reset token (POST /auth/verifyResetToken) */
+export function verifyResetToken(body: VerifyResetTokenRequest, options?: RequestOptions): Promise<VerifyResetTokenResponse> {
+	return request<VerifyResetTokenResponse>({ operation: 'verifyResetToken', method: 'POST', path: `/auth/verifyResetToken`, body, response: {'$ref':'VerifyResetTokenResponse'} }, options);
+}
+
+/** Activate an account with the token from the verification email (POST /auth/activateAccount) */
+export function activateAccount(body: VerifyResetTokenRequest, options?: RequestOptions): Promise<ActivationResponse> {
+	return request<ActivationResponse>({ operation: 'activateAccount', method: 'POST', path: `/auth/activateAccount`, body, response: {'$ref':'ActivationResponse'} }, options);
+}
+
+/** Set a new password after a verified reset (PUT /auth/updatePassword) */
+export function updatePassword(body: UserRequest, options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'updatePassword', method: 'PUT', path: `/auth/updatePassword`, body, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Register an inactive account and send the verification email (POST /user/register) */
+export function registerUser(body: UserRequest, options?: RequestOptions): Promise<RegistrationResponse> {
+	return request<RegistrationResponse>({ operation: 'registerUser', method: 'POST', path: `/user/register`, body, response: {'$ref':'RegistrationResponse'} }, options);
+}
+
+/** Log in, sets the refresh token cookie unless a second step is needed (POST /user/login) */
+export function loginUser(body: UserRequest, options?: RequestOptions): Promise<AuthResponse | TwoFactorChallengeResponse> {
+	return request<AuthResponse | TwoFactorChallengeResponse>({ operation: 'loginUser', method: 'POST', path: `/user/login`, body, response: {'oneOf':[{'$ref':'AuthResponse'},{'$ref':'TwoFactorChallengeResponse'}]} }, options);
+}
+
+/** Complete a login with an authenticator app or recovery code (POST /auth/2fa/verify) */
+export function verifyTwoFactor(body: TwoFactorLoginRequest, options?: RequestOptions): Promise<AuthResponse> {
+	return request<AuthResponse>({ operation: 'verifyTwoFactor', method: 'POST', path: `/auth/2fa/verify`, body, response: {'$ref':'AuthResponse'} }, options);
+}
+
+/** Challenge for a passkey login (POST /auth/passkey/options) */
+export function getPasskeyLoginOptions(body: PasskeyOptionsRequest, options?: RequestOptions): Promise<PasskeyLoginOptionsResponse> {
+	return request<PasskeyLoginOptionsResponse>({ operation: 'getPasskeyLoginOptions', method: 'POST', path: `/auth/passkey/options`, body, response: {'$ref':'PasskeyLoginOptionsResponse'} }, options);
+}
+
+/** Log in with a passkey (POST /auth/passkey/login) */
+export function loginWithPasskey(body: PasskeyLoginRequest, options?: RequestOptions): Promise<AuthResponse> {
+	return request<AuthResponse>({ operation: 'loginWithPasskey', method: 'POST', path: `/auth/passkey/login`, body, response: {'$ref':'AuthResponse'} }, options);
+}
+
+/** iCalendar feed of the doses of a user and their patient profiles (GET /calendar/{file}) */
+export function getCalendar(params: { file: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'getCalendar', method: 'GET', path: `/calendar/${encodeURIComponent(params.file)}` }, options);
+}
+
+/** Change the password of a user (PUT /user/password) */
+export function changePassword(body: UserRequest, options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'changePassword', method: 'PUT', path: `/user/password`, body, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Get the profile of the logged in user (GET /user/profile) */
+export function getProfile(options?: RequestOptions): Promise<UserResponse> {
+	return request<UserResponse>({ operation: 'getProfile', method: 'GET', path: `/user/profile`, auth: true, response: {'$ref':'UserResponse'} }, options);
+}
+
+/** Update the profile of the logged in user (PUT /user/profile) */
+export function updateProfile(body: UpdateProfileRequest, options?: RequestOptions): Promise<UserResponse> {
+	return request<UserResponse>({ operation: 'updateProfile', method: 'PUT', path: `/user/profile`, body, auth: true, response: {'$ref':'UserResponse'} }, options);
+}
+
+/** Set the home time zone of the logged in user (PUT /user/timezone) */
+export function updateHomeTimezone(body: HomeTimezoneRequest, options?: RequestOptions): Promise<UserResponse> {
+	return request<UserResponse>({ operation: 'updateHomeTimezone', method: 'PUT', path: `/user/timezone`, body, auth: true, response: {'$ref':'UserResponse'} }, options);
+}
+
+/** Set how long after its time a dose not taken counts as missed, for the logged in user (PUT /user/grace-period) */
+export function updateGracePeriod(body: GracePeriodRequest, options?: RequestOptions): Promise<UserResponse> {
+	return request<UserResponse>({ operation: 'updateGracePeriod', method: 'PUT', path: `/user/grace-period`, body, auth: true, response: {'$ref':'UserResponse'} }, options);
+}
+
+/** Two-factor status of the current user (GET /user/2fa) */
+export function getTwoFactorStatus(options?: RequestOptions): Promise<TwoFactorStatusResponse> {
+	return request<TwoFactorStatusResponse>({ operation: 'getTwoFactorStatus', method: 'GET', path: `/user/2fa`, auth: true, response: {'$ref':'TwoFactorStatusResponse'} }, options);
+}
+
+/** Start enrolling an authenticator app (POST /user/2fa/totp/setup) */
+export function setupTotp(options?: RequestOptions): Promise<TotpSetupResponse> {
+	return request<TotpSetupResponse>({ operation: 'setupTotp', method: 'POST', path: `/user/2fa/totp/setup`, auth: true, response: {'$ref':'TotpSetupResponse'} }, options);
+}
+
+/** Confirm the authenticator app with a code (POST /user/2fa/totp/enable) */
+export function enableTotp(body: TotpCodeRequest, options?: RequestOptions): Promise<RecoveryCodesResponse> {
+	return request<RecoveryCodesResponse>({ operation: 'enableTotp', method: 'POST', path: `/user/2fa/totp/enable`, body, auth: true, response: {'$ref':'RecoveryCodesResponse'} }, options);
+}
+
+/** Turn off the authenticator app (POST /user/2fa/totp/disable) */
+export function disableTotp(body: TotpCodeRequest, options?: RequestOptions): Promise<TwoFactorStatusResponse> {
+	return request<TwoFactorStatusResponse>({ operation: 'disableTotp', method: 'POST', path: `/user/2fa/totp/disable`, body, auth: true, response: {'$ref':'TwoFactorStatusResponse'} }, options);
+}
+
+/** Replace the recovery codes (POST /user/2fa/recovery-codes) */
+export function regenerateRecoveryCodes(options?: RequestOptions): Promise<RecoveryCodesResponse> {
+	return request<RecoveryCodesResponse>({ operation: 'regenerateRecoveryCodes', method: 'POST', path: `/user/2fa/recovery-codes`, auth: true, response: {'$ref':'RecoveryCodesResponse'} }, options);
+}
+
+/** Challenge for registering a passkey (POST /user/2fa/passkeys/options) */
+export function getPasskeyRegistrationOptions(options?: RequestOptions): Promise<PasskeyRegistrationOptionsResponse> {
+	return request<PasskeyRegistrationOptionsResponse>({ operation: 'getPasskeyRegistrationOptions', method: 'POST', path: `/user/2fa/passkeys/options`, auth: true, response: {'$ref':'PasskeyRegistrationOptionsResponse'} }, options);
+}
+
+/** Register a passkey (POST /user/2fa/passkeys) */
+export function registerPasskey(body: PasskeyRegistrationRequest, options?: RequestOptions): Promise<PasskeyResponse> {
+	return request<PasskeyResponse>({ operation: 'registerPasskey', method: 'POST', path: `/user/2fa/passkeys`, body, auth: true, response: {'$ref':'PasskeyResponse'} }, options);
+}
+
+/** Remove a passkey (DELETE /user/2fa/passkeys/{id}) */
+export function deletePasskey(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deletePasskey', method: 'DELETE', path: `/user/2fa/passkeys/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** List the devices the user is logged in on (GET /user/sessions) */
+export function getSessions(options?: RequestOptions): Promise<SessionResponse[]> {
+	return request<SessionResponse[]>({ operation: 'getSessions', method: 'GET', path: `/user/sessions`, auth: true, response: {'type':'array','items':{'$ref':'SessionResponse'}} }, options);
+}
+
+/** Log out all other devices (DELETE /user/sessions) */
+export function deleteOtherSessions(options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteOtherSessions', method: 'DELETE', path: `/user/sessions`, auth: true }, options);
+}
+
+/** Log out a device (DELETE /user/sessions/{id}) */
+export function deleteSession(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteSession', method: 'DELETE', path: `/user/sessions/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** Get the calendar feed of the user (GET /user/calendar-feed) */
+export function getCalendarFeed(options?: RequestOptions): Promise<CalendarFeed> {
+	return request<CalendarFeed>({ operation: 'getCalendarFeed', method: 'GET', path: `/user/calendar-feed`, auth: true, response: {'$ref':'CalendarFeed'} }, options);
+}
+
+/** Create the calendar feed, or regenerate it with a new URL (POST /user/calendar-feed) */
+export function createCalendarFeed(body: CalendarFeedRequest, options?: RequestOptions): Promise<CalendarFeed> {
+	return request<CalendarFeed>({ operation: 'createCalendarFeed', method: 'POST', path: `/user/calendar-feed`, body, auth: true, response: {'$ref':'CalendarFeed'} }, options);
+}
+
+/** Change the time zone or reminder of the calendar feed, keeping its URL (PUT /user/calendar-feed) */
+export function updateCalendarFeed(body: CalendarFeedRequest, options?: RequestOptions): Promise<CalendarFeed> {
+	return request<CalendarFeed>({ operation: 'updateCalendarFeed', method: 'PUT', path: `/user/calendar-feed`, body, auth: true, response: {'$ref':'CalendarFeed'} }, options);
+}
+
+/** Revoke the calendar feed (DELETE /user/calendar-feed) */
+export function deleteCalendarFeed(options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteCalendarFeed', method: 'DELETE', path: `/user/calendar-feed`, auth: true }, options);
+}
+
+/** List medicines (GET /medicine) */
+export function getMedicines(options?: RequestOptions): Promise<Medicine[]> {
+	return request<Medicine[]>({ operation: 'getMedicines', method: 'GET', path: `/medicine`, auth: true, response: {'type':'array','items':{'$ref':'Medicine'}} }, options);
+}
+
+/** Create a medicine (POST /medicine) */
+export function createMedicine(body: MedicineRequest, options?: RequestOptions): Promise<Medicine> {
+	return request<Medicine>({ operation: 'createMedicine', method: 'POST', path: `/medicine`, body, auth: true, response: {'$ref':'Medicine'} }, options);
+}
+
+/** Get a medicine (GET /medicine/{id}) */
+export function getMedicine(params: { id: string }, options?: RequestOptions): Promise<Medicine> {
+	return request<Medicine>({ operation: 'getMedicine', method: 'GET', path: `/medicine/${encodeURIComponent(params.id)}`, auth: true, response: {'$ref':'Medicine'} }, options);
+}
+
+/** Update a medicine (PUT /medicine/{id}) */
+export function updateMedicine(params: { id: string }, body: Medicine, options?: RequestOptions): Promise<Medicine> {
+	return request<Medicine>({ operation: 'updateMedicine', method: 'PUT', path: `/medicine/${encodeURIComponent(params.id)}`, body, auth: true, response: {'$ref':'Medicine'} }, options);
+}
+
+/** Delete a medicine (DELETE /medicine/{id}) */
+export function deleteMedicine(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteMedicine', method: 'DELETE', path: `/medicine/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** Log a dose and lower the stock (POST /takedose) */
+export function takeDose(body: DosageHistoryRequest, options?: RequestOptions): Promise<DosageHistory> {
+	return request<DosageHistory>({ operation: 'takeDose', method: 'POST', path: `/takedose`, body, auth: true, response: {'$ref':'DosageHistory'} }, options);
+}
+
+/** Add stock to a medicine (POST /addstock) */
+export function addStock(body: AddStockRequest, options?: RequestOptions): Promise<Medicine> {
+	return request<Medicine>({ operation: 'addStock', method: 'POST', path: `/addstock`, body, auth: true, response: {'$ref':'Medicine'} }, options);
+}
+
+/** List medicines with the moment their stock runs out (GET /medicineExpiry) */
+export function getMedicineExpiry(options?: RequestOptions): Promise<MedicineWithExpiry[]> {
+	return request<MedicineWithExpiry[]>({ operation: 'getMedicineExpiry', method: 'GET', path: `/medicineExpiry`, auth: true, response: {'type':'array','items':{'$ref':'MedicineWithExpiry'}} }, options);
+}
+
+/** Search the medicines database (GET /medicines/search) */
+export function searchMedicines(params: { q: string }, options?: RequestOptions): Promise<MedicineSearchResult[]> {
+	return request<MedicineSearchResult[]>({ operation: 'searchMedicines', method: 'GET', path: `/medicines/search`, query: { q: params.q }, auth: true, response: {'type':'array','items':{'$ref':'MedicineSearchResult'}} }, options);
+}
+
+/** List schedules (GET /schedule) */
+export function getSchedules(options?: RequestOptions): Promise<Schedule[]> {
+	return request<Schedule[]>({ operation: 'getSchedules', method: 'GET', path: `/schedule`, auth: true, response: {'type':'array','items':{'$ref':'Schedule'}} }, options);
+}
+
+/** Create a schedule (POST /schedule) */
+export function createSchedule(body: ScheduleRequest, options?: RequestOptions): Promise<Schedule> {
+	return request<Schedule>({ operation: 'createSchedule', method: 'POST', path: `/schedule`, body, auth: true, response: {'$ref':'Schedule'} }, options);
+}
+
+/** Get a schedule (GET /schedule/{id}) */
+export function getSchedule(params: { id: string }, options?: RequestOptions): Promise<Schedule> {
+	return request<Schedule>({ operation: 'getSchedule', method: 'GET', path: `/schedule/${encodeURIComponent(params.id)}`, auth: true, response: {'$ref':'Schedule'} }, options);
+}
+
+/** Update a schedule (PUT /schedule/{id}) */
+export function updateSchedule(params: { id: string }, body: Schedule, options?: RequestOptions): Promise<Schedule> {
+	return request<Schedule>({ operation: 'updateSchedule', method: 'PUT', path: `/schedule/${encodeURIComponent(params.id)}`, body, auth: true, response: {'$ref':'Schedule'} }, options);
+}
+
+/** Delete a schedule (DELETE /schedule/{id}) */
+export function deleteSchedule(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteSchedule', method: 'DELETE', path: `/schedule/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** Today's schedule grouped by time slot (GET /daily) */
+export function getDailySchedule(options?: RequestOptions): Promise<DailySchedule> {
+	return request<DailySchedule>({ operation: 'getDailySchedule', method: 'GET', path: `/daily`, auth: true, response: {'$ref':'DailySchedule'} }, options);
+}
+
+/** List logged doses (GET /history) */
+export function getDosageHistories(options?: RequestOptions): Promise<DosageHistory[]> {
+	return request<DosageHistory[]>({ operation: 'getDosageHistories', method: 'GET', path: `/history`, auth: true, response: {'type':'array','items':{'$ref':'DosageHistory'}} }, options);
+}
+
+/** Delete a logged dose and restore the stock (DELETE /history/{id}) */
+export function deleteDosageHistory(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteDosageHistory', method: 'DELETE', path: `/history/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** List the doses skipped on purpose, newest first (GET /skips) */
+export function getSkippedDoses(options?: RequestOptions): Promise<SkippedDose[]> {
+	return request<SkippedDose[]>({ operation: 'getSkippedDoses', method: 'GET', path: `/skips`, auth: true, response: {'type':'array','items':{'$ref':'SkippedDose'}} }, options);
+}
+
+/** Skip a scheduled dose on purpose, with the reason (POST /skips) */
+export function skipDose(body: SkipDoseRequest, options?: RequestOptions): Promise<SkippedDose> {
+	return request<SkippedDose>({ operation: 'skipDose', method: 'POST', path: `/skips`, body, auth: true, response: {'$ref':'SkippedDose'} }, options);
+}
+
+/** Undo skipping a dose (DELETE /skips/{id}) */
+export function deleteSkippedDose(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteSkippedDose', method: 'DELETE', path: `/skips/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** List journal entries, newest first (GET /journal) */
+export function getJournalEntries(options?: RequestOptions): Promise<JournalEntry[]> {
+	return request<JournalEntry[]>({ operation: 'getJournalEntries', method: 'GET', path: `/journal`, auth: true, response: {'type':'array','items':{'$ref':'JournalEntry'}} }, options);
+}
+
+/** Add a note, side effect, symptom or measurement to the journal (POST /journal) */
+export function createJournalEntry(body: JournalEntryRequest, options?: RequestOptions): Promise<JournalEntry> {
+	return request<JournalEntry>({ operation: 'createJournalEntry', method: 'POST', path: `/journal`, body, auth: true, response: {'$ref':'JournalEntry'} }, options);
+}
+
+/** Change a journal entry (PUT /journal/{id}) */
+export function updateJournalEntry(params: { id: string }, body: JournalEntryRequest, options?: RequestOptions): Promise<JournalEntry> {
+	return request<JournalEntry>({ operation: 'updateJournalEntry', method: 'PUT', path: `/journal/${encodeURIComponent(params.id)}`, body, auth: true, response: {'$ref':'JournalEntry'} }, options);
+}
+
+/** Delete a journal entry (DELETE /journal/{id}) */
+export function deleteJournalEntry(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteJournalEntry', method: 'DELETE', path: `/journal/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** Adherence of the last seven days (GET /adherence) */
+export function getWeeklyAdherence(options?: RequestOptions): Promise<WeeklyAdherence> {
+	return request<WeeklyAdherence>({ operation: 'getWeeklyAdherence', method: 'GET', path: `/adherence`, auth: true, response: {'$ref':'WeeklyAdherence'} }, options);
+}
+
+/** List the shares the user gave and received (GET /shares) */
+export function getShares(options?: RequestOptions): Promise<ShareOverview> {
+	return request<ShareOverview>({ operation: 'getShares', method: 'GET', path: `/shares`, auth: true, response: {'$ref':'ShareOverview'} }, options);
+}
+
+/** Invite a caregiver (POST /shares) */
+export function createShare(body: ShareRequest, options?: RequestOptions): Promise<Share> {
+	return request<Share>({ operation: 'createShare', method: 'POST', path: `/shares`, body, auth: true, response: {'$ref':'Share'} }, options);
+}
+
+/** Change the permission of a share (PUT /shares/{id}) */
+export function updateShare(params: { id: string }, body: UpdateShareRequest, options?: RequestOptions): Promise<Share> {
+	return request<Share>({ operation: 'updateShare', method: 'PUT', path: `/shares/${encodeURIComponent(params.id)}`, body, auth: true, response: {'$ref':'Share'} }, options);
+}
+
+/** Revoke, decline or leave a share (DELETE /shares/{id}) */
+export function deleteShare(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deleteShare', method: 'DELETE', path: `/shares/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
+
+/** Accept an invitation (POST /shares/{id}/accept) */
+export function acceptShare(params: { id: string }, options?: RequestOptions): Promise<Share> {
+	return request<Share>({ operation: 'acceptShare', method: 'POST', path: `/shares/${encodeURIComponent(params.id)}/accept`, auth: true, response: {'$ref':'Share'} }, options);
+}
+
+/** Search users (GET /admin/users) */
+export function getAllUsers(params: { search?: string; status?: 'active' | 'inactive'; role?: 'admin' | 'user'; page?: number; pageSize?: number }, options?: RequestOptions): Promise<AdminUsersListResponse> {
+	return request<AdminUsersListResponse>({ operation: 'getAllUsers', method: 'GET', path: `/admin/users`, query: { search: params.search, status: params.status, role: params.role, page: params.page, pageSize: params.pageSize }, auth: true, response: {'$ref':'AdminUsersListResponse'} }, options);
+}
+
+/** What a user has stored and when they were last active (GET /admin/users/{userId}/stats) */
+export function getUserStats(params: { userId: string }, options?: RequestOptions): Promise<AdminUserStatsResponse> {
+	return request<AdminUserStatsResponse>({ operation: 'getUserStats', method: 'GET', path: `/admin/users/${encodeURIComponent(params.userId)}/stats`, auth: true, response: {'$ref':'AdminUserStatsResponse'} }, options);
+}
+
+/** Activate a user (PUT /admin/users/{userId}/activate) */
+export function activateUser(params: { userId: string }, options?: RequestOptions): Promise<AdminUserResponse> {
+	return request<AdminUserResponse>({ operation: 'activateUser', method: 'PUT', path: `/admin/users/${encodeURIComponent(params.userId)}/activate`, auth: true, response: {'$ref':'AdminUserResponse'} }, options);
+}
+
+/** Deactivate a user (PUT /admin/users/{userId}/deactivate) */
+export function deactivateUser(params: { userId: string }, options?: RequestOptions): Promise<AdminUserResponse> {
+	return request<AdminUserResponse>({ operation: 'deactivateUser', method: 'PUT', path: `/admin/users/${encodeURIComponent(params.userId)}/deactivate`, auth: true, response: {'$ref':'AdminUserResponse'} }, options);
+}
+
+/** Delete a user (DELETE /admin/users/{userId}) */
+export function deleteUser(params: { userId: string }, options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'deleteUser', method: 'DELETE', path: `/admin/users/${encodeURIComponent(params.userId)}`, auth: true, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Reset the two-factor authentication of a user (DELETE /admin/users/{userId}/2fa) */
+export function resetTwoFactor(params: { userId: string }, options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'resetTwoFactor', method: 'DELETE', path: `/admin/users/${encodeURIComponent(params.userId)}/2fa`, auth: true, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Log a user out on all devices (DELETE /admin/users/{userId}/sessions) */
+export function logoutUserEverywhere(params: { userId: string }, options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'logoutUserEverywhere', method: 'DELETE', path: `/admin/users/${encodeURIComponent(params.userId)}/sessions`, auth: true, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Make a user admin (PUT /admin/users/{userId}/admin) */
+export function grantAdmin(params: { userId: string }, options?: RequestOptions): Promise<AdminUserResponse> {
+	return request<AdminUserResponse>({ operation: 'grantAdmin', method: 'PUT', path: `/admin/users/${encodeURIComponent(params.userId)}/admin`, auth: true, response: {'$ref':'AdminUserResponse'} }, options);
+}
+
+/** Take admin privileges away from a user (DELETE /admin/users/{userId}/admin) */
+export function revokeAdmin(params: { userId: string }, options?: RequestOptions): Promise<AdminUserResponse> {
+	return request<AdminUserResponse>({ operation: 'revokeAdmin', method: 'DELETE', path: `/admin/users/${encodeURIComponent(params.userId)}/admin`, auth: true, response: {'$ref':'AdminUserResponse'} }, options);
+}
+
+/** Send the activation email again (POST /admin/users/{userId}/activation-email) */
+export function resendActivationEmail(params: { userId: string }, options?: RequestOptions): Promise<MessageResponse> {
+	return request<MessageResponse>({ operation: 'resendActivationEmail', method: 'POST', path: `/admin/users/${encodeURIComponent(params.userId)}/activation-email`, auth: true, response: {'$ref':'MessageResponse'} }, options);
+}
+
+/** Browse the audit log of admin actions and security events (GET /admin/audit) */
+export function getAuditLog(params: { category?: 'admin' | 'security'; userId?: string; page?: number; pageSize?: number }, options?: RequestOptions): Promise<AuditLogResponse> {
+	return request<AuditLogResponse>({ operation: 'getAuditLog', method: 'GET', path: `/admin/audit`, query: { category: params.category, userId: params.userId, page: params.page, pageSize: params.pageSize }, auth: true, response: {'$ref':'AuditLogResponse'} }, options);
+}
+
+/** List the patient profiles of the account (GET /profiles) */
+export function getPatientProfiles(options?: RequestOptions): Promise<PatientProfile[]> {
+	return request<PatientProfile[]>({ operation: 'getPatientProfiles', method: 'GET', path: `/profiles`, auth: true, response: {'type':'array','items':{'$ref':'PatientProfile'}} }, options);
+}
+
+/** Add a patient profile (POST /profiles) */
+export function createPatientProfile(body: PatientProfileRequest, options?: RequestOptions): Promise<PatientProfile> {
+	return request<PatientProfile>({ operation: 'createPatientProfile', method: 'POST', path: `/profiles`, body, auth: true, response: {'$ref':'PatientProfile'} }, options);
+}
+
+/** Change the name, colour or avatar of a patient profile (PUT /profiles/{id}) */
+export function updatePatientProfile(params: { id: string }, body: PatientProfileRequest, options?: RequestOptions): Promise<PatientProfile> {
+	return request<PatientProfile>({ operation: 'updatePatientProfile', method: 'PUT', path: `/profiles/${encodeURIComponent(params.id)}`, body, auth: true, response: {'$ref':'PatientProfile'} }, options);
+}
+
+/** Delete a patient profile (DELETE /profiles/{id}) */
+export function deletePatientProfile(params: { id: string }, options?: RequestOptions): Promise<void> {
+	return request<void>({ operation: 'deletePatientProfile', method: 'DELETE', path: `/profiles/${encodeURIComponent(params.id)}`, auth: true }, options);
+}
@@ -0,0 +1,749 @@
+// Public API of the frontend: thin wrappers around the client generated from the backend's
+// OpenAPI description (./generated.ts), plus the offline queue for mutations made without a connection.
+import { browser } from '$app/environment';
+import { get } from 'svelte/store';
+import {
+	enqueueMutation,
+	removeMutation,
+	updateMutation,
+	pendingMutations,
+	syncing,
+	syncConflicts,
+	isNetworkError,
+	isPendingId,
+	type AddStockPayload,
+	type MutationScope,
+	type QueuedMutation,
+	type StockPickup,
+	type SyncConflict
+} from '$lib/offlineQueue';
+import { toLocalDateTimeString } from '$lib/datetime';
+import { clearCachedApiData } from '$lib/pwa';
+import { createPasskey, getPasskeyAssertion } from '$lib/webauthn';
+import { activeAccount, can, sharedAccounts } from '$lib/stores/account';
+import { activeProfile } from '$lib/stores/profile';
+import * as generated from './generated';
+import { ApiError, isApiError } from './errors';
+
+export { ApiError, isApiError, type ApiErrorKind } from './errors';
+export { getAccessToken, setAccessToken } from './client';
+import { getActingFor, getSelectedProfile, setAccessToken, type RequestOptions } from './client';
+
+// Backend DTOs, generated from the API description
+export type {
+	Medicine,
+	MedicineRequest,
+	PrnSettings,
+	StockBatch,
+	MedicineSearchResult,
+	Schedule,
+	ScheduleRequest,
+	ScheduleRecurrence,
+	RecurrenceType,
+	TaperStep,
+	MedicineScheduleItem,
+	TimeSlot,
+	DailySchedule,
+	AdherenceStatus,
+	DayAdherence,
+	WeeklyAdherence,
+	AuthResponse,
+	RegistrationResponse,
+	AdminUsersListResponse,
+	AdminUserStatsResponse,
+	AuditEvent,
+	AuditEventType,
+	AuditLogResponse,
+	Share,
+	ShareOverview,
+	SharePermission,
+	ShareStatus,
+	PatientProfile,
+	PatientProfileRequest,
+	TwoFactorChallengeResponse,
+	TwoFactorMethod,
+	TwoFactorStatusResponse,
+	PasskeyResponse,
+	TotpSetupResponse,
+	PasskeyRegistrationOptionsResponse,
+	PasskeyRegistrationRequest,
+	PasskeyLoginOptionsResponse,
+	PasskeyLoginRequest,
+	SessionResponse,
+	CalendarFeed,
+	CalendarFeedRequest,
+	TimezoneMode,
+	JournalEntry,
+	JournalEntryRequest,
+	JournalEntryType,
+	MeasurementType,
+	SkippedDose,
+	SkipDoseRequest,
+	SkipReason
+} from './generated';
+import type {
+	Medicine,
+	MedicineRequest,
+	MedicineSearchResult,
+	Schedule,
+	ScheduleRequest,
+	DailySchedule,
+	WeeklyAdherence,
+	RegistrationResponse,
+	AdminUsersListResponse,
+	AdminUserStatsResponse,
+	AuditLogResponse,
+	Share,
+	ShareOverview,
+	SharePermission,
+	PatientProfile,
+	PatientProfileRequest,
+	AuthResponse,
+	TwoFactorChallengeResponse,
+	TwoFactorStatusResponse,
+	PasskeyResponse,
+	TotpSetupResponse,
+	SessionResponse,
+	CalendarFeed,
+	CalendarFeedRequest,
+	JournalEntry,
+	JournalEntryRequest,
+	SkippedDose,
+	SkipDoseRequest
+} from './generated';
+
+export type User = generated.UserResponse;
+export type MedicineExpiry = generated.MedicineWithExpiry;
+export type AdminUser = generated.AdminUserResponse;
+
+export interface DosageHistory extends generated.DosageHistory {
+	pending?: boolean; // Logged while offline, not yet synced to the backend
+}
+
+// Calls work on the selected patient profile unless one is given (undefined), null is the account holder.
+// The same goes for the account they act for, null is the user's own.
+function profileOptions(profile: string | null | undefined, actAs?: string | null): RequestOptions {
+	return { ...(profile === undefined ? {} : { profile }), ...(actAs === undefined ? {} : { actAs }) };
+}
+
+// Run a mutation against the backend, or hand it to the offline queue when the network is unavailable.
+// Queued mutations remember the account and profile they were made in, so they are replayed for the same ones.
+async function sendOrQueue<T>(
+	send: (scope: MutationScope) => Promise<T>,
+	queue: (owner: string, scope: MutationScope) => Promise<T>,
+	profile?: string | null,
+	actAs?: string | null
+): Promise<T> {
+	const owner = getCurrentUser()?.username;
+	const scope: MutationScope = {
+		actAs: actAs !== undefined ? actAs : getActingFor(),
+		profile: profile !== undefined ? profile : getSelectedProfile()
+	};
+	if (owner && browser && !navigator.onLine) {
+		return queue(owner, scope);
+	}
+	try {
+		return await send(scope);
+	} catch (e) {
+		if (owner && isNetworkError(e)) {
+			return queue(owner, scope);
+		}
+		throw e;
+	}
+}
+
+// A caregiver only gets to make the changes the share allows. The backend answers 403 as well,
+// this saves the round trip and keeps such changes out of the offline queue.
+function requirePermission(required: SharePermission, operation: string, actAs?: string | null): void {
+	// A change for another account than the active one, e.g. from a reminder, follows that account's share
+	const account = actAs === undefined || actAs === getActingFor()
+		? get(activeAccount)
+		: (get(sharedAccounts).find((share) => share.ownerId === actAs) ?? null);
+	if (!can(account, required)) {
+		throw new ApiError('forbidden', `The shared account does not allow ${operation}`, 403, operation);
+	}
+}
+
+// Medicine API
+export async function getMedicines(profile?: string | null): Promise<Medicine[]> {
+	return generated.getMedicines(profileOptions(profile));
+}
+
+// Search suggestions are best effort, failures just mean no suggestions
+export async function searchMedicines(query: string): Promise<MedicineSearchResult[]> {
+	if (query.length < 2) {
+		return [];
+	}
+	try {
+		return await generated.searchMedicines({ q: query });
+	} catch (e) {
+		console.error('Failed to search medicines:', e);
+		return [];
+	}
+}
+
+export async function getMedicine(id: string): Promise<Medicine> {
+	return generated.getMedicine({ id });
+}
+
+export async function createMedicine(medicine: MedicineRequest): Promise<Medicine> {
+	requirePermission('MANAGE', 'createMedicine');
+	return generated.createMedicine(medicine);
+}
+
+export async function updateMedicine(id: string, medicine: Medicine, profile?: string | null): Promise<Medicine> {
+	requirePermission('MANAGE', 'updateMedicine');
+	return generated.updateMedicine({ id }, medicine, profileOptions(profile));
+}
+
+export async function deleteMedicine(id: string): Promise<void> {
+	requirePermission('MANAGE', 'deleteMedicine');
+	return generated.deleteMedicine({ id });
+}
+
+// Returns null when the connection is down and the stock addition was queued for later sync.
+// A lot number or expiry date records the stock as a package picked up from the pharmacy.
+export async function addStock(medicineId: string, amount: number, pickup: StockPickup = {}): Promise<Medicine | null> {
+	requirePermission('MANAGE', 'addStock');
+	return sendOrQueue<Medicine | null>(
+		(scope) => sendAddStock({ medicineId, amount, ...pickup }, scope),
+		async (owner, scope) => {
+			await enqueueMutation('addStock', { medicineId, amount, ...pickup }, owner, scope);
+			return null;
+		}
+	);
+}
+
+function sendAddStock(payload: AddStockPayload, options?: RequestOptions): Promise<Medicine> {
+	return generated.addStock(payload, options);
+}
+
+// Schedule API
+export async function getSchedules(profile?: string | null): Promise<Schedule[]> {
+	return generated.getSchedules(profileOptions(profile));
+}
+
+export async function getSchedule(id: string): Promise<Schedule> {
+	return generated.getSchedule({ id });
+}
+
+export async function createSchedule(schedule: ScheduleRequest): Promise<Schedule> {
+	requirePermission('MANAGE', 'createSchedule');
+	return generated.createSchedule(schedule);
+}
+
+export async function updateSchedule(id: string, schedule: Schedule): Promise<Schedule> {
+	requirePermission('MANAGE', 'updateSchedule');
+	return generated.updateSchedule({ id }, schedule);
+}
+
+export async function deleteSchedule(id: string): Promise<void> {
+	requirePermission('MANAGE', 'deleteSchedule');
+	return generated.deleteSchedule({ id });
+}
+
+// Daily schedule
+export async function getDailySchedule(): Promise<DailySchedule> {
+	return generated.getDailySchedule();
+}
+
+// Dosage history
+// When the connection is down the dose is queued and a pending DosageHistory is returned
+export async function takeDose(
+	medicineId: string,
+	amount: number,
+	scheduledTime?: string,
+	datetime?: string,
+	profile?: string | null,
+	actAs?: string | null
+): Promise<DosageHistory> {
+	requirePermission('LOG_DOSES', 'takeDose', actAs);
+	return sendOrQueue(
+		(scope) => sendTakeDose(medicineId, amount, scheduledTime, datetime, scope),
+		async (owner, scope) => {
+			// Record the moment the dose was taken, not the moment it gets synced
+			const payload = { medicineId, amount, scheduledTime, datetime: datetime ?? toLocalDateTimeString(new Date()) };
+			const mutation = await enqueueMutation('takeDose', payload, owner, scope);
+			return { id: mutation.id, ...payload, pending: true };
+		},
+		profile,
+		actAs
+	);
+}
+
+function sendTakeDose(medicineId: string, amount: number, scheduledTime?: string, datetime?: string, options?: RequestOptions): Promise<DosageHistory> {
+	return generated.takeDose({ medicineId, amount, scheduledTime, datetime }, options);
+}
+
+export async function getDosageHistories(profile?: string | null, actAs?: string | null): Promise<DosageHistory[]> {
+	return generated.getDosageHistories(profileOptions(profile, actAs));
+}
+
+export async function deleteDosageHistory(id: string, profile?: string | null): Promise<void> {
+	requirePermission('LOG_DOSES', 'deleteDosageHistory');
+	// Undoing a dose that was never synced only needs to drop it from the queue
+	if (isPendingId(id)) {
+		await removeMutation(id);
+		return;
+	}
+
+	return sendOrQueue(
+		(scope) => sendDeleteDosageHistory(id, scope),
+		async (owner, scope) => {
+			await enqueueMutation('deleteDosageHistory', { dosageHistoryId: id }, owner, scope);
+		},
+		profile
+	);
+}
+
+function sendDeleteDosageHistory(id: string, options?: RequestOptions): Promise<void> {
+	return generated.deleteDosageHistory({ id }, options);
+}
+
+// Doses skipped on purpose, which do not count as missed
+export async function getSkippedDoses(profile?: string | null): Promise<SkippedDose[]> {
+	return generated.getSkippedDoses(profileOptions(profile));
+}
+
+export async function skipDose(skip: SkipDoseRequest, profile?: string | null): Promise<SkippedDose> {
+	requirePermission('LOG_DOSES', 'skipDose');
+	return generated.skipDose(skip, profileOptions(profile));
+}
+
+export async function deleteSkippedDose(id: string, profile?: string | null): Promise<void> {
+	requirePermission('LOG_DOSES', 'deleteSkippedDose');
+	return generated.deleteSkippedDose({ id }, profileOptions(profile));
+}
+
+// Journal of notes, side effects, symptoms and measurements
+export async function getJournalEntries(profile?: string | null): Promise<JournalEntry[]> {
+	return generated.getJournalEntries(profileOptions(profile));
+}
+
+export async function createJournalEntry(entry: JournalEntryRequest, profile?: string | null): Promise<JournalEntry> {
+	requirePermission('LOG_DOSES', 'createJournalEntry');
+	return generated.createJournalEntry(entry, profileOptions(profile));
+}
+
+export async function updateJournalEntry(id: string, entry: JournalEntryRequest, profile?: string | null): Promise<JournalEntry> {
+	requirePermission('LOG_DOSES', 'updateJournalEntry');
+	return generated.updateJournalEntry({ id }, entry, profileOptions(profile));
+}
+
+export async function deleteJournalEntry(id: string, profile?: string | null): Promise<void> {
+	requirePermission('LOG_DOSES', 'deleteJournalEntry');
+	return generated.deleteJournalEntry({ id }, profileOptions(profile));
+}
+
+// Whether a queued mutation was made by the user in the given account (owner ID, null for their own)
+// and patient profile (null for the account holder)
+function isQueuedFor(mutation: QueuedMutation, username: string | undefined, actAs: string | null, profile: string | null): boolean {
+	return mutation.owner === username && (mutation.actAs ?? null) === actAs && (mutation.profile ?? null) === profile;
+}
+
+// Offline queue: doses logged while offline that have not been synced yet, for the current user, account and profile
+export function getPendingDoses(mutations: QueuedMutation[], username: string | undefined, actAs: string | null = null, profile: string | null = null): DosageHistory[] {
+	return mutations
+		.filter((m): m is Extract<QueuedMutation, { kind: 'takeDose' }> => m.kind === 'takeDose' && isQueuedFor(m, username, actAs, profile))
+		.map((m) => ({ id: m.id, ...m.payload, pending: true }));
+}
+
+// Offline queue: ids of synced doses whose deletion (undo) is still queued
+export function getPendingDeletions(mutations: QueuedMutation[], username: string | undefined, actAs: string | null = null, profile: string | null = null): Set<string> {
+	return new Set(
+		mutations
+			.filter((m): m is Extract<QueuedMutation, { kind: 'deleteDosageHistory' }> => m.kind === 'deleteDosageHistory' && isQueuedFor(m, username, actAs, profile))
+			.map((m) => m.payload.dosageHistoryId)
+	);
+}
+
+function isSameDoseSlot(history: DosageHistory, payload: { medicineId: string; scheduledTime?: string; datetime: string }): boolean {
+	return history.medicineId === payload.medicineId &&
+		history.scheduledTime === payload.scheduledTime &&
+		history.datetime.substring(0, 10) === payload.datetime.substring(0, 10);
+}
+
+// Replay queued mutations in the order they were made.
+// Stops at the first network failure so the remaining mutations keep their order for the next attempt.
+// Returns the conflicts that were resolved by dropping the mutation.
+export async function syncPendingMutations(): Promise<SyncConflict[]> {
+	const username = getCurrentUser()?.username;
+	if (!browser || !username || !navigator.onLine || get(syncing)) return [];
+
+	const queue = get(pendingMutations).filter((m) => m.owner === username);
+	if (queue.length === 0) return [];
+
+	syncing.set(true);
+	const conflicts: SyncConflict[] = [];
+	// Doses may have been logged from another device in the meantime, loaded once per account and profile
+	const histories = new Map<string, DosageHistory[]>();
+	const historiesFor = async (options: RequestOptions): Promise<DosageHistory[]> => {
+		const key = `${options.actAs ?? ''}/${options.profile ?? ''}`;
+		if (!histories.has(key)) {
+			histories.set(key, await generated.getDosageHistories(options));
+		}
+		return histories.get(key)!;
+	};
+	try {
+		for (const mutation of queue) {
+			// Replayed in the account and profile it was made in, whichever are active now
+			const options: RequestOptions = { actAs: mutation.actAs ?? null, profile: mutation.profile ?? null };
+			try {
+				if (mutation.kind === 'takeDose') {
+					const { medicineId, amount, scheduledTime, datetime } = mutation.payload;
+					const logged = await historiesFor(options);
+					if (scheduledTime && logged.some((h) => isSameDoseSlot(h, mutation.payload))) {
+						conflicts.push({ mutation, reason: 'alreadyLogged' });
+					} else {
+						logged.push(await sendTakeDose(medicineId, amount, scheduledTime, datetime, options));
+					}
+				} else if (mutation.kind === 'addStock') {
+					await sendAddStock(mutation.payload, options);
+				} else {
+					await sendDeleteDosageHistory(mutation.payload.dosageHistoryId, options);
+				}
+			} catch (e) {
+				if (isNetworkError(e) || !(e instanceof ApiError) || e.kind === 'server') {
+					await updateMutation({ ...mutation, attempts: mutation.attempts + 1 });
+					break;
+				}
+				if (e.kind === 'invalidResponse') {
+					// The backend did apply the mutation, only its answer was unexpected
+					console.error('Unexpected response while syncing offline change:', e.problems);
+				} else if (e.kind === 'notFound') {
+					// The backend rejected the mutation, retrying will not help.
+					// A dose that is already gone needs no further undo
+					if (mutation.kind !== 'deleteDosageHistory') {
+						conflicts.push({ mutation, reason: 'notFound', message: e.message });
+					}
+				} else {
+					conflicts.push({ mutation, reason: 'rejected', message: e.message });
+				}
+			}
+			await removeMutation(mutation.id);
+		}
+	} catch (e) {
+		console.error('Failed to sync offline changes:', e);
+	} finally {
+		syncing.set(false);
+	}
+
+	if (conflicts.length > 0) {
+		syncConflicts.update((existing) => [...existing, ...conflicts]);
+	}
+	return conflicts;
+}
+
+// Adherence and analytics
+export async function getWeeklyAdherence(): Promise<WeeklyAdherence> {
+	return generated.getWeeklyAdherence();
+}
+
+// User authentication API
+// The account is created but NOT logged in, it needs activation via email first
+export async function registerUser(username: string, password: string, email: string, locale: string = 'en'): Promise<RegistrationResponse> {
+	return generated.registerUser({ username, password, email }, { locale });
+}
+
+// Store user in localStorage and access token in memory
+// Refresh token is in HttpOnly cookie (set by server)
+async function startSession(auth: Pick<AuthResponse, 'user' | 'token'>): Promise<User> {
+	if (browser) {
+		// Drop offline copies of whoever used this device before
+		await clearCachedApiData();
+		activeAccount.reset();
+		activeProfile.reset();
+		localStorage.setItem('medicate_user', JSON.stringify(auth.user));
+		setAccessToken(auth.token);
+	}
+	return auth.user;
+}
+
+// Accounts with two-factor authentication get a challenge instead of the session,
+// finish the login with verifyTwoFactor() or loginWithPasskey()
+export async function loginUser(username: string, password: string): Promise<User | TwoFactorChallengeResponse> {
+	const response = await generated.loginUser({ username, password });
+	return 'challengeToken' in response ? response : startSession(response);
+}
+
+export function isTwoFactorChallenge(result: User | TwoFactorChallengeResponse): result is TwoFactorChallengeResponse {
+	return 'challengeToken' in result;
+}
+
+// Second login step with a code from the authenticator app or a recovery code
+export async function verifyTwoFactor(challengeToken: string, code: string): Promise<User> {
+	return startSession(await generated.verifyTwoFactor({ challengeToken, code }));
+}
+
+// Log in with a passkey: as second step with the challenge token, or on its own without it
+export async function loginWithPasskey(challengeToken: string | null = null): Promise<User> {
+	const options = await generated.getPasskeyLoginOptions({ challengeToken });
+	return startSession(await generated.loginWithPasskey(await getPasskeyAssertion(options)));
+}
+
+// Activate an account with the token from the verification email, logs the user in
+export async function activateAccount(token: string): Promise<User> {
+	return startSession(await generated.activateAccount({ token }));
+}
+
+export async function requestPasswordReset(email: string, locale: string = 'en'): Promise<{ message: string; emailId: string }> {
+	return generated.requestPasswordReset({ email }, { locale });
+}
+
+export async function verifyResetToken(token: string): Promise<{ username: string }> {
+	return generated.verifyResetToken({ token });
+}
+
+export async function updatePassword(username: string, newPassword: string): Promise<void> {
+	await generated.updatePassword({ username, password: newPassword });
+}
+
+export async function getMedicineExpiry(profile?: string | null): Promise<MedicineExpiry[]> {
+	return generated.getMedicineExpiry(profileOptions(profile));
+}
+
+// Logout function to clear authentication
+export async function logout(): Promise<void> {
+	if (browser) {
+		// Call backend to clear HttpOnly cookie
+		try {
+			await generated.logout();
+		} catch (e) {
+			console.error('Failed to logout on server:', e);
+		}
+
+		// Clear user from localStorage, access token from memory and cached API responses
+		localStorage.removeItem('medicate_user');
+		setAccessToken(null);
+		activeAccount.reset();
+		activeProfile.reset();
+		await clearCachedApiData();
+	}
+}
+
+// Get user profile
+export async function getProfile(): Promise<User> {
+	return generated.getProfile();
+}
+
+// Home time zone that schedules in home time follow, null to follow the device
+export async function updateHomeTimezone(timezone: string | null): Promise<User> {
+	const user = await generated.updateHomeTimezone({ timezone });
+	if (browser) {
+		localStorage.setItem('medicate_user', JSON.stringify(user));
+	}
+	return user;
+}
+
+// Minutes after its time before a dose not taken counts as missed, null for the default
+export async function updateGracePeriod(minutes: number | null): Promise<User> {
+	const user = await generated.updateGracePeriod({ minutes });
+	if (browser) {
+		localStorage.setItem('medicate_user', JSON.stringify(user));
+	}
+	return user;
+}
+
+// Update user profile
+export async function updateProfile(email: string, firstName: string, lastName: string): Promise<User> {
+	const user = await generated.updateProfile({ email, firstName, lastName });
+
+	// Update stored user in localStorage
+	if (browser) {
+		localStorage.setItem('medicate_user', JSON.stringify(user));
+	}
+
+	return user;
+}
+
+// Request password change (sends email with reset link)
+export async function requestPasswordChange(email: string, locale: string = 'en'): Promise<{ message: string; emailId: string }> {
+	return generated.requestPasswordReset({ email }, { locale });
+}
+
+// Helper to check if user is logged in
+export function isLoggedIn(): boolean {
+	return getCurrentUser() !== null;
+}
+
+// Helper to get current user
+export function getCurrentUser(): User | null {
+	if (!browser) return null;
+	const userJson = localStorage.getItem('medicate_user');
+	if (!userJson) return null;
+	try {
+		return JSON.parse(userJson);
+	} catch (e) {
+		console.error('Failed to parse user from localStorage', e);
+		return null;
+	}
+}
+
+// Two-factor authentication of the user's own account
+export async function getTwoFactorStatus(): Promise<TwoFactorStatusResponse> {
+	return generated.getTwoFactorStatus();
+}
+
+export async function setupTotp(): Promise<TotpSetupResponse> {
+	return generated.setupTotp();
+}
+
+// Returns the recovery codes, they are only shown this once
+export async function enableTotp(code: string): Promise<string[]> {
+	return (await generated.enableTotp({ code })).recoveryCodes;
+}
+
+export async function disableTotp(code: string): Promise<TwoFactorStatusResponse> {
+	return generated.disableTotp({ code });
+}
+
+export async function regenerateRecoveryCodes(): Promise<string[]> {
+	return (await generated.regenerateRecoveryCodes()).recoveryCodes;
+}
+
+// Let the browser create a passkey and register it under the given name
+export async function registerPasskey(name: string): Promise<PasskeyResponse> {
+	const options = await generated.getPasskeyRegistrationOptions();
+	return generated.registerPasskey(await createPasskey(options, name));
+}
+
+export async function deletePasskey(id: string): Promise<void> {
+	return generated.deletePasskey({ id });
+}
+
+// Devices the user is logged in on, most recently used first
+export async function getSessions(): Promise<SessionResponse[]> {
+	return generated.getSessions();
+}
+
+// Log out one device, after logging out the current one the user has to log out here as well
+export async function revokeSession(id: string): Promise<void> {
+	await generated.deleteSession({ id });
+}
+
+export async function revokeOtherSessions(): Promise<void> {
+	await generated.deleteOtherSessions();
+}
+
+// Calendar feed of the user's own doses, null when there is none
+export async function getCalendarFeed(): Promise<CalendarFeed | null> {
+	try {
+		return await generated.getCalendarFeed();
+	} catch (e) {
+		if (isApiError(e, 'notFound')) return null;
+		throw e;
+	}
+}
+
+// Also used to regenerate the URL, the previous one stops working
+export async function createCalendarFeed(settings: CalendarFeedRequest): Promise<CalendarFeed> {
+	return generated.createCalendarFeed(settings);
+}
+
+export async function updateCalendarFeed(settings: CalendarFeedRequest): Promise<CalendarFeed> {
+	return generated.updateCalendarFeed(settings);
+}
+
+export async function revokeCalendarFeed(): Promise<void> {
+	await generated.deleteCalendarFeed();
+}
+
+// Address calendar apps subscribe to, served through the /api proxy
+export function calendarFeedUrl(feed: CalendarFeed): string {
+	return `${location.origin}/api/calendar/${feed.token}.ics`;
+}
+
+// Sharing with caregivers. These always work on the user's own account, not the active one.
+export async function getShares(): Promise<ShareOverview> {
+	return generated.getShares();
+}
+
+export async function inviteCaregiver(email: string, permission: SharePermission): Promise<Share> {
+	return generated.createShare({ email, permission });
+}
+
+export async function updateSharePermission(id: string, permission: SharePermission): Promise<Share> {
+	return generated.updateShare({ id }, { permission });
+}
+
+export async function acceptShare(id: string): Promise<Share> {
+	return generated.acceptShare({ id });
+}
+
+// Revoke a share given to a caregiver, or decline or leave one received
+export async function deleteShare(id: string): Promise<void> {
+	return generated.deleteShare({ id });
+}
+
+// Patient profiles of the active account
+export async function getPatientProfiles(): Promise<PatientProfile[]> {
+	return generated.getPatientProfiles();
+}
+
+export async function createPatientProfile(profile: PatientProfileRequest): Promise<PatientProfile> {
+	requirePermission('MANAGE', 'createPatientProfile');
+	return generated.createPatientProfile(profile);
+}
+
+export async function updatePatientProfile(id: string, profile: PatientProfileRequest): Promise<PatientProfile> {
+	requirePermission('MANAGE', 'updatePatientProfile');
+	return generated.updatePatientProfile({ id }, profile);
+}
+
+// Deletes the profile's medicines, schedules and history as well
+export async function deletePatientProfile(id: string): Promise<void> {
+	requirePermission('MANAGE', 'deletePatientProfile');
+	return generated.deletePatientProfile({ id });
+}
+
+// Admin API
+export type UserQuery = Parameters<typeof generated.getAllUsers>[0];
+export type AuditQuery = Parameters<typeof generated.getAuditLog>[0];
+
+// One page of the users matching the search and filters, sorted by username
+export async function getAllUsers(query: UserQuery = {}): Promise<AdminUsersListResponse> {
+	return generated.getAllUsers({ ...query, search: query.search?.trim() || undefined });
+}
+
+export async function getUserStats(userId: string): Promise<AdminUserStatsResponse> {
+	return generated.getUserStats({ userId });
+}
+
+export async function grantAdmin(userId: string): Promise<AdminUser> {
+	return generated.grantAdmin({ userId });
+}
+
+// Refused by the backend for the last admin
+export async function revokeAdmin(userId: string): Promise<AdminUser> {
+	return generated.revokeAdmin({ userId });
+}
+
+export async function resendActivationEmail(userId: string, locale: string = 'en'): Promise<void> {
+	await generated.resendActivationEmail({ userId }, { locale });
+}
+
+export async function getAuditLog(query: AuditQuery = {}): Promise<AuditLogResponse> {
+	return generated.getAuditLog(query);
+}
+
+export async function activateUser(userId: string): Promise<AdminUser> {
+	return generated.activateUser({ userId });
+}
+
+export async function deactivateUser(userId: string): Promise<AdminUser> {
+	return generated.deactivateUser({ userId });
+}
+
+// Remove the authenticator app, recovery codes and passkeys of a user who lost them
+export async function resetUserTwoFactor(userId: string): Promise<void> {
+	await generated.resetTwoFactor({ userId });
+}
+
+// End all sessions of a user, their devices have to log in again
+export async function logoutUserEverywhere(userId: string): Promise<void> {
+	await generated.logoutUserEverywhere({ userId });
+}
+
+export async function deleteUser(userId: string): Promise<void> {
+	await generated.deleteUser({ userId });
+}
@@ -0,0 +1,46 @@
+// Session changes shared between the open tabs of the app, so a login, logout or new access token
+// in one tab is picked up by the others without a reload
+import { browser } from '$app/environment';
+import type { UserResponse } from './generated';
+
+export type SessionMessage =
+	| { type: 'token'; token: string | null }
+	| { type: 'login'; user: UserResponse }
+	| { type: 'logout' };
+
+const CHANNEL_NAME = 'medicate-session';
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<(message: SessionMessage) => void>();
+
+function notify(message: SessionMessage) {
+	for (const listener of listeners) {
+		listener(message);
+	}
+}
+
+function getChannel(): BroadcastChannel | null {
+	if (!browser || typeof BroadcastChannel === 'undefined') return null;
+	if (!channel) {
+		channel = new BroadcastChannel(CHANNEL_NAME);
+		channel.onmessage = (event: MessageEvent<SessionMessage>) => notify(event.data);
+	}
+	return channel;
+}
+
+// Sends the change to the other tabs. This tab normally applied it already,
+// includeThisTab also runs the listeners here (e.g. when the session expired underneath the page).
+export function broadcastSession(message: SessionMessage, { includeThisTab = false } = {}): void {
+	getChannel()?.postMessage(message);
+	if (includeThisTab) {
+		notify(message);
+	}
+}
+
+export function onSessionMessage(listener: (message: SessionMessage) => void): () => void {
+	getChannel();
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
@@ -0,0 +1,80 @@
+// Runtime check of API responses against the schemas from the OpenAPI description.
+// Only shapes are checked (types, required properties, enums, alternatives); unknown properties are allowed
+// so the backend can add fields without breaking older frontends.
+
+export interface JsonSchema {
+	$ref?: string;
+	type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+	enum?: readonly unknown[];
+	nullable?: boolean;
+	required?: readonly string[];
+	properties?: Record<string, JsonSchema>;
+	items?: JsonSchema;
+	oneOf?: readonly JsonSchema[];
+}
+
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+// Returns the problems found, an empty list means the value matches the schema
+export function validate(
+	value: unknown,
+	schema: JsonSchema,
+	schemas: Record<string, JsonSchema>,
+	path: string = '$'
+): string[] {
+	if (schema.$ref) {
+		const resolved = schemas[schema.$ref];
+		if (!resolved) return [`${path}: unknown schema ${schema.$ref}`];
+		return validate(value, resolved, schemas, path);
+	}
+
+	if (schema.oneOf) {
+		const matches = schema.oneOf.some(
+			(alternative) => validate(value, alternative, schemas, path).length === 0
+		);
+		return matches ? [] : [`${path}: matches none of the ${schema.oneOf.length} alternatives`];
+	}
+
+	if (value === null) {
+		return schema.nullable ? [] : [`${path}: expected ${schema.type ?? 'a value'}, got null`];
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		return [`${path}: expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`];
+	}
+
+	switch (schema.type) {
+		case 'object': {
+			if (typeof value !== 'object' || Array.isArray(value)) {
+				return [`${path}: expected object, got ${describe(value)}`];
+			}
+			const record = value as Record<string, unknown>;
+			const problems = (schema.required ?? [])
+				.filter((name) => record[name] === undefined)
+				.map((name) => `${path}.${name}: missing`);
+			for (const [name, property] of Object.entries(schema.properties ?? {})) {
+				if (record[name] !== undefined) {
+					problems.push(...validate(record[name], property, schemas, `${path}.${name}`));
+				}
+			}
+			return problems;
+		}
+		case 'array':
+			if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+			return schema.items
+				? value.flatMap((item, index) => validate(item, schema.items!, schemas, `${path}[${index}]`))
+				: [];
+		case 'integer':
+			return Number.isInteger(value) ? [] : [`${path}: expected integer, got ${describe(value)}`];
+		case 'number':
+		case 'string':
+		case 'boolean':
+			return typeof value === schema.type ? [] : [`${path}: expected ${schema.type}, got ${describe(value)}`];
+		default:
+			return [];
+	}
+}
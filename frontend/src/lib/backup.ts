@@ -0,0 +1,226 @@
+// Backup and restore of a user's medicines, schedules and dose history as a versioned JSON archive.
+// Restoring goes through the regular API: records get new IDs, so schedules and doses are remapped
+// to the IDs of the medicines they were imported as.
+import * as generated from '$lib/api/generated';
+import { getDosageHistories, getMedicines, getSchedules, type DosageHistory, type Medicine, type Schedule } from '$lib/api';
+import { validate } from '$lib/api/validate';
+
+export const BACKUP_FORMAT = 'medicate-backup';
+export const BACKUP_VERSION = 1;
+
+export interface Backup {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	exportedAt: string;
+	medicines: Medicine[];
+	schedules: Schedule[];
+	dosageHistories: DosageHistory[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPlan {
+	mode: ImportMode;
+	// Existing data removed first (replace only)
+	deleteMedicines: Medicine[];
+	deleteSchedules: Schedule[];
+	deleteHistories: DosageHistory[];
+	// Archived medicines, merged into an existing medicine with the same name, dose and unit when there is one
+	medicines: Array<{ archived: Medicine; existing: Medicine | null }>;
+	schedules: Schedule[];
+	histories: DosageHistory[];
+	// Already present (merge only)
+	skippedSchedules: number;
+	skippedHistories: number;
+}
+
+export interface CurrentData {
+	medicines: Medicine[];
+	schedules: Schedule[];
+	histories: DosageHistory[];
+}
+
+export async function createBackup(): Promise<Backup> {
+	const [medicines, schedules, dosageHistories] = await Promise.all([getMedicines(), getSchedules(), getDosageHistories()]);
+	return {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		exportedAt: new Date().toISOString(),
+		medicines,
+		schedules,
+		// Doses still waiting in the offline queue are not on the server yet
+		dosageHistories: dosageHistories.filter((h) => !h.pending).map(({ pending, ...history }) => history)
+	};
+}
+
+function checkList<T>(value: unknown, schemaName: string, path: string, problems: string[]): T[] {
+	if (!Array.isArray(value)) {
+		problems.push(`${path}: expected array`);
+		return [];
+	}
+	value.forEach((item, index) => problems.push(...validate(item, { $ref: schemaName }, generated.schemas, `${path}[${index}]`)));
+	return value as T[];
+}
+
+// Checks a backup file, an empty problem list means it can be imported
+export function parseBackup(text: string): { backup: Backup | null; problems: string[] } {
+	let data: Record<string, unknown>;
+	try {
+		data = JSON.parse(text);
+	} catch (e) {
+		return { backup: null, problems: ['The file is not valid JSON'] };
+	}
+	if (typeof data !== 'object' || data === null || data.format !== BACKUP_FORMAT) {
+		return { backup: null, problems: ['The file is not a Medicate backup'] };
+	}
+	if (typeof data.version !== 'number' || data.version < 1 || data.version > BACKUP_VERSION) {
+		return { backup: null, problems: [`Backup version ${data.version} is not supported, update the app first`] };
+	}
+
+	const problems: string[] = [];
+	const medicines = checkList<Medicine>(data.medicines, 'Medicine', 'medicines', problems);
+	const schedules = checkList<Schedule>(data.schedules, 'Schedule', 'schedules', problems);
+	const dosageHistories = checkList<DosageHistory>(data.dosageHistories, 'DosageHistory', 'dosageHistories', problems);
+
+	const medicineIds = new Set(medicines.map((m) => m.id));
+	if (medicineIds.size !== medicines.length) {
+		problems.push('medicines: duplicate IDs');
+	}
+	schedules.forEach((s, index) => {
+		if (!medicineIds.has(s.medicineId)) problems.push(`schedules[${index}].medicineId: unknown medicine ${s.medicineId}`);
+	});
+	dosageHistories.forEach((h, index) => {
+		if (!medicineIds.has(h.medicineId)) problems.push(`dosageHistories[${index}].medicineId: unknown medicine ${h.medicineId}`);
+	});
+
+	if (problems.length > 0) {
+		return { backup: null, problems };
+	}
+	return {
+		backup: { format: BACKUP_FORMAT, version: data.version, exportedAt: String(data.exportedAt ?? ''), medicines, schedules, dosageHistories },
+		problems
+	};
+}
+
+function sameMedicine(a: Medicine, b: Medicine): boolean {
+	return a.name.trim().toLowerCase() === b.name.trim().toLowerCase() && a.dose === b.dose && a.unit === b.unit;
+}
+
+export function planImport(backup: Backup, current: CurrentData, mode: ImportMode): ImportPlan {
+	const replace = mode === 'replace';
+	const medicines = backup.medicines.map((archived) => ({
+		archived,
+		existing: replace ? null : current.medicines.find((m) => sameMedicine(m, archived)) ?? null
+	}));
+
+	// Existing records in the IDs they will have after the import, to spot what is already there
+	const targetId = new Map(medicines.map(({ archived, existing }) => [archived.id, existing?.id ?? null]));
+	const scheduleKey = (medicineId: string | null, s: Schedule) =>
+		`${medicineId}|${s.time}|${s.amount}|${s.daysOfWeek ?? ''}|${JSON.stringify(s.recurrence ?? null)}`;
+	const historyKey = (medicineId: string | null, h: DosageHistory) => `${medicineId}|${h.datetime.slice(0, 16)}|${h.amount}`;
+	const existingSchedules = new Set(replace ? [] : current.schedules.map((s) => scheduleKey(s.medicineId, s)));
+	const existingHistories = new Set(replace ? [] : current.histories.map((h) => historyKey(h.medicineId, h)));
+
+	const schedules = backup.schedules.filter((s) => !existingSchedules.has(scheduleKey(targetId.get(s.medicineId)!, s)));
+	const histories = backup.dosageHistories.filter((h) => !existingHistories.has(historyKey(targetId.get(h.medicineId)!, h)));
+
+	return {
+		mode,
+		deleteMedicines: replace ? current.medicines : [],
+		deleteSchedules: replace ? current.schedules : [],
+		deleteHistories: replace ? current.histories.filter((h) => !h.pending) : [],
+		medicines,
+		schedules,
+		histories,
+		skippedSchedules: backup.schedules.length - schedules.length,
+		skippedHistories: backup.dosageHistories.length - histories.length
+	};
+}
+
+export function importSteps(plan: ImportPlan): number {
+	return (
+		plan.deleteHistories.length +
+		plan.deleteSchedules.length +
+		plan.deleteMedicines.length +
+		plan.medicines.length +
+		plan.schedules.length +
+		plan.histories.length
+	);
+}
+
+// Runs the plan one request at a time. Doses are logged with their original time; logging takes
+// them from the stock, so the stock and packages are put back to the archived (or existing) value afterwards.
+export async function applyImport(plan: ImportPlan, onProgress: (done: number, total: number) => void = () => {}): Promise<void> {
+	const total = importSteps(plan);
+	let done = 0;
+	const step = () => onProgress(++done, total);
+
+	for (const history of plan.deleteHistories) {
+		await generated.deleteDosageHistory({ id: history.id });
+		step();
+	}
+	for (const schedule of plan.deleteSchedules) {
+		await generated.deleteSchedule({ id: schedule.id });
+		step();
+	}
+	for (const medicine of plan.deleteMedicines) {
+		await generated.deleteMedicine({ id: medicine.id });
+		step();
+	}
+
+	const imported = new Map<string, { medicine: Medicine; stock: number; batches: Medicine['batches'] }>();
+	for (const { archived, existing } of plan.medicines) {
+		let medicine = existing ?? await generated.createMedicine({
+			name: archived.name,
+			dose: archived.dose,
+			unit: archived.unit,
+			stock: archived.stock,
+			description: archived.description,
+			bijsluiter: archived.bijsluiter,
+			activeIngredients: archived.activeIngredients,
+			prn: archived.prn,
+			barcodes: archived.barcodes,
+			timeCritical: archived.timeCritical
+		});
+		// Packages and a requested refill are not part of the create request
+		if (!existing && (archived.batches?.length || archived.refillRequestedAt)) {
+			medicine = await generated.updateMedicine(
+				{ id: medicine.id },
+				{ ...medicine, batches: archived.batches, refillRequestedAt: archived.refillRequestedAt }
+			);
+		}
+		imported.set(archived.id, { medicine, stock: medicine.stock, batches: medicine.batches });
+		step();
+	}
+
+	for (const schedule of plan.schedules) {
+		await generated.createSchedule({
+			medicineId: imported.get(schedule.medicineId)!.medicine.id,
+			time: schedule.time,
+			amount: schedule.amount,
+			daysOfWeek: schedule.daysOfWeek,
+			recurrence: schedule.recurrence,
+			timezoneMode: schedule.timezoneMode
+		});
+		step();
+	}
+
+	const dosedMedicines = new Set<string>();
+	for (const history of plan.histories) {
+		const { medicine } = imported.get(history.medicineId)!;
+		await generated.takeDose({
+			medicineId: medicine.id,
+			amount: history.amount,
+			scheduledTime: history.scheduledTime,
+			datetime: history.datetime
+		});
+		dosedMedicines.add(history.medicineId);
+		step();
+	}
+
+	for (const archivedId of dosedMedicines) {
+		const { medicine, stock, batches } = imported.get(archivedId)!;
+		const latest = await generated.getMedicine({ id: medicine.id });
+		await generated.updateMedicine({ id: medicine.id }, { ...latest, stock, batches });
+	}
+}
@@ -0,0 +1,109 @@
+// Package barcodes: a plain GTIN/EAN (EAN-8, UPC-A, EAN-13, GTIN-14) or the GS1 DataMatrix of
+// medicine packages, which holds the GTIN with the lot number and expiry date. Medicines remember the
+// GTINs of their packages, so a scanned package is recognised again.
+import type { Medicine } from '$lib/api';
+import { daysInMonth } from '$lib/datetime';
+
+export interface ScannedPackage {
+	gtin: string; // GTIN-14, shorter codes padded with zeros
+	lotNumber?: string;
+	expiryDate?: string; // yyyy-MM-dd
+}
+
+// Separates variable length fields in GS1 barcodes (FNC1)
+const GROUP_SEPARATOR = '\u001d';
+
+// Application identifiers in use on medicine packages, with their length when fixed
+const FIXED_LENGTH: Record<string, number> = {
+	'01': 14, // GTIN
+	'11': 6, // Production date
+	'15': 6, // Best before
+	'17': 6 // Expiry date
+};
+const VARIABLE_LENGTH = ['10', '21', '710', '711', '712', '713', '714', '715']; // Lot, serial and national numbers
+
+// GS1 check digit: weights 3 and 1 alternating from the right, excluding the check digit itself
+export function isValidGtin(code: string): boolean {
+	if (!/^(\d{8}|\d{12,14})$/.test(code)) return false;
+	const digits = code.split('').map(Number);
+	const check = digits.pop()!;
+	const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+	return (10 - (sum % 10)) % 10 === check;
+}
+
+// YYMMDD, where day 00 means the end of the month
+function parseGs1Date(value: string): string | undefined {
+	if (!/^\d{6}$/.test(value)) return undefined;
+	const year = 2000 + Number(value.slice(0, 2));
+	const month = Number(value.slice(2, 4));
+	let day = Number(value.slice(4, 6));
+	if (month < 1 || month > 12) return undefined;
+	if (day === 0) {
+		day = daysInMonth(year, month);
+	}
+	return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Element strings as encoded ("01...17...10...<GS>21...") or as printed ("(01)...(17)...")
+function parseElementString(raw: string): Map<string, string> | null {
+	const fields = new Map<string, string>();
+
+	if (raw.startsWith('(')) {
+		for (const match of raw.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+			fields.set(match[1], match[2].trim());
+		}
+		return fields.size > 0 ? fields : null;
+	}
+
+	let rest = raw;
+	while (rest.length > 0) {
+		rest = rest.replace(new RegExp(`^${GROUP_SEPARATOR}+`), '');
+		if (rest.length === 0) break;
+
+		const fixed = Object.keys(FIXED_LENGTH).find(ai => rest.startsWith(ai));
+		if (fixed) {
+			const value = rest.slice(2, 2 + FIXED_LENGTH[fixed]);
+			if (value.length < FIXED_LENGTH[fixed]) return null;
+			fields.set(fixed, value);
+			rest = rest.slice(2 + FIXED_LENGTH[fixed]);
+			continue;
+		}
+
+		const variable = VARIABLE_LENGTH.find(ai => rest.startsWith(ai));
+		if (!variable) break; // Unknown field, its length is unknown too
+		const end = rest.indexOf(GROUP_SEPARATOR);
+		fields.set(variable, (end === -1 ? rest.slice(variable.length) : rest.slice(variable.length, end)).slice(0, 20));
+		rest = end === -1 ? '' : rest.slice(end);
+	}
+	return fields.size > 0 ? fields : null;
+}
+
+// Null for codes that are not a package barcode, like the QR code of a website
+export function parseBarcode(raw: string): ScannedPackage | null {
+	// Scanners may prefix a symbology identifier, e.g. "]d2" for a GS1 DataMatrix
+	const code = raw.trim().replace(/^\][A-Za-z]\d/, '');
+
+	const digits = code.replace(/[\s-]/g, '');
+	if (/^\d+$/.test(digits) && digits.length <= 14) {
+		return isValidGtin(digits) ? { gtin: digits.padStart(14, '0') } : null;
+	}
+
+	const fields = parseElementString(code);
+	const gtin = fields?.get('01');
+	if (!fields || !gtin || !isValidGtin(gtin)) return null;
+
+	return {
+		gtin,
+		lotNumber: fields.get('10') || undefined,
+		expiryDate: parseGs1Date(fields.get('17') ?? '')
+	};
+}
+
+export function findMedicineByBarcode(medicines: Medicine[], gtin: string): Medicine | undefined {
+	return medicines.find(medicine => medicine.barcodes?.includes(gtin));
+}
+
+export function withBarcode(medicine: Medicine, gtin: string): Medicine {
+	const barcodes = medicine.barcodes ?? [];
+	return barcodes.includes(gtin) ? medicine : { ...medicine, barcodes: [...barcodes, gtin] };
+}
@@ -0,0 +1,163 @@
+// Date handling for the whole app. Doses are planned on calendar days and clock times, which only
+// mean something in a time zone: the device's, or the user's home time zone for schedules in home time.
+// Date keys are "YYYY-MM-DD" and clock times "HH:MM", neither carries a time zone of its own, so
+// they are turned into instants here and nowhere else.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Clock and calendar of an instant in a time zone, months from 1
+interface WallClock {
+	year: number;
+	month: number;
+	day: number;
+	hours: number;
+	minutes: number;
+	seconds: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Creating a formatter is slow, and recurrence asks for the same zones over and over
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(date: Date, zone?: string | null): WallClock {
+	if (!zone) {
+		return {
+			year: date.getFullYear(),
+			month: date.getMonth() + 1,
+			day: date.getDate(),
+			hours: date.getHours(),
+			minutes: date.getMinutes(),
+			seconds: date.getSeconds()
+		};
+	}
+	let formatter = formatters.get(zone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: zone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric'
+		});
+		formatters.set(zone, formatter);
+	}
+	const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		hours: Number(parts.hour) % 24, // Some engines write midnight as 24
+		minutes: Number(parts.minute),
+		seconds: Number(parts.second)
+	};
+}
+
+// IANA time zone of this device, e.g. "Europe/Amsterdam"
+export function deviceTimezone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Time zones to pick from, just the device's when the browser cannot list them
+export function timezoneNames(): string[] {
+	return typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [deviceTimezone()];
+}
+
+// Minutes the clock in the zone is ahead of UTC at the instant, e.g. 120 in Amsterdam in summer
+export function zoneOffsetMinutes(zone: string, at: Date = new Date()): number {
+	const clock = wallClock(at, zone);
+	const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hours, clock.minutes, clock.seconds);
+	return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+// E.g. "+02:00", as used in ISO 8601 date-times
+export function formatOffset(minutes: number): string {
+	const sign = minutes < 0 ? '-' : '+';
+	return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+}
+
+// Calendar day of the instant in the zone, the device's when none is given
+export function toDateKey(date: Date, zone?: string | null): string {
+	const clock = wallClock(date, zone);
+	return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}`;
+}
+
+// "HH:MM" on the clock in the zone at the instant
+export function timeOf(date: Date, zone?: string | null): string {
+	const clock = wallClock(date, zone);
+	return `${pad(clock.hours)}:${pad(clock.minutes)}`;
+}
+
+// Date-time without offset, the way the backend stores when a dose was taken (LocalDateTime)
+export function toLocalDateTimeString(date: Date, zone?: string | null): string {
+	const clock = wallClock(date, zone);
+	return `${clock.year}-${pad(clock.month)}-${pad(clock.day)}T${pad(clock.hours)}:${pad(clock.minutes)}:${pad(clock.seconds)}`;
+}
+
+// The same local date-time with the device's offset, e.g. "2026-03-04T08:00:00+01:00"
+export function toOffsetDateTime(localDateTime: string): string {
+	const date = new Date(localDateTime);
+	return `${toLocalDateTimeString(date)}${formatOffset(-date.getTimezoneOffset())}`;
+}
+
+// Midnight at the start of the day on this device
+export function fromDateKey(key: string): Date {
+	const [year, month, day] = key.split('-').map(Number);
+	return new Date(year, month - 1, day);
+}
+
+// Calendar days later on this device, a day across a DST change is 23 or 25 hours
+export function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Day key some days later, the same in every time zone
+export function shiftDateKey(key: string, days: number): string {
+	const [year, month, day] = key.split('-').map(Number);
+	const shifted = new Date(Date.UTC(year, month - 1, day + days));
+	return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+// Whole days from one date key to another, in UTC so a DST change does not shorten a day
+export function daysBetween(from: string, to: string): number {
+	const utc = (key: string) => {
+		const [year, month, day] = key.split('-').map(Number);
+		return Date.UTC(year, month - 1, day);
+	};
+	return Math.round((utc(to) - utc(from)) / DAY_MS);
+}
+
+// Day of the week of a date key, 0 is Sunday like Date.getDay()
+export function dayOfWeek(key: string): number {
+	const [year, month, day] = key.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// Months from 1
+export function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// The instant the clock in the zone shows the time on the date. A time skipped by a DST change
+// moves forward with it, like Date.setHours does.
+export function atTime(date: string, time: string, zone?: string | null): Date {
+	const [hours, minutes] = time.split(':').map(Number);
+	if (!zone) {
+		const at = fromDateKey(date);
+		at.setHours(hours, minutes, 0, 0);
+		return at;
+	}
+	const [year, month, day] = date.split('-').map(Number);
+	const wall = Date.UTC(year, month - 1, day, hours, minutes);
+	// The offset at the first guess can be the one before a DST change, the second guess has the right one
+	const guess = wall - zoneOffsetMinutes(zone, new Date(wall)) * MINUTE_MS;
+	return new Date(wall - zoneOffsetMinutes(zone, new Date(guess)) * MINUTE_MS);
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+	return toDateKey(a) === toDateKey(b);
+}
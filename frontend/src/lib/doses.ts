@@ -0,0 +1,97 @@
+// The state of a scheduled dose. Once recorded it is taken or skipped (on purpose, with a reason).
+// Until then it is upcoming before its time, due during the grace period after it and missed
+// once that has passed, so a dose that is a little late does not count as missed yet.
+import type { DosageHistory, Schedule, SkippedDose, SkipReason, User } from '$lib/api';
+import { atTime, toLocalDateTimeString } from '$lib/datetime';
+import { occurrencesOn } from '$lib/recurrence';
+import { medication } from '$lib/stores/medication';
+import { combineSteps, recordStep, type UndoStep } from '$lib/stores/undo';
+
+export type DoseState = 'taken' | 'skipped' | 'upcoming' | 'due' | 'missed';
+
+export const DEFAULT_GRACE_MINUTES = 60;
+// The choices on the profile page, the backend takes up to 12 hours
+export const GRACE_PERIOD_OPTIONS = [0, 15, 30, 60, 120, 180, 240, 360, 720];
+
+export const SKIP_REASONS: SkipReason[] = ['DOCTORS_ADVICE', 'SIDE_EFFECTS', 'FEELING_UNWELL', 'OUT_OF_STOCK', 'OTHER'];
+
+export function graceMinutesOf(user: User | null | undefined): number {
+	return user?.graceMinutes ?? DEFAULT_GRACE_MINUTES;
+}
+
+// Whether the grace period of a dose due at `at` is over
+export function isOverdue(at: Date, graceMinutes: number, now: Date = new Date()): boolean {
+	return now.getTime() - at.getTime() >= graceMinutes * 60_000;
+}
+
+export function doseState(
+	at: Date,
+	recorded: { taken: boolean; skipped: boolean },
+	graceMinutes: number,
+	now: Date = new Date()
+): DoseState {
+	if (recorded.taken) return 'taken';
+	if (recorded.skipped) return 'skipped';
+	if (at > now) return 'upcoming';
+	return isOverdue(at, graceMinutes, now) ? 'missed' : 'due';
+}
+
+// The skip of a medicine's dose at a time slot on a day (YYYY-MM-DD)
+export function findSkip(skips: SkippedDose[], medicineId: string, date: string, scheduledTime: string): SkippedDose | undefined {
+	return skips.find((skip) => skip.medicineId === medicineId && skip.scheduledTime === scheduledTime && skip.datetime.slice(0, 10) === date);
+}
+
+// A dose of a day's schedules that is neither taken nor skipped
+export interface UnrecordedDose {
+	medicineId: string;
+	amount: number;
+	scheduledTime: string;
+	at: Date;
+}
+
+// The day's doses due by `now` that nothing was recorded for, the earliest first
+export function unrecordedDoses(
+	schedules: Schedule[],
+	histories: DosageHistory[],
+	skips: SkippedDose[],
+	date: string,
+	now: Date = new Date()
+): UnrecordedDose[] {
+	const taken = (medicineId: string, time: string) =>
+		histories.some((h) => h.medicineId === medicineId && h.scheduledTime === time && h.datetime.slice(0, 10) === date);
+	return occurrencesOn(schedules, date)
+		.filter((o) => o.at <= now && !taken(o.schedule.medicineId, o.time) && !findSkip(skips, o.schedule.medicineId, date, o.time))
+		.map((o) => ({ medicineId: o.schedule.medicineId, amount: o.amount, scheduledTime: o.time, at: o.at }))
+		.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// What to record afterwards for a dose: taken at a time on its day, or skipped with a reason
+export type Backfill =
+	| { dose: UnrecordedDose; action: 'take'; time: string }
+	| { dose: UnrecordedDose; action: 'skip'; reason: SkipReason; note?: string };
+
+// Records the doses of a past day, e.g. after a few days without the app, as one step to undo.
+// When the backend refuses a dose, what was recorded before it can still be undone.
+export async function backfillDoses(date: string, backfills: Backfill[], profile: string | null, label: string): Promise<void> {
+	const steps: UndoStep[] = [];
+	try {
+		const taken = backfills.flatMap((b) => {
+			if (b.action !== 'take') return [];
+			const { medicineId, amount, scheduledTime } = b.dose;
+			return [{ medicineId, amount, scheduledTime, datetime: toLocalDateTimeString(atTime(date, b.time)) }];
+		});
+		if (taken.length > 0) {
+			steps.push((await medication.take(profile, taken, label)).undo);
+		}
+		for (const backfill of backfills) {
+			if (backfill.action !== 'skip') continue;
+			const { medicineId, scheduledTime } = backfill.dose;
+			const datetime = toLocalDateTimeString(atTime(date, scheduledTime));
+			steps.push((await medication.skip(profile, { medicineId, scheduledTime, reason: backfill.reason, note: backfill.note, datetime }, label)).undo);
+		}
+	} finally {
+		if (steps.length > 0) {
+			recordStep(combineSteps(label, steps));
+		}
+	}
+}
@@ -0,0 +1,229 @@
+// Exports of the intake record for a date range, to hand to a GP or pharmacist:
+// CSV for spreadsheets and a FHIR R4 Bundle for health record systems.
+// The printable report is the /history/report page.
+import type { DosageHistory, Medicine, Schedule, User } from '$lib/api';
+import type { DateRange } from '$lib/adherence';
+import { addDays, fromDateKey, toDateKey, toOffsetDateTime } from '$lib/datetime';
+import { courseBounds, recurrenceType, scheduleDays } from '$lib/recurrence';
+import { batchesInUseOrder } from '$lib/stock';
+
+// Schedule day codes to FHIR Timing days of week
+const FHIR_DAYS: Record<string, string> = { MO: 'mon', TU: 'tue', WE: 'wed', TH: 'thu', FR: 'fri', SA: 'sat', SU: 'sun' };
+
+// Doses taken in the range, oldest first
+export function historiesInRange(histories: DosageHistory[], range: DateRange): DosageHistory[] {
+	return histories
+		.filter((h) => {
+			const date = h.datetime.slice(0, 10);
+			return date >= range.from && date <= range.to;
+		})
+		.sort((a, b) => a.datetime.localeCompare(b.datetime));
+}
+
+function csvField(value: string | number | undefined): string {
+	const text = value === undefined ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildCsv(histories: DosageHistory[], medicines: Medicine[], range: DateRange): string {
+	const header = ['date', 'time', 'medicine', 'strength', 'unit', 'amount', 'scheduled_time', 'logged_by'];
+	const rows = historiesInRange(histories, range).map((h) => {
+		const medicine = medicines.find((m) => m.id === h.medicineId);
+		return [
+			h.datetime.slice(0, 10),
+			h.datetime.slice(11, 16),
+			medicine?.name ?? h.medicineId,
+			medicine?.dose,
+			medicine?.unit,
+			h.amount,
+			h.scheduledTime,
+			h.loggedBy
+		];
+	});
+	// The byte order mark makes spreadsheet programs read the file as UTF-8
+	return '\uFEFF' + [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function newUrn(): string {
+	return `urn:uuid:${crypto.randomUUID()}`;
+}
+
+function doseQuantity(medicine: Medicine | undefined, amount: number) {
+	return medicine ? { value: amount * medicine.dose, unit: medicine.unit } : { value: amount };
+}
+
+// Timing repeat and description of the schedule's recurrence. FHIR has no on/off cycles, those
+// are only described in the text.
+function scheduleRepeat(schedule: Schedule): { text: string; repeat: Record<string, unknown> } {
+	const recurrence = schedule.recurrence;
+	const timeOfDay = [`${schedule.time}:00`];
+	switch (recurrenceType(schedule)) {
+		case 'EVERY_N_DAYS':
+			return {
+				text: `every ${recurrence?.intervalDays} days at ${schedule.time}`,
+				repeat: { frequency: 1, period: recurrence?.intervalDays, periodUnit: 'd', timeOfDay }
+			};
+		case 'CYCLE':
+			return {
+				text: `${recurrence?.daysOn} days on, ${recurrence?.daysOff} days off, at ${schedule.time}`,
+				repeat: { timeOfDay }
+			};
+		case 'INTERVAL':
+			return {
+				text: `every ${recurrence?.intervalHours} hours from ${schedule.time}`,
+				repeat: { frequency: 1, period: recurrence?.intervalHours, periodUnit: 'h' }
+			};
+		default: {
+			const days = scheduleDays(schedule);
+			return {
+				text: `${schedule.time}${days.length > 0 ? ` (${days.join(', ')})` : ''}`,
+				repeat: { timeOfDay, dayOfWeek: days.length > 0 ? days.map((d) => FHIR_DAYS[d]) : undefined }
+			};
+		}
+	}
+}
+
+// One dosage per schedule, or one per taper step in sequence, each with its own period
+function scheduleDosages(schedule: Schedule, medicine: Medicine | undefined) {
+	const { text, repeat } = scheduleRepeat(schedule);
+	const { start, end } = courseBounds(schedule.recurrence);
+	const taper = schedule.recurrence?.taper ?? [];
+	if (taper.length === 0 || !start) {
+		return [{
+			text: `${schedule.amount}x ${text}`,
+			timing: { repeat: { ...repeat, boundsPeriod: start || end ? { start: start ?? undefined, end: end ?? undefined } : undefined } },
+			doseAndRate: [{ doseQuantity: doseQuantity(medicine, schedule.amount) }]
+		}];
+	}
+
+	let stepStart = fromDateKey(start);
+	return taper.map((step, index) => {
+		const boundsPeriod = { start: toDateKey(stepStart), end: toDateKey(addDays(stepStart, step.days - 1)) };
+		stepStart = addDays(stepStart, step.days);
+		return {
+			sequence: index + 1,
+			text: `${step.amount}x ${text}, ${boundsPeriod.start} – ${boundsPeriod.end}`,
+			timing: { repeat: { ...repeat, boundsPeriod } },
+			doseAndRate: [{ doseQuantity: doseQuantity(medicine, step.amount) }]
+		};
+	});
+}
+
+// Dosage of an as-needed medicine with its limits
+function prnDosage(medicine: Medicine) {
+	const { minIntervalHours, maxAmountPer24Hours } = medicine.prn ?? {};
+	return {
+		text: [
+			'as needed',
+			minIntervalHours ? `at least ${minIntervalHours} hours apart` : '',
+			maxAmountPer24Hours ? `at most ${maxAmountPer24Hours}x per 24 hours` : ''
+		].filter(Boolean).join(', '),
+		asNeededBoolean: true,
+		maxDosePerPeriod: maxAmountPer24Hours
+			? { numerator: doseQuantity(medicine, maxAmountPer24Hours), denominator: { value: 24, unit: 'h', system: 'http://unitsofmeasure.org', code: 'h' } }
+			: undefined
+	};
+}
+
+// FHIR R4 Bundle (type collection) with the patient, a Medication per medicine, a MedicationStatement
+// per medicine with its schedules as dosage and a MedicationAdministration per dose taken
+export function buildFhirBundle(
+	histories: DosageHistory[],
+	medicines: Medicine[],
+	schedules: Schedule[],
+	user: User,
+	range: DateRange
+) {
+	const taken = historiesInRange(histories, range);
+	const patientUrl = newUrn();
+	const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+
+	const involved = medicines.filter(
+		(m) => schedules.some((s) => s.medicineId === m.id) || taken.some((h) => h.medicineId === m.id)
+	);
+	const medicationUrls = new Map(involved.map((m) => [m.id, newUrn()]));
+
+	const entries: Array<{ fullUrl: string; resource: Record<string, unknown> }> = [
+		{
+			fullUrl: patientUrl,
+			resource: {
+				resourceType: 'Patient',
+				name: [name ? { text: name, given: user.firstName ? [user.firstName] : undefined, family: user.lastName || undefined } : { text: user.username }],
+				telecom: user.email ? [{ system: 'email', value: user.email }] : undefined
+			}
+		}
+	];
+
+	for (const medicine of involved) {
+		// FHIR has room for one batch: the package doses are taken from now
+		const batch = batchesInUseOrder(medicine)[0];
+		entries.push({
+			fullUrl: medicationUrls.get(medicine.id)!,
+			resource: {
+				resourceType: 'Medication',
+				id: medicine.id,
+				code: { text: `${medicine.name} ${medicine.dose}${medicine.unit}` },
+				ingredient: medicine.activeIngredients?.length
+					? medicine.activeIngredients.map((substance) => ({ itemCodeableConcept: { text: substance }, isActive: true }))
+					: undefined,
+				batch: batch ? { lotNumber: batch.lotNumber, expirationDate: batch.expiryDate } : undefined
+			}
+		});
+	}
+
+	for (const medicine of involved) {
+		const medicineSchedules = schedules.filter((s) => s.medicineId === medicine.id);
+		entries.push({
+			fullUrl: newUrn(),
+			resource: {
+				resourceType: 'MedicationStatement',
+				status: medicineSchedules.length > 0 || medicine.prn ? 'active' : 'completed',
+				medicationReference: { reference: medicationUrls.get(medicine.id), display: medicine.name },
+				subject: { reference: patientUrl },
+				effectivePeriod: { start: range.from, end: range.to },
+				dateAsserted: new Date().toISOString(),
+				dosage: medicineSchedules.length > 0 || medicine.prn
+					? [...medicineSchedules.flatMap((s) => scheduleDosages(s, medicine)), ...(medicine.prn ? [prnDosage(medicine)] : [])]
+					: undefined
+			}
+		});
+	}
+
+	for (const history of taken) {
+		const medicine = medicines.find((m) => m.id === history.medicineId);
+		entries.push({
+			fullUrl: newUrn(),
+			resource: {
+				resourceType: 'MedicationAdministration',
+				id: history.id,
+				status: 'completed',
+				medicationReference: medicationUrls.has(history.medicineId)
+					? { reference: medicationUrls.get(history.medicineId), display: medicine?.name }
+					: { display: history.medicineId },
+				subject: { reference: patientUrl },
+				effectiveDateTime: toOffsetDateTime(history.datetime), // FHIR needs a UTC offset, the history holds local times
+				note: history.scheduledTime ? [{ text: `Scheduled at ${history.scheduledTime}` }] : undefined,
+				dosage: { dose: doseQuantity(medicine, history.amount) }
+			}
+		});
+	}
+
+	return {
+		resourceType: 'Bundle',
+		type: 'collection',
+		timestamp: new Date().toISOString(),
+		entry: entries
+	};
+}
+
+// Offers the content as a file download
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	URL.revokeObjectURL(url);
+}
@@ -0,0 +1,148 @@
+// Warnings about combinations of the user's medicines: the same active substance in two products
+// (e.g. two paracetamol products) and known interactions from the bundled table below.
+// Substances are matched on their base name, so salts like "NAPROXEN-NATRIUM" count as "NAPROXEN".
+// The table covers common, well documented interactions only and is no replacement for a pharmacist.
+import type { Medicine } from '$lib/api';
+import type { Translate } from '$lib/recurrence';
+
+export type InteractionSeverity = 'major' | 'moderate';
+
+interface InteractionRule {
+	id: string; // i18n key under interactions.rules
+	severity: InteractionSeverity;
+	a: string[];
+	b: string[]; // The same list as `a` for a combination of two substances of one group
+}
+
+export interface MedicineWarning {
+	kind: 'duplicate' | 'interaction';
+	severity: InteractionSeverity;
+	medicineIds: [string, string];
+	substances: [string, string];
+	ruleId?: string;
+}
+
+const NSAIDS = ['IBUPROFEN', 'NAPROXEN', 'DICLOFENAC', 'ACETYLSALICYLZUUR', 'CARBASALAATCALCIUM', 'CELECOXIB', 'ETORICOXIB', 'MELOXICAM', 'INDOMETACINE', 'KETOPROFEN', 'PIROXICAM'];
+const ANTICOAGULANTS = ['WARFARINE', 'ACENOCOUMAROL', 'FENPROCOUMON', 'APIXABAN', 'RIVAROXABAN', 'DABIGATRAN', 'EDOXABAN'];
+const SSRIS = ['SERTRALINE', 'FLUOXETINE', 'PAROXETINE', 'CITALOPRAM', 'ESCITALOPRAM', 'FLUVOXAMINE', 'VENLAFAXINE', 'DULOXETINE'];
+const ACE_INHIBITORS_AND_ARBS = ['ENALAPRIL', 'LISINOPRIL', 'PERINDOPRIL', 'RAMIPRIL', 'CAPTOPRIL', 'LOSARTAN', 'VALSARTAN', 'CANDESARTAN', 'IRBESARTAN', 'OLMESARTAN', 'TELMISARTAN'];
+const POTASSIUM_SPARING = ['SPIRONOLACTON', 'EPLERENON', 'AMILORIDE', 'TRIAMTEREEN', 'KALIUMCHLORIDE'];
+const OPIOIDS = ['TRAMADOL', 'OXYCODON', 'MORFINE', 'FENTANYL', 'CODEINE', 'TAPENTADOL', 'HYDROMORFON', 'METHADON'];
+const BENZODIAZEPINES = ['DIAZEPAM', 'OXAZEPAM', 'TEMAZEPAM', 'LORAZEPAM', 'ALPRAZOLAM', 'MIDAZOLAM', 'ZOLPIDEM', 'ZOPICLON'];
+const NITRATES = ['NITROGLYCERINE', 'ISOSORBIDEMONONITRAAT', 'ISOSORBIDEDINITRAAT'];
+const PDE5_INHIBITORS = ['SILDENAFIL', 'TADALAFIL', 'VARDENAFIL'];
+const MACROLIDES = ['CLARITROMYCINE', 'ERYTROMYCINE'];
+const THIAZIDES = ['HYDROCHLOORTHIAZIDE', 'CHLOORTALIDON', 'INDAPAMIDE'];
+
+const INTERACTION_RULES: InteractionRule[] = [
+	{ id: 'nsaidAnticoagulant', severity: 'major', a: NSAIDS, b: ANTICOAGULANTS },
+	{ id: 'nsaidNsaid', severity: 'moderate', a: NSAIDS, b: NSAIDS },
+	{ id: 'nsaidSsri', severity: 'moderate', a: NSAIDS, b: SSRIS },
+	{ id: 'nsaidAceArb', severity: 'moderate', a: NSAIDS, b: ACE_INHIBITORS_AND_ARBS },
+	{ id: 'aceArbPotassium', severity: 'major', a: ACE_INHIBITORS_AND_ARBS, b: POTASSIUM_SPARING },
+	{ id: 'opioidBenzodiazepine', severity: 'major', a: OPIOIDS, b: BENZODIAZEPINES },
+	{ id: 'tramadolSsri', severity: 'major', a: ['TRAMADOL'], b: SSRIS },
+	{ id: 'nitratePde5', severity: 'major', a: NITRATES, b: PDE5_INHIBITORS },
+	{ id: 'statinMacrolide', severity: 'major', a: ['SIMVASTATINE', 'ATORVASTATINE'], b: MACROLIDES },
+	{ id: 'methotrexateTrimethoprim', severity: 'major', a: ['METHOTREXAAT'], b: ['TRIMETHOPRIM', 'SULFAMETHOXAZOL'] },
+	{ id: 'lithiumNsaidDiuretic', severity: 'major', a: ['LITHIUMCARBONAAT', 'LITHIUM'], b: [...NSAIDS, ...THIAZIDES, ...ACE_INHIBITORS_AND_ARBS] },
+	{ id: 'clopidogrelPpi', severity: 'moderate', a: ['CLOPIDOGREL'], b: ['OMEPRAZOL', 'ESOMEPRAZOL'] }
+];
+
+// Salt and hydrate parts of a substance name that do not change what it is
+const SALT_SUFFIXES = [
+	'NATRIUMSESQUIHYDRAAT', 'NATRIUM', 'KALIUM', 'CALCIUM', 'MAGNESIUM', 'HYDROCHLORIDE', 'HYDROBROMIDE',
+	'TRIHYDRAAT', 'DIHYDRAAT', 'MONOHYDRAAT', 'HEMIHYDRAAT', 'SESQUIHYDRAAT', 'SUCCINAAT', 'TARTRAAT',
+	'MALEAAT', 'BESILAAT', 'FUMARAAT', 'MESILAAT', 'SULFAAT', 'FOSFAAT', 'CITRAAT', 'ACETAAT', 'BROMIDE'
+];
+
+// "PARACETAMOL, COFFEINE" or "AMOXICILLINE TRIHYDRAAT / CLAVULAANZUUR" to separate substances
+export function parseIngredients(werkzamestoffen: string): string[] {
+	return werkzamestoffen
+		.split(/[,;/+]/)
+		.map((part) => part.replace(/\(.*?\)/g, '').replace(/\d+([.,]\d+)?\s*(mg|g|µg|mcg|ml|ie)\b/gi, '').trim().toUpperCase())
+		.filter((part, index, parts) => part !== '' && parts.indexOf(part) === index);
+}
+
+// Base name of a substance, e.g. "NAPROXEN-NATRIUMSESQUIHYDRAAT" and "NAPROXEN NATRIUM" to "NAPROXEN"
+export function substanceKey(ingredient: string): string {
+	const words = ingredient.toUpperCase().split(/[\s-]+/).filter(Boolean);
+	const base = words.filter((word, index) => index === 0 || !SALT_SUFFIXES.includes(word));
+	let key = base.join(' ');
+	// Salts written as one word, e.g. "METOPROLOLSUCCINAAT"
+	for (const suffix of SALT_SUFFIXES) {
+		if (key.endsWith(suffix) && key.length > suffix.length + 3 && !key.includes(' ')) {
+			key = key.slice(0, -suffix.length);
+			break;
+		}
+	}
+	return key;
+}
+
+function substances(medicine: Medicine): string[] {
+	return Array.from(new Set((medicine.activeIngredients ?? []).map(substanceKey)));
+}
+
+function inGroup(group: string[], substance: string): boolean {
+	return group.some((member) => substanceKey(member) === substance);
+}
+
+function pairWarnings(first: Medicine, second: Medicine): MedicineWarning[] {
+	const warnings: MedicineWarning[] = [];
+	const medicineIds: [string, string] = [first.id, second.id];
+	for (const a of substances(first)) {
+		for (const b of substances(second)) {
+			if (a === b) {
+				warnings.push({ kind: 'duplicate', severity: 'major', medicineIds, substances: [a, b] });
+				continue;
+			}
+			const rule = INTERACTION_RULES.find(
+				(r) => (inGroup(r.a, a) && inGroup(r.b, b)) || (inGroup(r.a, b) && inGroup(r.b, a))
+			);
+			if (rule) {
+				warnings.push({ kind: 'interaction', severity: rule.severity, medicineIds, substances: [a, b], ruleId: rule.id });
+			}
+		}
+	}
+	return warnings;
+}
+
+// Warnings for every pair of the medicines, most severe first
+export function findMedicineWarnings(medicines: Medicine[]): MedicineWarning[] {
+	const warnings: MedicineWarning[] = [];
+	for (let i = 0; i < medicines.length; i++) {
+		for (let j = i + 1; j < medicines.length; j++) {
+			warnings.push(...pairWarnings(medicines[i], medicines[j]));
+		}
+	}
+	return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'major' ? -1 : 1));
+}
+
+// Warnings a medicine that is being added or edited would cause with the other medicines
+export function warningsForCandidate(candidate: Medicine, medicines: Medicine[]): MedicineWarning[] {
+	return findMedicineWarnings([candidate, ...medicines.filter((m) => m.id !== candidate.id)]).filter((w) =>
+		w.medicineIds.includes(candidate.id)
+	);
+}
+
+export function warningsForMedicine(medicineId: string, warnings: MedicineWarning[]): MedicineWarning[] {
+	return warnings.filter((w) => w.medicineIds.includes(medicineId));
+}
+
+// Message for a warning, naming the other medicine when seen from `medicineId`
+export function describeWarning(warning: MedicineWarning, medicines: Medicine[], t: Translate, medicineId?: string): string {
+	const name = (id: string) => medicines.find((m) => m.id === id)?.name ?? '?';
+	const [first, second] = warning.medicineIds;
+	const values = {
+		first: name(first),
+		second: name(second),
+		other: name(medicineId === first ? second : first),
+		substance: warning.substances[0].toLowerCase(),
+		otherSubstance: warning.substances[1].toLowerCase()
+	};
+	if (warning.kind === 'duplicate') {
+		return t(medicineId ? 'interactions.duplicateWith' : 'interactions.duplicate', { values });
+	}
+	const detail = t(`interactions.rules.${warning.ruleId}`);
+	return `${t(medicineId ? 'interactions.interactionWith' : 'interactions.interaction', { values })} ${detail}`;
+}
@@ -0,0 +1,142 @@
+// Journal of notes, side effects, symptoms and measurements, and how they relate to adherence.
+// A metric is one thing to follow over time: a symptom or side effect by name (severity 1-10) or a
+// kind of measurement (its value, the systolic pressure for blood pressure).
+import type { JournalEntry, JournalEntryType, MeasurementType } from '$lib/api';
+import type { DateRange, DayStats } from '$lib/adherence';
+import { shiftDateKey } from '$lib/datetime';
+import type { Translate } from '$lib/recurrence';
+
+export const JOURNAL_ENTRY_TYPES: JournalEntryType[] = ['NOTE', 'SIDE_EFFECT', 'SYMPTOM', 'MEASUREMENT'];
+export const MEASUREMENT_TYPES: MeasurementType[] = ['PAIN', 'BLOOD_PRESSURE', 'GLUCOSE', 'HEART_RATE', 'TEMPERATURE', 'WEIGHT'];
+
+const UNITS: Record<MeasurementType, string> = {
+	PAIN: '/10',
+	BLOOD_PRESSURE: 'mmHg',
+	GLUCOSE: 'mmol/L',
+	HEART_RATE: 'bpm',
+	TEMPERATURE: '°C',
+	WEIGHT: 'kg'
+};
+
+export function measurementUnit(measurement: MeasurementType): string {
+	return UNITS[measurement];
+}
+
+// E.g. "130/85 mmHg" or "6/10", empty for notes
+export function formatJournalValue(entry: JournalEntry): string {
+	if (entry.type === 'SYMPTOM' || entry.type === 'SIDE_EFFECT') {
+		return entry.severity !== undefined ? `${entry.severity}/10` : '';
+	}
+	if (entry.type !== 'MEASUREMENT' || !entry.measurement || entry.value === undefined) return '';
+	if (entry.measurement === 'PAIN') return `${entry.value}/10`;
+	const value = entry.measurement === 'BLOOD_PRESSURE' ? `${entry.value}/${entry.secondaryValue ?? '?'}` : `${entry.value}`;
+	return `${value} ${UNITS[entry.measurement]}`;
+}
+
+// Title of an entry: the symptom or side effect, the kind of measurement, or just "Note"
+export function journalEntryTitle(entry: JournalEntry, t: Translate): string {
+	if (entry.type === 'MEASUREMENT' && entry.measurement) return t(`journal.measurements.${entry.measurement}`);
+	return entry.name ?? t(`journal.types.${entry.type}`);
+}
+
+export function entriesOn(entries: JournalEntry[], date: string): JournalEntry[] {
+	return entries.filter((entry) => entry.datetime.slice(0, 10) === date);
+}
+
+export interface JournalMetric {
+	key: string; // "symptom:headache" or "measurement:GLUCOSE"
+	label: string; // The name as first written, or the kind of measurement
+	min: number; // Range of the chart's axis
+	max: number;
+}
+
+function metricKey(entry: JournalEntry): string | null {
+	if ((entry.type === 'SYMPTOM' || entry.type === 'SIDE_EFFECT') && entry.name && entry.severity !== undefined) {
+		// "Headache" and "headache" are the same symptom
+		return `symptom:${entry.name.toLowerCase()}`;
+	}
+	if (entry.type === 'MEASUREMENT' && entry.measurement && entry.value !== undefined) {
+		return `measurement:${entry.measurement}`;
+	}
+	return null;
+}
+
+function metricValue(entry: JournalEntry): number {
+	return entry.type === 'MEASUREMENT' ? (entry.value ?? 0) : (entry.severity ?? 0);
+}
+
+// The metrics the entries have values for, the most recorded first
+export function journalMetrics(entries: JournalEntry[], t: Translate): JournalMetric[] {
+	const metrics = new Map<string, JournalMetric & { count: number }>();
+	// Oldest first, so a symptom is labelled the way it was first written
+	for (const entry of [...entries].sort((a, b) => a.datetime.localeCompare(b.datetime))) {
+		const key = metricKey(entry);
+		if (!key) continue;
+		const value = metricValue(entry);
+		const metric = metrics.get(key);
+		if (metric) {
+			metric.count++;
+			metric.min = Math.min(metric.min, value);
+			metric.max = Math.max(metric.max, value);
+		} else {
+			metrics.set(key, { key, label: journalEntryTitle(entry, t), min: value, max: value, count: 1 });
+		}
+	}
+	return [...metrics.values()]
+		.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+		.map(({ key, label, min, max }) => {
+			// Severities and pain scores have a fixed scale, other values get some room around them
+			if (key.startsWith('symptom:') || key === 'measurement:PAIN') return { key, label, min: 0, max: 10 };
+			const margin = max > min ? (max - min) * 0.1 : Math.max(1, Math.abs(max) * 0.1);
+			return { key, label, min: Math.floor(min - margin), max: Math.ceil(max + margin) };
+		});
+}
+
+export interface MetricDay {
+	date: string;
+	value: number | null; // Average of the day's values, null when nothing was recorded
+}
+
+// The metric's daily average on every day of the range
+export function metricSeries(entries: JournalEntry[], metricKeyToFollow: string, range: DateRange): MetricDay[] {
+	const valuesByDate = new Map<string, number[]>();
+	for (const entry of entries) {
+		if (metricKey(entry) !== metricKeyToFollow) continue;
+		const date = entry.datetime.slice(0, 10);
+		if (date < range.from || date > range.to) continue;
+		valuesByDate.set(date, [...(valuesByDate.get(date) ?? []), metricValue(entry)]);
+	}
+
+	const days: MetricDay[] = [];
+	for (let date = range.from; date <= range.to; date = shiftDateKey(date, 1)) {
+		const values = valuesByDate.get(date);
+		days.push({ date, value: values ? values.reduce((sum, v) => sum + v, 0) / values.length : null });
+	}
+	return days;
+}
+
+export interface AdherenceComparison {
+	allTaken: number | null; // Average of the metric on days every dose was taken
+	missed: number | null; // And on days with a missed dose, or the day after one
+	allTakenDays: number;
+	missedDays: number;
+}
+
+// The metric on days after a complete day against days with or after a missed dose. A missed dose
+// often shows the next day, so that day counts as one with a missed dose too.
+export function compareWithAdherence(series: MetricDay[], adherence: DayStats[]): AdherenceComparison {
+	const adherenceByDate = new Map(adherence.map((day) => [day.date, day]));
+	const missedOn = (date: string) => {
+		const day = adherenceByDate.get(date);
+		return !!day && day.expected > 0 && day.taken < day.expected;
+	};
+	const allTaken: number[] = [];
+	const missed: number[] = [];
+	for (const { date, value } of series) {
+		const day = adherenceByDate.get(date);
+		if (value === null || !day || day.expected === 0) continue;
+		(missedOn(date) || missedOn(shiftDateKey(date, -1)) ? missed : allTaken).push(value);
+	}
+	const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+	return { allTaken: average(allTaken), missed: average(missed), allTakenDays: allTaken.length, missedDays: missed.length };
+}
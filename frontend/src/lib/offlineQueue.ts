@@ -0,0 +1,200 @@
+import { writable, derived } from 'svelte/store';
+import { browser } from '$app/environment';
+import { isApiError } from '$lib/api/errors';
+
+// Offline mutation queue
+// Dose logging, stock additions and undo's that cannot reach the backend are stored in
+// IndexedDB and replayed in order once the connection returns (see syncPendingMutations in api.ts)
+
+export type MutationKind = 'takeDose' | 'addStock' | 'deleteDosageHistory';
+
+export interface TakeDosePayload {
+	medicineId: string;
+	amount: number;
+	scheduledTime?: string;
+	datetime: string; // Local ISO datetime of the moment the dose was taken
+}
+
+export interface StockPickup {
+	lotNumber?: string;
+	expiryDate?: string; // YYYY-MM-DD, as printed on the package
+}
+
+export interface AddStockPayload extends StockPickup {
+	medicineId: string;
+	amount: number;
+}
+
+export interface DeleteDosageHistoryPayload {
+	dosageHistoryId: string;
+}
+
+interface MutationPayloads {
+	takeDose: TakeDosePayload;
+	addStock: AddStockPayload;
+	deleteDosageHistory: DeleteDosageHistoryPayload;
+}
+
+export type QueuedMutation = {
+	[K in MutationKind]: {
+		id: string;
+		kind: K;
+		payload: MutationPayloads[K];
+		owner: string; // Username of the user that queued the mutation
+		actAs?: string | null; // Owner ID of the shared account it was made in, null for the user's own
+		profile?: string | null; // Patient profile it was made for, null for the account holder
+		createdAt: string;
+		sequence: number; // Strictly increasing, defines replay order
+		attempts: number;
+	};
+}[MutationKind];
+
+// The account and patient profile a mutation is made in
+export interface MutationScope {
+	actAs: string | null;
+	profile: string | null;
+}
+
+export interface SyncConflict {
+	mutation: QueuedMutation;
+	reason: 'alreadyLogged' | 'notFound' | 'rejected';
+	message?: string;
+}
+
+const DB_NAME = 'medicate';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+// Prefix for ids of doses that only exist in the queue, so they can be told apart from backend ids
+export const PENDING_ID_PREFIX = 'pending-';
+
+export const pendingMutations = writable<QueuedMutation[]>([]);
+export const isOnline = writable<boolean>(browser ? navigator.onLine : true);
+export const syncing = writable<boolean>(false);
+export const syncConflicts = writable<SyncConflict[]>([]);
+
+export const pendingCount = derived(pendingMutations, ($mutations) => $mutations.length);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(STORE_NAME)) {
+					db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				dbPromise = null;
+				reject(request.error);
+			};
+		});
+	}
+	return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	const db = await openDatabase();
+	const transaction = db.transaction(STORE_NAME, mode);
+	return requestToPromise(fn(transaction.objectStore(STORE_NAME)));
+}
+
+let lastSequence = 0;
+
+function nextSequence(): number {
+	lastSequence = Math.max(Date.now(), lastSequence + 1);
+	return lastSequence;
+}
+
+function generateId(): string {
+	if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+		return crypto.randomUUID();
+	}
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Load the persisted queue into the store (call once on startup)
+export async function loadPendingMutations(): Promise<QueuedMutation[]> {
+	if (!browser || typeof indexedDB === 'undefined') return [];
+	try {
+		const mutations = await withStore<QueuedMutation[]>('readonly', (store) => store.getAll());
+		mutations.sort((a, b) => a.sequence - b.sequence);
+		pendingMutations.set(mutations);
+		return mutations;
+	} catch (e) {
+		console.error('Failed to load offline queue:', e);
+		return [];
+	}
+}
+
+export async function enqueueMutation<K extends MutationKind>(
+	kind: K,
+	payload: MutationPayloads[K],
+	owner: string,
+	scope: MutationScope = { actAs: null, profile: null }
+): Promise<QueuedMutation> {
+	const mutation = {
+		id: kind === 'takeDose' ? `${PENDING_ID_PREFIX}${generateId()}` : generateId(),
+		kind,
+		payload,
+		owner,
+		actAs: scope.actAs,
+		profile: scope.profile,
+		createdAt: new Date().toISOString(),
+		sequence: nextSequence(),
+		attempts: 0
+	} as QueuedMutation;
+
+	await withStore('readwrite', (store) => store.add(mutation));
+	pendingMutations.update((mutations) => [...mutations, mutation]);
+	return mutation;
+}
+
+export async function updateMutation(mutation: QueuedMutation): Promise<void> {
+	await withStore('readwrite', (store) => store.put(mutation));
+	pendingMutations.update((mutations) => mutations.map((m) => (m.id === mutation.id ? mutation : m)));
+}
+
+export async function removeMutation(id: string): Promise<void> {
+	await withStore('readwrite', (store) => store.delete(id));
+	pendingMutations.update((mutations) => mutations.filter((m) => m.id !== id));
+}
+
+export function isPendingId(id: string): boolean {
+	return id.startsWith(PENDING_ID_PREFIX);
+}
+
+// The request never reached the server (the API client reports this as a 'network' ApiError)
+export function isNetworkError(e: unknown): boolean {
+	if (browser && !navigator.onLine) return true;
+	return e instanceof TypeError || isApiError(e, 'network');
+}
+
+// Keep the online flag up to date and run the given callback whenever the connection returns
+export function watchConnection(onReconnect: () => void): () => void {
+	if (!browser) return () => {};
+
+	const handleOnline = () => {
+		isOnline.set(true);
+		onReconnect();
+	};
+	const handleOffline = () => isOnline.set(false);
+
+	window.addEventListener('online', handleOnline);
+	window.addEventListener('offline', handleOffline);
+	return () => {
+		window.removeEventListener('online', handleOnline);
+		window.removeEventListener('offline', handleOffline);
+	};
+}
@@ -0,0 +1,114 @@
+// As-needed (PRN) medicines: doses logged without a schedule slot, limited by a minimum interval
+// between doses and a maximum amount in any 24 hours. The limits are checked here against the
+// recent dosage history before a dose is logged.
+import type { DosageHistory, Medicine } from '$lib/api';
+import { addDays, fromDateKey, toDateKey } from '$lib/datetime';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface PrnStatus {
+	lastDose: DosageHistory | null;
+	nextAllowedAt: Date | null; // End of the minimum interval after the last dose, null when it has passed
+	takenLast24Hours: number; // Amount taken in the 24 hours before now
+	remaining24Hours: number | null; // Amount that can still be taken now, null without a maximum
+}
+
+export interface PrnCheck extends PrnStatus {
+	tooSoon: boolean; // Within the minimum interval, a warning the user can override
+	exceedsMaximum: boolean; // Over the 24 hour maximum, the dose is blocked
+}
+
+export interface PrnDay {
+	date: string;
+	amount: number;
+	doses: number;
+}
+
+export interface PrnUsage {
+	medicineId: string;
+	days: PrnDay[]; // Every day of the period, oldest first
+	totalAmount: number;
+	totalDoses: number;
+	daysUsed: number;
+	averagePerDay: number; // Amount per day over the whole period
+	previousTotalAmount: number; // Amount in the period of the same length before it, for the trend
+}
+
+export function isPrn(medicine: Medicine): boolean {
+	return medicine.prn !== undefined && medicine.prn !== null;
+}
+
+// The history holds local date times without a zone
+function takenAt(history: DosageHistory): Date {
+	return new Date(history.datetime);
+}
+
+export function prnStatus(medicine: Medicine, histories: DosageHistory[], now: Date = new Date()): PrnStatus {
+	const doses = histories
+		.filter((h) => h.medicineId === medicine.id && takenAt(h) <= now)
+		.sort((a, b) => b.datetime.localeCompare(a.datetime));
+	const lastDose = doses[0] ?? null;
+	const since = now.getTime() - DAY_MS;
+	const takenLast24Hours = doses.filter((h) => takenAt(h).getTime() > since).reduce((sum, h) => sum + h.amount, 0);
+
+	const minIntervalHours = medicine.prn?.minIntervalHours;
+	const intervalEnd = lastDose && minIntervalHours ? new Date(takenAt(lastDose).getTime() + minIntervalHours * HOUR_MS) : null;
+	const maximum = medicine.prn?.maxAmountPer24Hours;
+
+	return {
+		lastDose,
+		nextAllowedAt: intervalEnd && intervalEnd > now ? intervalEnd : null,
+		takenLast24Hours,
+		remaining24Hours: maximum ? Math.max(0, maximum - takenLast24Hours) : null
+	};
+}
+
+// Whether logging `amount` now keeps within the medicine's limits
+export function checkPrnDose(medicine: Medicine, amount: number, histories: DosageHistory[], now: Date = new Date()): PrnCheck {
+	const status = prnStatus(medicine, histories, now);
+	return {
+		...status,
+		tooSoon: status.nextAllowedAt !== null,
+		exceedsMaximum: status.remaining24Hours !== null && amount > status.remaining24Hours
+	};
+}
+
+// Daily use of a PRN medicine in the period ending on `to`, with the period before it for comparison
+export function prnUsage(medicineId: string, histories: DosageHistory[], days: number, to: Date = new Date()): PrnUsage {
+	const first = addDays(to, -(days - 1));
+	const from = toDateKey(first);
+	const previousFrom = toDateKey(addDays(first, -days));
+	const totals = new Map<string, PrnDay>();
+	let previousTotalAmount = 0;
+
+	for (const history of histories) {
+		if (history.medicineId !== medicineId) continue;
+		const date = history.datetime.slice(0, 10);
+		if (date >= from && date <= toDateKey(to)) {
+			const day = totals.get(date) ?? { date, amount: 0, doses: 0 };
+			day.amount += history.amount;
+			day.doses++;
+			totals.set(date, day);
+		} else if (date >= previousFrom && date < from) {
+			previousTotalAmount += history.amount;
+		}
+	}
+
+	const periodDays: PrnDay[] = [];
+	for (let day = fromDateKey(from); toDateKey(day) <= toDateKey(to); day = addDays(day, 1)) {
+		const date = toDateKey(day);
+		periodDays.push(totals.get(date) ?? { date, amount: 0, doses: 0 });
+	}
+	const totalAmount = periodDays.reduce((sum, d) => sum + d.amount, 0);
+
+	return {
+		medicineId,
+		days: periodDays,
+		totalAmount,
+		totalDoses: periodDays.reduce((sum, d) => sum + d.doses, 0),
+		daysUsed: periodDays.filter((d) => d.doses > 0).length,
+		averagePerDay: totalAmount / days,
+		previousTotalAmount
+	};
+}
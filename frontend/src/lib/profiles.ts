@@ -0,0 +1,57 @@
+// Patient profiles: colours and avatars to pick from, and the combined daily view that puts the
+// time slots of the account holder and all their profiles together
+import type { Medicine, MedicineScheduleItem, PatientProfile, Schedule, TimeSlot } from '$lib/api';
+import { occurrencesOn } from '$lib/recurrence';
+
+export const PROFILE_COLORS = ['#E11D48', '#D97706', '#059669', '#0891B2', '#7C3AED', '#DB2777', '#65A30D', '#475569'];
+
+export const PROFILE_AVATARS = ['👧', '👦', '👶', '👩', '👨', '👵', '👴', '🐶', '🐱', '🐰', '🐴', '🦜'];
+
+// The account holder has no profile of their own, they get the app's colour
+export const OWN_PROFILE_COLOR = '#4682B4';
+
+export interface ProfileScheduleItem extends MedicineScheduleItem {
+	profile: PatientProfile | null; // null for the account holder
+}
+
+export interface ProfileTimeSlot {
+	time: string;
+	medicines: ProfileScheduleItem[];
+}
+
+// The doses of one profile
+export interface ProfileDay {
+	profile: PatientProfile | null;
+	medicines: Medicine[];
+	schedules: Schedule[];
+}
+
+// The doses of a day per time slot, expanded from the schedules' recurrence
+function timeSlotsOn(schedules: Schedule[], medicines: Medicine[], date: string): TimeSlot[] {
+	const slots = new Map<string, TimeSlot>();
+	for (const occurrence of occurrencesOn(schedules, date)) {
+		const medicine = medicines.find((m) => m.id === occurrence.schedule.medicineId);
+		if (!medicine) continue;
+		const slot = slots.get(occurrence.time) ?? { time: occurrence.time, medicines: [] };
+		slot.medicines.push({ medicine, amount: occurrence.amount });
+		slots.set(occurrence.time, slot);
+	}
+	return Array.from(slots.values()).sort((a, b) => a.time.localeCompare(b.time));
+}
+
+// The time slots of all profiles on a day, doses at the same time end up in one slot in the order of the profiles
+export function mergeTimeSlots(days: ProfileDay[], date: string): ProfileTimeSlot[] {
+	const slots = new Map<string, ProfileTimeSlot>();
+	for (const day of days) {
+		for (const slot of timeSlotsOn(day.schedules, day.medicines, date)) {
+			const merged = slots.get(slot.time) ?? { time: slot.time, medicines: [] };
+			merged.medicines.push(...slot.medicines.map((item) => ({ ...item, profile: day.profile })));
+			slots.set(slot.time, merged);
+		}
+	}
+	return Array.from(slots.values()).sort((a, b) => a.time.localeCompare(b.time));
+}
+
+export function profileColor(profile: PatientProfile | null): string {
+	return profile?.color ?? OWN_PROFILE_COLOR;
+}
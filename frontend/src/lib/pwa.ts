@@ -0,0 +1,74 @@
+import { writable } from 'svelte/store';
+import { browser } from '$app/environment';
+
+// Must match the data cache name prefix in src/service-worker.ts
+const DATA_CACHE_PREFIX = 'medicate-data-';
+
+// True when a new build has been installed and is waiting to take over
+export const updateAvailable = writable<boolean>(false);
+
+let waitingWorker: ServiceWorker | null = null;
+
+function setWaiting(worker: ServiceWorker | null) {
+	waitingWorker = worker;
+	updateAvailable.set(worker !== null);
+}
+
+// Watch the service worker registration (made by SvelteKit) for new versions of the app
+export async function watchServiceWorkerUpdates(): Promise<void> {
+	if (!browser || !('serviceWorker' in navigator)) return;
+
+	const registration = await navigator.serviceWorker.getRegistration();
+	if (!registration) return;
+
+	// Only offer an update when a previous version is in control, not on first install
+	if (registration.waiting && navigator.serviceWorker.controller) {
+		setWaiting(registration.waiting);
+	}
+
+	registration.addEventListener('updatefound', () => {
+		const installing = registration.installing;
+		installing?.addEventListener('statechange', () => {
+			if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+				setWaiting(installing);
+			}
+		});
+	});
+}
+
+// Activate the waiting version and reload so the page runs on the new build
+export function applyUpdate(): void {
+	if (!waitingWorker) return;
+	navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+	waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+	setWaiting(null);
+}
+
+// Remove cached API responses and rendered pages so the next user on this device does not see them
+export async function clearCachedApiData(): Promise<void> {
+	if (!browser || !('caches' in window)) return;
+	try {
+		const keys = await caches.keys();
+		await Promise.all(keys.filter((key) => key.startsWith(DATA_CACHE_PREFIX)).map((key) => caches.delete(key)));
+	} catch (e) {
+		console.error('Failed to clear cached API data:', e);
+	}
+}
+
+// Rendered pages are cached by URL, but they show the active profile and account: drop them when
+// switching so another profile's page is not shown offline. API responses are cached per profile.
+export async function clearCachedPages(): Promise<void> {
+	if (!browser || !('caches' in window)) return;
+	try {
+		for (const key of (await caches.keys()).filter((key) => key.startsWith(DATA_CACHE_PREFIX))) {
+			const cache = await caches.open(key);
+			for (const request of await cache.keys()) {
+				if (!new URL(request.url).pathname.startsWith('/api/')) {
+					await cache.delete(request);
+				}
+			}
+		}
+	} catch (e) {
+		console.error('Failed to clear cached pages:', e);
+	}
+}
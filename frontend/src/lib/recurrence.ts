@@ -0,0 +1,207 @@
+// Expands schedules into the doses they plan. The dashboard, history, reminders, analytics and
+// exports all get their doses from here, RecurrenceService in the backend follows the same rules.
+// A schedule without recurrence repeats on its daysOfWeek, like before recurrence existed.
+// Its time is on the device's clock, or on the home time zone's for schedules in home time.
+import { get } from 'svelte/store';
+import type { RecurrenceType, Schedule, ScheduleRecurrence, TaperStep } from '$lib/api';
+import { addDays, atTime, daysBetween, dayOfWeek, fromDateKey, shiftDateKey, timeOf, toDateKey } from '$lib/datetime';
+import { homeTimezone } from '$lib/stores/timezone';
+
+export interface Occurrence {
+	schedule: Schedule;
+	date: string; // Calendar day on this device as YYYY-MM-DD
+	time: string; // "HH:MM" on this device, the slot doses are logged against
+	amount: number; // The schedule's amount, or the taper step's on that day
+	at: Date;
+}
+
+export const RECURRENCE_TYPES: RecurrenceType[] = ['DAYS_OF_WEEK', 'EVERY_N_DAYS', 'CYCLE', 'INTERVAL'];
+
+// Schedule day codes in the order of Date.getDay()
+export const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// i18n keys of the day codes in the schedules section
+const DAY_LABELS: Record<string, string> = { MO: 'mon', TU: 'tue', WE: 'wed', TH: 'thu', FR: 'fri', SA: 'sat', SU: 'sun' };
+
+// Anchored recurrences without a start date (not created by the form) count from here
+const DEFAULT_ANCHOR = '2000-01-01';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function recurrenceType(schedule: Schedule): RecurrenceType {
+	return schedule.recurrence?.type ?? 'DAYS_OF_WEEK';
+}
+
+// Day codes like ["MO", "WE"], empty means every day
+export function scheduleDays(schedule: Schedule): string[] {
+	return (schedule.daysOfWeek ?? '')
+		.split(',')
+		.map((d) => d.trim())
+		.filter((d) => DAY_CODES.includes(d));
+}
+
+export function taperDays(taper: TaperStep[] = []): number {
+	return taper.reduce((sum, step) => sum + step.days, 0);
+}
+
+// First and last day of the course, null when it is open on that side. A taper ends the course
+// after its last step.
+export function courseBounds(recurrence: ScheduleRecurrence | undefined): { start: string | null; end: string | null } {
+	if (!recurrence) return { start: null, end: null };
+	const anchored = (recurrence.type ?? 'DAYS_OF_WEEK') !== 'DAYS_OF_WEEK' || (recurrence.taper ?? []).length > 0;
+	const start = recurrence.startDate ?? (anchored ? DEFAULT_ANCHOR : null);
+	let end = recurrence.endDate ?? null;
+	const tapered = taperDays(recurrence.taper);
+	if (start && tapered > 0) {
+		const taperEnd = shiftDateKey(start, tapered - 1);
+		end = end && end < taperEnd ? end : taperEnd;
+	}
+	return { start, end };
+}
+
+// Amount on a day of the course, following the taper steps when there are any
+function amountOn(schedule: Schedule, date: string, start: string | null): number {
+	const taper = schedule.recurrence?.taper ?? [];
+	if (taper.length === 0 || !start) return schedule.amount;
+	let day = daysBetween(start, date);
+	for (const step of taper) {
+		if (day < step.days) return step.amount;
+		day -= step.days;
+	}
+	return taper[taper.length - 1].amount;
+}
+
+// Whether a day based schedule has a dose on the date, ignoring the course bounds
+function dayMatches(schedule: Schedule, date: string, start: string | null): boolean {
+	const recurrence = schedule.recurrence;
+	switch (recurrence?.type ?? 'DAYS_OF_WEEK') {
+		case 'EVERY_N_DAYS':
+			return daysBetween(start ?? DEFAULT_ANCHOR, date) % Math.max(1, recurrence?.intervalDays ?? 1) === 0;
+		case 'CYCLE': {
+			const daysOn = Math.max(1, recurrence?.daysOn ?? 1);
+			const cycle = daysOn + Math.max(0, recurrence?.daysOff ?? 0);
+			return daysBetween(start ?? DEFAULT_ANCHOR, date) % cycle < daysOn;
+		}
+		default: {
+			const days = scheduleDays(schedule);
+			return days.length === 0 || days.includes(DAY_CODES[dayOfWeek(date)]);
+		}
+	}
+}
+
+// Time zone of the schedule's clock times, null for the device's. Schedules in home time follow the
+// device until the user picks a home time zone.
+export function scheduleTimezone(schedule: Schedule, homeZone: string | null = get(homeTimezone)): string | null {
+	return schedule.timezoneMode === 'HOME' ? homeZone : null;
+}
+
+// Doses of one schedule planned at or after `from` and before `until`, oldest first. Course days and
+// days of the week are counted in the schedule's time zone, the occurrences are on the device's clock.
+export function scheduleOccurrences(schedule: Schedule, from: Date, until: Date, homeZone: string | null = get(homeTimezone)): Occurrence[] {
+	const zone = scheduleTimezone(schedule, homeZone);
+	const { start, end } = courseBounds(schedule.recurrence);
+	const occurrences: Occurrence[] = [];
+	const inCourse = (date: string) => (!start || date >= start) && (!end || date <= end);
+	const occurrence = (courseDate: string, at: Date): Occurrence => ({
+		schedule,
+		date: toDateKey(at),
+		time: timeOf(at),
+		amount: amountOn(schedule, courseDate, start),
+		at
+	});
+
+	if (recurrenceType(schedule) === 'INTERVAL') {
+		// Every intervalHours in elapsed time, so the times of day shift across a DST change
+		const step = Math.max(1, schedule.recurrence?.intervalHours ?? 24) * HOUR_MS;
+		const anchor = atTime(start ?? DEFAULT_ANCHOR, schedule.time, zone).getTime();
+		for (let n = Math.max(0, Math.ceil((from.getTime() - anchor) / step)); anchor + n * step < until.getTime(); n++) {
+			const at = new Date(anchor + n * step);
+			const date = toDateKey(at, zone);
+			if (end && date > end) break;
+			occurrences.push(occurrence(date, at));
+		}
+		return occurrences;
+	}
+
+	for (let date = toDateKey(from, zone); atTime(date, '00:00', zone) < until; date = shiftDateKey(date, 1)) {
+		if (!inCourse(date) || !dayMatches(schedule, date, start)) continue;
+		const at = atTime(date, schedule.time, zone);
+		if (at >= from && at < until) {
+			occurrences.push(occurrence(date, at));
+		}
+	}
+	return occurrences;
+}
+
+// Doses of all schedules in [from, until), in time order
+export function occurrencesBetween(schedules: Schedule[], from: Date, until: Date): Occurrence[] {
+	const homeZone = get(homeTimezone);
+	return schedules
+		.flatMap((schedule) => scheduleOccurrences(schedule, from, until, homeZone))
+		.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Doses of all schedules on a calendar day of this device, in time order
+export function occurrencesOn(schedules: Schedule[], date: string): Occurrence[] {
+	const start = fromDateKey(date);
+	return occurrencesBetween(schedules, start, addDays(start, 1));
+}
+
+// Checks the recurrence the form built, returns the i18n key of the problem or null
+export function validateRecurrence(recurrence: ScheduleRecurrence | undefined): string | null {
+	if (!recurrence) return null;
+	const positive = (value: number | undefined) => value !== undefined && Number.isInteger(value) && value >= 1;
+	const type = recurrence.type ?? 'DAYS_OF_WEEK';
+	if (type !== 'DAYS_OF_WEEK' && !recurrence.startDate) return 'recurrence.errorStartDate';
+	if (type === 'EVERY_N_DAYS' && !positive(recurrence.intervalDays)) return 'recurrence.errorIntervalDays';
+	if (type === 'CYCLE' && (!positive(recurrence.daysOn) || !positive(recurrence.daysOff))) return 'recurrence.errorCycle';
+	if (type === 'INTERVAL' && (!positive(recurrence.intervalHours) || recurrence.intervalHours! > 168)) return 'recurrence.errorIntervalHours';
+	if (recurrence.startDate && recurrence.endDate && recurrence.endDate < recurrence.startDate) return 'recurrence.errorEndDate';
+	const taper = recurrence.taper ?? [];
+	if (taper.length > 0 && !recurrence.startDate) return 'recurrence.errorStartDate';
+	if (taper.some((step) => !positive(step.days) || !(step.amount > 0))) return 'recurrence.errorTaper';
+	return null;
+}
+
+// The svelte-i18n formatter ($_), passed in by the pages
+export type Translate = (key: string, options?: { values?: Record<string, string | number> }) => string;
+
+// Human readable pattern for the schedule lists, e.g. "Every 2 days from 2026-03-01"
+export function describeRecurrence(schedule: Schedule, t: Translate): string {
+	const recurrence = schedule.recurrence;
+	const parts: string[] = [];
+	switch (recurrenceType(schedule)) {
+		case 'EVERY_N_DAYS':
+			parts.push(t('recurrence.everyNDaysText', { values: { days: recurrence?.intervalDays ?? 1 } }));
+			break;
+		case 'CYCLE':
+			parts.push(t('recurrence.cycleText', { values: { on: recurrence?.daysOn ?? 1, off: recurrence?.daysOff ?? 0 } }));
+			break;
+		case 'INTERVAL':
+			parts.push(t('recurrence.intervalText', { values: { hours: recurrence?.intervalHours ?? 24, time: schedule.time } }));
+			break;
+		default: {
+			const days = scheduleDays(schedule);
+			parts.push(days.length === 0 ? t('schedules.everyDay') : days.map((code) => t(`schedules.${DAY_LABELS[code]}`)).join(', '));
+		}
+	}
+
+	if (schedule.timezoneMode === 'HOME') {
+		parts.push(t('recurrence.homeTimeText'));
+	}
+	const taper = recurrence?.taper ?? [];
+	if (taper.length > 0) {
+		parts.push(t('recurrence.taperText', { values: { steps: taper.map((step) => t('recurrence.taperStepText', { values: { amount: step.amount, days: step.days } })).join(' → ') } }));
+	}
+	const start = recurrence?.startDate;
+	const { end } = courseBounds(recurrence);
+	if (start && end) {
+		parts.push(t('recurrence.fromUntilText', { values: { start, end } }));
+	} else if (start) {
+		parts.push(t('recurrence.fromText', { values: { start } }));
+	} else if (end) {
+		parts.push(t('recurrence.untilText', { values: { end } }));
+	}
+	return parts.join(', ');
+}
+
@@ -0,0 +1,314 @@
+import { writable, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import { getSchedules, getMedicines, getDosageHistories, takeDose, type Schedule, type Medicine } from '$lib/api';
+import { getActingFor, getSelectedProfile } from '$lib/api/client';
+import type { MutationScope } from '$lib/offlineQueue';
+import { toDateKey } from '$lib/datetime';
+import { occurrencesBetween } from '$lib/recurrence';
+
+// Local dose reminders
+// Upcoming time slots are computed from the user's schedules and shown as browser notifications
+// while the app is open (there is no push backend). Preferences are stored per device, since
+// notifications are a property of the device rather than of the account.
+
+export interface ScheduleReminderPreference {
+	enabled: boolean;
+	leadMinutes: number; // Remind this many minutes before the scheduled time
+}
+
+export interface ReminderPreferences {
+	enabled: boolean;
+	schedules: { [scheduleId: string]: ScheduleReminderPreference };
+}
+
+export interface ReminderItem {
+	scheduleId: string;
+	medicineId: string;
+	amount: number;
+}
+
+export interface Reminder {
+	key: string; // Unique per date and time slot, used as notification tag
+	fireAt: string; // ISO timestamp
+	date: string; // YYYY-MM-DD of the dose
+	time: string; // Scheduled time "HH:MM"
+	items: ReminderItem[];
+	scope?: MutationScope; // Account and profile of the doses, the active ones when missing
+}
+
+export type ReminderAction = 'take' | 'snooze';
+
+export const SNOOZE_MINUTES = 15;
+export const LEAD_TIME_OPTIONS = [0, 5, 10, 15, 30];
+export const DEFAULT_SCHEDULE_PREFERENCE: ScheduleReminderPreference = { enabled: true, leadMinutes: 0 };
+
+const PLANNING_HORIZON_HOURS = 24;
+const REPLAN_INTERVAL_MS = 60 * 60 * 1000;
+const FIRED_KEY = 'medicate_reminders_fired';
+
+export const reminderPreferences = writable<ReminderPreferences>({ enabled: false, schedules: {} });
+
+// Bumped whenever doses were logged from a notification, pages showing doses reload on it
+export const reminderDosesTaken = writable<number>(0);
+
+function preferencesKey(username: string): string {
+	return `medicate_reminders_${username}`;
+}
+
+function snoozedKey(username: string): string {
+	return `medicate_reminders_snoozed_${username}`;
+}
+
+export function loadReminderPreferences(username: string): ReminderPreferences {
+	const fallback: ReminderPreferences = { enabled: false, schedules: {} };
+	if (!browser) return fallback;
+	const stored = localStorage.getItem(preferencesKey(username));
+	let preferences = fallback;
+	if (stored) {
+		try {
+			preferences = { ...fallback, ...JSON.parse(stored) };
+		} catch (e) {
+			console.error('Failed to parse reminder preferences', e);
+		}
+	}
+	reminderPreferences.set(preferences);
+	return preferences;
+}
+
+export function saveReminderPreferences(username: string, preferences: ReminderPreferences): void {
+	if (!browser) return;
+	localStorage.setItem(preferencesKey(username), JSON.stringify(preferences));
+	reminderPreferences.set(preferences);
+}
+
+export function getSchedulePreference(preferences: ReminderPreferences, scheduleId: string): ScheduleReminderPreference {
+	return preferences.schedules[scheduleId] ?? DEFAULT_SCHEDULE_PREFERENCE;
+}
+
+export function notificationsSupported(): boolean {
+	return browser && 'Notification' in window;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+	if (!notificationsSupported()) return 'denied';
+	return Notification.requestPermission();
+}
+
+// Reminders due after `from` and within the planning horizon, one per date and time slot.
+// Schedules in the same slot with a different lead time are reminded at the earliest one.
+export function computeUpcomingReminders(
+	schedules: Schedule[],
+	preferences: ReminderPreferences,
+	from: Date,
+	horizonHours: number = PLANNING_HORIZON_HOURS
+): Reminder[] {
+	if (!preferences.enabled) return [];
+
+	const until = new Date(from.getTime() + horizonHours * 60 * 60 * 1000);
+	const reminders = new Map<string, Reminder>();
+
+	// Doses up to the longest lead time after the horizon can still have their reminder within it
+	const maxLeadMs = Math.max(...LEAD_TIME_OPTIONS) * 60 * 1000;
+	const enabledSchedules = schedules.filter(s => getSchedulePreference(preferences, s.id).enabled);
+
+	for (const occurrence of occurrencesBetween(enabledSchedules, from, new Date(until.getTime() + maxLeadMs))) {
+		const { schedule, date, time, amount } = occurrence;
+		const preference = getSchedulePreference(preferences, schedule.id);
+		const fireAt = new Date(occurrence.at.getTime() - preference.leadMinutes * 60 * 1000);
+		if (fireAt <= from || fireAt > until) continue;
+
+		const key = `${date}-${time}`;
+		const existing = reminders.get(key);
+		const item = { scheduleId: schedule.id, medicineId: schedule.medicineId, amount };
+		if (existing) {
+			existing.items.push(item);
+			if (fireAt.toISOString() < existing.fireAt) existing.fireAt = fireAt.toISOString();
+		} else {
+			reminders.set(key, { key, fireAt: fireAt.toISOString(), date, time, items: [item] });
+		}
+	}
+
+	return Array.from(reminders.values()).sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+}
+
+function loadSnoozed(username: string): Reminder[] {
+	const stored = localStorage.getItem(snoozedKey(username));
+	if (!stored) return [];
+	try {
+		return JSON.parse(stored);
+	} catch (e) {
+		return [];
+	}
+}
+
+function saveSnoozed(username: string, reminders: Reminder[]): void {
+	localStorage.setItem(snoozedKey(username), JSON.stringify(reminders));
+}
+
+// Several tabs may be open: remember which reminders were shown so each fires only once
+function markFired(reminder: Reminder): boolean {
+	const fireId = `${reminder.key}@${reminder.fireAt}`;
+	let fired: string[] = [];
+	try {
+		fired = JSON.parse(localStorage.getItem(FIRED_KEY) || '[]');
+	} catch (e) {
+		fired = [];
+	}
+	if (fired.includes(fireId)) return false;
+	// Keep the list short, only recent reminders can fire again
+	localStorage.setItem(FIRED_KEY, JSON.stringify([...fired, fireId].slice(-50)));
+	return true;
+}
+
+// Items of the reminder that have not been logged yet
+async function itemsStillDue(reminder: Reminder): Promise<ReminderItem[]> {
+	try {
+		const histories = await getDosageHistories(reminder.scope?.profile, reminder.scope?.actAs);
+		return reminder.items.filter(item => !histories.some(h =>
+			h.medicineId === item.medicineId &&
+			h.scheduledTime === reminder.time &&
+			h.datetime.substring(0, 10) === reminder.date
+		));
+	} catch (e) {
+		// Without a connection we cannot tell, better to remind than to stay silent
+		return reminder.items;
+	}
+}
+
+async function showReminder(reminder: Reminder, medicines: Medicine[], title: string, actionLabels: { take: string; snooze: string }): Promise<void> {
+	const due = await itemsStillDue(reminder);
+	if (due.length === 0) return;
+
+	const dueReminder = { ...reminder, items: due };
+	const body = due
+		.map(item => {
+			const medicine = medicines.find(m => m.id === item.medicineId);
+			return medicine ? `${item.amount}x ${medicine.name} (${medicine.dose}${medicine.unit})` : `${item.amount}x`;
+		})
+		.join('\n');
+	const options = {
+		body,
+		tag: reminder.key,
+		icon: '/icons/icon-192.png',
+		badge: '/icons/icon-192.png',
+		requireInteraction: true,
+		data: { reminder: dueReminder },
+		actions: [
+			{ action: 'take', title: actionLabels.take },
+			{ action: 'snooze', title: actionLabels.snooze }
+		]
+	};
+
+	// Actions are only supported on notifications shown through the service worker
+	const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+	if (registration) {
+		await registration.showNotification(title, options);
+	} else {
+		const { actions, ...plainOptions } = options;
+		const notification = new Notification(title, plainOptions);
+		notification.onclick = () => {
+			window.focus();
+			notification.close();
+		};
+	}
+}
+
+// Handle a notification action: log the doses or remind again in SNOOZE_MINUTES
+export async function handleReminderAction(action: ReminderAction, reminder: Reminder, username: string): Promise<void> {
+	if (action === 'take') {
+		const [hours, minutes] = reminder.time.split(':');
+		const isToday = reminder.date === toDateKey(new Date());
+		for (const item of reminder.items) {
+			// A dose for a past day is logged at its scheduled time, today's at the current time
+			const datetime = isToday ? undefined : `${reminder.date}T${hours}:${minutes}:00`;
+			// Logged for the account and profile the reminder was planned in, whichever is active now
+			await takeDose(item.medicineId, item.amount, reminder.time, datetime, reminder.scope?.profile, reminder.scope?.actAs);
+		}
+		reminderDosesTaken.update(n => n + 1);
+	} else {
+		const fireAt = new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000).toISOString();
+		saveSnoozed(username, [...loadSnoozed(username), { ...reminder, fireAt }]);
+		replanReminders();
+	}
+}
+
+interface ReminderContext {
+	username: string;
+	title: string;
+	actionLabels: { take: string; snooze: string };
+}
+
+let timers: ReturnType<typeof setTimeout>[] = [];
+let replanInterval: ReturnType<typeof setInterval> | null = null;
+let context: ReminderContext | null = null;
+
+function clearTimers() {
+	timers.forEach(timer => clearTimeout(timer));
+	timers = [];
+}
+
+// (Re)compute upcoming reminders and set a timer for each of them
+export async function replanReminders(): Promise<void> {
+	clearTimers();
+	if (!context || Notification.permission !== 'granted') return;
+	const { username, title, actionLabels } = context;
+
+	const preferences = get(reminderPreferences);
+	if (!preferences.enabled) return;
+
+	// The schedules are those of the active account and profile
+	const scope: MutationScope = { actAs: getActingFor(), profile: getSelectedProfile() };
+	let schedules: Schedule[];
+	let medicines: Medicine[];
+	try {
+		[schedules, medicines] = await Promise.all([getSchedules(), getMedicines()]);
+	} catch (e) {
+		console.error('Failed to load schedules for reminders:', e);
+		return;
+	}
+
+	const now = new Date();
+	const snoozed = loadSnoozed(username);
+	// Snoozed reminders that are overdue by more than a slot are no longer useful
+	const staleBefore = now.getTime() - SNOOZE_MINUTES * 60 * 1000;
+	const activeSnoozed = snoozed.filter(r => new Date(r.fireAt).getTime() > staleBefore);
+	if (activeSnoozed.length !== snoozed.length) saveSnoozed(username, activeSnoozed);
+
+	const planned = computeUpcomingReminders(schedules, preferences, now).map((reminder) => ({ ...reminder, scope }));
+	const upcoming = [...planned, ...activeSnoozed];
+	for (const reminder of upcoming) {
+		const delay = Math.max(0, new Date(reminder.fireAt).getTime() - now.getTime());
+		timers.push(setTimeout(() => {
+			if (activeSnoozed.includes(reminder)) {
+				saveSnoozed(username, loadSnoozed(username).filter(r => !(r.key === reminder.key && r.fireAt === reminder.fireAt)));
+			}
+			if (markFired(reminder)) {
+				showReminder(reminder, medicines, title, actionLabels).catch(e => console.error('Failed to show reminder:', e));
+			}
+		}, delay));
+	}
+}
+
+// Start planning reminders for the logged in user, returns a function that stops them
+export function startReminders(username: string, title: string, actionLabels: { take: string; snooze: string }): () => void {
+	if (!notificationsSupported()) return () => {};
+
+	context = { username, title, actionLabels };
+	loadReminderPreferences(username);
+	replanReminders();
+
+	// Timers drift while a device sleeps, plan again regularly and when the tab becomes visible
+	replanInterval = setInterval(replanReminders, REPLAN_INTERVAL_MS);
+	const onVisible = () => {
+		if (document.visibilityState === 'visible') replanReminders();
+	};
+	document.addEventListener('visibilitychange', onVisible);
+
+	return () => {
+		clearTimers();
+		if (replanInterval) clearInterval(replanInterval);
+		replanInterval = null;
+		document.removeEventListener('visibilitychange', onVisible);
+		context = null;
+	};
+}
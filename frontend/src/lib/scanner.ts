@@ -0,0 +1,78 @@
+import { browser } from '$app/environment';
+
+// Camera scanning with the browser's own BarcodeDetector, so no image leaves the device.
+// Browsers without it (e.g. Firefox) can still type the number printed under the barcode.
+
+// Formats found on medicine packages: EAN/UPC, GS1-128 and the GS1 DataMatrix, plus QR codes
+const FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'data_matrix', 'qr_code'];
+const SCAN_INTERVAL_MS = 250;
+
+interface DetectedBarcode {
+	rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+	detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+	new (options?: { formats: string[] }): BarcodeDetectorInstance;
+	getSupportedFormats(): Promise<string[]>;
+}
+
+function barcodeDetector(): BarcodeDetectorConstructor | undefined {
+	return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+export function cameraScanningSupported(): boolean {
+	return browser && !!barcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// True when the user (or the browser settings) refused the camera
+export function isCameraDenied(e: unknown): boolean {
+	return e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError');
+}
+
+/**
+ * Show the back camera in the video element and pass every code it sees to onCode, until onCode returns true.
+ * Resolves with a function that stops scanning and turns the camera off.
+ */
+export async function startScanning(video: HTMLVideoElement, onCode: (raw: string) => boolean): Promise<() => void> {
+	const Detector = barcodeDetector();
+	if (!Detector) throw new Error('Barcode scanning is not supported by this browser');
+
+	const supported = await Detector.getSupportedFormats();
+	const detector = new Detector({ formats: FORMATS.filter(format => supported.includes(format)) });
+
+	const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+	video.srcObject = stream;
+	await video.play();
+
+	let timer: number | undefined;
+	let stopped = false;
+
+	const stop = () => {
+		stopped = true;
+		clearTimeout(timer);
+		stream.getTracks().forEach(track => track.stop());
+		video.srcObject = null;
+	};
+
+	const scan = async () => {
+		if (stopped) return;
+		try {
+			const codes = await detector.detect(video);
+			if (!stopped && codes.some(code => onCode(code.rawValue))) {
+				stop();
+				return;
+			}
+		} catch (e) {
+			// A frame that cannot be read yet, e.g. while the camera starts
+			console.debug('Barcode detection failed:', e);
+		}
+		if (!stopped) timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+	};
+	scan();
+
+	return stop;
+}
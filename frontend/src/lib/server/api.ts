@@ -0,0 +1,35 @@
+// Calling the backend from server load functions, with the access token of the request's session
+import type { ServerLoadEvent } from '@sveltejs/kit';
+import type { RequestOptions } from '$lib/api/client';
+import { isApiError } from '$lib/api/errors';
+import { backendOrigin } from './backendProxy';
+import { forgetSession, REFRESH_COOKIE } from './session';
+
+export function backendRequestOptions(event: ServerLoadEvent): RequestOptions {
+	return {
+		fetch: event.fetch,
+		accessToken: event.locals.accessToken ?? undefined,
+		baseUrl: `${backendOrigin()}/api`,
+		actAs: event.locals.actAs,
+		profile: event.locals.profile
+	};
+}
+
+// Runs the loader for a logged in user. Returns null without a session or when the backend call fails,
+// the page then loads its data in the browser instead.
+export async function loadForUser<T>(
+	event: ServerLoadEvent,
+	loader: (options: RequestOptions) => Promise<T>
+): Promise<T | null> {
+	if (!event.locals.user || !event.locals.accessToken) return null;
+	try {
+		return await loader(backendRequestOptions(event));
+	} catch (e) {
+		// A cached session the backend no longer accepts
+		if (isApiError(e, 'unauthorized')) {
+			forgetSession(event.cookies.get(REFRESH_COOKIE));
+		}
+		console.error(`Failed to load ${event.url.pathname} on the server:`, e);
+		return null;
+	}
+}
@@ -0,0 +1,96 @@
+// Forwards /api requests to the Ktor backend, the same way nginx does in production.
+// Used in dev mode and whenever the SvelteKit server is reached directly.
+import type { RequestEvent } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { forgetSession, REFRESH_COOKIE } from './session';
+
+const DEFAULT_BACKEND_ORIGIN = 'http://127.0.0.1:8080';
+
+// Connection-level headers that apply to a single hop and must not be forwarded
+const HOP_BY_HOP_HEADERS = [
+	'connection',
+	'keep-alive',
+	'proxy-authenticate',
+	'proxy-authorization',
+	'te',
+	'trailer',
+	'transfer-encoding',
+	'upgrade',
+	'host'
+];
+
+// fetch() decompresses response bodies, so the original encoding and length no longer apply
+const DECODED_RESPONSE_HEADERS = ['content-encoding', 'content-length'];
+
+export function backendOrigin(): string {
+	return (env.BACKEND_ORIGIN || DEFAULT_BACKEND_ORIGIN).replace(/\/+$/, '');
+}
+
+function stripHeaders(headers: Headers, names: string[]): Headers {
+	const stripped = new Headers(headers);
+	names.forEach((name) => stripped.delete(name));
+	return stripped;
+}
+
+export async function proxyToBackend(event: RequestEvent): Promise<Response> {
+	const { request, url } = event;
+	const started = performance.now();
+	// Keep an id set by a proxy in front of us, so log lines can be correlated end to end
+	const requestId = request.headers.get('x-request-id') || crypto.randomUUID();
+	const target = `${backendOrigin()}${url.pathname}${url.search}`;
+
+	const headers = stripHeaders(request.headers, HOP_BY_HOP_HEADERS);
+	headers.set('x-request-id', requestId);
+	headers.set('x-forwarded-host', url.host);
+	headers.set('x-forwarded-proto', url.protocol.replace(':', ''));
+	// The backend takes X-Real-IP as the client address (e.g. for sessions), never pass on what the client claims
+	headers.delete('x-real-ip');
+	try {
+		const forwardedFor = request.headers.get('x-forwarded-for');
+		const clientAddress = event.getClientAddress();
+		headers.set('x-forwarded-for', forwardedFor ? `${forwardedFor}, ${clientAddress}` : clientAddress);
+		headers.set('x-real-ip', clientAddress);
+	} catch (e) {
+		// Not every adapter can tell the client address (e.g. during prerendering)
+	}
+
+	const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+	let response: Response;
+	try {
+		response = await fetch(target, {
+			method: request.method,
+			headers,
+			body: hasBody ? request.body : undefined,
+			redirect: 'manual',
+			signal: request.signal,
+			// Required by Node to stream a request body
+			...(hasBody ? { duplex: 'half' } : {})
+		} as RequestInit);
+	} catch (e) {
+		const elapsed = Math.round(performance.now() - started);
+		console.error(`[api] ${requestId} ${request.method} ${url.pathname} -> backend unreachable after ${elapsed}ms:`, e);
+		return new Response(JSON.stringify({ error: 'Backend unavailable' }), {
+			status: 502,
+			headers: { 'content-type': 'application/json', 'x-request-id': requestId }
+		});
+	}
+
+	const responseHeaders = stripHeaders(response.headers, [...HOP_BY_HOP_HEADERS, ...DECODED_RESPONSE_HEADERS]);
+	responseHeaders.set('x-request-id', requestId);
+
+	const elapsed = Math.round(performance.now() - started);
+	console.log(`[api] ${requestId} ${request.method} ${url.pathname} -> ${response.status} ${elapsed}ms`);
+
+	// Pages should not get a session from the cache after a logout or a refused access token.
+	// Behind nginx in production these calls do not come here, the short cache lifetime covers that.
+	if (url.pathname === '/api/auth/logout' || response.status === 401) {
+		forgetSession(event.cookies.get(REFRESH_COOKIE));
+	}
+
+	// Stream the body through instead of buffering it
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: responseHeaders
+	});
+}
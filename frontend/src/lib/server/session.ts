@@ -0,0 +1,80 @@
+// Server-side session: turns the HttpOnly refresh token cookie into an access token and user
+import { getProfile } from '$lib/api/generated';
+import { isApiError } from '$lib/api/errors';
+import type { User } from '$lib/api';
+import { backendOrigin } from './backendProxy';
+
+export const REFRESH_COOKIE = 'refresh_token';
+
+export interface Session {
+	user: User | null;
+	accessToken: string | null;
+	checked: boolean; // False when the backend was unreachable and the session is unknown
+}
+
+const NO_SESSION: Session = { user: null, accessToken: null, checked: true };
+const UNKNOWN_SESSION: Session = { user: null, accessToken: null, checked: false };
+
+// Every page request would otherwise cost a refresh and a profile call, a page and the loads it
+// triggers share one. Only a few seconds: a session revoked on another device or by an admin
+// never passes through here, it has to run out.
+const CACHE_TTL_MS = 5 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+const cache = new Map<string, { session: Session; expiresAt: number }>();
+
+function cacheSession(refreshToken: string, session: Session) {
+	const now = Date.now();
+	if (cache.size >= CACHE_MAX_ENTRIES) {
+		for (const [key, entry] of cache) {
+			if (entry.expiresAt <= now) cache.delete(key);
+		}
+		// Still full: drop the oldest entries (Map keeps insertion order)
+		for (const key of cache.keys()) {
+			if (cache.size < CACHE_MAX_ENTRIES) break;
+			cache.delete(key);
+		}
+	}
+	cache.set(refreshToken, { session, expiresAt: now + CACHE_TTL_MS });
+}
+
+async function fetchAccessToken(refreshToken: string): Promise<string | null> {
+	const response = await fetch(`${backendOrigin()}/api/auth/refresh`, {
+		method: 'POST',
+		headers: { cookie: `${REFRESH_COOKIE}=${refreshToken}` }
+	});
+	if (response.status === 400 || response.status === 401) return null;
+	if (!response.ok) throw new Error(`Refresh failed with status ${response.status}`);
+	const data = await response.json();
+	return typeof data?.token === 'string' ? data.token : null;
+}
+
+// The backend ended the session or refused its access token, the next request checks it again
+export function forgetSession(refreshToken: string | undefined) {
+	if (refreshToken) cache.delete(refreshToken);
+}
+
+export async function resolveSession(refreshToken: string | undefined): Promise<Session> {
+	if (!refreshToken) return NO_SESSION;
+
+	const cached = cache.get(refreshToken);
+	if (cached && cached.expiresAt > Date.now()) return cached.session;
+
+	try {
+		const accessToken = await fetchAccessToken(refreshToken);
+		if (!accessToken) {
+			cacheSession(refreshToken, NO_SESSION);
+			return NO_SESSION;
+		}
+		const user = await getProfile({ accessToken, baseUrl: `${backendOrigin()}/api` });
+		const session = { user, accessToken, checked: true };
+		cacheSession(refreshToken, session);
+		return session;
+	} catch (e) {
+		if (isApiError(e, 'unauthorized') || isApiError(e, 'notFound')) {
+			return NO_SESSION;
+		}
+		// Backend down: don't log the user out, the browser keeps its own session
+		console.error('Failed to resolve session:', e);
+		return UNKNOWN_SESSION;
+	}
+}
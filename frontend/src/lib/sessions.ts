@@ -0,0 +1,30 @@
+// Logged in devices: a readable name for the browser and operating system of a session
+
+export interface DeviceDescription {
+	browser: string | null;
+	os: string | null;
+}
+
+// Order matters, Edge and Opera also claim to be Chrome and Chrome claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+	[/Edg(e|A|iOS)?\//, 'Edge'],
+	[/OPR\/|Opera/, 'Opera'],
+	[/SamsungBrowser\//, 'Samsung Internet'],
+	[/Firefox\/|FxiOS\//, 'Firefox'],
+	[/Chrome\/|CriOS\//, 'Chrome'],
+	[/Safari\//, 'Safari']
+];
+
+const SYSTEMS: [RegExp, string][] = [
+	[/iPhone|iPad|iPod/, 'iOS'],
+	[/Android/, 'Android'],
+	[/Windows/, 'Windows'],
+	[/CrOS/, 'ChromeOS'],
+	[/Mac OS X|Macintosh/, 'macOS'],
+	[/Linux/, 'Linux']
+];
+
+export function describeUserAgent(userAgent: string): DeviceDescription {
+	const find = (list: [RegExp, string][]) => list.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+	return { browser: find(BROWSERS), os: find(SYSTEMS) };
+}
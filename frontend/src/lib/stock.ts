@@ -0,0 +1,82 @@
+// Stock kept as packages (batches) with the lot number and expiry date printed on them. The backend
+// takes doses from the package that expires first; this module finds packages that are expired and
+// turns the run-out forecast (MedicineExpiry) into refill reminders.
+import type { Medicine, MedicineExpiry, StockBatch } from '$lib/api';
+import { addDays, toDateKey } from '$lib/datetime';
+
+// Packages expiring within this many days are flagged on the medicines page
+export const EXPIRING_SOON_DAYS = 30;
+
+// A refill is due when the stock runs out within this many days
+export const REFILL_LEAD_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BatchStatus = 'expired' | 'expiringSoon' | 'ok';
+
+export interface ExpiredBatch {
+	medicine: Medicine;
+	batch: StockBatch;
+}
+
+export interface RefillReminder {
+	medicine: Medicine;
+	runsOutOn: Date;
+	daysLeft: number; // 0 or less when the stock has run out
+	requestedAt: string | null; // Day the refill was requested, null while it still has to be
+}
+
+// Packages in the order doses are taken from them, packages without an expiry date last
+export function batchesInUseOrder(medicine: Medicine): StockBatch[] {
+	return [...(medicine.batches ?? [])].sort((a, b) =>
+		(a.expiryDate ?? '9999-12-31').localeCompare(b.expiryDate ?? '9999-12-31')
+	);
+}
+
+// Stock without package details: from before packages were recorded, added without them or put
+// back by undoing a dose. Doses are taken from it before any package.
+export function untrackedStock(medicine: Medicine): number {
+	const inPackages = (medicine.batches ?? []).reduce((sum, batch) => sum + batch.quantity, 0);
+	return Math.max(0, medicine.stock - inPackages);
+}
+
+// A package can be used up to and including the printed expiry date
+export function batchStatus(batch: StockBatch, today: Date = new Date()): BatchStatus {
+	if (!batch.expiryDate) return 'ok';
+	if (batch.expiryDate < toDateKey(today)) return 'expired';
+	return batch.expiryDate <= toDateKey(addDays(today, EXPIRING_SOON_DAYS)) ? 'expiringSoon' : 'ok';
+}
+
+export function expiredBatches(medicines: Medicine[], today: Date = new Date()): ExpiredBatch[] {
+	return medicines.flatMap((medicine) =>
+		batchesInUseOrder(medicine)
+			.filter((batch) => batchStatus(batch, today) === 'expired')
+			.map((batch) => ({ medicine, batch }))
+	);
+}
+
+// The medicine after taking a package out of the stock, e.g. an expired one handed in at the pharmacy
+export function withoutBatch(medicine: Medicine, batchId: string): Medicine {
+	const batch = medicine.batches?.find((b) => b.id === batchId);
+	if (!batch) return medicine;
+	return {
+		...medicine,
+		stock: medicine.stock - batch.quantity,
+		batches: medicine.batches?.filter((b) => b.id !== batchId)
+	};
+}
+
+// Medicines whose stock runs out within REFILL_LEAD_DAYS at the scheduled usage, soonest first
+export function refillReminders(forecast: MedicineExpiry[], medicines: Medicine[], now: Date = new Date()): RefillReminder[] {
+	const reminders: RefillReminder[] = [];
+	for (const entry of forecast) {
+		const medicine = medicines.find((m) => m.id === entry.id);
+		if (!medicine || !entry.expiryDate) continue;
+		const runsOutOn = new Date(entry.expiryDate);
+		const daysLeft = Math.ceil((runsOutOn.getTime() - now.getTime()) / DAY_MS);
+		if (daysLeft <= REFILL_LEAD_DAYS) {
+			reminders.push({ medicine, runsOutOn, daysLeft, requestedAt: medicine.refillRequestedAt ?? null });
+		}
+	}
+	return reminders.sort((a, b) => a.runsOutOn.getTime() - b.runsOutOn.getTime());
+}
@@ -0,0 +1,73 @@
+import { derived, get, writable } from 'svelte/store';
+import { browser } from '$app/environment';
+import { ACT_AS_COOKIE, setActingFor } from '$lib/api/client';
+import type { Share, SharePermission } from '$lib/api/generated';
+
+// The account whose regimen the app shows: the user's own (null), or one that someone they care for
+// shared with them. The backend checks the share on every request, the checks here only keep the
+// pages from offering what the share does not allow.
+
+const STORAGE_KEY = 'medicate_active_account';
+
+// Each permission includes the ones before it
+export const SHARE_PERMISSIONS: SharePermission[] = ['READ_ONLY', 'LOG_DOSES', 'MANAGE'];
+
+// Whether the active account allows the action, the user's own account allows everything
+export function can(account: Share | null, required: SharePermission): boolean {
+	return !account || SHARE_PERMISSIONS.indexOf(account.permission) >= SHARE_PERMISSIONS.indexOf(required);
+}
+
+// Accepted shares the user received, the accounts they can switch to
+export const sharedAccounts = writable<Share[]>([]);
+
+function createActiveAccountStore() {
+	const { subscribe, set } = writable<Share | null>(null);
+
+	const apply = (account: Share | null) => {
+		setActingFor(account?.ownerId ?? null);
+		if (browser) {
+			if (account) {
+				localStorage.setItem(STORAGE_KEY, JSON.stringify(account));
+				document.cookie = `${ACT_AS_COOKIE}=${account.ownerId}; path=/; SameSite=Strict`;
+			} else {
+				localStorage.removeItem(STORAGE_KEY);
+				document.cookie = `${ACT_AS_COOKIE}=; path=/; max-age=0; SameSite=Strict`;
+			}
+		}
+		set(account);
+	};
+
+	// Restore the account of the previous visit before the pages make their first request
+	if (browser) {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		try {
+			apply(stored ? JSON.parse(stored) : null);
+		} catch (e) {
+			apply(null);
+		}
+	}
+
+	return {
+		subscribe,
+		// Callers reload the page data afterwards (invalidateAll)
+		switchTo: apply,
+		reset: () => apply(null),
+		// Follow the shares from the backend: back to the own account when the share was revoked,
+		// and take over a changed permission. Returns whether the active account changed.
+		update: (received: Share[]): boolean => {
+			const accepted = received.filter((share) => share.status === 'ACCEPTED');
+			sharedAccounts.set(accepted);
+			const current = get({ subscribe });
+			if (!current) return false;
+			const latest = accepted.find((share) => share.id === current.id) ?? null;
+			if (latest?.permission === current.permission) return false;
+			apply(latest);
+			return true;
+		}
+	};
+}
+
+export const activeAccount = createActiveAccountStore();
+
+export const canLogDoses = derived(activeAccount, ($account) => can($account, 'LOG_DOSES'));
+export const canManage = derived(activeAccount, ($account) => can($account, 'MANAGE'));
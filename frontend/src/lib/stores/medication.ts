@@ -0,0 +1,233 @@
+import { get, writable } from 'svelte/store';
+import { browser } from '$app/environment';
+import {
+	deleteDosageHistory,
+	deleteSkippedDose,
+	getDosageHistories,
+	getMedicines,
+	getSchedules,
+	getSkippedDoses,
+	skipDose,
+	takeDose,
+	type DosageHistory,
+	type Medicine,
+	type Schedule,
+	type SkipDoseRequest,
+	type SkippedDose
+} from '$lib/api';
+import { toLocalDateTimeString } from '$lib/datetime';
+import type { UndoStep } from '$lib/stores/undo';
+
+// The medicines, schedules, dose history and skips of the active account, per patient profile,
+// shared by the pages that log doses. A dose that is logged, skipped or undone shows right away and
+// is rolled back when the backend refuses it, so the pages do not load the whole history again
+// after every click. Each change returns the step that undoes it.
+// Only the browser keeps data here, on the server the store would be shared by every request.
+
+export interface ProfileData {
+	medicines: Medicine[];
+	schedules: Schedule[];
+	dosageHistories: DosageHistory[];
+	skippedDoses: SkippedDose[];
+}
+
+// A dose to log, now unless it has a date-time
+export interface DoseToTake {
+	medicineId: string;
+	amount: number;
+	scheduledTime?: string;
+	datetime?: string;
+}
+
+export const EMPTY_PROFILE_DATA: ProfileData = { medicines: [], schedules: [], dosageHistories: [], skippedDoses: [] };
+
+// The account holder's data is under the empty key
+export function profileKey(profile: string | null): string {
+	return profile ?? '';
+}
+
+let optimisticIds = 0;
+const optimisticId = () => `optimistic-${++optimisticIds}`;
+
+// Stock goes down by what was taken, and up again when the dose is undone
+function withStock(medicines: Medicine[], doses: DosageHistory[], sign: 1 | -1): Medicine[] {
+	return medicines.map((medicine) => {
+		const amount = doses.filter((dose) => dose.medicineId === medicine.id).reduce((sum, dose) => sum + dose.amount, 0);
+		return amount > 0 ? { ...medicine, stock: medicine.stock + sign * amount } : medicine;
+	});
+}
+
+function addDoses(data: ProfileData, doses: DosageHistory[]): ProfileData {
+	return { ...data, dosageHistories: [...data.dosageHistories, ...doses], medicines: withStock(data.medicines, doses, -1) };
+}
+
+function dropDoses(data: ProfileData, ids: Set<string>): ProfileData {
+	const dropped = data.dosageHistories.filter((dose) => ids.has(dose.id));
+	return {
+		...data,
+		dosageHistories: data.dosageHistories.filter((dose) => !ids.has(dose.id)),
+		medicines: withStock(data.medicines, dropped, 1)
+	};
+}
+
+function toDose(history: DosageHistory): DoseToTake {
+	return { medicineId: history.medicineId, amount: history.amount, scheduledTime: history.scheduledTime, datetime: history.datetime };
+}
+
+function toSkipRequest(skip: SkippedDose): SkipDoseRequest {
+	return { medicineId: skip.medicineId, scheduledTime: skip.scheduledTime, reason: skip.reason, note: skip.note, datetime: skip.datetime };
+}
+
+function createMedicationStore() {
+	const { subscribe, update, set } = writable<Record<string, ProfileData>>({});
+
+	const change = (profile: string | null, apply: (data: ProfileData) => ProfileData) => {
+		update((all) => {
+			const data = all[profileKey(profile)];
+			return data ? { ...all, [profileKey(profile)]: apply(data) } : all;
+		});
+	};
+
+	const current = (profile: string | null): ProfileData => get({ subscribe })[profileKey(profile)] ?? EMPTY_PROFILE_DATA;
+
+	// Logs the doses one by one, each shows as taken until the backend answers. When it refuses one,
+	// that one and the ones after it are taken back and the error is thrown. A dose queued offline
+	// is left to the offline queue, which shows it until it is synced.
+	async function logDoses(profile: string | null, doses: DoseToTake[]): Promise<DosageHistory[]> {
+		const optimistic = doses.map((dose) => ({ ...dose, id: optimisticId(), datetime: dose.datetime ?? toLocalDateTimeString(new Date()) }));
+		change(profile, (data) => addDoses(data, optimistic));
+		const saved: DosageHistory[] = [];
+		try {
+			for (const [i, dose] of optimistic.entries()) {
+				// Without a date-time the backend records the moment it receives the dose
+				const history = await takeDose(dose.medicineId, dose.amount, dose.scheduledTime, doses[i].datetime, profile);
+				change(profile, (data) => {
+					const without = dropDoses(data, new Set([dose.id]));
+					return history.pending ? without : addDoses(without, [history]);
+				});
+				saved.push(history);
+			}
+		} catch (e) {
+			change(profile, (data) => dropDoses(data, new Set(optimistic.map((dose) => dose.id))));
+			throw e;
+		}
+		return saved;
+	}
+
+	// Deletes the doses one by one, they are gone until the backend refuses one. Then that one and
+	// the ones after it come back and the error is thrown.
+	async function deleteDoses(profile: string | null, histories: DosageHistory[]): Promise<void> {
+		const remaining = [...histories];
+		const shown = current(profile).dosageHistories.filter((dose) => histories.some((h) => h.id === dose.id));
+		change(profile, (data) => dropDoses(data, new Set(histories.map((h) => h.id))));
+		try {
+			while (remaining.length > 0) {
+				await deleteDosageHistory(remaining[0].id, profile);
+				remaining.shift();
+			}
+		} catch (e) {
+			change(profile, (data) => addDoses(data, shown.filter((dose) => remaining.some((h) => h.id === dose.id))));
+			throw e;
+		}
+	}
+
+	async function addSkip(profile: string | null, request: SkipDoseRequest): Promise<SkippedDose> {
+		const optimistic: SkippedDose = {
+			...request,
+			id: optimisticId(),
+			datetime: request.datetime ?? toLocalDateTimeString(new Date())
+		};
+		change(profile, (data) => ({ ...data, skippedDoses: [...data.skippedDoses, optimistic] }));
+		try {
+			const saved = await skipDose(request, profile);
+			change(profile, (data) => ({ ...data, skippedDoses: data.skippedDoses.map((skip) => (skip.id === optimistic.id ? saved : skip)) }));
+			return saved;
+		} catch (e) {
+			change(profile, (data) => ({ ...data, skippedDoses: data.skippedDoses.filter((skip) => skip.id !== optimistic.id) }));
+			throw e;
+		}
+	}
+
+	async function removeSkip(profile: string | null, skipped: SkippedDose): Promise<void> {
+		change(profile, (data) => ({ ...data, skippedDoses: data.skippedDoses.filter((skip) => skip.id !== skipped.id) }));
+		try {
+			await deleteSkippedDose(skipped.id, profile);
+		} catch (e) {
+			change(profile, (data) => ({ ...data, skippedDoses: [...data.skippedDoses, skipped] }));
+			throw e;
+		}
+	}
+
+	// Undoing logged doses deletes them, redoing logs them again at the same date-time
+	const takenStep = (profile: string | null, saved: DosageHistory[], label: string): UndoStep => ({
+		label,
+		revert: async () => {
+			await deleteDoses(profile, saved);
+			return deletedStep(profile, saved, label);
+		}
+	});
+
+	const deletedStep = (profile: string | null, deleted: DosageHistory[], label: string): UndoStep => ({
+		label,
+		revert: async () => takenStep(profile, await logDoses(profile, deleted.map(toDose)), label)
+	});
+
+	const skippedStep = (profile: string | null, saved: SkippedDose, label: string): UndoStep => ({
+		label,
+		revert: async () => {
+			await removeSkip(profile, saved);
+			return unskippedStep(profile, saved, label);
+		}
+	});
+
+	const unskippedStep = (profile: string | null, removed: SkippedDose, label: string): UndoStep => ({
+		label,
+		revert: async () => skippedStep(profile, await addSkip(profile, toSkipRequest(removed)), label)
+	});
+
+	return {
+		subscribe,
+		// Data loaded by a page, kept until the page loads it again
+		set: (profile: string | null, data: ProfileData) => {
+			if (!browser) return;
+			update((all) => ({ ...all, [profileKey(profile)]: data }));
+		},
+		load: async (profile: string | null): Promise<ProfileData> => {
+			const [medicines, schedules, dosageHistories, skippedDoses] = await Promise.all([
+				getMedicines(profile),
+				getSchedules(profile),
+				getDosageHistories(profile),
+				getSkippedDoses(profile)
+			]);
+			const data = { medicines, schedules, dosageHistories, skippedDoses };
+			if (browser) {
+				update((all) => ({ ...all, [profileKey(profile)]: data }));
+			}
+			return data;
+		},
+		// A medicine changed on the page, e.g. a refill that was requested
+		updateMedicine: (profile: string | null, medicine: Medicine) => {
+			change(profile, (data) => ({ ...data, medicines: data.medicines.map((m) => (m.id === medicine.id ? medicine : m)) }));
+		},
+		take: async (profile: string | null, doses: DoseToTake[], label: string) => {
+			const saved = await logDoses(profile, doses);
+			return { saved, undo: takenStep(profile, saved, label) };
+		},
+		untake: async (profile: string | null, histories: DosageHistory[], label: string): Promise<UndoStep> => {
+			await deleteDoses(profile, histories);
+			return deletedStep(profile, histories, label);
+		},
+		skip: async (profile: string | null, request: SkipDoseRequest, label: string) => {
+			const saved = await addSkip(profile, request);
+			return { saved, undo: skippedStep(profile, saved, label) };
+		},
+		unskip: async (profile: string | null, skipped: SkippedDose, label: string): Promise<UndoStep> => {
+			await removeSkip(profile, skipped);
+			return unskippedStep(profile, skipped, label);
+		},
+		// The data belongs to the account that was active
+		clear: () => set({})
+	};
+}
+
+export const medication = createMedicationStore();
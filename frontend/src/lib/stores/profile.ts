@@ -0,0 +1,60 @@
+import { get, writable } from 'svelte/store';
+import { browser } from '$app/environment';
+import { PROFILE_COOKIE, setSelectedProfile } from '$lib/api/client';
+import type { PatientProfile } from '$lib/api/generated';
+
+// The patient profile of the active account whose medicines the app shows: the account holder
+// themselves (null), or someone they keep track of, like a child or a pet. Every call to the
+// backend is scoped to it, see PROFILE_HEADER in the API client.
+
+const STORAGE_KEY = 'medicate_active_profile';
+
+// Patient profiles of the active account, the ones the user can switch to
+export const patientProfiles = writable<PatientProfile[]>([]);
+
+function createActiveProfileStore() {
+	const { subscribe, set } = writable<PatientProfile | null>(null);
+
+	const apply = (profile: PatientProfile | null) => {
+		setSelectedProfile(profile?.id ?? null);
+		if (browser) {
+			if (profile) {
+				localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+				document.cookie = `${PROFILE_COOKIE}=${profile.id}; path=/; SameSite=Strict`;
+			} else {
+				localStorage.removeItem(STORAGE_KEY);
+				document.cookie = `${PROFILE_COOKIE}=; path=/; max-age=0; SameSite=Strict`;
+			}
+		}
+		set(profile);
+	};
+
+	// Restore the profile of the previous visit before the pages make their first request
+	if (browser) {
+		const stored = localStorage.getItem(STORAGE_KEY);
+		try {
+			apply(stored ? JSON.parse(stored) : null);
+		} catch (e) {
+			apply(null);
+		}
+	}
+
+	return {
+		subscribe,
+		// Callers reload the page data afterwards (invalidateAll)
+		switchTo: apply,
+		reset: () => apply(null),
+		// Follow the profiles from the backend: back to the account holder when the profile was deleted,
+		// and take over a changed name, colour or avatar. Returns whether the active profile is gone.
+		update: (profiles: PatientProfile[]): boolean => {
+			patientProfiles.set(profiles);
+			const current = get({ subscribe });
+			if (!current) return false;
+			const latest = profiles.find((profile) => profile.id === current.id) ?? null;
+			apply(latest);
+			return latest === null;
+		}
+	};
+}
+
+export const activeProfile = createActiveProfileStore();
@@ -0,0 +1,11 @@
+import { derived } from 'svelte/store';
+import { deviceTimezone, zoneOffsetMinutes } from '$lib/datetime';
+import { userStore } from '$lib/stores/user';
+
+// The user's home time zone, which schedules in home time follow. Null until they pick one,
+// then those schedules follow the device like the others.
+export const homeTimezone = derived(userStore, ($user) => $user?.timezone ?? null);
+
+// Away from home: the device's clock is ahead of (positive) or behind home time, in minutes.
+// Zero at home, or in another zone that has the same time.
+export const homeTimeDifference = derived(homeTimezone, ($home) => ($home ? zoneOffsetMinutes(deviceTimezone()) - zoneOffsetMinutes($home) : 0));
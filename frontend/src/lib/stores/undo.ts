@@ -0,0 +1,65 @@
+import { get, writable } from 'svelte/store';
+
+// Changes the user can take back and redo, several steps deep. A step reverts itself and returns
+// the step that reverts that again: undoing a dose deletes it, redoing it logs a new one.
+
+export interface UndoStep {
+	label: string; // What the user did, e.g. "Recorded 1x Aspirin"
+	revert: () => Promise<UndoStep>;
+}
+
+const MAX_STEPS = 20;
+
+export const undoStack = writable<UndoStep[]>([]);
+export const redoStack = writable<UndoStep[]>([]);
+
+// A new change can be undone, and ends what could be redone
+export function recordStep(step: UndoStep) {
+	undoStack.update((steps) => [...steps, step].slice(-MAX_STEPS));
+	redoStack.set([]);
+}
+
+// Several changes undone and redone as one, e.g. the doses of a time slot, the last one first
+export function combineSteps(label: string, steps: UndoStep[]): UndoStep {
+	return {
+		label,
+		revert: async () => {
+			const reverted: UndoStep[] = [];
+			for (const step of [...steps].reverse()) {
+				reverted.push(await step.revert());
+			}
+			return combineSteps(label, reverted);
+		}
+	};
+}
+
+// Reverts the newest step of one stack and pushes its reverse on the other. A step that fails
+// stays where it was. Returns the reverted step, null when there was nothing to revert.
+async function move(from: typeof undoStack, to: typeof undoStack): Promise<UndoStep | null> {
+	const steps = get(from);
+	const step = steps[steps.length - 1];
+	if (!step) return null;
+	from.set(steps.slice(0, -1));
+	try {
+		const reverse = await step.revert();
+		to.update((other) => [...other, reverse].slice(-MAX_STEPS));
+		return step;
+	} catch (e) {
+		from.update((other) => [...other, step]);
+		throw e;
+	}
+}
+
+export function undo(): Promise<UndoStep | null> {
+	return move(undoStack, redoStack);
+}
+
+export function redo(): Promise<UndoStep | null> {
+	return move(redoStack, undoStack);
+}
+
+// Steps of one account do not apply to another
+export function clearSteps() {
+	undoStack.set([]);
+	redoStack.set([]);
+}
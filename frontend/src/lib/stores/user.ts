@@ -1,29 +1,56 @@
-import { writable } from 'svelte/store';
+import { writable, type Readable } from 'svelte/store';
 import { browser } from '$app/environment';
+import { page } from '$app/stores';
 import type { User } from '$lib/api';
-import { setAccessToken, getAccessToken } from '$lib/api';
+import { setAccessToken, getAccessToken, isApiError } from '$lib/api';
+import { refreshAccessToken } from '$lib/api/client';
+import { broadcastSession } from '$lib/api/sessionChannel';
 
 const STORAGE_KEY = 'medicate_user';
 
 function createUserStore() {
 	const { subscribe, set } = writable<User | null>(null);
 
+	// Module state on the server is shared by all requests, so there the user comes from the page data
+	// of the request being rendered (see +layout.server.ts) instead
+	const subscribeToRequest: Readable<User | null>['subscribe'] = (run) =>
+		page.subscribe(($page) => run(($page.data.user as User | null | undefined) ?? null));
+
+	const logout = async () => {
+		if (browser) {
+			// Import logout dynamically to avoid circular dependency
+			const { logout } = await import('$lib/api');
+			await logout();
+			broadcastSession({ type: 'logout' });
+		}
+		set(null);
+	};
+
 	return {
-		subscribe,
+		subscribe: browser ? subscribe : subscribeToRequest,
 		set,
 		login: (user: User) => {
 			if (browser) {
 				localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+				broadcastSession({ type: 'login', user });
 			}
 			set(user);
 		},
-		logout: async () => {
-			if (browser) {
-				// Import logout dynamically to avoid circular dependency
-				const { logout } = await import('$lib/api');
-				await logout();
+		logout,
+		// Take over the user the server found for this request (see hooks.server.ts), in the browser.
+		// A checked session without user means the refresh cookie is gone or expired.
+		hydrate: (user: User | null, sessionChecked: boolean) => {
+			if (!browser) return;
+			if (user) {
+				localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
+			} else if (sessionChecked) {
+				localStorage.removeItem(STORAGE_KEY);
+				setAccessToken(null);
+			} else {
+				// The server could not reach the backend, keep the session of this browser
+				return;
 			}
-			set(null);
+			set(user);
 		},
 		init: async () => {
 			if (browser) {
@@ -36,23 +63,18 @@ function createUserStore() {
 						// Access token is lost on page refresh (in memory)
 						// Try to refresh it using the HttpOnly cookie
 						if (!getAccessToken()) {
-							const { default: api } = await import('$lib/api');
-							// Try to refresh access token from cookie
 							try {
-								const response = await fetch('/api/auth/refresh', {
-									method: 'POST',
-									credentials: 'include'
-								});
-								if (response.ok) {
-									const data = await response.json();
-									setAccessToken(data.token);
+								// Shared with the requests the pages fire meanwhile, so they don't refresh again
+								await refreshAccessToken();
+							} catch (e) {
+								if (isApiError(e, 'network')) {
+									// No connection: stay logged in so the app keeps working offline,
+									// the token is refreshed on the first request once back online
+									console.error('Failed to refresh token on init:', e);
 								} else {
 									// Refresh token expired or invalid, logout
-									this.logout();
+									await logout();
 								}
-							} catch (e) {
-								console.error('Failed to refresh token on init:', e);
-								this.logout();
 							}
 						}
 					} catch (e) {
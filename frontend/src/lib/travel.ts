@@ -0,0 +1,93 @@
+// Travel plans. After a flight across time zones, a dose at its usual clock time comes hours early or
+// late. For most medicines that does not matter, but time-critical ones like insulin or the pill need a
+// steady interval: their doses move to the new clock in steps of at most a few hours a day.
+// Schedules in home time and every-n-hours schedules keep their interval already and need no plan.
+import type { Medicine, Schedule } from '$lib/api';
+import { atTime, shiftDateKey, zoneOffsetMinutes } from '$lib/datetime';
+import { recurrenceType, type Translate } from '$lib/recurrence';
+
+const DAY_MINUTES = 24 * 60;
+
+// How far a dose may move per day, in minutes
+export const DAILY_SHIFT_OPTIONS = [60, 120, 180];
+export const DEFAULT_DAILY_SHIFT = 120;
+
+export interface TravelPlanDay {
+	date: string; // YYYY-MM-DD at the destination
+	time: string; // "HH:MM" on the destination's clock
+	change: number; // Minutes the interval since the previous dose is longer (positive) or shorter than a day
+}
+
+export interface TravelPlan {
+	schedule: Schedule;
+	medicine: Medicine;
+	days: TravelPlanDay[]; // Until the dose is back at its usual time
+}
+
+// Minutes the destination's clock is ahead of the origin's on the date, e.g. -360 from Amsterdam to New York
+export function timeDifference(origin: string, destination: string, date: string): number {
+	const noon = atTime(date, '12:00', origin);
+	return zoneOffsetMinutes(destination, noon) - zoneOffsetMinutes(origin, noon);
+}
+
+// E.g. "6 hours behind", for a difference from timeDifference
+export function describeTimeDifference(minutes: number, t: Translate): string {
+	const hours = Math.round((Math.abs(minutes) / 60) * 100) / 100;
+	if (minutes === 0) return t('travel.sameTime');
+	return t(minutes > 0 ? 'travel.hoursAhead' : 'travel.hoursBehind', { values: { hours } });
+}
+
+function toMinutes(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+	return hours * 60 + minutes;
+}
+
+function toTime(minutes: number): string {
+	const wrapped = ((minutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+	return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+// Whether the schedule's doses should move gradually when travelling
+export function needsTravelPlan(schedule: Schedule, medicine: Medicine | undefined): boolean {
+	return !!medicine?.timeCritical && schedule.timezoneMode !== 'HOME' && recurrenceType(schedule) !== 'INTERVAL';
+}
+
+// Doses from the day of arrival on: they start where the old clock put them and move towards the usual
+// time on the new clock by at most `dailyShift` minutes a day. Empty when the clocks agree.
+export function shiftPlan(schedule: Schedule, origin: string, destination: string, arrival: string, dailyShift: number = DEFAULT_DAILY_SHIFT): TravelPlanDay[] {
+	let difference = timeDifference(origin, destination, arrival) % DAY_MINUTES;
+	// Go the shorter way round the clock, e.g. 10 hours later instead of 14 hours earlier
+	if (difference > DAY_MINUTES / 2) difference -= DAY_MINUTES;
+	if (difference <= -DAY_MINUTES / 2) difference += DAY_MINUTES;
+	if (difference === 0) return [];
+
+	// On the new clock the dose is due `difference` minutes later than usual, and moves back by the opposite
+	const usual = toMinutes(schedule.time);
+	const total = -difference;
+	const step = Math.max(1, dailyShift);
+	const days: TravelPlanDay[] = [];
+	let moved = 0;
+	for (let day = 0; moved !== total; day++) {
+		const next = Math.sign(total) * Math.min(Math.abs(total), (day + 1) * step);
+		days.push({ date: shiftDateKey(arrival, day), time: toTime(usual + difference + next), change: next - moved });
+		moved = next;
+	}
+	return days;
+}
+
+// Plans for the time-critical schedules, in the order of their usual time
+export function travelPlans(
+	schedules: Schedule[],
+	medicines: Medicine[],
+	origin: string,
+	destination: string,
+	arrival: string,
+	dailyShift: number = DEFAULT_DAILY_SHIFT
+): TravelPlan[] {
+	return schedules
+		.map((schedule) => ({ schedule, medicine: medicines.find((m) => m.id === schedule.medicineId) }))
+		.filter((entry): entry is { schedule: Schedule; medicine: Medicine } => needsTravelPlan(entry.schedule, entry.medicine))
+		.map(({ schedule, medicine }) => ({ schedule, medicine, days: shiftPlan(schedule, origin, destination, arrival, dailyShift) }))
+		.filter((plan) => plan.days.length > 0)
+		.sort((a, b) => a.schedule.time.localeCompare(b.schedule.time));
+}
@@ -0,0 +1,92 @@
+import { browser } from '$app/environment';
+import type {
+	PasskeyLoginOptionsResponse,
+	PasskeyLoginRequest,
+	PasskeyRegistrationOptionsResponse,
+	PasskeyRegistrationRequest
+} from '$lib/api';
+
+// COSE algorithm identifiers the backend can verify, in order of preference
+const ALGORITHMS = [-7, -8, -257]; // ES256, EdDSA, RS256
+
+export function passkeysSupported(): boolean {
+	return browser && typeof window.PublicKeyCredential !== 'undefined' && !!navigator.credentials;
+}
+
+export function toBase64Url(buffer: ArrayBuffer): string {
+	let binary = '';
+	for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): ArrayBuffer {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes.buffer;
+}
+
+// True when the user dismissed the browser's passkey dialog, which is not worth an error message
+export function isPasskeyCancelled(e: unknown): boolean {
+	return e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'AbortError');
+}
+
+// Let the authenticator create a passkey, the result goes to registerPasskey()
+export async function createPasskey(
+	options: PasskeyRegistrationOptionsResponse,
+	name: string
+): Promise<PasskeyRegistrationRequest> {
+	const credential = (await navigator.credentials.create({
+		publicKey: {
+			challenge: fromBase64Url(options.challenge),
+			rp: { id: options.rpId, name: options.rpName },
+			user: {
+				id: fromBase64Url(options.userId),
+				name: options.userName,
+				displayName: options.userDisplayName
+			},
+			pubKeyCredParams: ALGORITHMS.map((alg) => ({ type: 'public-key' as const, alg })),
+			excludeCredentials: options.excludeCredentials.map((id) => ({ type: 'public-key' as const, id: fromBase64Url(id) })),
+			authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+			attestation: 'none'
+		}
+	})) as PublicKeyCredential | null;
+	if (!credential) throw new DOMException('No passkey created', 'NotAllowedError');
+
+	// getPublicKey() hands out the key as SubjectPublicKeyInfo, so the backend needs no CBOR parsing
+	const response = credential.response as AuthenticatorAttestationResponse;
+	const publicKey = response.getPublicKey();
+	if (!publicKey) throw new DOMException('The authenticator uses an unsupported key type', 'NotSupportedError');
+
+	return {
+		name,
+		credentialId: toBase64Url(credential.rawId),
+		clientDataJSON: toBase64Url(response.clientDataJSON),
+		publicKey: toBase64Url(publicKey),
+		publicKeyAlgorithm: response.getPublicKeyAlgorithm()
+	};
+}
+
+// Let the authenticator sign the login challenge with one of the allowed passkeys
+export async function getPasskeyAssertion(options: PasskeyLoginOptionsResponse): Promise<PasskeyLoginRequest> {
+	const credential = (await navigator.credentials.get({
+		publicKey: {
+			challenge: fromBase64Url(options.challenge),
+			rpId: options.rpId,
+			allowCredentials: options.allowCredentials.map((id) => ({ type: 'public-key' as const, id: fromBase64Url(id) })),
+			// Without allowed passkeys there was no password, the passkey has to verify the user itself
+			userVerification: options.allowCredentials.length > 0 ? 'preferred' : 'required'
+		}
+	})) as PublicKeyCredential | null;
+	if (!credential) throw new DOMException('No passkey selected', 'NotAllowedError');
+
+	const response = credential.response as AuthenticatorAssertionResponse;
+	return {
+		credentialId: toBase64Url(credential.rawId),
+		clientDataJSON: toBase64Url(response.clientDataJSON),
+		authenticatorData: toBase64Url(response.authenticatorData),
+		signature: toBase64Url(response.signature),
+		userHandle: response.userHandle ? toBase64Url(response.userHandle) : null
+	};
+}
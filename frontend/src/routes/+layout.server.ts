@@ -1,6 +1,9 @@
 import type { LayoutServerLoad } from './$types';
 
+// The session is resolved from the refresh token cookie in hooks.server.ts
 export const load: LayoutServerLoad = async ({ locals }) => {
-  // Optionally, you can preload user info here if you have session/cookie auth
-  return {};
+	return {
+		user: locals.user,
+		sessionChecked: locals.sessionChecked
+	};
 };
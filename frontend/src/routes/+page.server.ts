@@ -0,0 +1,18 @@
+import type { PageServerLoad } from './$types';
+import { getDosageHistories, getSkippedDoses, getMedicines, getSchedules, getMedicineExpiry } from '$lib/api/generated';
+import { loadForUser } from '$lib/server/api';
+
+export const load: PageServerLoad = async (event) => {
+	return {
+		dashboard: await loadForUser(event, async (options) => {
+			const [dosageHistories, skippedDoses, medicines, schedules, medicineExpiry] = await Promise.all([
+				getDosageHistories(options),
+				getSkippedDoses(options),
+				getMedicines(options),
+				getSchedules(options),
+				getMedicineExpiry(options)
+			]);
+			return { dosageHistories, skippedDoses, medicines, schedules, medicineExpiry };
+		})
+	};
+};
@@ -0,0 +1,17 @@
+import type { PageServerLoad } from './$types';
+import { getDosageHistories, getMedicines, getSchedules, getSkippedDoses } from '$lib/api/generated';
+import { loadForUser } from '$lib/server/api';
+
+export const load: PageServerLoad = async (event) => {
+	return {
+		analyticsData: await loadForUser(event, async (options) => {
+			const [histories, medicines, schedules, skips] = await Promise.all([
+				getDosageHistories(options),
+				getMedicines(options),
+				getSchedules(options),
+				getSkippedDoses(options)
+			]);
+			return { histories, medicines, schedules, skips };
+		})
+	};
+};
@@ -1,13 +0,0 @@
-import type { RequestHandler } from '@sveltejs/kit';
-
-export const POST: RequestHandler = async ({ request, fetch }) => {
-  // Proxy the request to the backend API
-  const body = await request.text();
-  const res = await fetch('http://localhost:8080/api/user/register', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body
-  });
-  const data = await res.json();
-  return new Response(JSON.stringify(data), { status: res.status, headers: { 'Content-Type': 'application/json' } });
-};
@@ -1,3 +0,0 @@
-// ...existing code...
-// This file should be removed. Registration is handled by /api/user/register/+server.ts
-// ...existing code...
@@ -0,0 +1,5 @@
+import type { RequestHandler } from './$types';
+import { proxyToBackend } from '$lib/server/backendProxy';
+
+// Every method on every /api path goes to the backend unchanged
+export const fallback: RequestHandler = (event) => proxyToBackend(event);
@@ -0,0 +1,18 @@
+import type { PageServerLoad } from './$types';
+import { getDosageHistories, getSkippedDoses, getJournalEntries, getMedicines, getSchedules } from '$lib/api/generated';
+import { loadForUser } from '$lib/server/api';
+
+export const load: PageServerLoad = async (event) => {
+	return {
+		historyData: await loadForUser(event, async (options) => {
+			const [histories, skips, medicines, schedules, journalEntries] = await Promise.all([
+				getDosageHistories(options),
+				getSkippedDoses(options),
+				getMedicines(options),
+				getSchedules(options),
+				getJournalEntries(options)
+			]);
+			return { histories, skips, medicines, schedules, journalEntries };
+		})
+	};
+};
@@ -0,0 +1,18 @@
+import type { PageServerLoad } from './$types';
+import { getDosageHistories, getJournalEntries, getMedicines, getSchedules, getSkippedDoses } from '$lib/api/generated';
+import { loadForUser } from '$lib/server/api';
+
+export const load: PageServerLoad = async (event) => {
+	return {
+		journalData: await loadForUser(event, async (options) => {
+			const [entries, histories, medicines, schedules, skips] = await Promise.all([
+				getJournalEntries(options),
+				getDosageHistories(options),
+				getMedicines(options),
+				getSchedules(options),
+				getSkippedDoses(options)
+			]);
+			return { entries, histories, medicines, schedules, skips };
+		})
+	};
+};
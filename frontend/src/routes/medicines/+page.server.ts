@@ -0,0 +1,9 @@
+import type { PageServerLoad } from './$types';
+import { getMedicines } from '$lib/api/generated';
+import { loadForUser } from '$lib/server/api';
+
+export const load: PageServerLoad = async (event) => {
+	return {
+		medicines: await loadForUser(event, (options) => getMedicines(options))
+	};
+};
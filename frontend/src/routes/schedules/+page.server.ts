@@ -0,0 +1,12 @@
+import type { PageServerLoad } from './$types';
+import { getSchedules, getMedicines } from '$lib/api/generated';
+import { loadForUser } from '$lib/server/api';
+
+export const load: PageServerLoad = async (event) => {
+	return {
+		scheduleData: await loadForUser(event, async (options) => {
+			const [schedules, medicines] = await Promise.all([getSchedules(options), getMedicines(options)]);
+			return { schedules, medicines };
+		})
+	};
+};
@@ -0,0 +1,139 @@
+/// <reference types="@sveltejs/kit" />
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+
+import { build, files, version } from '$service-worker';
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+// Cache names are tied to the build version: a new deploy installs a new service worker,
+// which fills fresh caches and deletes the ones from older builds on activation.
+// The data cache prefix must match DATA_CACHE_PREFIX in $lib/pwa.ts (cleared on logout).
+const SHELL_CACHE = `medicate-shell-${version}`;
+const DATA_CACHE = `medicate-data-${version}`;
+
+// App shell: the built JS/CSS chunks and everything in static/
+const SHELL_ASSETS = [...build, ...files];
+
+// API reads the dashboard needs to show today's schedule, skipped doses and the journal without a connection.
+// Served network-first, the last successful response is kept as offline fallback.
+const CACHED_API_PATHS = [
+	'/api/daily',
+	'/api/medicine',
+	'/api/schedule',
+	'/api/history',
+	'/api/adherence',
+	'/api/medicineExpiry',
+	'/api/skips',
+	'/api/journal'
+];
+
+sw.addEventListener('install', (event) => {
+	event.waitUntil(
+		caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_ASSETS))
+	);
+});
+
+sw.addEventListener('activate', (event) => {
+	event.waitUntil(
+		(async () => {
+			for (const key of await caches.keys()) {
+				if (key.startsWith('medicate-') && key !== SHELL_CACHE && key !== DATA_CACHE) {
+					await caches.delete(key);
+				}
+			}
+			await sw.clients.claim();
+		})()
+	);
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+sw.addEventListener('message', (event) => {
+	if (event.data?.type === 'SKIP_WAITING') {
+		sw.skipWaiting();
+	}
+});
+
+// API responses depend on the patient profile and the shared account the request is for (the
+// X-Profile and X-Act-As headers, see $lib/api/client.ts), so those are part of the cache key.
+// Otherwise one profile's medicines could show under another when offline.
+function scopedCacheKey(request: Request): string {
+	const url = new URL(request.url);
+	url.searchParams.set('__profile', request.headers.get('X-Profile') ?? '');
+	url.searchParams.set('__actAs', request.headers.get('X-Act-As') ?? '');
+	return url.toString();
+}
+
+async function networkFirst(request: Request, cacheName: string, cacheKey: Request | string = request, fallbackUrl?: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	try {
+		const response = await fetch(request);
+		if (response.ok) {
+			await cache.put(cacheKey, response.clone());
+		}
+		return response;
+	} catch (e) {
+		// Responses are cached without auth headers in mind, the access token differs per session
+		const cached = (await cache.match(cacheKey, { ignoreVary: true })) ??
+			(fallbackUrl ? await caches.match(fallbackUrl) : undefined);
+		if (cached) return cached;
+		throw e;
+	}
+}
+
+sw.addEventListener('fetch', (event) => {
+	const { request } = event;
+	if (request.method !== 'GET') return;
+
+	const url = new URL(request.url);
+	if (url.origin !== sw.location.origin) return;
+
+	// Immutable build output and static files never change within a version
+	if (SHELL_ASSETS.includes(url.pathname)) {
+		event.respondWith(
+			caches.match(url.pathname).then((cached) => cached ?? fetch(request))
+		);
+		return;
+	}
+
+	if (url.pathname.startsWith('/api/')) {
+		if (CACHED_API_PATHS.includes(url.pathname)) {
+			event.respondWith(networkFirst(request, DATA_CACHE, scopedCacheKey(request)));
+		}
+		return;
+	}
+
+	// Pages and their __data.json are rendered with the user's data, so they live in the data cache
+	// that is cleared on login and logout, and on switching profile or account (the cookies that
+	// scope them are not visible here). Offline navigations fall back to the last dashboard.
+	event.respondWith(
+		networkFirst(request, DATA_CACHE, request, request.mode === 'navigate' ? '/' : undefined)
+	);
+});
+
+// Dose reminder actions (see $lib/reminders.ts). The page does the actual work since it holds
+// the session: an open window gets a message, otherwise the app is opened with the action in the URL.
+sw.addEventListener('notificationclick', (event) => {
+	const reminder = event.notification.data?.reminder;
+	event.notification.close();
+	if (!reminder) return;
+
+	const action = event.action === 'take' || event.action === 'snooze' ? event.action : null;
+
+	event.waitUntil(
+		(async () => {
+			const windows = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true });
+			const client = windows[0];
+			if (client) {
+				if (action) client.postMessage({ type: 'REMINDER_ACTION', action, reminder });
+				await client.focus();
+				return;
+			}
+			const url = action
+				? `/?reminderAction=${action}&reminder=${encodeURIComponent(JSON.stringify(reminder))}`
+				: '/';
+			await sw.clients.openWindow(url);
+		})()
+	);
+});
@@ -1,14 +1,8 @@
 import { sveltekit } from '@sveltejs/kit/vite';
 import { defineConfig } from 'vite';
 
+// /api is forwarded to the backend by src/routes/api/[...path] (origin from BACKEND_ORIGIN),
+// the same way in dev mode as in the SSR build
 export default defineConfig({
-	plugins: [sveltekit()],
-	server: {
-		proxy: {
-			'/api': {
-				target: 'http://localhost:8080',
-				changeOrigin: true
-			}
-		}
-	}
+	plugins: [sveltekit()]
 });
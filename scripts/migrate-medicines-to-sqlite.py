@@ -4,6 +4,7 @@ Migration script to convert medicines.json to SQLite database.
 This is a one-time migration to improve memory efficiency.
 """
 
+import csv
 import json
 import sqlite3
 import sys
@@ -53,6 +54,15 @@ def create_database(db_path):
     cursor.execute("CREATE INDEX IF NOT EXISTS idx_productnaam ON medicines(productnaam)")
     cursor.execute("CREATE INDEX IF NOT EXISTS idx_werkzamestoffen ON medicines(werkzamestoffen)")
     cursor.execute("CREATE INDEX IF NOT EXISTS idx_farmaceutischevorm ON medicines(farmaceutischevorm)")
+    cursor.execute("CREATE INDEX IF NOT EXISTS idx_registratienummer ON medicines(registratienummer)")
+
+    # Package barcodes (GTIN-14) of the medicines, filled from the optional barcodes.csv
+    cursor.execute("""
+        CREATE TABLE IF NOT EXISTS barcodes (
+            gtin TEXT PRIMARY KEY,
+            registratienummer TEXT NOT NULL
+        )
+    """)
 
     conn.commit()
     return conn
@@ -140,6 +150,31 @@ def migrate_json_to_sqlite(json_path, db_path):
     print(f"  Original JSON size: {json_size_mb:.2f} MB")
     print(f"  Space saved in memory: ~{json_size_mb:.2f} MB (JSON is no longer loaded into RAM)")
 
+def migrate_barcodes(csv_path, db_path):
+    """Import package barcodes from a | separated CSV with gtin and registratienummer columns."""
+    print(f"Reading barcodes from: {csv_path}")
+
+    conn = sqlite3.connect(db_path)
+    cursor = conn.cursor()
+    count = 0
+
+    with open(csv_path, 'r', encoding='utf-8') as f:
+        for row in csv.DictReader(f, delimiter='|'):
+            row = {k.lower(): (v or '').strip() for k, v in row.items()}
+            gtin = row.get('gtin', '')
+            if not gtin.isdigit() or not row.get('registratienummer'):
+                continue
+            # EAN-13 and shorter codes are stored as GTIN-14, like the backend looks them up
+            cursor.execute(
+                "INSERT OR REPLACE INTO barcodes (gtin, registratienummer) VALUES (?, ?)",
+                (gtin.zfill(14), row['registratienummer'])
+            )
+            count += 1
+
+    conn.commit()
+    conn.close()
+    print(f"  Total barcodes: {count}")
+
 if __name__ == "__main__":
     # Get data directory from environment or use default
     data_dir = os.environ.get('MEDICINES_DATA_DIR', 'data')
@@ -154,3 +189,9 @@ if __name__ == "__main__":
     print()
 
     migrate_json_to_sqlite(json_path, db_path)
+
+    barcodes_path = os.path.join(data_dir, 'barcodes.csv')
+    if os.path.exists(barcodes_path):
+        migrate_barcodes(barcodes_path, db_path)
+    else:
+        print(f"\nNo {barcodes_path}, scanned packages are not looked up in the medicine database")
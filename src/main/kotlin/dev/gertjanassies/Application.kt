@@ -4,21 +4,32 @@ import com.auth0.jwt.JWT
 import com.auth0.jwt.algorithms.Algorithm
 import dev.gertjanassies.model.serializer.LocalDateTimeSerializer
 import dev.gertjanassies.model.serializer.UUIDSerializer
+import dev.gertjanassies.routes.ACT_AS_HEADER
+import dev.gertjanassies.routes.PROFILE_HEADER
 import dev.gertjanassies.routes.adherenceRoutes
 import dev.gertjanassies.routes.adminRoutes
 import dev.gertjanassies.routes.authRoutes
+import dev.gertjanassies.routes.calendarFeedRoutes
+import dev.gertjanassies.routes.calendarRoutes
 import dev.gertjanassies.routes.dailyRoutes
 import dev.gertjanassies.routes.dosageHistoryRoutes
 import dev.gertjanassies.routes.healthRoutes
 import dev.gertjanassies.routes.medicineRoutes
 import dev.gertjanassies.routes.medicineSearchRoutes
+import dev.gertjanassies.routes.patientProfileRoutes
 import dev.gertjanassies.routes.protectedUserRoutes
 import dev.gertjanassies.routes.scheduleRoutes
+import dev.gertjanassies.routes.sessionRoutes
+import dev.gertjanassies.routes.shareRoutes
+import dev.gertjanassies.routes.twoFactorLoginRoutes
+import dev.gertjanassies.routes.twoFactorRoutes
 import dev.gertjanassies.routes.userRoutes
 import dev.gertjanassies.service.EmailService
+import dev.gertjanassies.service.GeoIpService
 import dev.gertjanassies.service.JwtService
 import dev.gertjanassies.service.RedisService
 import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.service.TwoFactorService
 import io.ktor.client.*
 import io.ktor.client.engine.cio.*
 import io.ktor.client.plugins.contentnegotiation.*
@@ -59,6 +70,8 @@ fun Application.module() {
             allowMethod(HttpMethod.Patch)
             allowHeader(HttpHeaders.Authorization)
             allowHeader(HttpHeaders.ContentType)
+            allowHeader(ACT_AS_HEADER)
+            allowHeader(PROFILE_HEADER)
             allowHost("localhost:5173", schemes = listOf("http", "https"))
             allowHost("127.0.0.1:5173", schemes = listOf("http", "https"))
         }
@@ -120,6 +133,11 @@ fun Application.module() {
 
     val emailService = EmailService(httpClient, redisService, resendApiKey, appUrl)
 
+    // Approximate location of sessions, disabled without a lookup URL
+    val geoIpUrl = environment.config.propertyOrNull("geoip.url")?.getString()
+        ?: System.getenv("GEOIP_URL") ?: ""
+    val geoIpService = GeoIpService(httpClient, geoIpUrl)
+
     // Initialize JWT Service
     val jwtSecret = environment.config.propertyOrNull("jwt.secret")?.getString()
         ?: System.getenv("JWT_SECRET")
@@ -131,6 +149,9 @@ fun Application.module() {
 
     val jwtService = JwtService(jwtSecret)
 
+    // Passkeys are bound to the host of the app URL
+    val twoFactorService = TwoFactorService(appUrl)
+
     // Install JWT Authentication
     install(Authentication) {
         jwt("auth-jwt") {
@@ -142,7 +163,16 @@ fun Application.module() {
             )
             validate { credential ->
                 val username = credential.payload.getClaim("username").asString()
-                if (username != null) {
+                // Access tokens of a logged out session stop working right away, as do all while the check fails
+                val sessionId = credential.payload.getClaim("sessionId").asString()
+                val sessionActive = sessionId == null || redisService.sessionExists(sessionId).fold(
+                    { error ->
+                        this@module.log.warn("Failed to check session $sessionId: ${error.message}")
+                        false
+                    },
+                    { it }
+                )
+                if (username != null && sessionActive) {
                     JWTPrincipal(credential.payload)
                 } else {
                     null
@@ -163,17 +193,25 @@ fun Application.module() {
             healthRoutes()
             authRoutes(redisService, emailService, jwtService)
             userRoutes(redisService, jwtService, emailService)  // Login/register are public
+            twoFactorLoginRoutes(redisService, jwtService, twoFactorService)
+            calendarFeedRoutes(redisService)  // The feed's token gives access
 
             // Protected routes (require JWT authentication)
             authenticate("auth-jwt") {
                 protectedUserRoutes(redisService)
+                twoFactorRoutes(redisService, twoFactorService)
+                sessionRoutes(redisService, geoIpService)
+                calendarRoutes(redisService)
                 medicineRoutes(redisService)
                 medicineSearchRoutes()
                 scheduleRoutes(redisService)
                 dailyRoutes(redisService)
                 dosageHistoryRoutes(redisService)
+                journalRoutes(redisService)
                 adherenceRoutes(redisService)
-                adminRoutes(redisService)
+                shareRoutes(redisService)
+                patientProfileRoutes(redisService)
+                adminRoutes(redisService, emailService)
             }
         }
 
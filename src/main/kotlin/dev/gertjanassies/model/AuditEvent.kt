@@ -0,0 +1,44 @@
+package dev.gertjanassies.model
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+enum class AuditCategory {
+    ADMIN, // Changes admins made to accounts
+    SECURITY // Logins, passwords and two-factor authentication
+}
+
+@Serializable
+enum class AuditEventType(val category: AuditCategory) {
+    USER_ACTIVATED(AuditCategory.ADMIN),
+    USER_DEACTIVATED(AuditCategory.ADMIN),
+    USER_DELETED(AuditCategory.ADMIN),
+    ADMIN_GRANTED(AuditCategory.ADMIN),
+    ADMIN_REVOKED(AuditCategory.ADMIN),
+    ACTIVATION_EMAIL_SENT(AuditCategory.ADMIN),
+    TWO_FACTOR_RESET(AuditCategory.ADMIN),
+    USER_LOGGED_OUT(AuditCategory.ADMIN), // On all devices
+    LOGIN_FAILED(AuditCategory.SECURITY),
+    TWO_FACTOR_FAILED(AuditCategory.SECURITY),
+    PASSWORD_CHANGED(AuditCategory.SECURITY),
+    TWO_FACTOR_ENABLED(AuditCategory.SECURITY),
+    TWO_FACTOR_DISABLED(AuditCategory.SECURITY),
+    PASSKEY_ADDED(AuditCategory.SECURITY),
+    PASSKEY_REMOVED(AuditCategory.SECURITY)
+}
+
+/**
+ * An entry of the audit log. Names are copied in, so the log stays readable after an account is deleted.
+ */
+@Serializable
+data class AuditEvent(
+    val id: String,
+    val type: AuditEventType,
+    val actorId: String? = null, // Who did it, null when not logged in (e.g. a failed login)
+    val actorName: String? = null,
+    val targetId: String? = null, // The account it was done to
+    val targetName: String? = null,
+    val details: String = "",
+    val ipAddress: String = "",
+    val createdAt: String // ISO date time
+)
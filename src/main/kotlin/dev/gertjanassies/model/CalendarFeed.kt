@@ -0,0 +1,15 @@
+package dev.gertjanassies.model
+
+import kotlinx.serialization.Serializable
+
+/**
+ * Subscription to the doses of a user as an iCalendar feed. Anyone with the token can read the feed,
+ * so a new token replaces the old one and deleting the feed revokes it.
+ */
+@Serializable
+data class CalendarFeed(
+    val token: String,
+    val timezone: String, // IANA zone the schedule times are in, e.g. Europe/Amsterdam
+    val reminderMinutes: Int? = null, // Alarm this many minutes before a dose, null for none
+    val createdAt: String // ISO date time
+)
@@ -15,5 +15,6 @@ data class DosageHistory(
     @Serializable(with = UUIDSerializer::class)
     val medicineId: UUID,
     val amount: Double,
-    val scheduledTime: String? = null
+    val scheduledTime: String? = null,
+    val loggedBy: String? = null // Username of the account that logged the dose, e.g. a caregiver
 )
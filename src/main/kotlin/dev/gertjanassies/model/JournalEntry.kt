@@ -0,0 +1,51 @@
+package dev.gertjanassies.model
+
+import dev.gertjanassies.model.serializer.LocalDateTimeSerializer
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.time.LocalDateTime
+import java.util.*
+
+@Serializable
+enum class JournalEntryType {
+    NOTE, // Free text, e.g. why a dose was skipped
+    SIDE_EFFECT, // Of a medicine, with a severity
+    SYMPTOM, // E.g. headache or nausea, with a severity
+    MEASUREMENT // A reading such as a pain score, blood pressure or glucose
+}
+
+@Serializable
+enum class MeasurementType {
+    PAIN, // Score from 0 to 10
+    BLOOD_PRESSURE, // Systolic over diastolic in mmHg
+    GLUCOSE, // mmol/L
+    HEART_RATE, // Beats per minute
+    TEMPERATURE, // °C
+    WEIGHT // kg
+}
+
+/**
+ * A note, side effect, symptom or measurement in the journal. It belongs to the day of its [datetime] and
+ * can be about a dose: one that was taken ([dosageHistoryId]) or one that was due ([medicineId] and
+ * [scheduledTime]), for example to say why it was skipped.
+ */
+@Serializable
+data class JournalEntry(
+    @Serializable(with = UUIDSerializer::class)
+    val id: UUID,
+    @Serializable(with = LocalDateTimeSerializer::class)
+    val datetime: LocalDateTime,
+    val type: JournalEntryType,
+    val name: String? = null, // The symptom or side effect, e.g. "Headache"
+    val severity: Int? = null, // 1 (mild) to 10 (severe), for symptoms and side effects
+    val measurement: MeasurementType? = null,
+    val value: Double? = null,
+    val secondaryValue: Double? = null, // Diastolic pressure, for blood pressure
+    val note: String? = null,
+    @Serializable(with = UUIDSerializer::class)
+    val medicineId: UUID? = null,
+    @Serializable(with = UUIDSerializer::class)
+    val dosageHistoryId: UUID? = null,
+    val scheduledTime: String? = null,
+    val loggedBy: String? = null // Username of the account that wrote the entry, e.g. a caregiver
+)
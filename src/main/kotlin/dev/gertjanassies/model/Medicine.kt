@@ -13,5 +13,11 @@ data class Medicine(
     val unit: String,
     val stock: Double,
     val description: String? = null,
-    val bijsluiter: String? = null
+    val bijsluiter: String? = null,
+    val activeIngredients: List<String> = emptyList(), // e.g. ["PARACETAMOL"], from the medicine database
+    val prn: PrnSettings? = null, // Set for medicines taken as needed
+    val batches: List<StockBatch> = emptyList(), // Packages in stock, stock beyond their quantities has no package details
+    val refillRequestedAt: String? = null, // yyyy-MM-dd, cleared when stock is added
+    val barcodes: List<String> = emptyList(), // GTIN-14s of scanned packages, to recognise them again
+    val timeCritical: Boolean = false // Has to be taken at a steady interval, e.g. insulin or contraceptives
 )
@@ -0,0 +1,20 @@
+package dev.gertjanassies.model
+
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.util.UUID
+
+/**
+ * Someone whose medicines a user keeps track of under their own login, for example a child or a pet.
+ * The profile's ID takes the place of the user ID for its medicines, schedules and dosage history,
+ * a request selects it with the X-Profile header.
+ */
+@Serializable
+data class PatientProfile(
+    @Serializable(with = UUIDSerializer::class)
+    val id: UUID,
+    val name: String,
+    val color: String, // Hex colour, e.g. #4682B4
+    val avatar: String, // Emoji shown next to the name
+    val createdAt: String // ISO date time
+)
@@ -0,0 +1,13 @@
+package dev.gertjanassies.model
+
+import kotlinx.serialization.Serializable
+
+/**
+ * Safeguards for a medicine taken as needed (PRN) instead of on a schedule.
+ * The limits are checked by the frontend against the recent dosage history when a dose is logged.
+ */
+@Serializable
+data class PrnSettings(
+    val minIntervalHours: Double? = null, // Minimum time between two doses
+    val maxAmountPer24Hours: Double? = null // Maximum amount (number of doses) in any 24 hours
+)
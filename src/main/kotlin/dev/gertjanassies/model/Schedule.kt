@@ -14,5 +14,13 @@ data class Schedule(
     val time: String, // e.g., "08:00", "12:00"
     val amount: Double, // Amount of medicine to take
     @Serializable(with = DayOfWeekListSerializer::class)
-    val daysOfWeek: List<DayOfWeek> = emptyList() // Empty list means all days
+    val daysOfWeek: List<DayOfWeek> = emptyList(), // Empty list means all days
+    val recurrence: ScheduleRecurrence? = null,
+    val timezoneMode: TimezoneMode = TimezoneMode.LOCAL
 )
+
+@Serializable
+enum class TimezoneMode {
+    LOCAL, // At the schedule's time on the clock wherever the user is
+    HOME // At the schedule's time in the user's home time zone, so the hours between doses stay the same while travelling
+}
@@ -0,0 +1,34 @@
+package dev.gertjanassies.model
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+enum class RecurrenceType {
+    DAYS_OF_WEEK, // At the schedule's time on its daysOfWeek (every day when empty)
+    EVERY_N_DAYS, // At the schedule's time every intervalDays days from startDate
+    CYCLE, // At the schedule's time for daysOn days, then daysOff days off, from startDate
+    INTERVAL // Every intervalHours hours from the schedule's time on startDate
+}
+
+@Serializable
+data class TaperStep(
+    val days: Int, // Number of days this amount is taken
+    val amount: Double
+)
+
+/**
+ * How often a schedule repeats. Occurrences are expanded by the frontend (src/lib/recurrence.ts),
+ * and by RecurrenceService for the daily schedule, adherence and calendar feed. A schedule without
+ * recurrence behaves like DAYS_OF_WEEK.
+ */
+@Serializable
+data class ScheduleRecurrence(
+    val type: RecurrenceType = RecurrenceType.DAYS_OF_WEEK,
+    val intervalDays: Int? = null,
+    val daysOn: Int? = null,
+    val daysOff: Int? = null,
+    val intervalHours: Int? = null,
+    val startDate: String? = null, // yyyy-MM-dd, first day of the course
+    val endDate: String? = null, // yyyy-MM-dd, last day of the course
+    val taper: List<TaperStep> = emptyList() // Consecutive amounts from startDate, the course ends after the last step
+)
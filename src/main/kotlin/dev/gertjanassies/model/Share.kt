@@ -0,0 +1,52 @@
+package dev.gertjanassies.model
+
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.util.UUID
+
+@Serializable
+enum class SharePermission {
+    READ_ONLY, // See medicines, schedules and the dosage history
+    LOG_DOSES, // Also log and undo doses
+    MANAGE; // Also change medicines, schedules and stock
+
+    /**
+     * Each permission includes the ones before it
+     */
+    fun allows(required: SharePermission): Boolean = this >= required
+}
+
+@Serializable
+enum class ShareStatus {
+    PENDING, // Invited, not yet accepted by the caregiver
+    ACCEPTED
+}
+
+/**
+ * Access an owner granted a caregiver to their regimen. The caregiver acts on the owner's data by
+ * sending the X-Act-As header with the owner's ID.
+ */
+@Serializable
+data class Share(
+    @Serializable(with = UUIDSerializer::class)
+    val id: UUID,
+    @Serializable(with = UUIDSerializer::class)
+    val ownerId: UUID,
+    val ownerName: String, // Shown in the caregiver's account switcher
+    @Serializable(with = UUIDSerializer::class)
+    val caregiverId: UUID,
+    val caregiverName: String,
+    val caregiverEmail: String,
+    val permission: SharePermission,
+    val status: ShareStatus = ShareStatus.PENDING,
+    val createdAt: String // ISO date time
+)
+
+/**
+ * The shares of a user: given to caregivers and received from the people they care for
+ */
+@Serializable
+data class ShareOverview(
+    val given: List<Share>,
+    val received: List<Share>
+)
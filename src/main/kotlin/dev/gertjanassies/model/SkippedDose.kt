@@ -0,0 +1,34 @@
+package dev.gertjanassies.model
+
+import dev.gertjanassies.model.serializer.LocalDateTimeSerializer
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.time.LocalDateTime
+import java.util.*
+
+@Serializable
+enum class SkipReason {
+    DOCTORS_ADVICE,
+    SIDE_EFFECTS,
+    FEELING_UNWELL,
+    OUT_OF_STOCK,
+    OTHER
+}
+
+/**
+ * A scheduled dose that was deliberately not taken. Unlike a dose that was forgotten it does not count
+ * as missed. [datetime] is when the dose was due, the scheduled time on the day it was skipped.
+ */
+@Serializable
+data class SkippedDose(
+    @Serializable(with = UUIDSerializer::class)
+    val id: UUID,
+    @Serializable(with = LocalDateTimeSerializer::class)
+    val datetime: LocalDateTime,
+    @Serializable(with = UUIDSerializer::class)
+    val medicineId: UUID,
+    val scheduledTime: String,
+    val reason: SkipReason,
+    val note: String? = null,
+    val loggedBy: String? = null // Username of the account that skipped the dose, e.g. a caregiver
+)
@@ -0,0 +1,19 @@
+package dev.gertjanassies.model
+
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.util.UUID
+
+/**
+ * A package of a medicine in stock, as picked up from the pharmacy. Doses are taken from the
+ * package that expires first; a package is removed once it is empty.
+ */
+@Serializable
+data class StockBatch(
+    @Serializable(with = UUIDSerializer::class)
+    val id: UUID,
+    val quantity: Double, // What is left in the package
+    val lotNumber: String? = null,
+    val expiryDate: String? = null, // yyyy-MM-dd, as printed on the package
+    val receivedDate: String? = null // yyyy-MM-dd, the day it was picked up
+)
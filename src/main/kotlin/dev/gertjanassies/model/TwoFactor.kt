@@ -0,0 +1,49 @@
+package dev.gertjanassies.model
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+enum class TwoFactorMethod {
+    TOTP, // Code from an authenticator app
+    RECOVERY_CODE, // One of the codes handed out when enabling two-factor authentication
+    PASSKEY // WebAuthn credential
+}
+
+/**
+ * WebAuthn credential a user registered, used to log in and as second step after the password
+ */
+@Serializable
+data class Passkey(
+    val id: String, // Credential ID, base64url
+    val name: String, // Given by the user, e.g. "Phone"
+    val publicKey: String, // SubjectPublicKeyInfo, base64url
+    val algorithm: Int, // COSE algorithm identifier, e.g. -7 for ES256
+    val signCount: Long = 0,
+    val createdAt: String, // ISO date time
+    val lastUsedAt: String? = null
+)
+
+/**
+ * Two-factor settings of a user. The login asks for a second step once TOTP is enabled or a
+ * passkey is registered.
+ */
+@Serializable
+data class TwoFactor(
+    val totpSecret: String? = null, // Base32, set from the start of the enrollment
+    val totpEnabled: Boolean = false,
+    val totpLastStep: Long? = null, // Time step of the last accepted code, a code works once
+    val recoveryCodeHashes: List<String> = emptyList(), // BCrypt, each code works once
+    val passkeys: List<Passkey> = emptyList()
+) {
+    val isEnabled: Boolean
+        get() = totpEnabled || passkeys.isNotEmpty()
+
+    /**
+     * The ways the user can complete the second step
+     */
+    fun methods(): List<TwoFactorMethod> = buildList {
+        if (totpEnabled) add(TwoFactorMethod.TOTP)
+        if (recoveryCodeHashes.isNotEmpty()) add(TwoFactorMethod.RECOVERY_CODE)
+        if (passkeys.isNotEmpty()) add(TwoFactorMethod.PASSKEY)
+    }
+}
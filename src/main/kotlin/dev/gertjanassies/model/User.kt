@@ -13,5 +13,7 @@ data class User(
     val firstName: String = "",
     val lastName: String = "",
     val passwordHash: String = "",
-    val isActive: Boolean = true
+    val isActive: Boolean = true,
+    val timezone: String? = null, // IANA home time zone, e.g. "Europe/Amsterdam", for schedules in home time
+    val graceMinutes: Int? = null // Minutes after its time before a dose not taken counts as missed, null for the default
 )
@@ -0,0 +1,18 @@
+package dev.gertjanassies.model
+
+import kotlinx.serialization.Serializable
+
+/**
+ * A device that logged in. Each refresh token belongs to one session, so deleting the session
+ * logs that device out.
+ */
+@Serializable
+data class UserSession(
+    val id: String,
+    val userId: String,
+    val userAgent: String = "",
+    val ipAddress: String = "", // At login
+    val location: String? = null, // Looked up from the IP address when first listed, "" when unknown
+    val createdAt: String, // ISO date time
+    val lastUsedAt: String // Login or last access token refresh
+)
@@ -9,8 +9,9 @@ data class DayAdherence(
     val dayNumber: Int,
     val month: Int,
     val status: AdherenceStatus,
-    val expectedCount: Int,
-    val takenCount: Int
+    val expectedCount: Int, // Without the doses that were skipped
+    val takenCount: Int,
+    val skippedCount: Int = 0
 )
 
 @Serializable
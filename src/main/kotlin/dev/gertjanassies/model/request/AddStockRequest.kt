@@ -8,5 +8,8 @@ import java.util.*
 data class AddStockRequest(
     @Serializable(with = UUIDSerializer::class)
     val medicineId: UUID,
-    val amount: Double
+    val amount: Double,
+    // Printed on the package of a pharmacy pickup, stock added without them has no package details
+    val lotNumber: String? = null,
+    val expiryDate: String? = null // yyyy-MM-dd
 )
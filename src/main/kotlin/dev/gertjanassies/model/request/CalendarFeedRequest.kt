@@ -0,0 +1,9 @@
+package dev.gertjanassies.model.request
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class CalendarFeedRequest(
+    val timezone: String, // IANA zone, e.g. Europe/Amsterdam
+    val reminderMinutes: Int? = null // Minutes before a dose, null for no alarm
+)
@@ -0,0 +1,8 @@
+package dev.gertjanassies.model.request
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class GracePeriodRequest(
+    val minutes: Int? = null // Minutes after its time before a dose not taken counts as missed, null for the default
+)
@@ -0,0 +1,8 @@
+package dev.gertjanassies.model.request
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class HomeTimezoneRequest(
+    val timezone: String? = null // IANA time zone, null to follow the device
+)
@@ -0,0 +1,27 @@
+package dev.gertjanassies.model.request
+
+import dev.gertjanassies.model.JournalEntryType
+import dev.gertjanassies.model.MeasurementType
+import dev.gertjanassies.model.serializer.LocalDateTimeSerializer
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.time.LocalDateTime
+import java.util.*
+
+@Serializable
+data class JournalEntryRequest(
+    val type: JournalEntryType,
+    @Serializable(with = LocalDateTimeSerializer::class)
+    val datetime: LocalDateTime? = null, // Now when left out
+    val name: String? = null,
+    val severity: Int? = null,
+    val measurement: MeasurementType? = null,
+    val value: Double? = null,
+    val secondaryValue: Double? = null,
+    val note: String? = null,
+    @Serializable(with = UUIDSerializer::class)
+    val medicineId: UUID? = null,
+    @Serializable(with = UUIDSerializer::class)
+    val dosageHistoryId: UUID? = null,
+    val scheduledTime: String? = null
+)
@@ -1,5 +1,6 @@
 package dev.gertjanassies.model.request
 
+import dev.gertjanassies.model.PrnSettings
 import kotlinx.serialization.Serializable
 
 @Serializable
@@ -9,5 +10,9 @@ data class MedicineRequest(
     val unit: String,
     val stock: Double,
     val description: String? = null,
-    val bijsluiter: String? = null
+    val bijsluiter: String? = null,
+    val activeIngredients: List<String> = emptyList(),
+    val prn: PrnSettings? = null,
+    val barcodes: List<String> = emptyList(),
+    val timeCritical: Boolean = false
 )
@@ -0,0 +1,10 @@
+package dev.gertjanassies.model.request
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class PatientProfileRequest(
+    val name: String,
+    val color: String, // Hex colour, e.g. #4682B4
+    val avatar: String // Emoji
+)
@@ -1,6 +1,8 @@
 package dev.gertjanassies.model.request
 
 import dev.gertjanassies.model.DayOfWeek
+import dev.gertjanassies.model.ScheduleRecurrence
+import dev.gertjanassies.model.TimezoneMode
 import dev.gertjanassies.model.serializer.DayOfWeekListSerializer
 import dev.gertjanassies.model.serializer.UUIDSerializer
 import kotlinx.serialization.Serializable
@@ -13,5 +15,7 @@ data class ScheduleRequest(
     val time: String,
     val amount: Double,
     @Serializable(with = DayOfWeekListSerializer::class)
-    val daysOfWeek: List<DayOfWeek> = emptyList()
+    val daysOfWeek: List<DayOfWeek> = emptyList(),
+    val recurrence: ScheduleRecurrence? = null,
+    val timezoneMode: TimezoneMode = TimezoneMode.LOCAL
 )
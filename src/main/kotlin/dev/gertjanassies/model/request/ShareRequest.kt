@@ -0,0 +1,10 @@
+package dev.gertjanassies.model.request
+
+import dev.gertjanassies.model.SharePermission
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class ShareRequest(
+    val email: String, // Of the caregiver's account
+    val permission: SharePermission
+)
@@ -0,0 +1,19 @@
+package dev.gertjanassies.model.request
+
+import dev.gertjanassies.model.SkipReason
+import dev.gertjanassies.model.serializer.LocalDateTimeSerializer
+import dev.gertjanassies.model.serializer.UUIDSerializer
+import kotlinx.serialization.Serializable
+import java.time.LocalDateTime
+import java.util.*
+
+@Serializable
+data class SkipDoseRequest(
+    @Serializable(with = UUIDSerializer::class)
+    val medicineId: UUID,
+    val scheduledTime: String,
+    val reason: SkipReason,
+    val note: String? = null,
+    @Serializable(with = LocalDateTimeSerializer::class)
+    val datetime: LocalDateTime? = null // When the dose was due, today at the scheduled time when not given
+)
@@ -0,0 +1,50 @@
+package dev.gertjanassies.model.request
+
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class TotpCodeRequest(
+    val code: String // Six digits from the authenticator app
+)
+
+/**
+ * Second login step with a code from the authenticator app or a recovery code
+ */
+@Serializable
+data class TwoFactorLoginRequest(
+    val challengeToken: String, // From the login response
+    val code: String
+)
+
+/**
+ * Options for a passkey login: with the challenge token as second step after the password,
+ * without it to log in with a passkey alone
+ */
+@Serializable
+data class PasskeyOptionsRequest(
+    val challengeToken: String? = null
+)
+
+/**
+ * Credential created by navigator.credentials.create(), binary fields base64url encoded
+ */
+@Serializable
+data class PasskeyRegistrationRequest(
+    val name: String,
+    val credentialId: String,
+    val clientDataJSON: String,
+    val publicKey: String, // SubjectPublicKeyInfo from AuthenticatorAttestationResponse.getPublicKey()
+    val publicKeyAlgorithm: Int
+)
+
+/**
+ * Assertion from navigator.credentials.get(), binary fields base64url encoded
+ */
+@Serializable
+data class PasskeyLoginRequest(
+    val credentialId: String,
+    val clientDataJSON: String,
+    val authenticatorData: String,
+    val signature: String,
+    val userHandle: String? = null // User ID the passkey was registered for, base64url
+)
@@ -0,0 +1,9 @@
+package dev.gertjanassies.model.request
+
+import dev.gertjanassies.model.SharePermission
+import kotlinx.serialization.Serializable
+
+@Serializable
+data class UpdateShareRequest(
+    val permission: SharePermission
+)
@@ -1,5 +1,7 @@
 package dev.gertjanassies.model.response
 
+import dev.gertjanassies.model.AuditEvent
+import dev.gertjanassies.model.User
 import kotlinx.serialization.Serializable
 
 @Serializable
@@ -11,10 +13,50 @@ data class AdminUserResponse(
     val lastName: String,
     val isActive: Boolean,
     val isAdmin: Boolean,
-    val isSelf: Boolean
+    val isSelf: Boolean,
+    val twoFactorEnabled: Boolean
 )
 
+fun User.toAdminResponse(adminIds: Set<String>, twoFactorIds: Set<String>, currentUserId: String?) = AdminUserResponse(
+    id = id.toString(),
+    username = username,
+    email = email,
+    firstName = firstName,
+    lastName = lastName,
+    isActive = isActive,
+    isAdmin = adminIds.contains(id.toString()),
+    isSelf = id.toString() == currentUserId,
+    twoFactorEnabled = twoFactorIds.contains(id.toString())
+)
+
+/**
+ * One page of the users matching the search and filters
+ */
 @Serializable
 data class AdminUsersListResponse(
-    val users: List<AdminUserResponse>
+    val users: List<AdminUserResponse>,
+    val total: Int, // Matching users on all pages
+    val page: Int, // Starting at 1
+    val pageSize: Int
+)
+
+/**
+ * What an account holds and when it was last used
+ */
+@Serializable
+data class AdminUserStatsResponse(
+    val medicineCount: Int,
+    val scheduleCount: Int,
+    val doseCount: Int,
+    val patientProfileCount: Int,
+    val activeSessions: Int,
+    val lastActivity: String? = null // Last login, token refresh or logged dose, null when never used
+)
+
+@Serializable
+data class AuditLogResponse(
+    val events: List<AuditEvent>,
+    val total: Int,
+    val page: Int,
+    val pageSize: Int
 )
@@ -0,0 +1,28 @@
+package dev.gertjanassies.model.response
+
+import dev.gertjanassies.model.UserSession
+import kotlinx.serialization.Serializable
+
+/**
+ * A logged in device as listed on the profile page
+ */
+@Serializable
+data class SessionResponse(
+    val id: String,
+    val userAgent: String,
+    val ipAddress: String,
+    val location: String? = null, // null when not known (yet)
+    val createdAt: String,
+    val lastUsedAt: String,
+    val current: Boolean // The session making the request
+)
+
+fun UserSession.toResponse(currentSessionId: String?) = SessionResponse(
+    id = id,
+    userAgent = userAgent,
+    ipAddress = ipAddress,
+    location = location?.takeIf { it.isNotEmpty() },
+    createdAt = createdAt,
+    lastUsedAt = lastUsedAt,
+    current = id == currentSessionId
+)
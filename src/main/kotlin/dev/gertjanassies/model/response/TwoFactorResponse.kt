@@ -0,0 +1,71 @@
+package dev.gertjanassies.model.response
+
+import dev.gertjanassies.model.Passkey
+import dev.gertjanassies.model.TwoFactorMethod
+import kotlinx.serialization.Serializable
+
+/**
+ * Login response for accounts with two-factor authentication, the session follows the second step
+ */
+@Serializable
+data class TwoFactorChallengeResponse(
+    val challengeToken: String, // Short-lived, only accepted by the second step
+    val methods: List<TwoFactorMethod>
+)
+
+@Serializable
+data class TwoFactorStatusResponse(
+    val totpEnabled: Boolean,
+    val recoveryCodesLeft: Int,
+    val passkeys: List<PasskeyResponse>
+)
+
+@Serializable
+data class PasskeyResponse(
+    val id: String,
+    val name: String,
+    val createdAt: String,
+    val lastUsedAt: String? = null
+)
+
+fun Passkey.toResponse() = PasskeyResponse(
+    id = id,
+    name = name,
+    createdAt = createdAt,
+    lastUsedAt = lastUsedAt
+)
+
+@Serializable
+data class TotpSetupResponse(
+    val secret: String, // Base32, for entering by hand
+    val otpauthUri: String // For the QR code
+)
+
+@Serializable
+data class RecoveryCodesResponse(
+    val recoveryCodes: List<String> // Shown once, only hashes are stored
+)
+
+/**
+ * Options for navigator.credentials.create(), binary fields base64url encoded
+ */
+@Serializable
+data class PasskeyRegistrationOptionsResponse(
+    val challenge: String,
+    val rpId: String,
+    val rpName: String,
+    val userId: String,
+    val userName: String,
+    val userDisplayName: String,
+    val excludeCredentials: List<String>
+)
+
+/**
+ * Options for navigator.credentials.get(), binary fields base64url encoded
+ */
+@Serializable
+data class PasskeyLoginOptionsResponse(
+    val challenge: String,
+    val rpId: String,
+    val allowCredentials: List<String> // Empty to let the authenticator offer its passkeys for the site
+)
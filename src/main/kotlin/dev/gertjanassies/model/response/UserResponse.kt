@@ -9,7 +9,9 @@ data class UserResponse(
     val email: String,
     val firstName: String,
     val lastName: String,
-    val isAdmin: Boolean = false
+    val isAdmin: Boolean = false,
+    val timezone: String? = null,
+    val graceMinutes: Int? = null
 )
 
 fun User.toResponse(isAdmin: Boolean = false) = UserResponse(
@@ -17,5 +19,7 @@ fun User.toResponse(isAdmin: Boolean = false) = UserResponse(
     email = email,
     firstName = firstName,
     lastName = lastName,
-    isAdmin = isAdmin
+    isAdmin = isAdmin,
+    timezone = timezone,
+    graceMinutes = graceMinutes
 )
@@ -1,6 +1,7 @@
 package dev.gertjanassies.routes
 
 import arrow.core.raise.either
+import dev.gertjanassies.model.SharePermission
 import dev.gertjanassies.service.StorageService
 import io.ktor.http.*
 import io.ktor.server.application.*
@@ -18,10 +19,7 @@ private val logger = LoggerFactory.getLogger("AdherenceRoutes")
 fun Route.adherenceRoutes(storageService: StorageService) {
     // Get weekly adherence
     get("/adherence") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         either {
             val weeklyAdherence = storageService.getWeeklyAdherence(userId).bind()
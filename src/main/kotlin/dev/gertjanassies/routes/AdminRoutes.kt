@@ -1,9 +1,15 @@
 package dev.gertjanassies.routes
 
 import arrow.core.raise.either
-import dev.gertjanassies.model.response.AdminUserResponse
+import dev.gertjanassies.model.AuditCategory
+import dev.gertjanassies.model.AuditEventType
+import dev.gertjanassies.model.User
+import dev.gertjanassies.model.response.AdminUserStatsResponse
 import dev.gertjanassies.model.response.AdminUsersListResponse
-import dev.gertjanassies.model.response.toResponse
+import dev.gertjanassies.model.response.AuditLogResponse
+import dev.gertjanassies.model.response.toAdminResponse
+import dev.gertjanassies.service.EmailService
+import dev.gertjanassies.service.RedisError
 import dev.gertjanassies.service.StorageService
 import io.ktor.http.*
 import io.ktor.server.application.*
@@ -13,7 +19,10 @@ import org.slf4j.LoggerFactory
 
 private val logger = LoggerFactory.getLogger("AdminRoutes")
 
-fun Route.adminRoutes(storageService: StorageService) {
+private const val DEFAULT_PAGE_SIZE = 25
+private const val MAX_PAGE_SIZE = 100
+
+fun Route.adminRoutes(storageService: StorageService, emailService: EmailService) {
     route("/admin") {
         intercept(ApplicationCallPipeline.Call) {
             val userId = call.getUserId()
@@ -47,36 +56,87 @@ fun Route.adminRoutes(storageService: StorageService) {
         }
 
         get("/users") {
-            val result = storageService.getAllUsers()
+            val page = call.parameters["page"]?.toIntOrNull() ?: 1
+            val pageSize = call.parameters["pageSize"]?.toIntOrNull() ?: DEFAULT_PAGE_SIZE
+            if (page < 1 || pageSize !in 1..MAX_PAGE_SIZE) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Page must be at least 1 and page size between 1 and $MAX_PAGE_SIZE"))
+                return@get
+            }
+            val search = call.parameters["search"]?.trim()?.lowercase() ?: ""
+            val status = call.parameters["status"]
+            val role = call.parameters["role"]
+            if (status !in listOf(null, "active", "inactive") || role !in listOf(null, "admin", "user")) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Unknown status or role filter"))
+                return@get
+            }
 
-            result.fold(
+            val currentUserId = call.getUserId()
+            val adminIds = storageService.getAllAdmins().getOrNull() ?: emptySet()
+            val twoFactorIds = storageService.getTwoFactorUserIds().getOrNull() ?: emptySet()
+            val matches = { user: User ->
+                val found = search.isEmpty() ||
+                    listOf(user.username, user.email, "${user.firstName} ${user.lastName}").any { it.lowercase().contains(search) }
+                val hasStatus = when (status) {
+                    "active" -> user.isActive
+                    "inactive" -> !user.isActive
+                    else -> true
+                }
+                val hasRole = when (role) {
+                    "admin" -> adminIds.contains(user.id.toString())
+                    "user" -> !adminIds.contains(user.id.toString())
+                    else -> true
+                }
+                found && hasStatus && hasRole
+            }
+            // Without filters the storage loads only the users on the page
+            val filtered = search.isNotEmpty() || status != null || role != null
+
+            storageService.getUsersPage(page, pageSize, matches.takeIf { filtered }).fold(
                 { error ->
-                    logger.error("Failed to get all users: ${error.message}")
+                    logger.error("Failed to get users: ${error.message}")
                     call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to retrieve users"))
                 },
-                { users ->
-                    val currentUserId = call.getUserId()
-                    val adminIds = storageService.getAllAdmins().getOrNull() ?: emptySet()
-
-                    val usersWithAdminFlag = users.map { user ->
-                        AdminUserResponse(
-                            id = user.id.toString(),
-                            username = user.username,
-                            email = user.email,
-                            firstName = user.firstName,
-                            lastName = user.lastName,
-                            isActive = user.isActive,
-                            isAdmin = adminIds.contains(user.id.toString()),
-                            isSelf = user.id.toString() == currentUserId
-                        )
-                    }
-
-                    logger.debug("Successfully retrieved ${users.size} users for admin")
-                    call.respond(HttpStatusCode.OK, AdminUsersListResponse(usersWithAdminFlag))
+                { usersPage ->
+                    val pageUsers = usersPage.users.map { it.toAdminResponse(adminIds, twoFactorIds, currentUserId) }
+                    logger.debug("Successfully retrieved ${pageUsers.size} of ${usersPage.total} matching users for admin")
+                    call.respond(HttpStatusCode.OK, AdminUsersListResponse(pageUsers, usersPage.total, page, pageSize))
                 }
             )
         }
 
+        get("/users/{userId}/stats") {
+            val targetUserId = call.parameters["userId"]
+            if (targetUserId.isNullOrBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID is required"))
+                return@get
+            }
+
+            either {
+                storageService.getUserById(targetUserId).bind()
+                val sessions = storageService.getSessions(targetUserId).bind()
+                val doses = storageService.getAllDosageHistories(targetUserId).bind()
+                val lastActivity = (sessions.map { it.lastUsedAt } + doses.map { it.datetime.toString() }).maxOrNull()
+
+                AdminUserStatsResponse(
+                    medicineCount = storageService.getAllMedicines(targetUserId).bind().size,
+                    scheduleCount = storageService.getAllSchedules(targetUserId).bind().size,
+                    doseCount = doses.size,
+                    patientProfileCount = storageService.getPatientProfiles(targetUserId).bind().size,
+                    activeSessions = sessions.size,
+                    lastActivity = lastActivity
+                )
+            }.fold(
+                { error ->
+                    logger.error("Failed to get stats of user $targetUserId: ${error.message}")
+                    when (error) {
+                        is RedisError.NotFound -> call.respond(HttpStatusCode.NotFound, mapOf("error" to "User not found"))
+                        else -> call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to retrieve user stats"))
+                    }
+                },
+                { stats -> call.respond(HttpStatusCode.OK, stats) }
+            )
+        }
+
         put("/users/{userId}/activate") {
             val targetUserId = call.parameters["userId"]
             if (targetUserId.isNullOrBlank()) {
@@ -94,27 +154,8 @@ fun Route.adminRoutes(storageService: StorageService) {
                 },
                 { user ->
                     logger.debug("Admin activated user $targetUserId")
-                    val adminIdsResult = storageService.getAllAdmins()
-
-                    adminIdsResult.fold(
-                        { error ->
-                            logger.error("Failed to retrieve admin status for user $targetUserId: ${error.message}")
-                            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to retrieve admin status"))
-                        },
-                        { adminIds ->
-                            val response = AdminUserResponse(
-                                id = user.id.toString(),
-                                username = user.username,
-                                email = user.email,
-                                firstName = user.firstName,
-                                lastName = user.lastName,
-                                isActive = user.isActive,
-                                isAdmin = adminIds.contains(targetUserId),
-                                isSelf = targetUserId == currentUserId
-                            )
-                            call.respond(HttpStatusCode.OK, response)
-                        }
-                    )
+                    call.recordAuditEvent(storageService, AuditEventType.USER_ACTIVATED, targetUserId, user.username)
+                    call.respondAdminUser(storageService, user, currentUserId)
                 }
             )
         }
@@ -142,27 +183,166 @@ fun Route.adminRoutes(storageService: StorageService) {
                 },
                 { user ->
                     logger.debug("Admin deactivated user $targetUserId")
-                    val adminIdsResult = storageService.getAllAdmins()
-
-                    adminIdsResult.fold(
-                        { error ->
-                            logger.error("Failed to retrieve admin status for user $targetUserId: ${error.message}")
-                            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to retrieve admin status"))
-                        },
-                        { adminIds ->
-                            val response = AdminUserResponse(
-                                id = user.id.toString(),
-                                username = user.username,
-                                email = user.email,
-                                firstName = user.firstName,
-                                lastName = user.lastName,
-                                isActive = user.isActive,
-                                isAdmin = adminIds.contains(targetUserId),
-                                isSelf = targetUserId == currentUserId
-                            )
-                            call.respond(HttpStatusCode.OK, response)
-                        }
+                    call.recordAuditEvent(storageService, AuditEventType.USER_DEACTIVATED, targetUserId, user.username)
+                    call.respondAdminUser(storageService, user, currentUserId)
+                }
+            )
+        }
+
+        delete("/users/{userId}/2fa") {
+            val targetUserId = call.parameters["userId"]
+            if (targetUserId.isNullOrBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID is required"))
+                return@delete
+            }
+
+            val result = storageService.resetTwoFactor(targetUserId)
+
+            result.fold(
+                { error ->
+                    logger.error("Failed to reset two-factor authentication of user $targetUserId: ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to reset two-factor authentication"))
+                },
+                {
+                    logger.info("Admin ${call.getUserId()} reset two-factor authentication of user $targetUserId")
+                    call.recordAuditEvent(storageService, AuditEventType.TWO_FACTOR_RESET, targetUserId, storageService.usernameOf(targetUserId))
+                    call.respond(HttpStatusCode.OK, mapOf("message" to "Two-factor authentication reset"))
+                }
+            )
+        }
+
+        delete("/users/{userId}/sessions") {
+            val targetUserId = call.parameters["userId"]
+            if (targetUserId.isNullOrBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID is required"))
+                return@delete
+            }
+
+            val result = storageService.deleteSessions(targetUserId, null)
+
+            result.fold(
+                { error ->
+                    logger.error("Failed to log out user $targetUserId: ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to log out user"))
+                },
+                { count ->
+                    logger.info("Admin ${call.getUserId()} logged out $count sessions of user $targetUserId")
+                    call.recordAuditEvent(
+                        storageService, AuditEventType.USER_LOGGED_OUT, targetUserId, storageService.usernameOf(targetUserId),
+                        details = "$count sessions"
                     )
+                    call.respond(HttpStatusCode.OK, mapOf("message" to "User logged out on all devices"))
+                }
+            )
+        }
+
+        put("/users/{userId}/admin") {
+            val targetUserId = call.parameters["userId"]
+            if (targetUserId.isNullOrBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID is required"))
+                return@put
+            }
+
+            either {
+                val user = storageService.getUserById(targetUserId).bind()
+                storageService.addAdmin(targetUserId).bind()
+                user
+            }.fold(
+                { error -> call.respondAdminError(error, "grant admin privileges to user $targetUserId", "Failed to grant admin privileges") },
+                { user ->
+                    logger.info("Admin ${call.getUserId()} granted admin privileges to user $targetUserId")
+                    call.recordAuditEvent(storageService, AuditEventType.ADMIN_GRANTED, targetUserId, user.username)
+                    call.respondAdminUser(storageService, user, call.getUserId())
+                }
+            )
+        }
+
+        delete("/users/{userId}/admin") {
+            val targetUserId = call.parameters["userId"]
+            if (targetUserId.isNullOrBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID is required"))
+                return@delete
+            }
+
+            either {
+                val user = storageService.getUserById(targetUserId).bind()
+                val adminIds = storageService.getAllAdmins().bind()
+                // Without admins nobody can manage users anymore
+                if (adminIds == setOf(targetUserId)) {
+                    call.respond(HttpStatusCode.Conflict, mapOf("error" to "Cannot remove the last admin"))
+                    return@delete
+                }
+                storageService.removeAdmin(targetUserId).bind()
+                user
+            }.fold(
+                { error -> call.respondAdminError(error, "revoke admin privileges of user $targetUserId", "Failed to revoke admin privileges") },
+                { user ->
+                    logger.info("Admin ${call.getUserId()} revoked admin privileges of user $targetUserId")
+                    call.recordAuditEvent(storageService, AuditEventType.ADMIN_REVOKED, targetUserId, user.username)
+                    call.respondAdminUser(storageService, user, call.getUserId())
+                }
+            )
+        }
+
+        post("/users/{userId}/activation-email") {
+            val targetUserId = call.parameters["userId"]
+            if (targetUserId.isNullOrBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "User ID is required"))
+                return@post
+            }
+
+            val user = storageService.getUserById(targetUserId).getOrNull() ?: run {
+                call.respond(HttpStatusCode.NotFound, mapOf("error" to "User not found"))
+                return@post
+            }
+            if (user.isActive) {
+                call.respond(HttpStatusCode.Conflict, mapOf("error" to "User is already active"))
+                return@post
+            }
+
+            // Get locale from request header (sent by frontend)
+            val locale = call.request.headers["Accept-Language"]?.take(2) ?: "en"
+
+            emailService.sendVerificationEmail(user, locale).fold(
+                { error ->
+                    logger.error("Failed to resend activation email to user $targetUserId: ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to send activation email"))
+                },
+                {
+                    logger.info("Admin ${call.getUserId()} resent the activation email of user $targetUserId")
+                    call.recordAuditEvent(storageService, AuditEventType.ACTIVATION_EMAIL_SENT, targetUserId, user.username)
+                    call.respond(HttpStatusCode.OK, mapOf("message" to "Activation email sent"))
+                }
+            )
+        }
+
+        get("/audit") {
+            val page = call.parameters["page"]?.toIntOrNull() ?: 1
+            val pageSize = call.parameters["pageSize"]?.toIntOrNull() ?: DEFAULT_PAGE_SIZE
+            if (page < 1 || pageSize !in 1..MAX_PAGE_SIZE) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Page must be at least 1 and page size between 1 and $MAX_PAGE_SIZE"))
+                return@get
+            }
+            val category = call.parameters["category"]?.let { value ->
+                AuditCategory.values().find { it.name.equals(value, ignoreCase = true) } ?: run {
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Unknown category"))
+                    return@get
+                }
+            }
+            // Events done by or to one user
+            val userId = call.parameters["userId"]
+
+            storageService.getAuditEvents().fold(
+                { error ->
+                    logger.error("Failed to get audit events: ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to retrieve audit log"))
+                },
+                { events ->
+                    val matching = events
+                        .filter { category == null || it.type.category == category }
+                        .filter { userId == null || it.actorId == userId || it.targetId == userId }
+                    val pageEvents = matching.drop((page - 1) * pageSize).take(pageSize)
+                    call.respond(HttpStatusCode.OK, AuditLogResponse(pageEvents, matching.size, page, pageSize))
                 }
             )
         }
@@ -181,6 +361,8 @@ fun Route.adminRoutes(storageService: StorageService) {
                 return@delete
             }
 
+            // Looked up first, the name is gone afterwards
+            val targetName = storageService.usernameOf(targetUserId)
             val result = storageService.deleteUserCompletely(targetUserId)
 
             result.fold(
@@ -190,9 +372,35 @@ fun Route.adminRoutes(storageService: StorageService) {
                 },
                 {
                     logger.debug("Admin completely deleted user $targetUserId and all associated data")
+                    call.recordAuditEvent(storageService, AuditEventType.USER_DELETED, targetUserId, targetName)
                     call.respond(HttpStatusCode.OK, mapOf("message" to "User deleted successfully"))
                 }
             )
         }
     }
 }
+
+private suspend fun StorageService.usernameOf(userId: String): String? = getUserById(userId).getOrNull()?.username
+
+private suspend fun ApplicationCall.respondAdminUser(storageService: StorageService, user: User, currentUserId: String?) {
+    val adminIdsResult = storageService.getAllAdmins()
+
+    adminIdsResult.fold(
+        { error ->
+            logger.error("Failed to retrieve admin status for user ${user.id}: ${error.message}")
+            respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to retrieve admin status"))
+        },
+        { adminIds ->
+            val twoFactorIds = storageService.getTwoFactorUserIds().getOrNull() ?: emptySet()
+            respond(HttpStatusCode.OK, user.toAdminResponse(adminIds, twoFactorIds, currentUserId))
+        }
+    )
+}
+
+private suspend fun ApplicationCall.respondAdminError(error: RedisError, action: String, message: String) {
+    logger.error("Failed to $action: ${error.message}")
+    when (error) {
+        is RedisError.NotFound -> respond(HttpStatusCode.NotFound, mapOf("error" to "User not found"))
+        else -> respond(HttpStatusCode.InternalServerError, mapOf("error" to message))
+    }
+}
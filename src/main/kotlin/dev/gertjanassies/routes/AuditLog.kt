@@ -0,0 +1,38 @@
+package dev.gertjanassies.routes
+
+import dev.gertjanassies.model.AuditEvent
+import dev.gertjanassies.model.AuditEventType
+import dev.gertjanassies.service.StorageService
+import io.ktor.server.application.*
+import org.slf4j.LoggerFactory
+import java.time.LocalDateTime
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("AuditLog")
+
+/**
+ * Add an event to the audit log, with the logged in user (if any) as actor. A failure to record it is
+ * logged but never fails the request.
+ */
+suspend fun ApplicationCall.recordAuditEvent(
+    storageService: StorageService,
+    type: AuditEventType,
+    targetId: String? = null,
+    targetName: String? = null,
+    details: String = ""
+) {
+    val event = AuditEvent(
+        id = UUID.randomUUID().toString(),
+        type = type,
+        actorId = getUserId(),
+        actorName = getUsername(),
+        targetId = targetId,
+        targetName = targetName,
+        details = details,
+        ipAddress = clientIpAddress(),
+        createdAt = LocalDateTime.now().toString()
+    )
+    storageService.recordAuditEvent(event).onLeft { error ->
+        logger.warn("Failed to record audit event $type: ${error.message}")
+    }
+}
@@ -1,5 +1,6 @@
 package dev.gertjanassies.routes
 
+import dev.gertjanassies.model.AuditEventType
 import dev.gertjanassies.model.request.PasswordResetRequest
 import dev.gertjanassies.model.request.UserRequest
 import dev.gertjanassies.model.request.VerifyResetTokenRequest
@@ -15,6 +16,7 @@ import io.ktor.server.request.*
 import io.ktor.server.response.*
 import io.ktor.server.routing.*
 import org.slf4j.LoggerFactory
+import java.time.LocalDateTime
 
 private val logger = LoggerFactory.getLogger("AuthRoutes")
 
@@ -51,11 +53,23 @@ fun Route.authRoutes(storageService: StorageService, emailService: EmailService,
 
             val user = userResult.getOrNull()!!
 
+            // The session is gone when the device was logged out, tokens from before sessions were tracked need a new login
+            val session = jwtService.getSessionId(refreshToken)?.let { storageService.getSession(it).getOrNull() }
+            if (session == null || session.userId != user.id.toString()) {
+                logger.debug("Refresh token of user '$username' has no active session")
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Session has been logged out"))
+                return@post
+            }
+
+            storageService.updateSession(session.copy(lastUsedAt = LocalDateTime.now().toString())).onLeft { error ->
+                logger.warn("Failed to update last use of session ${session.id}: ${error.message}")
+            }
+
             // Check if user is admin
             val isAdmin = storageService.isUserAdmin(user.id.toString()).getOrNull() ?: false
 
             // Generate new access token with userId
-            val newAccessToken = jwtService.generateAccessToken(user.username, user.id.toString(), isAdmin)
+            val newAccessToken = jwtService.generateAccessToken(user.username, user.id.toString(), isAdmin, session.id)
 
             logger.debug("Successfully refreshed access token for user '$username'")
             call.respond(
@@ -66,9 +80,21 @@ fun Route.authRoutes(storageService: StorageService, emailService: EmailService,
 
         /**
          * POST /api/auth/logout
-         * Logout user by clearing the refresh token cookie
+         * Logout user by ending the session and clearing the refresh token cookie
          */
         post("/logout") {
+            // End the session of this device, the cookie is cleared either way
+            val refreshToken = call.request.cookies["refresh_token"]
+            if (!refreshToken.isNullOrBlank() && jwtService.validateRefreshToken(refreshToken) != null) {
+                val sessionId = jwtService.getSessionId(refreshToken)
+                val session = sessionId?.let { storageService.getSession(it).getOrNull() }
+                if (session != null) {
+                    storageService.deleteSession(session.userId, session.id).onLeft { error ->
+                        logger.warn("Failed to delete session $sessionId on logout: ${error.message}")
+                    }
+                }
+            }
+
             // Clear the refresh token cookie
             call.response.cookies.append(
                 io.ktor.http.Cookie(
@@ -216,21 +242,16 @@ fun Route.authRoutes(storageService: StorageService, emailService: EmailService,
             // Check if user is admin
             val isAdmin = storageService.isUserAdmin(user.id.toString()).getOrNull() ?: false
 
-            // Generate access and refresh tokens for the newly activated user
-            val accessToken = jwtService.generateAccessToken(user.username, user.id.toString(), isAdmin)
-            val refreshToken = jwtService.generateRefreshToken(user.username, user.id.toString(), isAdmin)
+            // Log the newly activated user in on this device
+            val sessionResult = call.startSession(storageService, jwtService, user, isAdmin)
+            val sessionError = sessionResult.leftOrNull()
+            if (sessionError != null) {
+                logger.error("Failed to start session for user ID '$userId': ${sessionError.message}")
+                call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to activate account"))
+                return@post
+            }
 
-            // Set refresh token as HttpOnly cookie
-            call.response.cookies.append(
-                io.ktor.http.Cookie(
-                    name = "refresh_token",
-                    value = refreshToken,
-                    maxAge = 30 * 24 * 3600, // 30 days
-                    httpOnly = true,
-                    secure = false,
-                    path = "/"
-                )
-            )
+            val accessToken = sessionResult.getOrNull()!!
 
             logger.debug("Successfully activated account for user '${user.username}' (ID: $userId)")
             call.respond(
@@ -279,6 +300,7 @@ fun Route.authRoutes(storageService: StorageService, emailService: EmailService,
                 },
                 {
                     logger.debug("Successfully updated password for user '${request.username}'")
+                    call.recordAuditEvent(storageService, AuditEventType.PASSWORD_CHANGED, targetName = request.username)
                     call.respond(HttpStatusCode.OK, mapOf("message" to "Password updated successfully"))
                 }
             )
@@ -0,0 +1,175 @@
+package dev.gertjanassies.routes
+
+import arrow.core.raise.either
+import dev.gertjanassies.model.CalendarFeed
+import dev.gertjanassies.model.PatientProfile
+import dev.gertjanassies.model.request.CalendarFeedRequest
+import dev.gertjanassies.service.CalendarService
+import dev.gertjanassies.service.CalendarSource
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.slf4j.LoggerFactory
+import java.security.SecureRandom
+import java.time.DateTimeException
+import java.time.LocalDateTime
+import java.time.ZoneId
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("CalendarRoutes")
+
+// Reminders at most a day before a dose
+private const val MAX_REMINDER_MINUTES = 24 * 60
+
+/**
+ * The calendar feed itself, public as calendar apps cannot log in. The secret token in the URL gives access.
+ */
+fun Route.calendarFeedRoutes(storageService: StorageService) {
+    // Doses of the account holder and their patient profiles, e.g. /calendar/<token>.ics
+    get("/calendar/{file}") {
+        val token = call.parameters["file"]?.removeSuffix(".ics") ?: run {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing file parameter"))
+            return@get
+        }
+
+        either {
+            val userId = storageService.getCalendarFeedUserId(token).bind()
+            val feed = storageService.getCalendarFeed(userId).bind()
+            val user = storageService.getUserById(userId).bind()
+            if (feed.token != token || !user.isActive) raise(RedisError.NotFound("Calendar feed not found"))
+
+            val profiles = storageService.getPatientProfiles(userId).bind()
+            val sources = (listOf<PatientProfile?>(null) + profiles).map { profile ->
+                val ownerId = profile?.id?.toString() ?: userId
+                CalendarSource(
+                    profile = profile,
+                    medicines = storageService.getAllMedicines(ownerId).bind(),
+                    schedules = storageService.getAllSchedules(ownerId).bind()
+                )
+            }
+            logger.debug("Serving calendar feed for user ID: $userId")
+            call.respondText(
+                CalendarService.buildCalendar(feed, sources, homeTimezone = user.timezone),
+                ContentType("text", "calendar").withCharset(Charsets.UTF_8)
+            )
+        }.onLeft { error ->
+            // Never log the token, it gives access to the feed
+            when (error) {
+                is RedisError.NotFound -> call.respond(HttpStatusCode.NotFound, mapOf("error" to "Calendar feed not found"))
+                else -> {
+                    logger.error("Failed to serve calendar feed: ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Managing the calendar feed from the profile page: create or regenerate its URL, change its settings, revoke it
+ */
+fun Route.calendarRoutes(storageService: StorageService) {
+    // Get the calendar feed, 404 when there is none
+    get("/user/calendar-feed") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@get
+        }
+
+        either {
+            val feed = storageService.getCalendarFeed(userId).bind()
+            call.respond(HttpStatusCode.OK, feed)
+        }.onLeft { error -> call.respondCalendarError(error, "get calendar feed", userId) }
+    }
+
+    // Create the calendar feed, or regenerate it with a new URL so the old one stops working
+    post("/user/calendar-feed") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@post
+        }
+
+        val request = call.receive<CalendarFeedRequest>()
+        if (!call.validateCalendarFeedRequest(request)) return@post
+
+        either {
+            val feed = CalendarFeed(
+                token = generateFeedToken(),
+                timezone = request.timezone,
+                reminderMinutes = request.reminderMinutes,
+                createdAt = LocalDateTime.now().toString()
+            )
+            storageService.saveCalendarFeed(userId, feed).bind()
+            logger.debug("Successfully created calendar feed for user ID: $userId")
+            call.respond(HttpStatusCode.Created, feed)
+        }.onLeft { error -> call.respondCalendarError(error, "create calendar feed", userId) }
+    }
+
+    // Change the time zone or reminder, the URL stays the same
+    put("/user/calendar-feed") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@put
+        }
+
+        val request = call.receive<CalendarFeedRequest>()
+        if (!call.validateCalendarFeedRequest(request)) return@put
+
+        either {
+            val feed = storageService.getCalendarFeed(userId).bind()
+                .copy(timezone = request.timezone, reminderMinutes = request.reminderMinutes)
+            storageService.saveCalendarFeed(userId, feed).bind()
+            logger.debug("Successfully updated calendar feed for user ID: $userId")
+            call.respond(HttpStatusCode.OK, feed)
+        }.onLeft { error -> call.respondCalendarError(error, "update calendar feed", userId) }
+    }
+
+    // Revoke the calendar feed
+    delete("/user/calendar-feed") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@delete
+        }
+
+        either {
+            storageService.deleteCalendarFeed(userId).bind()
+            logger.debug("Successfully revoked calendar feed for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error -> call.respondCalendarError(error, "revoke calendar feed", userId) }
+    }
+}
+
+private fun generateFeedToken(): String {
+    val bytes = ByteArray(32)
+    SecureRandom().nextBytes(bytes)
+    return Base64.getUrlEncoder().withoutPadding().encodeToString(bytes)
+}
+
+private suspend fun ApplicationCall.validateCalendarFeedRequest(request: CalendarFeedRequest): Boolean {
+    val validZone = try {
+        ZoneId.of(request.timezone)
+        true
+    } catch (e: DateTimeException) {
+        false
+    }
+    val error = when {
+        !validZone -> "Unknown time zone '${request.timezone}'"
+        request.reminderMinutes != null && request.reminderMinutes !in 0..MAX_REMINDER_MINUTES ->
+            "Reminder must be between 0 and $MAX_REMINDER_MINUTES minutes before the dose"
+        else -> return true
+    }
+    respond(HttpStatusCode.BadRequest, mapOf("error" to error))
+    return false
+}
+
+private suspend fun ApplicationCall.respondCalendarError(error: RedisError, action: String, userId: String) {
+    logger.error("Failed to $action for user ID '$userId': ${error.message}")
+    when (error) {
+        is RedisError.NotFound -> respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+        else -> respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+    }
+}
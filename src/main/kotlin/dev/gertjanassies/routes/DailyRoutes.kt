@@ -1,6 +1,7 @@
 package dev.gertjanassies.routes
 
 import arrow.core.raise.either
+import dev.gertjanassies.model.SharePermission
 import dev.gertjanassies.service.StorageService
 import io.ktor.http.*
 import io.ktor.server.application.*
@@ -19,10 +20,7 @@ private val logger = LoggerFactory.getLogger("DailyRoutes")
 fun Route.dailyRoutes(storageService: StorageService) {
     // Get daily schedule
     get("/daily") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         either {
             val dailySchedule = storageService.getDailySchedule(userId).bind()
@@ -1,6 +1,9 @@
 package dev.gertjanassies.routes
 
 import arrow.core.raise.either
+import dev.gertjanassies.model.SharePermission
+import dev.gertjanassies.model.request.SkipDoseRequest
+import dev.gertjanassies.service.RedisError
 import dev.gertjanassies.service.StorageService
 import io.ktor.http.*
 import io.ktor.server.application.*
@@ -10,10 +13,17 @@ import io.ktor.server.request.*
 import io.ktor.server.response.*
 import io.ktor.server.routing.*
 import org.slf4j.LoggerFactory
+import java.time.LocalDate
+import java.time.LocalDateTime
+import java.time.LocalTime
+import java.time.ZoneId
 import java.util.*
 
 private val logger = LoggerFactory.getLogger("DosageHistoryRoutes")
 
+private const val MAX_SKIP_NOTE_LENGTH = 500
+private val SCHEDULED_TIME = Regex("^([01]\\d|2[0-3]):[0-5]\\d$")
+
 
 /**
  * Dosage history routes
@@ -21,10 +31,7 @@ private val logger = LoggerFactory.getLogger("DosageHistoryRoutes")
 fun Route.dosageHistoryRoutes(storageService: StorageService) {
     // Get all dosage histories
     get("/history") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         either {
             val histories = storageService.getAllDosageHistories(userId).bind()
@@ -38,10 +45,7 @@ fun Route.dosageHistoryRoutes(storageService: StorageService) {
 
     // Delete a dosage history (undo dose)
     delete("/history/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@delete
-        }
+        val userId = call.dataUserId(storageService, SharePermission.LOG_DOSES) ?: return@delete
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
@@ -69,4 +73,89 @@ fun Route.dosageHistoryRoutes(storageService: StorageService) {
             }
         }
     }
+
+    // Get the doses skipped on purpose
+    get("/skips") {
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
+
+        either {
+            val skippedDoses = storageService.getSkippedDoses(userId).bind()
+            logger.debug("Successfully retrieved ${skippedDoses.size} skipped doses for user ID: $userId")
+            call.respond(HttpStatusCode.OK, skippedDoses)
+        }.onLeft { error ->
+            logger.error("Failed to get skipped doses for user ID '$userId': ${error.message}")
+            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+        }
+    }
+
+    // Skip a scheduled dose on purpose, with the reason
+    post("/skips") {
+        val accountId = call.accountUserId(storageService, SharePermission.LOG_DOSES) ?: return@post
+        val userId = call.profileUserId(storageService, accountId) ?: return@post
+
+        val request = call.receive<SkipDoseRequest>().let { it.copy(note = it.note?.trim()?.takeIf { note -> note.isNotEmpty() }) }
+        val error = when {
+            !SCHEDULED_TIME.matches(request.scheduledTime) -> "Scheduled time must be HH:MM"
+            (request.note?.length ?: 0) > MAX_SKIP_NOTE_LENGTH -> "Note cannot be longer than $MAX_SKIP_NOTE_LENGTH characters"
+            else -> null
+        }
+        if (error != null) {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to error))
+            return@post
+        }
+
+        either {
+            // Today is the day in the account's home time zone, not the server's
+            val zone = storageService.getUserById(accountId).bind().timezone?.let { ZoneId.of(it) } ?: ZoneId.systemDefault()
+            val datetime = request.datetime ?: LocalDate.now(zone).atTime(LocalTime.parse(request.scheduledTime))
+            val isSameDose = { medicineId: UUID, scheduledTime: String?, at: LocalDateTime ->
+                medicineId == request.medicineId && scheduledTime == request.scheduledTime && at.toLocalDate() == datetime.toLocalDate()
+            }
+            val skipped = storageService.getSkippedDoses(userId).bind().any { isSameDose(it.medicineId, it.scheduledTime, it.datetime) }
+            val taken = storageService.getAllDosageHistories(userId).bind().any { isSameDose(it.medicineId, it.scheduledTime, it.datetime) }
+            if (skipped || taken) {
+                call.respond(HttpStatusCode.Conflict, mapOf("error" to if (skipped) "Dose is already skipped" else "Dose is already taken"))
+                return@either
+            }
+
+            val skippedDose = storageService.skipDose(userId, request.copy(datetime = datetime), call.getUsername()).bind()
+            logger.debug("Successfully skipped dose of medicine '${request.medicineId}' for user ID: $userId")
+            call.respond(HttpStatusCode.Created, skippedDose)
+        }.onLeft { error ->
+            logger.error("Failed to skip dose for user ID '$userId': ${error.message}")
+            when (error) {
+                is RedisError.NotFound -> call.respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+                else -> call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+            }
+        }
+    }
+
+    // Delete a skipped dose (undo skip)
+    delete("/skips/{id}") {
+        val userId = call.dataUserId(storageService, SharePermission.LOG_DOSES) ?: return@delete
+
+        val id = call.parameters["id"] ?: run {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
+            return@delete
+        }
+
+        val skippedDoseId = try {
+            UUID.fromString(id)
+        } catch (e: IllegalArgumentException) {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid UUID format"))
+            return@delete
+        }
+
+        either {
+            storageService.deleteSkippedDose(userId, skippedDoseId).bind()
+            logger.debug("Successfully deleted skipped dose '$id' for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error ->
+            logger.error("Failed to delete skipped dose '$id' for user ID '$userId': ${error.message}")
+            when (error) {
+                is RedisError.NotFound -> call.respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+                else -> call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+            }
+        }
+    }
 }
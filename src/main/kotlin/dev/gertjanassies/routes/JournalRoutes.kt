@@ -0,0 +1,129 @@
+package dev.gertjanassies.routes
+
+import arrow.core.raise.either
+import dev.gertjanassies.model.JournalEntryType
+import dev.gertjanassies.model.MeasurementType
+import dev.gertjanassies.model.SharePermission
+import dev.gertjanassies.model.request.JournalEntryRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.slf4j.LoggerFactory
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("JournalRoutes")
+
+private const val MAX_NAME_LENGTH = 100
+private const val MAX_NOTE_LENGTH = 2000
+private val TIME = Regex("^([01]\\d|2[0-3]):[0-5]\\d$")
+
+/**
+ * Journal of notes, side effects, symptoms and measurements. Whoever may log doses may write in it.
+ */
+fun Route.journalRoutes(storageService: StorageService) {
+    // Get all journal entries
+    get("/journal") {
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
+
+        either {
+            val entries = storageService.getJournalEntries(userId).bind()
+            logger.debug("Successfully retrieved ${entries.size} journal entries for user ID: $userId")
+            call.respond(HttpStatusCode.OK, entries)
+        }.onLeft { error ->
+            logger.error("Failed to get journal entries for user ID '$userId': ${error.message}")
+            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+        }
+    }
+
+    // Add a journal entry
+    post("/journal") {
+        val userId = call.dataUserId(storageService, SharePermission.LOG_DOSES) ?: return@post
+
+        val request = call.receive<JournalEntryRequest>()
+        if (!call.validateJournalRequest(request)) return@post
+
+        either {
+            val entry = storageService.createJournalEntry(userId, request.trimmed(), call.getUsername()).bind()
+            logger.debug("Successfully created journal entry '${entry.id}' for user ID: $userId")
+            call.respond(HttpStatusCode.Created, entry)
+        }.onLeft { error -> call.respondJournalError(error, "create journal entry", userId) }
+    }
+
+    // Change a journal entry
+    put("/journal/{id}") {
+        val userId = call.dataUserId(storageService, SharePermission.LOG_DOSES) ?: return@put
+
+        val entryId = call.journalEntryIdParameter() ?: return@put
+        val request = call.receive<JournalEntryRequest>()
+        if (!call.validateJournalRequest(request)) return@put
+
+        either {
+            val entry = storageService.updateJournalEntry(userId, entryId, request.trimmed()).bind()
+            logger.debug("Successfully updated journal entry '$entryId' for user ID: $userId")
+            call.respond(HttpStatusCode.OK, entry)
+        }.onLeft { error -> call.respondJournalError(error, "update journal entry '$entryId'", userId) }
+    }
+
+    // Delete a journal entry
+    delete("/journal/{id}") {
+        val userId = call.dataUserId(storageService, SharePermission.LOG_DOSES) ?: return@delete
+
+        val entryId = call.journalEntryIdParameter() ?: return@delete
+
+        either {
+            storageService.deleteJournalEntry(userId, entryId).bind()
+            logger.debug("Successfully deleted journal entry '$entryId' for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error -> call.respondJournalError(error, "delete journal entry '$entryId'", userId) }
+    }
+}
+
+private fun JournalEntryRequest.trimmed() = copy(
+    name = name?.trim()?.takeIf { it.isNotEmpty() },
+    note = note?.trim()?.takeIf { it.isNotEmpty() }
+)
+
+// Each type of entry needs its own fields, a symptom without a name or a measurement without a value says nothing
+private suspend fun ApplicationCall.validateJournalRequest(request: JournalEntryRequest): Boolean {
+    val severityRequired = request.type == JournalEntryType.SIDE_EFFECT || request.type == JournalEntryType.SYMPTOM
+    val error = when {
+        (request.name?.length ?: 0) > MAX_NAME_LENGTH -> "Name cannot be longer than $MAX_NAME_LENGTH characters"
+        (request.note?.length ?: 0) > MAX_NOTE_LENGTH -> "Note cannot be longer than $MAX_NOTE_LENGTH characters"
+        request.type == JournalEntryType.NOTE && request.note.isNullOrBlank() -> "Note cannot be empty"
+        severityRequired && request.name.isNullOrBlank() -> "Name cannot be empty"
+        severityRequired && (request.severity ?: 0) !in 1..10 -> "Severity must be between 1 and 10"
+        request.type == JournalEntryType.MEASUREMENT && request.measurement == null -> "Measurement type is required"
+        request.type == JournalEntryType.MEASUREMENT && request.value == null -> "Value is required"
+        request.measurement == MeasurementType.BLOOD_PRESSURE && request.secondaryValue == null -> "Diastolic pressure is required"
+        request.measurement == MeasurementType.PAIN && request.value != null && request.value !in 0.0..10.0 -> "Pain score must be between 0 and 10"
+        request.scheduledTime != null && !TIME.matches(request.scheduledTime) -> "Scheduled time must be HH:MM"
+        else -> return true
+    }
+    respond(HttpStatusCode.BadRequest, mapOf("error" to error))
+    return false
+}
+
+private suspend fun ApplicationCall.journalEntryIdParameter(): UUID? {
+    val id = parameters["id"] ?: run {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
+        return null
+    }
+    return try {
+        UUID.fromString(id)
+    } catch (e: IllegalArgumentException) {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid UUID format"))
+        null
+    }
+}
+
+private suspend fun ApplicationCall.respondJournalError(error: RedisError, action: String, userId: String) {
+    logger.error("Failed to $action for user ID '$userId': ${error.message}")
+    when (error) {
+        is RedisError.NotFound -> respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+        else -> respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+    }
+}
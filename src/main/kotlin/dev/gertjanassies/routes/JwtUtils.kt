@@ -1,8 +1,26 @@
 package dev.gertjanassies.routes
 
+import arrow.core.Either
+import arrow.core.raise.either
+import dev.gertjanassies.model.User
+import dev.gertjanassies.model.UserSession
+import dev.gertjanassies.model.response.AuthResponse
+import dev.gertjanassies.model.response.toResponse
+import dev.gertjanassies.service.JwtService
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
 import io.ktor.server.application.*
 import io.ktor.server.auth.*
 import io.ktor.server.auth.jwt.*
+import io.ktor.server.plugins.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import org.slf4j.LoggerFactory
+import java.time.LocalDateTime
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("JwtUtils")
 
 /**
  * Helper functions to extract claims from JWT token
@@ -31,3 +49,76 @@ fun ApplicationCall.isAdmin(): Boolean {
     val principal = principal<JWTPrincipal>()
     return principal?.payload?.getClaim("isAdmin")?.asBoolean() ?: false
 }
+
+/**
+ * Extract the session ID from JWT token, null for tokens issued before sessions were tracked
+ */
+fun ApplicationCall.getSessionId(): String? {
+    val principal = principal<JWTPrincipal>()
+    return principal?.payload?.getClaim("sessionId")?.asString()
+}
+
+/**
+ * The address of the client, behind nginx and the frontend proxy the last forwarded address is the one they saw
+ */
+fun ApplicationCall.clientIpAddress(): String {
+    request.headers["X-Real-IP"]?.takeIf { it.isNotBlank() }?.let { return it.trim() }
+    request.headers["X-Forwarded-For"]?.split(",")?.lastOrNull()?.takeIf { it.isNotBlank() }?.let { return it.trim() }
+    return request.origin.remoteHost
+}
+
+/**
+ * Start a session for this device: store it, set the refresh token cookie and return an access token
+ */
+suspend fun ApplicationCall.startSession(
+    storageService: StorageService,
+    jwtService: JwtService,
+    user: User,
+    isAdmin: Boolean
+): Either<RedisError, String> = either {
+    val now = LocalDateTime.now().toString()
+    val session = UserSession(
+        id = UUID.randomUUID().toString(),
+        userId = user.id.toString(),
+        userAgent = request.userAgent() ?: "",
+        ipAddress = clientIpAddress(),
+        createdAt = now,
+        lastUsedAt = now
+    )
+    storageService.createSession(session, jwtService.getRefreshTokenExpirationMs() / 1000).bind()
+
+    val refreshToken = jwtService.generateRefreshToken(user.username, user.id.toString(), isAdmin, session.id)
+
+    // Set refresh token as HttpOnly cookie
+    response.cookies.append(
+        Cookie(
+            name = "refresh_token",
+            value = refreshToken,
+            maxAge = 30 * 24 * 60 * 60, // 30 days in seconds
+            httpOnly = true,
+            secure = false, // Set to true in production with HTTPS
+            path = "/",
+            extensions = mapOf("SameSite" to "Strict")
+        )
+    )
+
+    jwtService.generateAccessToken(user.username, user.id.toString(), isAdmin, session.id)
+}
+
+/**
+ * Log the user in: access token in the response, refresh token in an HttpOnly cookie
+ */
+suspend fun ApplicationCall.respondWithSession(storageService: StorageService, jwtService: JwtService, user: User) {
+    // Check if user is admin
+    val isAdmin = storageService.isUserAdmin(user.id.toString()).getOrNull() ?: false
+
+    startSession(storageService, jwtService, user, isAdmin).fold(
+        { error ->
+            logger.error("Failed to start session for user '${user.username}': ${error.message}")
+            respond(HttpStatusCode.InternalServerError, mapOf("error" to "Login failed"))
+        },
+        { accessToken ->
+            respond(HttpStatusCode.OK, AuthResponse(user = user.toResponse(isAdmin), token = accessToken, refreshToken = ""))
+        }
+    )
+}
@@ -3,6 +3,7 @@ package dev.gertjanassies.routes
 import arrow.core.raise.either
 import dev.gertjanassies.model.Medicine
 import dev.gertjanassies.model.MedicineSearchResult
+import dev.gertjanassies.model.SharePermission
 import dev.gertjanassies.model.request.AddStockRequest
 import dev.gertjanassies.model.request.DosageHistoryRequest
 import dev.gertjanassies.model.request.MedicineRequest
@@ -28,10 +29,7 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Get all medicines
     get("/medicine") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         either {
             val medicines = storageService.getAllMedicines(userId).bind()
@@ -45,10 +43,7 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Get medicine by ID
     get("/medicine/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
@@ -72,10 +67,7 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Create new medicine
     post("/medicine") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@post
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@post
 
         val request = call.receive<MedicineRequest>()
 
@@ -98,10 +90,7 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Update existing medicine
     put("/medicine/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@put
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@put
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
@@ -134,10 +123,7 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Delete medicine
     delete("/medicine/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@delete
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@delete
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
@@ -161,15 +147,12 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Record a dose taken
     post("/takedose") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@post
-        }
+        val userId = call.dataUserId(storageService, SharePermission.LOG_DOSES) ?: return@post
 
         val request = call.receive<DosageHistoryRequest>()
 
         either {
-            val dosageHistory = storageService.createDosageHistory(userId, request.medicineId, request.amount, request.scheduledTime, request.datetime).bind()
+            val dosageHistory = storageService.createDosageHistory(userId, request.medicineId, request.amount, request.scheduledTime, request.datetime, call.getUsername()).bind()
             logger.debug("Successfully recorded dose for medicine '${request.medicineId}' (amount: ${request.amount}) for user ID: $userId")
             call.respond(HttpStatusCode.Created, dosageHistory)
         }.onLeft { error ->
@@ -185,15 +168,12 @@ fun Route.medicineRoutes(storageService: StorageService) {
 
     // Add stock to medicine
     post("/addstock") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@post
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@post
 
         val request = call.receive<AddStockRequest>()
 
         either {
-            val updatedMedicine = storageService.addStock(userId, request.medicineId, request.amount).bind()
+            val updatedMedicine = storageService.addStock(userId, request.medicineId, request.amount, request.lotNumber, request.expiryDate).bind()
             logger.debug("Successfully added ${request.amount} stock to medicine '${request.medicineId}' for user ID: $userId (new stock: ${updatedMedicine.stock})")
             call.respond(HttpStatusCode.OK, updatedMedicine)
         }.onLeft { error ->
@@ -208,10 +188,7 @@ fun Route.medicineRoutes(storageService: StorageService) {
     }
 
     get("/medicineExpiry") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         either {
             val expiringMedicines = storageService.medicineExpiry(userId).bind()
@@ -0,0 +1,114 @@
+package dev.gertjanassies.routes
+
+import arrow.core.raise.either
+import dev.gertjanassies.model.SharePermission
+import dev.gertjanassies.model.request.PatientProfileRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.slf4j.LoggerFactory
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("PatientProfileRoutes")
+
+private val HEX_COLOR = Regex("^#[0-9a-fA-F]{6}$")
+
+/**
+ * Patient profiles of an account: people (or pets) whose medicines the user keeps track of besides their own.
+ * A caregiver sees and manages the profiles of an account shared with them like its other data.
+ */
+fun Route.patientProfileRoutes(storageService: StorageService) {
+    // Get the account's patient profiles
+    get("/profiles") {
+        val userId = call.accountUserId(storageService, SharePermission.READ_ONLY) ?: return@get
+
+        either {
+            val profiles = storageService.getPatientProfiles(userId).bind()
+            logger.debug("Successfully retrieved ${profiles.size} profiles for user ID: $userId")
+            call.respond(HttpStatusCode.OK, profiles)
+        }.onLeft { error ->
+            logger.error("Failed to get profiles for user ID '$userId': ${error.message}")
+            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+        }
+    }
+
+    // Add a patient profile
+    post("/profiles") {
+        val userId = call.accountUserId(storageService, SharePermission.MANAGE) ?: return@post
+
+        val request = call.receive<PatientProfileRequest>()
+        if (!call.validateProfileRequest(request)) return@post
+
+        either {
+            val profile = storageService.createPatientProfile(userId, request.trimmed()).bind()
+            logger.debug("Successfully created profile '${profile.id}' for user ID: $userId")
+            call.respond(HttpStatusCode.Created, profile)
+        }.onLeft { error -> call.respondProfileError(error, "create profile", userId) }
+    }
+
+    // Change the name, colour or avatar of a patient profile
+    put("/profiles/{id}") {
+        val userId = call.accountUserId(storageService, SharePermission.MANAGE) ?: return@put
+
+        val profileId = call.profileIdParameter() ?: return@put
+        val request = call.receive<PatientProfileRequest>()
+        if (!call.validateProfileRequest(request)) return@put
+
+        either {
+            val profile = storageService.updatePatientProfile(userId, profileId, request.trimmed()).bind()
+            logger.debug("Successfully updated profile '$profileId' for user ID: $userId")
+            call.respond(HttpStatusCode.OK, profile)
+        }.onLeft { error -> call.respondProfileError(error, "update profile '$profileId'", userId) }
+    }
+
+    // Delete a patient profile with its medicines, schedules and dosage history
+    delete("/profiles/{id}") {
+        val userId = call.accountUserId(storageService, SharePermission.MANAGE) ?: return@delete
+
+        val profileId = call.profileIdParameter() ?: return@delete
+
+        either {
+            storageService.deletePatientProfile(userId, profileId).bind()
+            logger.debug("Successfully deleted profile '$profileId' for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error -> call.respondProfileError(error, "delete profile '$profileId'", userId) }
+    }
+}
+
+private fun PatientProfileRequest.trimmed() = copy(name = name.trim(), avatar = avatar.trim())
+
+private suspend fun ApplicationCall.validateProfileRequest(request: PatientProfileRequest): Boolean {
+    val error = when {
+        request.name.isBlank() -> "Name cannot be empty"
+        !HEX_COLOR.matches(request.color) -> "Color must be a hex color like #4682B4"
+        request.avatar.isBlank() -> "Avatar cannot be empty"
+        else -> return true
+    }
+    respond(HttpStatusCode.BadRequest, mapOf("error" to error))
+    return false
+}
+
+private suspend fun ApplicationCall.profileIdParameter(): UUID? {
+    val id = parameters["id"] ?: run {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
+        return null
+    }
+    return try {
+        UUID.fromString(id)
+    } catch (e: IllegalArgumentException) {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid UUID format"))
+        null
+    }
+}
+
+private suspend fun ApplicationCall.respondProfileError(error: RedisError, action: String, userId: String) {
+    logger.error("Failed to $action for user ID '$userId': ${error.message}")
+    when (error) {
+        is RedisError.NotFound -> respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+        else -> respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+    }
+}
@@ -3,6 +3,7 @@ package dev.gertjanassies.routes
 import arrow.core.raise.either
 import dev.gertjanassies.model.Schedule
 import dev.gertjanassies.model.request.ScheduleRequest
+import dev.gertjanassies.model.SharePermission
 import dev.gertjanassies.service.StorageService
 import io.ktor.http.*
 import io.ktor.server.application.*
@@ -21,10 +22,7 @@ private val logger = LoggerFactory.getLogger("ScheduleRoutes")
 fun Route.scheduleRoutes(storageService: StorageService) {
     // Get all schedules
     get("/schedule") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         either {
             val schedules = storageService.getAllSchedules(userId).bind()
@@ -38,10 +36,7 @@ fun Route.scheduleRoutes(storageService: StorageService) {
 
     // Get schedule by id
     get("/schedule/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@get
-        }
+        val userId = call.dataUserId(storageService, SharePermission.READ_ONLY) ?: return@get
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
@@ -65,10 +60,7 @@ fun Route.scheduleRoutes(storageService: StorageService) {
 
     // Create new schedule
     post("/schedule") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@post
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@post
 
         val request = call.receive<ScheduleRequest>()
 
@@ -84,10 +76,7 @@ fun Route.scheduleRoutes(storageService: StorageService) {
 
     // Update existing schedule
     put("/schedule/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@put
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@put
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
@@ -113,10 +102,7 @@ fun Route.scheduleRoutes(storageService: StorageService) {
 
     // Delete schedule
     delete("/schedule/{id}") {
-        val userId = call.getUserId() ?: run {
-            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
-            return@delete
-        }
+        val userId = call.dataUserId(storageService, SharePermission.MANAGE) ?: return@delete
 
         val id = call.parameters["id"] ?: run {
             call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
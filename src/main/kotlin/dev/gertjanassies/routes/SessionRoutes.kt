@@ -0,0 +1,82 @@
+package dev.gertjanassies.routes
+
+import arrow.core.raise.either
+import dev.gertjanassies.model.response.toResponse
+import dev.gertjanassies.service.GeoIpService
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.slf4j.LoggerFactory
+
+private val logger = LoggerFactory.getLogger("SessionRoutes")
+
+/**
+ * Session routes: the devices a user is logged in on, each can be logged out from the profile page
+ */
+fun Route.sessionRoutes(storageService: StorageService, geoIpService: GeoIpService) {
+    // List the active sessions, most recently used first
+    get("/user/sessions") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@get
+        }
+
+        either {
+            val sessions = storageService.getSessions(userId).bind().map { session ->
+                // Locations are looked up once, when a session is first listed
+                if (session.location != null) return@map session
+                val location = geoIpService.locate(session.ipAddress) ?: return@map session
+                storageService.updateSession(session.copy(location = location)).getOrNull() ?: session
+            }
+            logger.debug("Successfully retrieved ${sessions.size} sessions for user ID: $userId")
+            call.respond(
+                HttpStatusCode.OK,
+                sessions.sortedByDescending { it.lastUsedAt }.map { it.toResponse(call.getSessionId()) }
+            )
+        }.onLeft { error -> call.respondSessionError(error, "get sessions", userId) }
+    }
+
+    // Log out all other devices
+    delete("/user/sessions") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@delete
+        }
+
+        either {
+            val count = storageService.deleteSessions(userId, call.getSessionId()).bind()
+            logger.debug("Successfully logged out $count other sessions for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error -> call.respondSessionError(error, "log out other sessions", userId) }
+    }
+
+    // Log out one device, which may be the current one
+    delete("/user/sessions/{id}") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@delete
+        }
+
+        val sessionId = call.parameters["id"] ?: run {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
+            return@delete
+        }
+
+        either {
+            storageService.deleteSession(userId, sessionId).bind()
+            logger.debug("Successfully logged out session '$sessionId' for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error -> call.respondSessionError(error, "log out session '$sessionId'", userId) }
+    }
+}
+
+private suspend fun ApplicationCall.respondSessionError(error: RedisError, action: String, userId: String) {
+    logger.error("Failed to $action for user ID '$userId': ${error.message}")
+    when (error) {
+        is RedisError.NotFound -> respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+        else -> respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+    }
+}
@@ -0,0 +1,95 @@
+package dev.gertjanassies.routes
+
+import dev.gertjanassies.model.SharePermission
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import org.slf4j.LoggerFactory
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("ShareAccess")
+
+/**
+ * Header a caregiver sends with the ID of the user whose regimen they act on
+ */
+const val ACT_AS_HEADER = "X-Act-As"
+
+/**
+ * Header with the ID of the patient profile of the account that the call works on
+ */
+const val PROFILE_HEADER = "X-Profile"
+
+/**
+ * ID of the account the call works on: the caller's own, or the owner named in the X-Act-As
+ * header when they shared their regimen with the caller with at least the required permission.
+ * Responds with an error and returns null when the call is not allowed.
+ */
+suspend fun ApplicationCall.accountUserId(storageService: StorageService, required: SharePermission): String? {
+    val userId = getUserId() ?: run {
+        respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+        return null
+    }
+
+    val ownerId = request.header(ACT_AS_HEADER)?.takeIf { it.isNotBlank() && it != userId } ?: return userId
+
+    return storageService.getSharePermission(ownerId, userId).fold(
+        { error ->
+            logger.error("Failed to check share of user '$ownerId' with user '$userId': ${error.message}")
+            respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+            null
+        },
+        { permission ->
+            if (permission?.allows(required) == true) {
+                ownerId
+            } else {
+                logger.warn("User '$userId' has no ${required.name} access to user '$ownerId'")
+                respond(HttpStatusCode.Forbidden, mapOf("error" to "No ${required.name} access to this account"))
+                null
+            }
+        }
+    )
+}
+
+/**
+ * ID under which the data the call works on is stored: the account's (see accountUserId), or that of
+ * the account's patient profile named in the X-Profile header. Responds with an error and returns
+ * null when the call is not allowed or the profile does not exist.
+ */
+suspend fun ApplicationCall.dataUserId(storageService: StorageService, required: SharePermission): String? {
+    val accountId = accountUserId(storageService, required) ?: return null
+    return profileUserId(storageService, accountId)
+}
+
+/**
+ * Like dataUserId, for a call that needs the account ID as well, e.g. for the account's settings.
+ * [accountId] comes from accountUserId.
+ */
+suspend fun ApplicationCall.profileUserId(storageService: StorageService, accountId: String): String? {
+    val profileId = request.header(PROFILE_HEADER)?.takeIf { it.isNotBlank() && it != accountId } ?: return accountId
+    val profileUuid = try {
+        UUID.fromString(profileId)
+    } catch (e: IllegalArgumentException) {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid profile ID"))
+        return null
+    }
+
+    return storageService.getPatientProfile(accountId, profileUuid).fold(
+        { error ->
+            when (error) {
+                is RedisError.NotFound -> {
+                    logger.warn("User '$accountId' has no profile '$profileId'")
+                    respond(HttpStatusCode.NotFound, mapOf("error" to "Profile not found"))
+                }
+                else -> {
+                    logger.error("Failed to check profile '$profileId' of user '$accountId': ${error.message}")
+                    respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+                }
+            }
+            null
+        },
+        { profile -> profile.id.toString() }
+    )
+}
@@ -0,0 +1,145 @@
+package dev.gertjanassies.routes
+
+import arrow.core.raise.either
+import dev.gertjanassies.model.request.ShareRequest
+import dev.gertjanassies.model.request.UpdateShareRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.slf4j.LoggerFactory
+import java.util.*
+
+private val logger = LoggerFactory.getLogger("ShareRoutes")
+
+/**
+ * Caregiver sharing routes: a user invites another account by email to see or help with their regimen
+ */
+fun Route.shareRoutes(storageService: StorageService) {
+    // Get the shares the user gave and received
+    get("/shares") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@get
+        }
+
+        either {
+            val shares = storageService.getShares(userId).bind()
+            logger.debug("Successfully retrieved ${shares.given.size} given and ${shares.received.size} received shares for user ID: $userId")
+            call.respond(HttpStatusCode.OK, shares)
+        }.onLeft { error ->
+            logger.error("Failed to get shares for user ID '$userId': ${error.message}")
+            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+        }
+    }
+
+    // Invite a caregiver by the email address of their account
+    post("/shares") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@post
+        }
+
+        val request = call.receive<ShareRequest>()
+        if (request.email.isBlank()) {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Email cannot be empty"))
+            return@post
+        }
+
+        val caregiver = storageService.getUserByEmail(request.email.trim()).getOrNull() ?: run {
+            call.respond(HttpStatusCode.NotFound, mapOf("error" to "No account with this email address"))
+            return@post
+        }
+        if (caregiver.id.toString() == userId) {
+            call.respond(HttpStatusCode.BadRequest, mapOf("error" to "You cannot share with yourself"))
+            return@post
+        }
+
+        either {
+            val existing = storageService.getShares(userId).bind().given
+            if (existing.any { it.caregiverId == caregiver.id }) {
+                call.respond(HttpStatusCode.Conflict, mapOf("error" to "Already shared with this account"))
+                return@either
+            }
+            val share = storageService.createShare(userId, caregiver, request.permission).bind()
+            logger.debug("User ID $userId shared their regimen with user ID ${caregiver.id} (${request.permission})")
+            call.respond(HttpStatusCode.Created, share)
+        }.onLeft { error ->
+            logger.error("Failed to share regimen of user ID '$userId': ${error.message}")
+            call.respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+        }
+    }
+
+    // Change the permission of a share (owner)
+    put("/shares/{id}") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@put
+        }
+
+        val shareId = call.shareIdParameter() ?: return@put
+        val request = call.receive<UpdateShareRequest>()
+
+        either {
+            val share = storageService.updateSharePermission(userId, shareId, request.permission).bind()
+            logger.debug("Successfully changed share '$shareId' to ${request.permission} for user ID: $userId")
+            call.respond(HttpStatusCode.OK, share)
+        }.onLeft { error -> call.respondShareError(error, "update share '$shareId'", userId) }
+    }
+
+    // Accept an invitation (caregiver)
+    post("/shares/{id}/accept") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@post
+        }
+
+        val shareId = call.shareIdParameter() ?: return@post
+
+        either {
+            val share = storageService.acceptShare(userId, shareId).bind()
+            logger.debug("Successfully accepted share '$shareId' for user ID: $userId")
+            call.respond(HttpStatusCode.OK, share)
+        }.onLeft { error -> call.respondShareError(error, "accept share '$shareId'", userId) }
+    }
+
+    // Revoke (owner), decline or leave (caregiver) a share
+    delete("/shares/{id}") {
+        val userId = call.getUserId() ?: run {
+            call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "User ID required"))
+            return@delete
+        }
+
+        val shareId = call.shareIdParameter() ?: return@delete
+
+        either {
+            storageService.deleteShare(userId, shareId).bind()
+            logger.debug("Successfully deleted share '$shareId' for user ID: $userId")
+            call.respond(HttpStatusCode.NoContent)
+        }.onLeft { error -> call.respondShareError(error, "delete share '$shareId'", userId) }
+    }
+}
+
+private suspend fun ApplicationCall.shareIdParameter(): UUID? {
+    val id = parameters["id"] ?: run {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing id parameter"))
+        return null
+    }
+    return try {
+        UUID.fromString(id)
+    } catch (e: IllegalArgumentException) {
+        respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid UUID format"))
+        null
+    }
+}
+
+private suspend fun ApplicationCall.respondShareError(error: RedisError, action: String, userId: String) {
+    logger.error("Failed to $action for user ID '$userId': ${error.message}")
+    when (error) {
+        is RedisError.NotFound -> respond(HttpStatusCode.NotFound, mapOf("error" to error.message))
+        else -> respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+    }
+}
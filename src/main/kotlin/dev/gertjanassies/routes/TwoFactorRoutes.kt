@@ -0,0 +1,499 @@
+package dev.gertjanassies.routes
+
+import arrow.core.raise.either
+import dev.gertjanassies.model.AuditEventType
+import dev.gertjanassies.model.Passkey
+import dev.gertjanassies.model.TwoFactor
+import dev.gertjanassies.model.request.PasskeyLoginRequest
+import dev.gertjanassies.model.request.PasskeyOptionsRequest
+import dev.gertjanassies.model.request.PasskeyRegistrationRequest
+import dev.gertjanassies.model.request.TotpCodeRequest
+import dev.gertjanassies.model.request.TwoFactorLoginRequest
+import dev.gertjanassies.model.response.PasskeyLoginOptionsResponse
+import dev.gertjanassies.model.response.PasskeyRegistrationOptionsResponse
+import dev.gertjanassies.model.response.RecoveryCodesResponse
+import dev.gertjanassies.model.response.TotpSetupResponse
+import dev.gertjanassies.model.response.TwoFactorStatusResponse
+import dev.gertjanassies.model.response.toResponse
+import dev.gertjanassies.service.JwtService
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.service.TwoFactorService
+import io.ktor.http.*
+import io.ktor.server.application.*
+import io.ktor.server.request.*
+import io.ktor.server.response.*
+import io.ktor.server.routing.*
+import org.mindrot.jbcrypt.BCrypt
+import org.slf4j.LoggerFactory
+
+private val logger = LoggerFactory.getLogger("TwoFactorRoutes")
+
+// Attempts at the second login step per user within five minutes, a TOTP code can't be guessed in that many
+private const val MAX_TWO_FACTOR_ATTEMPTS = 5
+
+/**
+ * Second login step and passkey login (public)
+ */
+fun Route.twoFactorLoginRoutes(storageService: StorageService, jwtService: JwtService, twoFactorService: TwoFactorService) {
+    route("/auth") {
+        /**
+         * POST /api/auth/2fa/verify
+         * Complete a login with a code from the authenticator app or a recovery code
+         */
+        post("/2fa/verify") {
+            val request = call.receive<TwoFactorLoginRequest>()
+
+            val userId = jwtService.validateTwoFactorToken(request.challengeToken) ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Login expired, please log in again"))
+                return@post
+            }
+            if (!call.allowTwoFactorAttempt(storageService, userId)) return@post
+
+            either {
+                val user = storageService.getUserById(userId).bind()
+                // Deactivated since the password step
+                if (!user.isActive) {
+                    logger.warn("Second step for inactive user ID '$userId'")
+                    call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Account is not active"))
+                    return@either
+                }
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                val accepted = twoFactorService.acceptCode(twoFactor, request.code)
+                if (accepted == null) {
+                    logger.warn("Wrong second step code for user ID '$userId'")
+                    call.recordAuditEvent(storageService, AuditEventType.TWO_FACTOR_FAILED, userId, user.username)
+                    call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Invalid code"))
+                    return@either
+                }
+                // The code's time step was recorded or a recovery code was used up
+                if (accepted != twoFactor) {
+                    storageService.saveTwoFactor(userId, accepted).bind()
+                }
+
+                logger.debug("Successfully completed two-factor login for user '${user.username}'")
+                call.respondWithSession(storageService, jwtService, user)
+            }.onLeft { error ->
+                logger.error("Failed to verify second step for user ID '$userId': ${error.message}")
+                call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Login failed"))
+            }
+        }
+
+        /**
+         * POST /api/auth/passkey/options
+         * Challenge for a passkey login, for the user of the challenge token or any user
+         */
+        post("/passkey/options") {
+            val request = call.receive<PasskeyOptionsRequest>()
+
+            val userId = request.challengeToken?.let { token ->
+                jwtService.validateTwoFactorToken(token) ?: run {
+                    call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Login expired, please log in again"))
+                    return@post
+                }
+            }
+
+            either {
+                val passkeys = userId?.let { storageService.getTwoFactor(it).bind().passkeys } ?: emptyList()
+                val challenge = twoFactorService.newChallenge()
+                storageService.saveWebAuthnChallenge(challenge, userId).bind()
+                call.respond(
+                    HttpStatusCode.OK,
+                    PasskeyLoginOptionsResponse(
+                        challenge = challenge,
+                        rpId = twoFactorService.rpId,
+                        allowCredentials = passkeys.map { it.id }
+                    )
+                )
+            }.onLeft { error ->
+                logger.error("Failed to create passkey login challenge: ${error.message}")
+                call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to start passkey login"))
+            }
+        }
+
+        /**
+         * POST /api/auth/passkey/login
+         * Log in with a passkey, alone or as second step after the password
+         */
+        post("/passkey/login") {
+            val request = call.receive<PasskeyLoginRequest>()
+
+            val clientData = twoFactorService.parseClientData(request.clientDataJSON, "webauthn.get").getOrNull() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Passkey login failed"))
+                return@post
+            }
+
+            val challengeResult = storageService.consumeWebAuthnChallenge(clientData.challenge)
+            val challengeError = challengeResult.leftOrNull()
+            if (challengeError != null) {
+                logger.warn("Passkey login with an unknown challenge: ${challengeError.message}")
+                when (challengeError) {
+                    is RedisError.NotFound ->
+                        call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Passkey login expired, please try again"))
+                    else ->
+                        call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Passkey login failed"))
+                }
+                return@post
+            }
+
+            // The challenge of a second step belongs to a user, otherwise the passkey tells whose it is
+            val handleUserId = request.userHandle?.let { twoFactorService.decodeBase64Url(it)?.let { bytes -> String(bytes) } }
+            val challengeUserId = challengeResult.getOrNull()
+            val userId = challengeUserId ?: handleUserId
+            if (userId == null || (handleUserId != null && handleUserId != userId)) {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Passkey login failed"))
+                return@post
+            }
+
+            either {
+                val user = storageService.getUserById(userId).bind()
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                val passkey = twoFactor.passkeys.firstOrNull { it.id == request.credentialId }
+                val signCount = passkey?.let {
+                    twoFactorService.verifyAssertion(
+                        it, request.authenticatorData, request.clientDataJSON, request.signature,
+                        requireUserVerification = challengeUserId == null
+                    )
+                        .onLeft { error -> logger.warn("Passkey login failed for user ID '$userId': ${error.message}") }
+                        .getOrNull()
+                }
+                if (passkey == null || signCount == null || !user.isActive) {
+                    call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Passkey login failed"))
+                    return@either
+                }
+
+                val used = passkey.copy(signCount = signCount, lastUsedAt = java.time.LocalDateTime.now().toString())
+                storageService.saveTwoFactor(userId, twoFactor.copy(passkeys = twoFactor.passkeys.map { if (it.id == used.id) used else it })).bind()
+
+                logger.debug("Successfully logged in user '${user.username}' with passkey '${passkey.name}'")
+                call.respondWithSession(storageService, jwtService, user)
+            }.onLeft { error ->
+                logger.error("Failed passkey login for user ID '$userId': ${error.message}")
+                when (error) {
+                    is RedisError.NotFound ->
+                        call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Passkey login failed"))
+                    else ->
+                        call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Passkey login failed"))
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Two-factor settings of the logged in user (require JWT authentication). These always work on the
+ * user's own account, a caregiver can't change them for someone else.
+ */
+fun Route.twoFactorRoutes(storageService: StorageService, twoFactorService: TwoFactorService) {
+    route("/user/2fa") {
+        /**
+         * GET /api/user/2fa
+         * Two-factor status of the current user
+         */
+        get {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@get
+            }
+
+            either {
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                call.respond(HttpStatusCode.OK, twoFactor.toStatusResponse())
+            }.onLeft { error -> call.respondTwoFactorError(error, "get two-factor status", userId) }
+        }
+
+        /**
+         * POST /api/user/2fa/totp/setup
+         * Start enrolling an authenticator app, enabled once a code from it checks out
+         */
+        post("/totp/setup") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@post
+            }
+
+            either {
+                val user = storageService.getUserById(userId).bind()
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                if (twoFactor.totpEnabled) {
+                    call.respond(HttpStatusCode.Conflict, mapOf("error" to "Authenticator app is already enabled"))
+                    return@either
+                }
+
+                val secret = twoFactorService.generateTotpSecret()
+                storageService.saveTwoFactor(userId, twoFactor.copy(totpSecret = secret, totpLastStep = null)).bind()
+                logger.debug("Started authenticator app setup for user ID: $userId")
+                call.respond(HttpStatusCode.OK, TotpSetupResponse(secret, twoFactorService.otpauthUri(secret, user.username)))
+            }.onLeft { error -> call.respondTwoFactorError(error, "start authenticator app setup", userId) }
+        }
+
+        /**
+         * POST /api/user/2fa/totp/enable
+         * Finish enrolling the authenticator app, returns new recovery codes
+         */
+        post("/totp/enable") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@post
+            }
+
+            val request = call.receive<TotpCodeRequest>()
+
+            either {
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                val secret = twoFactor.totpSecret
+                if (twoFactor.totpEnabled || secret == null) {
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Start the authenticator app setup first"))
+                    return@either
+                }
+                val step = twoFactorService.acceptTotp(secret, request.code, twoFactor.totpLastStep) ?: run {
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid code"))
+                    return@either
+                }
+
+                val recoveryCodes = twoFactorService.generateRecoveryCodes()
+                storageService.saveTwoFactor(
+                    userId,
+                    twoFactor.copy(
+                        totpEnabled = true,
+                        totpLastStep = step,
+                        recoveryCodeHashes = twoFactorService.hashRecoveryCodes(recoveryCodes)
+                    )
+                ).bind()
+                logger.debug("Enabled authenticator app for user ID: $userId")
+                call.recordAuditEvent(storageService, AuditEventType.TWO_FACTOR_ENABLED, userId, call.getUsername())
+                call.respond(HttpStatusCode.OK, RecoveryCodesResponse(recoveryCodes))
+            }.onLeft { error -> call.respondTwoFactorError(error, "enable authenticator app", userId) }
+        }
+
+        /**
+         * POST /api/user/2fa/totp/disable
+         * Turn off the authenticator app, with a current code or a recovery code
+         */
+        post("/totp/disable") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@post
+            }
+
+            val request = call.receive<TotpCodeRequest>()
+
+            either {
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                if (!twoFactor.totpEnabled) {
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Authenticator app is not enabled"))
+                    return@either
+                }
+                val accepted = twoFactorService.acceptCode(twoFactor, request.code) ?: run {
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Invalid code"))
+                    return@either
+                }
+
+                // Recovery codes stay as long as passkeys need them
+                val disabled = accepted.copy(
+                    totpSecret = null,
+                    totpEnabled = false,
+                    totpLastStep = null,
+                    recoveryCodeHashes = if (accepted.passkeys.isEmpty()) emptyList() else accepted.recoveryCodeHashes
+                )
+                storageService.saveTwoFactor(userId, disabled).bind()
+                logger.debug("Disabled authenticator app for user ID: $userId")
+                call.recordAuditEvent(storageService, AuditEventType.TWO_FACTOR_DISABLED, userId, call.getUsername())
+                call.respond(HttpStatusCode.OK, disabled.toStatusResponse())
+            }.onLeft { error -> call.respondTwoFactorError(error, "disable authenticator app", userId) }
+        }
+
+        /**
+         * POST /api/user/2fa/recovery-codes
+         * Replace the recovery codes, the old ones stop working
+         */
+        post("/recovery-codes") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@post
+            }
+
+            either {
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                if (!twoFactor.isEnabled) {
+                    call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Two-factor authentication is not enabled"))
+                    return@either
+                }
+
+                val recoveryCodes = twoFactorService.generateRecoveryCodes()
+                storageService.saveTwoFactor(userId, twoFactor.copy(recoveryCodeHashes = twoFactorService.hashRecoveryCodes(recoveryCodes))).bind()
+                logger.debug("Replaced recovery codes for user ID: $userId")
+                call.respond(HttpStatusCode.OK, RecoveryCodesResponse(recoveryCodes))
+            }.onLeft { error -> call.respondTwoFactorError(error, "replace recovery codes", userId) }
+        }
+
+        /**
+         * POST /api/user/2fa/passkeys/options
+         * Challenge for registering a passkey
+         */
+        post("/passkeys/options") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@post
+            }
+
+            either {
+                val user = storageService.getUserById(userId).bind()
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                val challenge = twoFactorService.newChallenge()
+                storageService.saveWebAuthnChallenge(challenge, userId).bind()
+                call.respond(
+                    HttpStatusCode.OK,
+                    PasskeyRegistrationOptionsResponse(
+                        challenge = challenge,
+                        rpId = twoFactorService.rpId,
+                        rpName = twoFactorService.issuer,
+                        userId = twoFactorService.encodeBase64Url(userId.toByteArray()),
+                        userName = user.username,
+                        userDisplayName = "${user.firstName} ${user.lastName}".trim().ifEmpty { user.username },
+                        excludeCredentials = twoFactor.passkeys.map { it.id }
+                    )
+                )
+            }.onLeft { error -> call.respondTwoFactorError(error, "start passkey registration", userId) }
+        }
+
+        /**
+         * POST /api/user/2fa/passkeys
+         * Register the passkey the browser created
+         */
+        post("/passkeys") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@post
+            }
+
+            val request = call.receive<PasskeyRegistrationRequest>()
+            if (request.name.isBlank()) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Passkey name cannot be empty"))
+                return@post
+            }
+
+            val checked = either {
+                val clientData = twoFactorService.parseClientData(request.clientDataJSON, "webauthn.create").bind()
+                twoFactorService.validatePublicKey(request.publicKey, request.publicKeyAlgorithm).bind()
+                clientData
+            }
+            val clientData = checked.getOrNull() ?: run {
+                logger.warn("Rejected passkey for user ID '$userId': ${checked.leftOrNull()?.message}")
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Passkey not accepted"))
+                return@post
+            }
+
+            either {
+                val challengeUserId = storageService.consumeWebAuthnChallenge(clientData.challenge).bind()
+                if (challengeUserId != userId) raise(RedisError.NotFound("Unknown or expired challenge"))
+
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                if (twoFactor.passkeys.any { it.id == request.credentialId }) {
+                    call.respond(HttpStatusCode.Conflict, mapOf("error" to "Passkey is already registered"))
+                    return@either
+                }
+
+                val passkey = Passkey(
+                    id = request.credentialId,
+                    name = request.name.trim(),
+                    publicKey = request.publicKey,
+                    algorithm = request.publicKeyAlgorithm,
+                    createdAt = java.time.LocalDateTime.now().toString()
+                )
+                storageService.saveTwoFactor(userId, twoFactor.copy(passkeys = twoFactor.passkeys + passkey)).bind()
+                logger.debug("Registered passkey '${passkey.name}' for user ID: $userId")
+                call.recordAuditEvent(storageService, AuditEventType.PASSKEY_ADDED, userId, call.getUsername(), passkey.name)
+                call.respond(HttpStatusCode.Created, passkey.toResponse())
+            }.onLeft { error ->
+                when (error) {
+                    is RedisError.NotFound -> {
+                        logger.warn("Passkey registration with an unknown challenge for user ID '$userId'")
+                        call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Passkey registration expired, please try again"))
+                    }
+                    else -> call.respondTwoFactorError(error, "register passkey", userId)
+                }
+            }
+        }
+
+        /**
+         * DELETE /api/user/2fa/passkeys/{id}
+         * Remove a passkey
+         */
+        delete("/passkeys/{id}") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@delete
+            }
+
+            val passkeyId = call.parameters["id"] ?: run {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Missing passkey ID"))
+                return@delete
+            }
+
+            either {
+                val twoFactor = storageService.getTwoFactor(userId).bind()
+                if (twoFactor.passkeys.none { it.id == passkeyId }) {
+                    call.respond(HttpStatusCode.NotFound, mapOf("error" to "Passkey not found"))
+                    return@either
+                }
+
+                val passkeys = twoFactor.passkeys.filter { it.id != passkeyId }
+                val recoveryCodeHashes = if (passkeys.isEmpty() && !twoFactor.totpEnabled) emptyList() else twoFactor.recoveryCodeHashes
+                storageService.saveTwoFactor(userId, twoFactor.copy(passkeys = passkeys, recoveryCodeHashes = recoveryCodeHashes)).bind()
+                logger.debug("Removed passkey '$passkeyId' for user ID: $userId")
+                call.recordAuditEvent(
+                    storageService, AuditEventType.PASSKEY_REMOVED, userId, call.getUsername(),
+                    twoFactor.passkeys.first { it.id == passkeyId }.name
+                )
+                call.respond(HttpStatusCode.NoContent)
+            }.onLeft { error -> call.respondTwoFactorError(error, "remove passkey '$passkeyId'", userId) }
+        }
+    }
+}
+
+private fun TwoFactor.toStatusResponse() = TwoFactorStatusResponse(
+    totpEnabled = totpEnabled,
+    recoveryCodesLeft = recoveryCodeHashes.size,
+    passkeys = passkeys.map { it.toResponse() }
+)
+
+private fun TwoFactorService.hashRecoveryCodes(codes: List<String>): List<String> =
+    codes.map { BCrypt.hashpw(normalizeRecoveryCode(it), BCrypt.gensalt()) }
+
+/**
+ * The settings after a correct code from the authenticator app, with its time step recorded, or
+ * after a recovery code, with that code taken out. Null for a wrong or reused code.
+ */
+private fun TwoFactorService.acceptCode(twoFactor: TwoFactor, code: String): TwoFactor? {
+    val secret = twoFactor.totpSecret
+    if (twoFactor.totpEnabled && secret != null) {
+        acceptTotp(secret, code, twoFactor.totpLastStep)?.let { step -> return twoFactor.copy(totpLastStep = step) }
+    }
+
+    val recoveryCode = normalizeRecoveryCode(code)
+    if (recoveryCode.isEmpty()) return null
+    val used = twoFactor.recoveryCodeHashes.firstOrNull { BCrypt.checkpw(recoveryCode, it) } ?: return null
+    return twoFactor.copy(recoveryCodeHashes = twoFactor.recoveryCodeHashes - used)
+}
+
+/**
+ * Count the attempt and respond 429 when the user made too many, returns whether to go on
+ */
+private suspend fun ApplicationCall.allowTwoFactorAttempt(storageService: StorageService, userId: String): Boolean {
+    val attempts = storageService.countTwoFactorAttempt(userId).getOrNull() ?: run {
+        respond(HttpStatusCode.InternalServerError, mapOf("error" to "Login failed"))
+        return false
+    }
+    if (attempts > MAX_TWO_FACTOR_ATTEMPTS) {
+        logger.warn("Too many second step attempts for user ID '$userId'")
+        respond(HttpStatusCode.TooManyRequests, mapOf("error" to "Too many attempts, please wait a few minutes"))
+        return false
+    }
+    return true
+}
+
+private suspend fun ApplicationCall.respondTwoFactorError(error: RedisError, action: String, userId: String) {
+    logger.error("Failed to $action for user ID '$userId': ${error.message}")
+    respond(HttpStatusCode.InternalServerError, mapOf("error" to error.message))
+}
@@ -1,7 +1,10 @@
 package dev.gertjanassies.routes
 
+import dev.gertjanassies.model.AuditEventType
+import dev.gertjanassies.model.request.GracePeriodRequest
+import dev.gertjanassies.model.request.HomeTimezoneRequest
 import dev.gertjanassies.model.request.UserRequest
-import dev.gertjanassies.model.response.AuthResponse
+import dev.gertjanassies.model.response.TwoFactorChallengeResponse
 import dev.gertjanassies.model.response.toResponse
 import dev.gertjanassies.service.EmailService
 import dev.gertjanassies.service.JwtService
@@ -14,9 +17,14 @@ import io.ktor.server.request.*
 import io.ktor.server.response.*
 import io.ktor.server.routing.*
 import org.slf4j.LoggerFactory
+import java.time.DateTimeException
+import java.time.ZoneId
 
 private val logger = LoggerFactory.getLogger("UserRoutes")
 
+// A dose still not taken half a day after its time is missed whatever the setting
+private const val MAX_GRACE_MINUTES = 720
+
 fun Route.userRoutes(storageService: StorageService, jwtService: JwtService, emailService: EmailService) {
     route("/user") {
         /**
@@ -108,37 +116,37 @@ fun Route.userRoutes(storageService: StorageService, jwtService: JwtService, ema
             val leftLogin = loginResult.leftOrNull()
             if (leftLogin != null) {
                 logger.error("Failed login attempt for user '${request.username}': ${leftLogin.message}")
+                call.recordAuditEvent(storageService, AuditEventType.LOGIN_FAILED, targetName = request.username)
                 call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Invalid credentials"))
                 return@post
             }
 
             val user = loginResult.getOrNull()!!
 
-            // Check if user is admin
-            val isAdmin = storageService.isUserAdmin(user.id.toString()).getOrNull() ?: false
-
-            // Generate JWT tokens for logged in user
-            val accessToken = jwtService.generateAccessToken(user.username, user.id.toString(), isAdmin)
-            val refreshToken = jwtService.generateRefreshToken(user.username, user.id.toString(), isAdmin)
-
-            // Set refresh token as HttpOnly cookie
-            call.response.cookies.append(
-                io.ktor.http.Cookie(
-                    name = "refresh_token",
-                    value = refreshToken,
-                    maxAge = 30 * 24 * 60 * 60, // 30 days in seconds
-                    httpOnly = true,
-                    secure = false, // Set to true in production with HTTPS
-                    path = "/",
-                    extensions = mapOf("SameSite" to "Strict")
+            // With two-factor authentication the session only follows the second step (see TwoFactorRoutes)
+            val twoFactorResult = storageService.getTwoFactor(user.id.toString())
+            val twoFactorError = twoFactorResult.leftOrNull()
+            if (twoFactorError != null) {
+                logger.error("Failed to get two-factor settings for user '${request.username}': ${twoFactorError.message}")
+                call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Login failed"))
+                return@post
+            }
+
+            val twoFactor = twoFactorResult.getOrNull()!!
+            if (twoFactor.isEnabled) {
+                logger.debug("Password of user '${request.username}' checked out, asking for the second step")
+                call.respond(
+                    HttpStatusCode.OK,
+                    TwoFactorChallengeResponse(
+                        challengeToken = jwtService.generateTwoFactorToken(user.username, user.id.toString()),
+                        methods = twoFactor.methods()
+                    )
                 )
-            )
+                return@post
+            }
 
             logger.debug("Successfully logged in user '${request.username}' and generated JWT tokens")
-            call.respond(
-                HttpStatusCode.OK,
-                AuthResponse(user = user.toResponse(isAdmin), token = accessToken, refreshToken = "")
-            )
+            call.respondWithSession(storageService, jwtService, user)
         }
 
         /**
@@ -173,6 +181,7 @@ fun Route.userRoutes(storageService: StorageService, jwtService: JwtService, ema
                 },
                 {
                     logger.debug("Successfully updated password for user '${request.username}'")
+                    call.recordAuditEvent(storageService, AuditEventType.PASSWORD_CHANGED, targetName = request.username)
                     call.respond(HttpStatusCode.OK, mapOf("message" to "Password updated successfully"))
                 }
             )
@@ -262,5 +271,71 @@ fun Route.protectedUserRoutes(storageService: StorageService) {
                 }
             )
         }
+
+        /**
+         * PUT /api/user/timezone
+         * Set the home time zone that schedules in home time follow, null to follow the device
+         */
+        put("/timezone") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@put
+            }
+
+            val request = call.receive<HomeTimezoneRequest>()
+            val validZone = request.timezone?.let { timezone ->
+                try {
+                    ZoneId.of(timezone)
+                    true
+                } catch (e: DateTimeException) {
+                    false
+                }
+            } ?: true
+            if (!validZone) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Unknown time zone '${request.timezone}'"))
+                return@put
+            }
+
+            storageService.updateHomeTimezone(userId, request.timezone).fold(
+                { error ->
+                    logger.error("Failed to update home time zone for user ID '$userId': ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to update home time zone"))
+                },
+                { user ->
+                    val isAdmin = storageService.isUserAdmin(userId).getOrNull() ?: false
+                    logger.debug("Successfully updated home time zone for user ID '$userId'")
+                    call.respond(HttpStatusCode.OK, user.toResponse(isAdmin))
+                }
+            )
+        }
+
+        /**
+         * PUT /api/user/grace-period
+         * Set how many minutes after its time a dose not taken counts as missed, null for the default
+         */
+        put("/grace-period") {
+            val userId = call.getUserId() ?: run {
+                call.respond(HttpStatusCode.Unauthorized, mapOf("error" to "Not authenticated"))
+                return@put
+            }
+
+            val request = call.receive<GracePeriodRequest>()
+            if (request.minutes != null && request.minutes !in 0..MAX_GRACE_MINUTES) {
+                call.respond(HttpStatusCode.BadRequest, mapOf("error" to "Grace period must be between 0 and $MAX_GRACE_MINUTES minutes"))
+                return@put
+            }
+
+            storageService.updateGracePeriod(userId, request.minutes).fold(
+                { error ->
+                    logger.error("Failed to update grace period for user ID '$userId': ${error.message}")
+                    call.respond(HttpStatusCode.InternalServerError, mapOf("error" to "Failed to update grace period"))
+                },
+                { user ->
+                    val isAdmin = storageService.isUserAdmin(userId).getOrNull() ?: false
+                    logger.debug("Successfully updated grace period for user ID '$userId'")
+                    call.respond(HttpStatusCode.OK, user.toResponse(isAdmin))
+                }
+            )
+        }
     }
 }
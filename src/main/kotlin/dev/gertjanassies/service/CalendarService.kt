@@ -0,0 +1,266 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.CalendarFeed
+import dev.gertjanassies.model.DayOfWeek
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.PatientProfile
+import dev.gertjanassies.model.RecurrenceType
+import dev.gertjanassies.model.Schedule
+import dev.gertjanassies.model.TimezoneMode
+import java.time.Duration
+import java.time.Instant
+import java.time.LocalDate
+import java.time.LocalDateTime
+import java.time.LocalTime
+import java.time.Month
+import java.time.ZoneId
+import java.time.ZoneOffset
+import java.time.ZonedDateTime
+import java.time.format.DateTimeFormatter
+import java.time.temporal.ChronoUnit
+import java.time.zone.ZoneOffsetTransitionRule
+import kotlin.math.abs
+
+/**
+ * The medicines and schedules of the account holder (profile null) or one of their patient profiles
+ */
+data class CalendarSource(
+    val profile: PatientProfile?,
+    val medicines: List<Medicine>,
+    val schedules: List<Schedule>
+)
+
+/**
+ * Writes schedules as an iCalendar (RFC 5545) feed with a recurring event per schedule, the way
+ * src/lib/recurrence.ts in the frontend expands them. A taper step or a day of a cycle gets an event
+ * of its own, as one RRULE cannot change the amount or skip days off.
+ *
+ * The feed is written on every request, so calendars pick up schedule changes on their next refresh.
+ * Schedules without a start date start on the day the feed was created (feed.createdAt), regenerating
+ * the feed resets that date. Schedules in home time are in the user's home time zone, the others in
+ * the feed's.
+ */
+object CalendarService {
+    private const val PRODUCT_ID = "-//Medicate//Medication schedule//EN"
+    private const val UID_DOMAIN = "medicate"
+    private const val MAX_LINE_OCTETS = 75
+    private const val EVENT_DURATION = "PT15M"
+
+    private val LOCAL_FORMAT = DateTimeFormatter.ofPattern("yyyyMMdd'T'HHmmss")
+    private val UTC_FORMAT = DateTimeFormatter.ofPattern("yyyyMMdd'T'HHmmss'Z'")
+
+    // Part of a course with one amount: the whole course, or a taper step
+    private data class Segment(val from: LocalDate, val until: LocalDate?, val amount: Double)
+
+    // One recurring event
+    private data class Series(val uid: String, val start: LocalDateTime, val rule: String, val until: LocalDate?, val amount: Double)
+
+    fun buildCalendar(
+        feed: CalendarFeed,
+        sources: List<CalendarSource>,
+        now: ZonedDateTime = ZonedDateTime.now(),
+        homeTimezone: String? = null
+    ): String {
+        val zone = ZoneId.of(feed.timezone)
+        val homeZone = homeTimezone?.let { ZoneId.of(it) } ?: zone
+        val zoneOf = { schedule: Schedule -> if (schedule.timezoneMode == TimezoneMode.HOME) homeZone else zone }
+        val stamp = now.withZoneSameInstant(ZoneOffset.UTC).format(UTC_FORMAT)
+        // Weekly and daily schedules without a start date repeat from the day the feed was made, the
+        // same on every fetch so calendars do not see the events change
+        val since = LocalDateTime.parse(feed.createdAt).toLocalDate()
+
+        val lines = mutableListOf(
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:$PRODUCT_ID",
+            "CALSCALE:GREGORIAN",
+            "METHOD:PUBLISH",
+            "X-WR-CALNAME:Medicate",
+            "X-WR-TIMEZONE:${zone.id}",
+            // Ask calendars to check for schedule changes every hour
+            "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+            "X-PUBLISHED-TTL:PT1H"
+        )
+        val usedZones = listOf(zone) + sources.flatMap { source -> source.schedules.map(zoneOf) }
+        usedZones.distinct().forEach { lines += timezoneLines(it) }
+
+        for (source in sources) {
+            for (schedule in source.schedules) {
+                val medicine = source.medicines.find { it.id == schedule.medicineId } ?: continue
+                val scheduleZone = zoneOf(schedule)
+                for (series in series(schedule, since, scheduleZone)) {
+                    lines += eventLines(series, summary(source.profile, medicine, series.amount), medicine, feed, scheduleZone, stamp)
+                }
+            }
+        }
+
+        lines += "END:VCALENDAR"
+        return lines.joinToString("") { fold(it) + "\r\n" }
+    }
+
+    private fun series(schedule: Schedule, since: LocalDate, zone: ZoneId): List<Series> {
+        val recurrence = schedule.recurrence
+        val type = RecurrenceService.type(schedule)
+        val taper = recurrence?.taper.orEmpty()
+        val start = RecurrenceService.courseStart(schedule) ?: since
+        val end = recurrence?.endDate?.let { LocalDate.parse(it) }
+        val time = LocalTime.parse(schedule.time)
+
+        // A taper ends the course after its last step
+        val segments = if (taper.isEmpty()) {
+            listOf(Segment(start, end, schedule.amount))
+        } else {
+            var from = start
+            taper.map { step ->
+                val stepEnd = from.plusDays(step.days - 1L)
+                Segment(from, if (end != null && end < stepEnd) end else stepEnd, step.amount).also { from = stepEnd.plusDays(1) }
+            }.filter { it.until == null || it.from <= it.until }
+        }
+
+        return segments.flatMapIndexed { index, segment ->
+            val uid = if (segments.size > 1) "${schedule.id}-$index" else schedule.id.toString()
+            when (type) {
+                RecurrenceType.DAYS_OF_WEEK -> {
+                    val days = schedule.daysOfWeek
+                    val first = generateSequence(segment.from) { it.plusDays(1) }.take(7)
+                        .first { days.isEmpty() || DayOfWeek.fromJavaDay(it.dayOfWeek) in days }
+                    val rule = if (days.isEmpty()) "FREQ=DAILY" else "FREQ=WEEKLY;BYDAY=${days.joinToString(",") { it.code }}"
+                    listOf(Series(uid, first.atTime(time), rule, segment.until, segment.amount))
+                }
+                RecurrenceType.EVERY_N_DAYS -> {
+                    val interval = maxOf(1, recurrence?.intervalDays ?: 1)
+                    val first = firstInCycle(start, segment.from, interval, 0)
+                    listOf(Series(uid, first.atTime(time), "FREQ=DAILY;INTERVAL=$interval", segment.until, segment.amount))
+                }
+                RecurrenceType.CYCLE -> {
+                    // An event per day on, each repeating once per cycle
+                    val daysOn = maxOf(1, recurrence?.daysOn ?: 1)
+                    val cycle = daysOn + maxOf(0, recurrence?.daysOff ?: 0)
+                    (0 until daysOn).map { day ->
+                        val first = firstInCycle(start, segment.from, cycle, day)
+                        Series("$uid-$day", first.atTime(time), "FREQ=DAILY;INTERVAL=$cycle", segment.until, segment.amount)
+                    }
+                }
+                RecurrenceType.INTERVAL -> {
+                    // Every intervalHours in elapsed time from the schedule's time on the start date
+                    val hours = maxOf(1, recurrence?.intervalHours ?: 24).toLong()
+                    val anchor = start.atTime(time).atZone(zone)
+                    val elapsed = Duration.between(anchor, segment.from.atStartOfDay(zone)).toMinutes()
+                    val steps = if (elapsed <= 0) 0 else (elapsed + hours * 60 - 1) / (hours * 60)
+                    val first = anchor.plusHours(steps * hours).toLocalDateTime()
+                    listOf(Series(uid, first, "FREQ=HOURLY;INTERVAL=$hours", segment.until, segment.amount))
+                }
+            }
+        }.filter { it.until == null || it.start.toLocalDate() <= it.until }
+    }
+
+    // First date on or after `from` that is the given day of a cycle counted from `start`
+    private fun firstInCycle(start: LocalDate, from: LocalDate, cycle: Int, day: Int): LocalDate {
+        val dayOfCycle = Math.floorMod(ChronoUnit.DAYS.between(start, from), cycle.toLong())
+        return from.plusDays(Math.floorMod(day - dayOfCycle, cycle.toLong()))
+    }
+
+    private fun summary(profile: PatientProfile?, medicine: Medicine, amount: Double): String {
+        val dose = "${medicine.name}: ${amount.formatted()}x ${medicine.dose.formatted()}${medicine.unit}"
+        return if (profile != null) "${profile.avatar} ${profile.name} - $dose" else dose
+    }
+
+    private fun eventLines(series: Series, summary: String, medicine: Medicine, feed: CalendarFeed, zone: ZoneId, stamp: String): List<String> {
+        // With a time zone on the start, the end of the recurrence has to be in UTC
+        val until = series.until?.let {
+            ";UNTIL=" + it.plusDays(1).atStartOfDay(zone).minusSeconds(1).withZoneSameInstant(ZoneOffset.UTC).format(UTC_FORMAT)
+        } ?: ""
+
+        val lines = mutableListOf(
+            "BEGIN:VEVENT",
+            "UID:${series.uid}@$UID_DOMAIN",
+            "DTSTAMP:$stamp",
+            "DTSTART;TZID=${zone.id}:${series.start.format(LOCAL_FORMAT)}",
+            "DURATION:$EVENT_DURATION",
+            "RRULE:${series.rule}$until",
+            "SUMMARY:${escape(summary)}"
+        )
+        medicine.description?.takeIf { it.isNotBlank() }?.let { lines += "DESCRIPTION:${escape(it)}" }
+        if (feed.reminderMinutes != null) {
+            lines += listOf(
+                "BEGIN:VALARM",
+                "ACTION:DISPLAY",
+                "DESCRIPTION:${escape(summary)}",
+                "TRIGGER:-PT${feed.reminderMinutes}M",
+                "END:VALARM"
+            )
+        }
+        lines += "END:VEVENT"
+        return lines
+    }
+
+    // The zone's current daylight saving rules, or its offset when it has none
+    private fun timezoneLines(zone: ZoneId): List<String> {
+        val rules = zone.rules
+        val lines = mutableListOf("BEGIN:VTIMEZONE", "TZID:${zone.id}")
+        if (rules.transitionRules.isEmpty()) {
+            val offset = formatOffset(rules.getOffset(Instant.now()))
+            lines += listOf("BEGIN:STANDARD", "DTSTART:19700101T000000", "TZOFFSETFROM:$offset", "TZOFFSETTO:$offset", "END:STANDARD")
+        } else {
+            for (rule in rules.transitionRules) {
+                val component = if (rule.offsetAfter.totalSeconds > rule.standardOffset.totalSeconds) "DAYLIGHT" else "STANDARD"
+                lines += listOf(
+                    "BEGIN:$component",
+                    "DTSTART:${rule.createTransition(1970).dateTimeBefore.format(LOCAL_FORMAT)}",
+                    "RRULE:FREQ=YEARLY;BYMONTH=${rule.month.value};${transitionDay(rule)}",
+                    "TZOFFSETFROM:${formatOffset(rule.offsetBefore)}",
+                    "TZOFFSETTO:${formatOffset(rule.offsetAfter)}",
+                    "END:$component"
+                )
+            }
+        }
+        lines += "END:VTIMEZONE"
+        return lines
+    }
+
+    // E.g. the last Sunday (-1SU) or the first Sunday on or after the 8th of the month
+    private fun transitionDay(rule: ZoneOffsetTransitionRule): String {
+        val indicator = rule.dayOfMonthIndicator
+        val dayOfWeek = rule.dayOfWeek ?: return "BYMONTHDAY=$indicator"
+        val code = DayOfWeek.fromJavaDay(dayOfWeek).code
+        // The last week of the month, which is how the time zone database stores e.g. "lastSun"
+        if (indicator == -1 || (rule.month != Month.FEBRUARY && indicator + 6 == rule.month.maxLength())) return "BYDAY=-1$code"
+        if (indicator > 0 && indicator % 7 == 1) return "BYDAY=${indicator / 7 + 1}$code"
+        val days = if (indicator < 0) (indicator - 6)..indicator else indicator..minOf(indicator + 6, 31)
+        return "BYDAY=$code;BYMONTHDAY=${days.joinToString(",")}"
+    }
+
+    private fun formatOffset(offset: ZoneOffset): String {
+        val seconds = offset.totalSeconds
+        val sign = if (seconds < 0) "-" else "+"
+        return "%s%02d%02d".format(sign, abs(seconds) / 3600, abs(seconds) % 3600 / 60)
+    }
+
+    private fun escape(text: String): String = text
+        .replace("\\", "\\\\")
+        .replace(";", "\\;")
+        .replace(",", "\\,")
+        .replace("\r\n", "\\n")
+        .replace("\n", "\\n")
+
+    // Lines longer than 75 octets continue on the next line after a space, without splitting a character
+    private fun fold(line: String): String {
+        val folded = StringBuilder()
+        var octets = 0
+        var index = 0
+        while (index < line.length) {
+            val codePoint = line.codePointAt(index)
+            val size = String(Character.toChars(codePoint)).toByteArray(Charsets.UTF_8).size
+            if (octets + size > MAX_LINE_OCTETS) {
+                folded.append("\r\n ")
+                octets = 1
+            }
+            folded.appendCodePoint(codePoint)
+            octets += size
+            index += Character.charCount(codePoint)
+        }
+        return folded.toString()
+    }
+
+    private fun Double.formatted(): String = if (this % 1.0 == 0.0) toLong().toString() else toString()
+}
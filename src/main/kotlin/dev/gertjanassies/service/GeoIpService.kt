@@ -0,0 +1,74 @@
+package dev.gertjanassies.service
+
+import io.ktor.client.*
+import io.ktor.client.request.*
+import io.ktor.client.statement.*
+import io.ktor.http.*
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.JsonObject
+import kotlinx.serialization.json.JsonPrimitive
+import kotlinx.serialization.json.contentOrNull
+import org.slf4j.LoggerFactory
+import java.net.InetAddress
+
+/**
+ * Approximate location of an IP address, shown with the sessions of a user.
+ *
+ * The lookup URL contains `{ip}` and should answer with JSON holding `city` and `country_name` or `country`,
+ * like https://ipapi.co/{ip}/json/. Without a URL no lookups are done.
+ */
+class GeoIpService(
+    private val httpClient: HttpClient,
+    private val urlTemplate: String
+) {
+    private val json = Json { ignoreUnknownKeys = true }
+    private val logger = LoggerFactory.getLogger(GeoIpService::class.java)
+
+    val isEnabled: Boolean get() = urlTemplate.isNotBlank()
+
+    /**
+     * Look up "City, Country" for an IP address
+     * Returns "" when the location is unknown and null when lookups are disabled or failed, so it is tried again later
+     */
+    suspend fun locate(ipAddress: String): String? {
+        if (!isEnabled) return null
+        if (ipAddress.isBlank() || isPrivateAddress(ipAddress)) return ""
+
+        return try {
+            val response = httpClient.get(urlTemplate.replace("{ip}", ipAddress.encodeURLPathPart()))
+            if (!response.status.isSuccess()) {
+                logger.warn("GeoIP lookup failed with status ${response.status}")
+                return null
+            }
+            parseLocation(response.bodyAsText())
+        } catch (e: Exception) {
+            logger.warn("GeoIP lookup failed: ${e.message}")
+            null
+        }
+    }
+
+    internal fun parseLocation(body: String): String {
+        val data = json.parseToJsonElement(body) as? JsonObject ?: return ""
+        fun field(name: String) = (data[name] as? JsonPrimitive)?.contentOrNull?.takeIf { it.isNotBlank() }
+
+        val country = field("country_name") ?: field("country")
+        return listOfNotNull(field("city"), country).joinToString(", ")
+    }
+
+    companion object {
+        // Local and private network addresses have no location
+        fun isPrivateAddress(ipAddress: String): Boolean {
+            // Only literal addresses, never resolve host names
+            if (!ipAddress.all { it.isLetterOrDigit() || it == '.' || it == ':' }) return true
+            if (ipAddress.any { it.isLetter() } && !ipAddress.contains(':')) return true
+            return try {
+                val address = InetAddress.getByName(ipAddress)
+                address.isLoopbackAddress || address.isSiteLocalAddress || address.isLinkLocalAddress ||
+                    address.isAnyLocalAddress || address.hostAddress.lowercase().startsWith("fc") ||
+                    address.hostAddress.lowercase().startsWith("fd")
+            } catch (e: Exception) {
+                true
+            }
+        }
+    }
+}
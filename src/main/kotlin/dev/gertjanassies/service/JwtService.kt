@@ -2,6 +2,7 @@ package dev.gertjanassies.service
 
 import com.auth0.jwt.JWT
 import com.auth0.jwt.algorithms.Algorithm
+import com.auth0.jwt.exceptions.JWTDecodeException
 import com.auth0.jwt.exceptions.JWTVerificationException
 import java.util.*
 
@@ -13,14 +14,18 @@ class JwtService(
     private val issuer: String = "medicate-app",
     private val audience: String = "medicate-users",
     private val accessTokenExpirationMs: Long = 60 * 60 * 1000, // 1 hour
-    private val refreshTokenExpirationMs: Long = 30L * 24 * 60 * 60 * 1000 // 30 days
+    private val refreshTokenExpirationMs: Long = 30L * 24 * 60 * 60 * 1000, // 30 days
+    private val twoFactorTokenExpirationMs: Long = 5 * 60 * 1000 // 5 minutes
 ) {
     private val algorithm = Algorithm.HMAC256(secret)
 
+    // Two-factor tokens get their own audience, so the JWT authentication never accepts them as access token
+    private val twoFactorAudience = "$audience-two-factor"
+
     /**
      * Generate an access token for a user (short-lived)
      */
-    fun generateAccessToken(username: String, userId: String, isAdmin: Boolean = false): String {
+    fun generateAccessToken(username: String, userId: String, isAdmin: Boolean = false, sessionId: String? = null): String {
         return JWT.create()
             .withAudience(audience)
             .withIssuer(issuer)
@@ -28,6 +33,7 @@ class JwtService(
             .withClaim("userId", userId)
             .withClaim("isAdmin", isAdmin)
             .withClaim("type", "access")
+            .apply { if (sessionId != null) withClaim("sessionId", sessionId) }
             .withExpiresAt(Date(System.currentTimeMillis() + accessTokenExpirationMs))
             .sign(algorithm)
     }
@@ -35,7 +41,7 @@ class JwtService(
     /**
      * Generate a refresh token for a user (long-lived)
      */
-    fun generateRefreshToken(username: String, userId: String, isAdmin: Boolean = false): String {
+    fun generateRefreshToken(username: String, userId: String, isAdmin: Boolean = false, sessionId: String? = null): String {
         return JWT.create()
             .withAudience(audience)
             .withIssuer(issuer)
@@ -43,10 +49,43 @@ class JwtService(
             .withClaim("userId", userId)
             .withClaim("isAdmin", isAdmin)
             .withClaim("type", "refresh")
+            .apply { if (sessionId != null) withClaim("sessionId", sessionId) }
             .withExpiresAt(Date(System.currentTimeMillis() + refreshTokenExpirationMs))
             .sign(algorithm)
     }
 
+    /**
+     * Generate a token for the second login step, handed out after the password checked out
+     */
+    fun generateTwoFactorToken(username: String, userId: String): String {
+        return JWT.create()
+            .withAudience(twoFactorAudience)
+            .withIssuer(issuer)
+            .withClaim("username", username)
+            .withClaim("userId", userId)
+            .withClaim("type", "two_factor")
+            .withExpiresAt(Date(System.currentTimeMillis() + twoFactorTokenExpirationMs))
+            .sign(algorithm)
+    }
+
+    /**
+     * Validate a token for the second login step
+     * Returns the user ID if valid, null otherwise
+     */
+    fun validateTwoFactorToken(token: String): String? {
+        return try {
+            val verifier = JWT.require(algorithm)
+                .withAudience(twoFactorAudience)
+                .withIssuer(issuer)
+                .withClaim("type", "two_factor")
+                .build()
+
+            val decodedJWT = verifier.verify(token)
+            decodedJWT.getClaim("userId").asString()
+        } catch (e: JWTVerificationException) {
+            null // Token is invalid or expired
+        }
+    }
 
     /**
      * Validate a JWT token and extract the username
@@ -85,6 +124,18 @@ class JwtService(
         }
     }
 
+    /**
+     * Extract the session ID from a token that was already validated
+     * Returns null for tokens issued before sessions were tracked
+     */
+    fun getSessionId(token: String): String? {
+        return try {
+            JWT.decode(token).getClaim("sessionId").asString()
+        } catch (e: JWTDecodeException) {
+            null
+        }
+    }
+
     /**
      * Get the expiration time for access tokens (in milliseconds)
      */
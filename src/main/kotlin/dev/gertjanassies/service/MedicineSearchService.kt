@@ -14,6 +14,9 @@ object MedicineSearchService {
     private val logger = LoggerFactory.getLogger(MedicineSearchService::class.java)
     private const val DEFAULT_LIMIT = 30
 
+    // EAN-8, UPC-A, EAN-13 and GTIN-14 package barcodes
+    private val BARCODE_PATTERN = Regex("\\d{8}|\\d{12,14}")
+
     private val dbPath: String by lazy {
         val dataDir = System.getenv("MEDICINES_DATA_DIR") ?: "data"
         "$dataDir/medicines.db"
@@ -55,6 +58,10 @@ object MedicineSearchService {
             return emptyList()
         }
 
+        if (BARCODE_PATTERN.matches(trimmedQuery)) {
+            return searchByBarcode(trimmedQuery.padStart(14, '0'), limit)
+        }
+
         // Split query into words (split on whitespace)
         val words = trimmedQuery.split("\\s+".toRegex())
             .filter { it.isNotBlank() }
@@ -115,4 +122,53 @@ object MedicineSearchService {
 
         return results
     }
+
+    /**
+     * Find the medicine of a scanned package in the optional barcodes table, which links GTIN-14s to
+     * registration numbers (see scripts/migrate-medicines-to-sqlite.py). Without it nothing is found.
+     */
+    private fun searchByBarcode(gtin: String, limit: Int): List<MedicineSearchResult> {
+        val results = mutableListOf<MedicineSearchResult>()
+
+        try {
+            getConnection().use { conn ->
+                val hasBarcodes = conn.prepareStatement(
+                    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'barcodes'"
+                ).use { it.executeQuery().next() }
+                if (!hasBarcodes) {
+                    return emptyList()
+                }
+
+                val sql = """
+                    SELECT m.productnaam, m.farmaceutischevorm, m.werkzamestoffen, m.bijsluiter_filenaam
+                    FROM barcodes b
+                    JOIN medicines m ON m.registratienummer = b.registratienummer
+                    WHERE b.gtin = ?
+                    LIMIT ?
+                """.trimIndent()
+
+                conn.prepareStatement(sql).use { stmt ->
+                    stmt.setString(1, gtin)
+                    stmt.setInt(2, limit)
+
+                    val rs = stmt.executeQuery()
+                    while (rs.next()) {
+                        results.add(
+                            MedicineSearchResult(
+                                productnaam = rs.getString("productnaam") ?: "",
+                                farmaceutischevorm = rs.getString("farmaceutischevorm") ?: "",
+                                werkzamestoffen = rs.getString("werkzamestoffen") ?: "",
+                                bijsluiter_filenaam = rs.getString("bijsluiter_filenaam") ?: ""
+                            )
+                        )
+                    }
+                }
+            }
+        } catch (e: Exception) {
+            logger.error("Failed to search medicines by barcode: ${e.message}", e)
+            throw e
+        }
+
+        return results
+    }
 }
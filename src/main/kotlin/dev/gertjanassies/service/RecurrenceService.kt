@@ -0,0 +1,107 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.DayOfWeek
+import dev.gertjanassies.model.RecurrenceType
+import dev.gertjanassies.model.Schedule
+import java.time.Duration
+import java.time.LocalDate
+import java.time.LocalTime
+import java.time.ZoneId
+import java.time.format.DateTimeFormatter
+import java.time.temporal.ChronoUnit
+
+/**
+ * A dose a schedule plans on a day
+ */
+data class ScheduleOccurrence(val time: String, val amount: Double)
+
+/**
+ * Which days a schedule has doses on and how much, the way src/lib/recurrence.ts in the frontend
+ * expands them: within the course, on the recurrence's days and at the taper step's amount.
+ */
+object RecurrenceService {
+    // Anchored recurrences without a start date count from here, like the frontend
+    val DEFAULT_ANCHOR: LocalDate = LocalDate.of(2000, 1, 1)
+
+    private val TIME_FORMAT = DateTimeFormatter.ofPattern("HH:mm")
+
+    fun type(schedule: Schedule): RecurrenceType = schedule.recurrence?.type ?: RecurrenceType.DAYS_OF_WEEK
+
+    /**
+     * First day of the course, null for a schedule on days of the week without a start date
+     */
+    fun courseStart(schedule: Schedule): LocalDate? {
+        val recurrence = schedule.recurrence
+        val anchored = type(schedule) != RecurrenceType.DAYS_OF_WEEK || recurrence?.taper.orEmpty().isNotEmpty()
+        return recurrence?.startDate?.let { LocalDate.parse(it) } ?: if (anchored) DEFAULT_ANCHOR else null
+    }
+
+    /**
+     * Last day of the course, null when it has no end. A taper ends the course after its last step.
+     */
+    fun courseEnd(schedule: Schedule): LocalDate? {
+        val end = schedule.recurrence?.endDate?.let { LocalDate.parse(it) }
+        val start = courseStart(schedule)
+        val tapered = schedule.recurrence?.taper.orEmpty().sumOf { it.days }
+        if (start == null || tapered <= 0) return end
+        val taperEnd = start.plusDays(tapered - 1L)
+        return if (end != null && end < taperEnd) end else taperEnd
+    }
+
+    /**
+     * Amount on a day of the course, following the taper steps when there are any
+     */
+    fun amountOn(schedule: Schedule, date: LocalDate): Double {
+        val taper = schedule.recurrence?.taper.orEmpty()
+        val start = courseStart(schedule)
+        if (taper.isEmpty() || start == null) return schedule.amount
+        var day = ChronoUnit.DAYS.between(start, date)
+        for (step in taper) {
+            if (day < step.days) return step.amount
+            day -= step.days
+        }
+        return taper.last().amount
+    }
+
+    /**
+     * Whether a schedule has a dose on the date. An interval schedule has one on every day of its course.
+     */
+    fun firesOn(schedule: Schedule, date: LocalDate): Boolean {
+        val start = courseStart(schedule)
+        val end = courseEnd(schedule)
+        if ((start != null && date < start) || (end != null && date > end)) return false
+
+        val recurrence = schedule.recurrence
+        val day = ChronoUnit.DAYS.between(start ?: DEFAULT_ANCHOR, date)
+        return when (type(schedule)) {
+            RecurrenceType.EVERY_N_DAYS -> day % maxOf(1, recurrence?.intervalDays ?: 1) == 0L
+            RecurrenceType.CYCLE -> {
+                val daysOn = maxOf(1, recurrence?.daysOn ?: 1)
+                day % (daysOn + maxOf(0, recurrence?.daysOff ?: 0)) < daysOn
+            }
+            RecurrenceType.INTERVAL -> true
+            RecurrenceType.DAYS_OF_WEEK -> schedule.daysOfWeek.isEmpty() || DayOfWeek.fromJavaDay(date.dayOfWeek) in schedule.daysOfWeek
+        }
+    }
+
+    /**
+     * Doses of a schedule on a day in the zone, in time order. Interval schedules count their hours in
+     * elapsed time from the schedule's time on the start date, so the times of day shift across a DST change.
+     */
+    fun occurrencesOn(schedule: Schedule, date: LocalDate, zone: ZoneId): List<ScheduleOccurrence> {
+        if (!firesOn(schedule, date)) return emptyList()
+        val amount = amountOn(schedule, date)
+        if (type(schedule) != RecurrenceType.INTERVAL) return listOf(ScheduleOccurrence(schedule.time, amount))
+
+        val hours = maxOf(1, schedule.recurrence?.intervalHours ?: 24).toLong()
+        val anchor = (courseStart(schedule) ?: DEFAULT_ANCHOR).atTime(LocalTime.parse(schedule.time)).atZone(zone)
+        val dayStart = date.atStartOfDay(zone)
+        val dayEnd = date.plusDays(1).atStartOfDay(zone)
+        val elapsed = Duration.between(anchor, dayStart).toMinutes()
+        val steps = if (elapsed <= 0) 0 else (elapsed + hours * 60 - 1) / (hours * 60)
+        return generateSequence(anchor.plusHours(steps * hours)) { it.plusHours(hours) }
+            .takeWhile { it.isBefore(dayEnd) }
+            .map { ScheduleOccurrence(it.toLocalTime().format(TIME_FORMAT), amount) }
+            .toList()
+    }
+}
@@ -9,6 +9,7 @@ import dev.gertjanassies.model.request.*
 import io.lettuce.core.RedisClient
 import io.lettuce.core.RedisURI
 import io.lettuce.core.ScanArgs
+import io.lettuce.core.SetArgs
 import io.lettuce.core.api.StatefulRedisConnection
 import io.lettuce.core.api.async.RedisAsyncCommands
 import kotlinx.coroutines.future.await
@@ -152,7 +153,11 @@ class RedisService private constructor(
                     unit = request.unit,
                     stock = request.stock,
                     description = request.description,
-                    bijsluiter = request.bijsluiter
+                    bijsluiter = request.bijsluiter,
+                    activeIngredients = request.activeIngredients,
+                    prn = request.prn,
+                    barcodes = request.barcodes,
+                    timeCritical = request.timeCritical
                 )
                 val key = "$keyPrefix:user:$validUserId:medicine:${medicine.id}"
 
@@ -301,7 +306,9 @@ class RedisService private constructor(
                     medicineId = request.medicineId,
                     time = request.time,
                     amount = request.amount,
-                    daysOfWeek = request.daysOfWeek
+                    daysOfWeek = request.daysOfWeek,
+                    recurrence = request.recurrence,
+                    timezoneMode = request.timezoneMode
                 )
                 val key = "$keyPrefix:user:$validatedUserId:schedule:${schedule.id}"
 
@@ -420,23 +427,20 @@ class RedisService private constructor(
         return either {
             val allSchedules = getAllSchedules(userId).bind()
 
-            // Get current day of week as enum
+            // The doses of today, following each schedule's recurrence
             val today = java.time.LocalDate.now()
-            val currentDay = DayOfWeek.fromJavaDay(today.dayOfWeek)
-
-            // Filter schedules: include if daysOfWeek is empty or contains today
-            val schedules = allSchedules.filter { schedule ->
-                schedule.daysOfWeek.isEmpty() || schedule.daysOfWeek.contains(currentDay)
+            val doses = allSchedules.flatMap { schedule ->
+                RecurrenceService.occurrencesOn(schedule, today, java.time.ZoneId.systemDefault()).map { schedule to it }
             }
 
-            // Group schedules by time
-            val groupedByTime = schedules.groupBy { it.time }
+            // Group doses by time
+            val groupedByTime = doses.groupBy { (_, occurrence) -> occurrence.time }
 
             // For each time slot, get the medicines
-            val timeSlots = groupedByTime.map { (time, schedulesAtTime) ->
-                val medicineItems = schedulesAtTime.mapNotNull { schedule ->
+            val timeSlots = groupedByTime.map { (time, dosesAtTime) ->
+                val medicineItems = dosesAtTime.mapNotNull { (schedule, occurrence) ->
                     getMedicine(userId, schedule.medicineId.toString()).getOrNull()?.let { medicine ->
-                        MedicineScheduleItem(medicine, schedule.amount)
+                        MedicineScheduleItem(medicine, occurrence.amount)
                     }
                 }
                 TimeSlot(time, medicineItems)
@@ -456,6 +460,7 @@ class RedisService private constructor(
      *
      * @param medicineId The unique identifier of the [Medicine] for which the dosage is taken.
      * @param amount The amount of the medicine taken, which will be subtracted from the medicine's stock.
+     * @param loggedBy Username of the account that logged the dose, a caregiver's when they act for the user.
      * @return An [Either] containing:
      *   - [DosageHistory] on success, representing the created dosage history entry.
      *   - [RedisError] on failure, for example:
@@ -464,7 +469,7 @@ class RedisService private constructor(
      *       - [RedisError.OperationError] if persisting the dosage history or updating the medicine fails
      *         (e.g. connection issues or an invalid Redis state).
      */
-    override suspend fun createDosageHistory(userId: String, medicineId: UUID, amount: Double, scheduledTime: String?, datetime: java.time.LocalDateTime?): Either<RedisError, DosageHistory> {
+    override suspend fun createDosageHistory(userId: String, medicineId: UUID, amount: Double, scheduledTime: String?, datetime: java.time.LocalDateTime?, loggedBy: String?): Either<RedisError, DosageHistory> {
         return validateUserId(userId).fold(
             { error -> error.left() },
             { validatedUserId ->
@@ -493,11 +498,12 @@ class RedisService private constructor(
                                 datetime = datetime ?: java.time.LocalDateTime.now(),
                                 medicineId = medicineId,
                                 amount = amount,
-                                scheduledTime = scheduledTime
+                                scheduledTime = scheduledTime,
+                                loggedBy = loggedBy
                             )
 
                             val dosageKey = "$keyPrefix:user:$validatedUserId:dosagehistory:${dosageHistory.id}"
-                            val updatedMedicine = medicine.copy(stock = medicine.stock - amount)
+                            val updatedMedicine = takeFromStock(medicine, amount)
 
                             // Start transaction
                             asyncCommands.multi().await()
@@ -538,9 +544,34 @@ class RedisService private constructor(
     }
 
     /**
-     * Add stock to a medicine using Redis WATCH for optimistic locking asynchronously
+     * Subtract a dose from the stock, first-expired-first-out. Stock without package details was there
+     * before any package was recorded, so it is used first. Packages without an expiry date go last.
+     */
+    private fun takeFromStock(medicine: Medicine, amount: Double): Medicine {
+        val untracked = (medicine.stock - medicine.batches.sumOf { it.quantity }).coerceAtLeast(0.0)
+        var remaining = (amount - untracked).coerceAtLeast(0.0)
+        val batches = medicine.batches
+            .sortedWith(compareBy(nullsLast<String>()) { it.expiryDate })
+            .mapNotNull { batch ->
+                val taken = minOf(batch.quantity, remaining)
+                remaining -= taken
+                if (batch.quantity > taken) batch.copy(quantity = batch.quantity - taken) else null
+            }
+        return medicine.copy(stock = medicine.stock - amount, batches = batches)
+    }
+
+    /**
+     * Add stock to a medicine using Redis WATCH for optimistic locking asynchronously.
+     * A lot number or expiry date records the stock as a package picked up today. Adding stock
+     * completes a requested refill.
      */
-    override suspend fun addStock(userId: String, medicineId: UUID, amount: Double): Either<RedisError, Medicine> {
+    override suspend fun addStock(
+        userId: String,
+        medicineId: UUID,
+        amount: Double,
+        lotNumber: String?,
+        expiryDate: String?
+    ): Either<RedisError, Medicine> {
         return validateUserId(userId).fold(
             { error -> error.left() },
             { validatedUserId ->
@@ -562,7 +593,20 @@ class RedisService private constructor(
                                 ?: throw NoSuchElementException("Medicine with id $medicineId not found")
 
                             val medicine = json.decodeFromString<Medicine>(medicineJson)
-                            val updatedMedicine = medicine.copy(stock = medicine.stock + amount)
+                            val batch = if (lotNumber != null || expiryDate != null) {
+                                StockBatch(
+                                    id = UUID.randomUUID(),
+                                    quantity = amount,
+                                    lotNumber = lotNumber,
+                                    expiryDate = expiryDate,
+                                    receivedDate = java.time.LocalDate.now().toString()
+                                )
+                            } else null
+                            val updatedMedicine = medicine.copy(
+                                stock = medicine.stock + amount,
+                                batches = medicine.batches + listOfNotNull(batch),
+                                refillRequestedAt = null
+                            )
 
                             // Start transaction
                             asyncCommands.multi().await()
@@ -672,7 +716,7 @@ class RedisService private constructor(
 
                             val medicine = json.decodeFromString<Medicine>(medicineJson)
 
-                            // Restore stock to medicine
+                            // Restore stock to medicine, without package details as its package may be gone
                             val updatedMedicine = medicine.copy(stock = medicine.stock + dosageHistory.amount)
 
                             // Start transaction
@@ -712,6 +756,164 @@ class RedisService private constructor(
         )
     }
 
+    private fun skippedDoseKey(userId: UUID, skippedDoseId: UUID) = "$keyPrefix:user:$userId:skippeddose:$skippedDoseId"
+
+    override suspend fun getSkippedDoses(userId: String): Either<RedisError, List<SkippedDose>> = either {
+        val userUuid = validateUserId(userId).bind()
+        Either.catch {
+            val pattern = "$keyPrefix:user:$userUuid:skippeddose:*"
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            val keys = mutableListOf<String>()
+            var scanCursor = asyncCommands.scan(ScanArgs.Builder.matches(pattern)).await()
+            while (true) {
+                keys.addAll(scanCursor.keys)
+                if (scanCursor.isFinished) break
+                scanCursor = asyncCommands.scan(io.lettuce.core.ScanCursor.of(scanCursor.cursor), ScanArgs.Builder.matches(pattern)).await()
+            }
+
+            keys.mapNotNull { key ->
+                asyncCommands.get(key).await()?.let { jsonString ->
+                    try {
+                        json.decodeFromString<SkippedDose>(jsonString)
+                    } catch (_: Exception) {
+                        null // Skip invalid entries
+                    }
+                }
+            }.sortedByDescending { it.datetime }
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to retrieve skipped doses: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun skipDose(userId: String, request: SkipDoseRequest, loggedBy: String?): Either<RedisError, SkippedDose> = either {
+        val userUuid = validateUserId(userId).bind()
+        // Only a medicine the user has can be skipped
+        getMedicine(userId, request.medicineId.toString()).bind()
+
+        val skippedDose = SkippedDose(
+            id = UUID.randomUUID(),
+            datetime = request.datetime ?: java.time.LocalDate.now().atTime(java.time.LocalTime.parse(request.scheduledTime)),
+            medicineId = request.medicineId,
+            scheduledTime = request.scheduledTime,
+            reason = request.reason,
+            note = request.note,
+            loggedBy = loggedBy
+        )
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.set(skippedDoseKey(userUuid, skippedDose.id), json.encodeToString(skippedDose)).await()
+            skippedDose
+        }.mapLeft { e ->
+            when (e) {
+                is SerializationException -> RedisError.SerializationError("Failed to serialize skipped dose: ${e.message}")
+                else -> RedisError.OperationError("Failed to save skipped dose: ${e.message}")
+            }
+        }.bind()
+    }
+
+    override suspend fun deleteSkippedDose(userId: String, skippedDoseId: UUID): Either<RedisError, Unit> = either {
+        val userUuid = validateUserId(userId).bind()
+        val deleted = Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.del(skippedDoseKey(userUuid, skippedDoseId)).await()
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete skipped dose: ${e.message}")
+        }.bind()
+        if (deleted == 0L) raise(RedisError.NotFound("Skipped dose with id $skippedDoseId not found"))
+    }
+
+    private fun journalEntryKey(userId: UUID, entryId: UUID) = "$keyPrefix:user:$userId:journal:$entryId"
+
+    override suspend fun getJournalEntries(userId: String): Either<RedisError, List<JournalEntry>> = either {
+        val userUuid = validateUserId(userId).bind()
+        Either.catch {
+            val pattern = "$keyPrefix:user:$userUuid:journal:*"
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            val keys = mutableListOf<String>()
+            var scanCursor = asyncCommands.scan(ScanArgs.Builder.matches(pattern)).await()
+            while (true) {
+                keys.addAll(scanCursor.keys)
+                if (scanCursor.isFinished) break
+                scanCursor = asyncCommands.scan(io.lettuce.core.ScanCursor.of(scanCursor.cursor), ScanArgs.Builder.matches(pattern)).await()
+            }
+
+            keys.mapNotNull { key ->
+                asyncCommands.get(key).await()?.let { jsonString ->
+                    try {
+                        json.decodeFromString<JournalEntry>(jsonString)
+                    } catch (_: Exception) {
+                        null // Skip invalid entries
+                    }
+                }
+            }.sortedByDescending { it.datetime }
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to retrieve journal entries: ${e.message}")
+        }.bind()
+    }
+
+    private suspend fun getJournalEntry(userId: UUID, entryId: UUID): Either<RedisError, JournalEntry> = either {
+        val jsonString = get(journalEntryKey(userId, entryId)).bind()
+            ?: raise(RedisError.NotFound("Journal entry with id $entryId not found"))
+        Either.catch {
+            json.decodeFromString<JournalEntry>(jsonString)
+        }.mapLeft { e ->
+            RedisError.SerializationError("Failed to deserialize journal entry: ${e.message}")
+        }.bind()
+    }
+
+    private suspend fun saveJournalEntry(userId: UUID, entry: JournalEntry): Either<RedisError, JournalEntry> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.set(journalEntryKey(userId, entry.id), json.encodeToString(entry)).await()
+        entry
+    }.mapLeft { e ->
+        when (e) {
+            is SerializationException -> RedisError.SerializationError("Failed to serialize journal entry: ${e.message}")
+            else -> RedisError.OperationError("Failed to save journal entry: ${e.message}")
+        }
+    }
+
+    // The contents of an entry, without its ID, time or author
+    private fun JournalEntry.withContents(request: JournalEntryRequest) = copy(
+        type = request.type,
+        name = request.name,
+        severity = request.severity,
+        measurement = request.measurement,
+        value = request.value,
+        secondaryValue = request.secondaryValue,
+        note = request.note,
+        medicineId = request.medicineId,
+        dosageHistoryId = request.dosageHistoryId,
+        scheduledTime = request.scheduledTime
+    )
+
+    override suspend fun createJournalEntry(userId: String, request: JournalEntryRequest, loggedBy: String?): Either<RedisError, JournalEntry> = either {
+        val userUuid = validateUserId(userId).bind()
+        val entry = JournalEntry(
+            id = UUID.randomUUID(),
+            datetime = request.datetime ?: java.time.LocalDateTime.now(),
+            type = request.type,
+            loggedBy = loggedBy
+        ).withContents(request)
+        saveJournalEntry(userUuid, entry).bind()
+    }
+
+    override suspend fun updateJournalEntry(userId: String, entryId: UUID, request: JournalEntryRequest): Either<RedisError, JournalEntry> = either {
+        val userUuid = validateUserId(userId).bind()
+        val entry = getJournalEntry(userUuid, entryId).bind()
+        saveJournalEntry(userUuid, entry.withContents(request).copy(datetime = request.datetime ?: entry.datetime)).bind()
+    }
+
+    override suspend fun deleteJournalEntry(userId: String, entryId: UUID): Either<RedisError, Unit> = either {
+        val userUuid = validateUserId(userId).bind()
+        val deleted = Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.del(journalEntryKey(userUuid, entryId)).await()
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete journal entry: ${e.message}")
+        }.bind()
+        if (deleted == 0L) raise(RedisError.NotFound("Journal entry with id $entryId not found"))
+    }
+
     /**
      * Get dosage histories within a date range (inclusive)
      *
@@ -778,19 +980,24 @@ class RedisService private constructor(
             val endDate = java.time.LocalDate.now().minusDays(1)
             val startDate = endDate.minusDays(6)
             val dosageHistories = getDosageHistoriesInDateRange(userId, startDate, endDate).bind()
+            val skippedDoses = getSkippedDoses(userId).bind()
 
             val days = (6 downTo 0).map { daysAgo ->
                 val date = endDate.minusDays(daysAgo.toLong())
                 val dayOfWeek = DayOfWeek.fromJavaDay(date.dayOfWeek)
 
-                // Calculate expected medications for this day
-                val expectedSchedules = allSchedules.filter { schedule ->
-                    schedule.daysOfWeek.isEmpty() || schedule.daysOfWeek.contains(dayOfWeek)
+                // Calculate expected doses for this day, following each schedule's recurrence
+                val expectedDoses = allSchedules.flatMap { schedule ->
+                    RecurrenceService.occurrencesOn(schedule, date, java.time.ZoneId.systemDefault()).map { schedule.medicineId }
                 }
-                val expectedCount = expectedSchedules.size
-
                 // Precompute medicine IDs that are expected for this day
-                val expectedMedicineIds = expectedSchedules.map { it.medicineId }.toSet()
+                val expectedMedicineIds = expectedDoses.toSet()
+
+                // Doses skipped on purpose are not expected, so they are not missed either
+                val skippedCount = skippedDoses.count { skipped ->
+                    skipped.datetime.toLocalDate().isEqual(date) && expectedMedicineIds.contains(skipped.medicineId)
+                }.coerceAtMost(expectedDoses.size)
+                val expectedCount = expectedDoses.size - skippedCount
 
                 // Count how many expected medicines were actually taken
                 val takenCount = dosageHistories.count { history ->
@@ -800,6 +1007,7 @@ class RedisService private constructor(
 
                 // Determine status
                 val status = when {
+                    expectedCount == 0 && skippedCount > 0 -> AdherenceStatus.COMPLETE // Every dose skipped on purpose
                     expectedCount == 0 -> AdherenceStatus.NONE
                     takenCount == 0 -> AdherenceStatus.NONE
                     takenCount >= expectedCount -> AdherenceStatus.COMPLETE
@@ -813,7 +1021,8 @@ class RedisService private constructor(
                     month = date.monthValue,
                     status = status,
                     expectedCount = expectedCount,
-                    takenCount = takenCount
+                    takenCount = takenCount,
+                    skippedCount = skippedCount
                 )
             }
 
@@ -1345,45 +1554,94 @@ class RedisService private constructor(
         }.bind()
     }
 
-    override suspend fun getAllUsers(): Either<RedisError, List<User>> = either {
-        logger.info("Fetching all users")
+    /**
+     * Pages through the usernames in the username index. Without a filter only the users on the page
+     * are loaded, with one they are loaded a batch at a time to find and count the matches, keeping
+     * only those on the page.
+     */
+    override suspend fun getUsersPage(page: Int, pageSize: Int, filter: ((User) -> Boolean)?): Either<RedisError, UserPage> = either {
+        val indexPrefix = "$keyPrefix:user:username:"
         val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
 
-        val pattern = "$keyPrefix:user:id:*"
-        logger.info("Scanning for user keys with pattern: $pattern")
+        val usernames = Either.catch {
+            val pattern = "$indexPrefix*"
+            val keys = mutableListOf<String>()
+            var scanCursor = asyncCommands.scan(ScanArgs.Builder.matches(pattern)).await()
+            while (true) {
+                keys.addAll(scanCursor.keys)
+                if (scanCursor.isFinished) break
+                scanCursor = asyncCommands.scan(io.lettuce.core.ScanCursor.of(scanCursor.cursor), ScanArgs.Builder.matches(pattern)).await()
+            }
+            keys.map { it.removePrefix(indexPrefix) }.sortedBy { it.lowercase() }
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to scan the username index: ${e.message}")
+        }.bind()
 
-        val keys = Either.catch {
-            val allKeys = mutableListOf<String>()
-            var cursor: io.lettuce.core.ScanCursor = io.lettuce.core.ScanCursor.INITIAL
-            val scanArgs = ScanArgs.Builder.matches(pattern)
+        // An index entry can list several user IDs, a user deleted in the meantime is left out
+        suspend fun load(names: List<String>): List<User> = Either.catch {
+            names.flatMap { username ->
+                asyncCommands.get("$indexPrefix$username").await()?.split(",").orEmpty().mapNotNull { userId ->
+                    asyncCommands.get("$keyPrefix:user:id:${userId.trim()}").await()?.let { userJson ->
+                        try {
+                            json.decodeFromString<User>(userJson)
+                        } catch (_: Exception) {
+                            null // Skip invalid entries
+                        }
+                    }
+                }
+            }
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to load users: ${e.message}")
+        }.bind()
 
-            do {
-                val scanCursor = if (cursor.cursor == "0") {
-                    asyncCommands.scan(scanArgs).await()
-                } else {
-                    asyncCommands.scan(cursor, scanArgs).await()
+        val from = (page - 1) * pageSize
+        if (filter == null) {
+            UserPage(load(usernames.drop(from).take(pageSize)), usernames.size)
+        } else {
+            var total = 0
+            val users = mutableListOf<User>()
+            for (batch in usernames.chunked(USER_BATCH_SIZE)) {
+                for (user in load(batch).filter(filter)) {
+                    if (total >= from && users.size < pageSize) users += user
+                    total++
                 }
-                allKeys.addAll(scanCursor.keys)
-                cursor = scanCursor
-            } while (!cursor.isFinished)
+            }
+            UserPage(users, total)
+        }
+    }
+
+    override suspend fun updateHomeTimezone(userId: String, timezone: String?): Either<RedisError, User> = either {
+        val user = getUserById(userId).bind()
+        val updatedUser = user.copy(timezone = timezone)
+
+        val key = "$keyPrefix:user:id:$userId"
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
 
-            allKeys.toList()
+        Either.catch {
+            asyncCommands.set(key, json.encodeToString(updatedUser)).await()
         }.mapLeft { e ->
-            RedisError.OperationError("Failed to scan user keys: ${e.message}")
+            RedisError.OperationError("Failed to update home time zone: ${e.message}")
         }.bind()
 
-        logger.info("Found ${keys.size} user keys")
-        logger.debug("User keys: $keys")
+        logger.debug("Successfully updated home time zone for user ID: $userId")
+        updatedUser
+    }
 
-        val users = keys.mapNotNull { key ->
-            Either.catch {
-                val userJson = asyncCommands.get(key).await()
-                userJson?.let { json.decodeFromString<User>(it) }
-            }.getOrNull()
-        }
+    override suspend fun updateGracePeriod(userId: String, minutes: Int?): Either<RedisError, User> = either {
+        val user = getUserById(userId).bind()
+        val updatedUser = user.copy(graceMinutes = minutes)
+
+        val key = "$keyPrefix:user:id:$userId"
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
 
-        logger.info("Successfully fetched ${users.size} users")
-        users
+        Either.catch {
+            asyncCommands.set(key, json.encodeToString(updatedUser)).await()
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to update grace period: ${e.message}")
+        }.bind()
+
+        logger.debug("Successfully updated grace period for user ID: $userId")
+        updatedUser
     }
 
     override suspend fun deactivateUser(userId: String): Either<RedisError, User> = either {
@@ -1414,43 +1672,524 @@ class RedisService private constructor(
 
         val user = getUserById(userId).bind()
 
-        val keysToDelete = mutableListOf<String>()
-        keysToDelete.add("$keyPrefix:user:id:$userId")
-        keysToDelete.add("$keyPrefix:user:username:${user.username}")
-        keysToDelete.add("$keyPrefix:user:email:${user.email}")
+        Either.catch {
+            asyncCommands.srem("$keyPrefix:admins", userId).await()
+        }.mapLeft { e ->
+            logger.warn("Failed to remove admin privileges during user deletion: ${e.message}")
+        }
 
-        val medicinePattern = "$keyPrefix:medicine:$userId:*"
-        val schedulePattern = "$keyPrefix:schedule:$userId:*"
-        val historyPattern = "$keyPrefix:dosageHistory:$userId:*"
+        Either.catch {
+            asyncCommands.srem(twoFactorUsersKey, userId).await()
+        }.mapLeft { e ->
+            logger.warn("Failed to remove two-factor status during user deletion: ${e.message}")
+        }
 
-        for (pattern in listOf(medicinePattern, schedulePattern, historyPattern)) {
-            val keys = Either.catch {
-                val scanArgs = ScanArgs.Builder.matches(pattern)
-                val cursor = asyncCommands.scan(scanArgs).await()
-                cursor.keys.toList()
-            }.mapLeft { e ->
-                RedisError.OperationError("Failed to scan keys for pattern $pattern: ${e.message}")
-            }.bind()
-            keysToDelete.addAll(keys)
+        // Logged in devices
+        deleteSessions(userId, null).onLeft { e ->
+            logger.warn("Failed to remove sessions during user deletion: ${e.message}")
         }
 
-        if (keysToDelete.isNotEmpty()) {
-            Either.catch {
-                asyncCommands.del(*keysToDelete.toTypedArray()).await()
-            }.mapLeft { e ->
-                RedisError.OperationError("Failed to delete user data: ${e.message}")
-            }.bind()
+        // Patient profiles and their data
+        getPatientProfiles(userId).onRight { profiles ->
+            profiles.forEach { profile -> deletePatientProfile(userId, profile.id) }
+        }.onLeft { e ->
+            logger.warn("Failed to remove patient profiles during user deletion: ${e.message}")
         }
 
+        // Shares with caregivers and with the people this user cared for
+        getShares(userId).onRight { shares ->
+            (shares.given + shares.received).forEach { share -> deleteShare(userId, share.id) }
+        }.onLeft { e ->
+            logger.warn("Failed to remove shares during user deletion: ${e.message}")
+        }
+
+        // The calendar feed stops working with the account
+        deleteCalendarFeed(userId).onLeft { e ->
+            if (e !is RedisError.NotFound) logger.warn("Failed to remove calendar feed during user deletion: ${e.message}")
+        }
+
+        // Last, as the steps above read some of them: everything stored under the user's ID, e.g.
+        // medicines, schedules, dose history, skipped doses, the journal and two-factor settings
+        val pattern = "$keyPrefix:user:$userId:*"
+        val keysToDelete = mutableListOf(
+            "$keyPrefix:user:id:$userId",
+            "$keyPrefix:user:username:${user.username}",
+            "$keyPrefix:user:email:${user.email}"
+        )
         Either.catch {
-            asyncCommands.srem("$keyPrefix:admins", userId).await()
+            var scanCursor = asyncCommands.scan(ScanArgs.Builder.matches(pattern)).await()
+            while (true) {
+                keysToDelete.addAll(scanCursor.keys)
+                if (scanCursor.isFinished) break
+                scanCursor = asyncCommands.scan(io.lettuce.core.ScanCursor.of(scanCursor.cursor), ScanArgs.Builder.matches(pattern)).await()
+            }
         }.mapLeft { e ->
-            logger.warn("Failed to remove admin privileges during user deletion: ${e.message}")
-        }
+            RedisError.OperationError("Failed to scan keys for pattern $pattern: ${e.message}")
+        }.bind()
+
+        Either.catch {
+            asyncCommands.del(*keysToDelete.toTypedArray()).await()
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete user data: ${e.message}")
+        }.bind()
 
         logger.debug("Successfully deleted user and all associated data for user ID: $userId")
     }
 
+    private fun shareKey(shareId: UUID) = "$keyPrefix:share:$shareId"
+    private fun sharesGivenKey(userId: String) = "$keyPrefix:user:$userId:shares_given"
+    private fun sharesReceivedKey(userId: String) = "$keyPrefix:user:$userId:shares_received"
+
+    /**
+     * Load the shares whose IDs are in the given set, skipping ones that no longer exist
+     */
+    private suspend fun loadShares(setKey: String): Either<RedisError, List<Share>> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.smembers(setKey).await().mapNotNull { shareId ->
+            asyncCommands.get("$keyPrefix:share:$shareId").await()?.let { jsonString ->
+                try {
+                    json.decodeFromString<Share>(jsonString)
+                } catch (_: Exception) {
+                    null // Skip invalid entries
+                }
+            }
+        }.sortedBy { it.createdAt }
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to load shares: ${e.message}")
+    }
+
+    private suspend fun getShare(shareId: UUID): Either<RedisError, Share> = either {
+        val jsonString = get(shareKey(shareId)).bind()
+            ?: raise(RedisError.NotFound("Share with id $shareId not found"))
+        Either.catch {
+            json.decodeFromString<Share>(jsonString)
+        }.mapLeft { e ->
+            RedisError.SerializationError("Failed to deserialize share: ${e.message}")
+        }.bind()
+    }
+
+    private suspend fun saveShare(share: Share): Either<RedisError, Share> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.set(shareKey(share.id), json.encodeToString(share)).await()
+        share
+    }.mapLeft { e ->
+        when (e) {
+            is SerializationException -> RedisError.SerializationError("Failed to serialize share: ${e.message}")
+            else -> RedisError.OperationError("Failed to save share: ${e.message}")
+        }
+    }
+
+    override suspend fun createShare(ownerId: String, caregiver: User, permission: SharePermission): Either<RedisError, Share> = either {
+        val owner = getUserById(ownerId).bind()
+        val share = Share(
+            id = UUID.randomUUID(),
+            ownerId = owner.id,
+            ownerName = "${owner.firstName} ${owner.lastName}".trim().ifEmpty { owner.username },
+            caregiverId = caregiver.id,
+            caregiverName = "${caregiver.firstName} ${caregiver.lastName}".trim().ifEmpty { caregiver.username },
+            caregiverEmail = caregiver.email,
+            permission = permission,
+            createdAt = java.time.LocalDateTime.now().toString()
+        )
+
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.multi().await()
+            asyncCommands.set(shareKey(share.id), json.encodeToString(share))
+            asyncCommands.sadd(sharesGivenKey(ownerId), share.id.toString())
+            asyncCommands.sadd(sharesReceivedKey(caregiver.id.toString()), share.id.toString())
+            asyncCommands.exec().await()
+            share
+        }.mapLeft { e ->
+            when (e) {
+                is SerializationException -> RedisError.SerializationError("Failed to serialize share: ${e.message}")
+                else -> RedisError.OperationError("Failed to create share: ${e.message}")
+            }
+        }.bind()
+    }
+
+    override suspend fun getShares(userId: String): Either<RedisError, ShareOverview> = either {
+        ShareOverview(
+            given = loadShares(sharesGivenKey(userId)).bind(),
+            received = loadShares(sharesReceivedKey(userId)).bind()
+        )
+    }
+
+    override suspend fun acceptShare(userId: String, shareId: UUID): Either<RedisError, Share> = either {
+        val share = getShare(shareId).bind()
+        // Other users' shares are reported as missing
+        if (share.caregiverId.toString() != userId) raise(RedisError.NotFound("Share with id $shareId not found"))
+        saveShare(share.copy(status = ShareStatus.ACCEPTED)).bind()
+    }
+
+    override suspend fun updateSharePermission(userId: String, shareId: UUID, permission: SharePermission): Either<RedisError, Share> = either {
+        val share = getShare(shareId).bind()
+        if (share.ownerId.toString() != userId) raise(RedisError.NotFound("Share with id $shareId not found"))
+        saveShare(share.copy(permission = permission)).bind()
+    }
+
+    override suspend fun deleteShare(userId: String, shareId: UUID): Either<RedisError, Unit> = either {
+        val share = getShare(shareId).bind()
+        if (share.ownerId.toString() != userId && share.caregiverId.toString() != userId) {
+            raise(RedisError.NotFound("Share with id $shareId not found"))
+        }
+
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.multi().await()
+            asyncCommands.del(shareKey(shareId))
+            asyncCommands.srem(sharesGivenKey(share.ownerId.toString()), shareId.toString())
+            asyncCommands.srem(sharesReceivedKey(share.caregiverId.toString()), shareId.toString())
+            asyncCommands.exec().await()
+            Unit
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete share: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun getSharePermission(ownerId: String, caregiverId: String): Either<RedisError, SharePermission?> = either {
+        loadShares(sharesReceivedKey(caregiverId)).bind()
+            .firstOrNull { it.ownerId.toString() == ownerId && it.status == ShareStatus.ACCEPTED }
+            ?.permission
+    }
+
+    private fun patientProfileKey(userId: String, profileId: UUID) = "$keyPrefix:user:$userId:profile:$profileId"
+
+    override suspend fun getPatientProfiles(userId: String): Either<RedisError, List<PatientProfile>> = Either.catch {
+        val pattern = "$keyPrefix:user:$userId:profile:*"
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        val keys = mutableListOf<String>()
+        var scanCursor = asyncCommands.scan(ScanArgs.Builder.matches(pattern)).await()
+        while (true) {
+            keys.addAll(scanCursor.keys)
+            if (scanCursor.isFinished) break
+            scanCursor = asyncCommands.scan(io.lettuce.core.ScanCursor.of(scanCursor.cursor), ScanArgs.Builder.matches(pattern)).await()
+        }
+
+        keys.mapNotNull { key ->
+            asyncCommands.get(key).await()?.let { jsonString ->
+                try {
+                    json.decodeFromString<PatientProfile>(jsonString)
+                } catch (_: Exception) {
+                    null // Skip invalid entries
+                }
+            }
+        }.sortedBy { it.createdAt }
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to retrieve patient profiles: ${e.message}")
+    }
+
+    override suspend fun getPatientProfile(userId: String, profileId: UUID): Either<RedisError, PatientProfile> = either {
+        val jsonString = get(patientProfileKey(userId, profileId)).bind()
+            ?: raise(RedisError.NotFound("Profile with id $profileId not found"))
+        Either.catch {
+            json.decodeFromString<PatientProfile>(jsonString)
+        }.mapLeft { e ->
+            RedisError.SerializationError("Failed to deserialize profile: ${e.message}")
+        }.bind()
+    }
+
+    private suspend fun savePatientProfile(userId: String, profile: PatientProfile): Either<RedisError, PatientProfile> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.set(patientProfileKey(userId, profile.id), json.encodeToString(profile)).await()
+        profile
+    }.mapLeft { e ->
+        when (e) {
+            is SerializationException -> RedisError.SerializationError("Failed to serialize profile: ${e.message}")
+            else -> RedisError.OperationError("Failed to save profile: ${e.message}")
+        }
+    }
+
+    override suspend fun createPatientProfile(userId: String, request: PatientProfileRequest): Either<RedisError, PatientProfile> = either {
+        validateUserId(userId).bind()
+        val profile = PatientProfile(
+            id = UUID.randomUUID(),
+            name = request.name,
+            color = request.color,
+            avatar = request.avatar,
+            createdAt = java.time.LocalDateTime.now().toString()
+        )
+        savePatientProfile(userId, profile).bind()
+    }
+
+    override suspend fun updatePatientProfile(userId: String, profileId: UUID, request: PatientProfileRequest): Either<RedisError, PatientProfile> = either {
+        val profile = getPatientProfile(userId, profileId).bind()
+        savePatientProfile(userId, profile.copy(name = request.name, color = request.color, avatar = request.avatar)).bind()
+    }
+
+    override suspend fun deletePatientProfile(userId: String, profileId: UUID): Either<RedisError, Unit> = either {
+        getPatientProfile(userId, profileId).bind()
+
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            // The profile's data is stored under its ID like a user's
+            val pattern = "$keyPrefix:user:$profileId:*"
+            val keys = mutableListOf(patientProfileKey(userId, profileId))
+            var scanCursor = asyncCommands.scan(ScanArgs.Builder.matches(pattern)).await()
+            while (true) {
+                keys.addAll(scanCursor.keys)
+                if (scanCursor.isFinished) break
+                scanCursor = asyncCommands.scan(io.lettuce.core.ScanCursor.of(scanCursor.cursor), ScanArgs.Builder.matches(pattern)).await()
+            }
+            asyncCommands.del(*keys.toTypedArray()).await()
+            Unit
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete profile: ${e.message}")
+        }.bind()
+    }
+
+    private fun twoFactorKey(userId: String) = "$keyPrefix:user:$userId:two_factor"
+    private val twoFactorUsersKey = "$keyPrefix:two_factor_users"
+
+    override suspend fun getTwoFactor(userId: String): Either<RedisError, TwoFactor> = either {
+        val jsonString = get(twoFactorKey(userId)).bind() ?: return@either TwoFactor()
+        Either.catch {
+            json.decodeFromString<TwoFactor>(jsonString)
+        }.mapLeft { e ->
+            RedisError.SerializationError("Failed to deserialize two-factor settings: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun saveTwoFactor(userId: String, twoFactor: TwoFactor): Either<RedisError, TwoFactor> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.multi().await()
+        asyncCommands.set(twoFactorKey(userId), json.encodeToString(twoFactor))
+        // Keeps the admin's user list from reading everyone's settings
+        if (twoFactor.isEnabled) {
+            asyncCommands.sadd(twoFactorUsersKey, userId)
+        } else {
+            asyncCommands.srem(twoFactorUsersKey, userId)
+        }
+        asyncCommands.exec().await()
+        twoFactor
+    }.mapLeft { e ->
+        when (e) {
+            is SerializationException -> RedisError.SerializationError("Failed to serialize two-factor settings: ${e.message}")
+            else -> RedisError.OperationError("Failed to save two-factor settings: ${e.message}")
+        }
+    }
+
+    override suspend fun resetTwoFactor(userId: String): Either<RedisError, Unit> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.multi().await()
+        asyncCommands.del(twoFactorKey(userId))
+        asyncCommands.srem(twoFactorUsersKey, userId)
+        asyncCommands.exec().await()
+        Unit
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to reset two-factor settings: ${e.message}")
+    }
+
+    override suspend fun getTwoFactorUserIds(): Either<RedisError, Set<String>> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.smembers(twoFactorUsersKey).await().toSet()
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to get two-factor users: ${e.message}")
+    }
+
+    override suspend fun countTwoFactorAttempt(userId: String): Either<RedisError, Long> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        val key = "$keyPrefix:user:$userId:two_factor_attempts"
+        val attempts = asyncCommands.incr(key).await()
+        // The window starts at the first attempt
+        if (attempts == 1L) {
+            asyncCommands.expire(key, TWO_FACTOR_WINDOW_SECONDS).await()
+        }
+        attempts
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to count two-factor attempt: ${e.message}")
+    }
+
+    override suspend fun saveWebAuthnChallenge(challenge: String, userId: String?): Either<RedisError, Unit> = either {
+        setex("$keyPrefix:webauthn_challenge:$challenge", TWO_FACTOR_WINDOW_SECONDS, userId ?: "").bind()
+    }
+
+    override suspend fun consumeWebAuthnChallenge(challenge: String): Either<RedisError, String?> = either {
+        val userId = Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.getdel("$keyPrefix:webauthn_challenge:$challenge").await()
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to take WebAuthn challenge: ${e.message}")
+        }.bind() ?: raise(RedisError.NotFound("Unknown or expired challenge"))
+        userId.ifEmpty { null }
+    }
+
+    private fun sessionKey(sessionId: String) = "$keyPrefix:session:$sessionId"
+    private fun userSessionsKey(userId: String) = "$keyPrefix:user:$userId:sessions"
+
+    override suspend fun createSession(session: UserSession, ttlSeconds: Long): Either<RedisError, UserSession> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.multi().await()
+        asyncCommands.setex(sessionKey(session.id), ttlSeconds, json.encodeToString(session))
+        asyncCommands.sadd(userSessionsKey(session.userId), session.id)
+        asyncCommands.exec().await()
+        session
+    }.mapLeft { e ->
+        when (e) {
+            is SerializationException -> RedisError.SerializationError("Failed to serialize session: ${e.message}")
+            else -> RedisError.OperationError("Failed to create session: ${e.message}")
+        }
+    }
+
+    override suspend fun getSession(sessionId: String): Either<RedisError, UserSession> = either {
+        val jsonString = get(sessionKey(sessionId)).bind() ?: raise(RedisError.NotFound("Session $sessionId not found"))
+        Either.catch {
+            json.decodeFromString<UserSession>(jsonString)
+        }.mapLeft { e ->
+            RedisError.SerializationError("Failed to deserialize session: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun updateSession(session: UserSession): Either<RedisError, UserSession> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.set(sessionKey(session.id), json.encodeToString(session), SetArgs.Builder.keepttl()).await()
+        session
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to update session: ${e.message}")
+    }
+
+    override suspend fun sessionExists(sessionId: String): Either<RedisError, Boolean> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.exists(sessionKey(sessionId)).await() > 0
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to check session: ${e.message}")
+    }
+
+    override suspend fun getSessions(userId: String): Either<RedisError, List<UserSession>> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        val sessionIds = asyncCommands.smembers(userSessionsKey(userId)).await().toList()
+        if (sessionIds.isEmpty()) return@catch emptyList()
+
+        val values = asyncCommands.mget(*sessionIds.map { sessionKey(it) }.toTypedArray()).await()
+        // Expired sessions leave their ID behind in the user's set
+        val expired = sessionIds.filterIndexed { index, _ -> !values[index].hasValue() }
+        if (expired.isNotEmpty()) {
+            asyncCommands.srem(userSessionsKey(userId), *expired.toTypedArray()).await()
+        }
+        values.filter { it.hasValue() }.map { json.decodeFromString<UserSession>(it.value) }
+    }.mapLeft { e ->
+        when (e) {
+            is SerializationException -> RedisError.SerializationError("Failed to deserialize sessions: ${e.message}")
+            else -> RedisError.OperationError("Failed to get sessions: ${e.message}")
+        }
+    }
+
+    override suspend fun deleteSession(userId: String, sessionId: String): Either<RedisError, Unit> = either {
+        val removed = Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.srem(userSessionsKey(userId), sessionId).await()
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete session: ${e.message}")
+        }.bind()
+        if (removed == 0L) raise(RedisError.NotFound("Session $sessionId not found"))
+
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.del(sessionKey(sessionId)).await()
+            Unit
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete session: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun deleteSessions(userId: String, exceptSessionId: String?): Either<RedisError, Int> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        val sessionIds = asyncCommands.smembers(userSessionsKey(userId)).await().filter { it != exceptSessionId }
+        if (sessionIds.isNotEmpty()) {
+            asyncCommands.multi().await()
+            asyncCommands.del(*sessionIds.map { sessionKey(it) }.toTypedArray())
+            asyncCommands.srem(userSessionsKey(userId), *sessionIds.toTypedArray())
+            asyncCommands.exec().await()
+        }
+        sessionIds.size
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to delete sessions: ${e.message}")
+    }
+
+    private val auditKey get() = "$keyPrefix:audit"
+
+    override suspend fun recordAuditEvent(event: AuditEvent): Either<RedisError, Unit> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        asyncCommands.multi().await()
+        asyncCommands.lpush(auditKey, json.encodeToString(event))
+        asyncCommands.ltrim(auditKey, 0, AUDIT_LOG_SIZE - 1)
+        asyncCommands.exec().await()
+        Unit
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to record audit event: ${e.message}")
+    }
+
+    override suspend fun getAuditEvents(): Either<RedisError, List<AuditEvent>> = Either.catch {
+        val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+        // Events of types a later version no longer knows are skipped
+        asyncCommands.lrange(auditKey, 0, -1).await().mapNotNull { value ->
+            Either.catch { json.decodeFromString<AuditEvent>(value) }.getOrNull()
+        }
+    }.mapLeft { e ->
+        RedisError.OperationError("Failed to get audit events: ${e.message}")
+    }
+
+    private fun calendarFeedKey(userId: String) = "$keyPrefix:user:$userId:calendar_feed"
+    private fun calendarTokenKey(token: String) = "$keyPrefix:calendar_feed:$token"
+
+    override suspend fun getCalendarFeed(userId: String): Either<RedisError, CalendarFeed> = either {
+        val jsonString = get(calendarFeedKey(userId)).bind() ?: raise(RedisError.NotFound("Calendar feed not found"))
+        Either.catch {
+            json.decodeFromString<CalendarFeed>(jsonString)
+        }.mapLeft { e ->
+            RedisError.SerializationError("Failed to deserialize calendar feed: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun saveCalendarFeed(userId: String, feed: CalendarFeed): Either<RedisError, CalendarFeed> = either {
+        val previous = getCalendarFeed(userId).fold(
+            { error -> if (error is RedisError.NotFound) null else raise(error) },
+            { it }
+        )
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.multi().await()
+            if (previous != null && previous.token != feed.token) {
+                asyncCommands.del(calendarTokenKey(previous.token))
+            }
+            asyncCommands.set(calendarFeedKey(userId), json.encodeToString(feed))
+            asyncCommands.set(calendarTokenKey(feed.token), userId)
+            asyncCommands.exec().await()
+            feed
+        }.mapLeft { e ->
+            when (e) {
+                is SerializationException -> RedisError.SerializationError("Failed to serialize calendar feed: ${e.message}")
+                else -> RedisError.OperationError("Failed to save calendar feed: ${e.message}")
+            }
+        }.bind()
+    }
+
+    override suspend fun deleteCalendarFeed(userId: String): Either<RedisError, Unit> = either {
+        val feed = getCalendarFeed(userId).bind()
+        Either.catch {
+            val asyncCommands = connection?.async() ?: throw IllegalStateException("Not connected")
+            asyncCommands.del(calendarFeedKey(userId), calendarTokenKey(feed.token)).await()
+            Unit
+        }.mapLeft { e ->
+            RedisError.OperationError("Failed to delete calendar feed: ${e.message}")
+        }.bind()
+    }
+
+    override suspend fun getCalendarFeedUserId(token: String): Either<RedisError, String> = either {
+        get(calendarTokenKey(token)).bind() ?: raise(RedisError.NotFound("Calendar feed not found"))
+    }
+
+    companion object {
+        // How long WebAuthn challenges live and attempts at the second login step are counted
+        const val TWO_FACTOR_WINDOW_SECONDS = 5 * 60L
+
+        // Number of audit events kept
+        const val AUDIT_LOG_SIZE = 10_000L
+
+        // Users loaded at a time when looking for the ones that match a filter
+        const val USER_BATCH_SIZE = 100
+    }
+
     // end of RedisService class
 }
 
@@ -6,6 +6,11 @@ import dev.gertjanassies.model.request.*
 import java.time.LocalDateTime
 import java.util.*
 
+/**
+ * One page of users, with the number of users on all pages together
+ */
+data class UserPage(val users: List<User>, val total: Int)
+
 /**
  * Storage service interface for data persistence operations
  * This abstraction allows swapping storage backends (e.g., Redis, PostgreSQL, MongoDB)
@@ -44,6 +49,16 @@ interface StorageService {
      */
     suspend fun updateProfile(username: String, email: String, firstName: String, lastName: String): Either<RedisError, User>
 
+    /**
+     * Set the user's home time zone, null to follow the device
+     */
+    suspend fun updateHomeTimezone(userId: String, timezone: String?): Either<RedisError, User>
+
+    /**
+     * Set how many minutes after its time a dose not taken counts as missed, null for the default
+     */
+    suspend fun updateGracePeriod(userId: String, minutes: Int?): Either<RedisError, User>
+
     /**
      * Update user password
      */
@@ -87,9 +102,9 @@ interface StorageService {
     suspend fun getAllAdmins(): Either<RedisError, Set<String>>
 
     /**
-     * Get all users in the system
+     * Get a page of the users sorted by username, only those matching [filter] when given
      */
-    suspend fun getAllUsers(): Either<RedisError, List<User>>
+    suspend fun getUsersPage(page: Int, pageSize: Int, filter: ((User) -> Boolean)? = null): Either<RedisError, UserPage>
 
     /**
      * Deactivate a user account (set isActive to false)
@@ -164,20 +179,28 @@ interface StorageService {
     // Dosage History operations
 
     /**
-     * Create a dosage history record and update medicine stock
+     * Create a dosage history record and update medicine stock, [loggedBy] is the username of the
+     * account that logged the dose (the owner or a caregiver)
      */
     suspend fun createDosageHistory(
         userId: String,
         medicineId: UUID,
         amount: Double,
         scheduledTime: String? = null,
-        datetime: LocalDateTime? = null
+        datetime: LocalDateTime? = null,
+        loggedBy: String? = null
     ): Either<RedisError, DosageHistory>
 
     /**
-     * Add stock to a medicine
+     * Add stock to a medicine, as a new package when a lot number or expiry date is given
      */
-    suspend fun addStock(userId: String, medicineId: UUID, amount: Double): Either<RedisError, Medicine>
+    suspend fun addStock(
+        userId: String,
+        medicineId: UUID,
+        amount: Double,
+        lotNumber: String? = null,
+        expiryDate: String? = null
+    ): Either<RedisError, Medicine>
 
     /**
      * Get all dosage histories for a user
@@ -189,6 +212,44 @@ interface StorageService {
      */
     suspend fun deleteDosageHistory(userId: String, dosageHistoryId: UUID): Either<RedisError, Unit>
 
+    /**
+     * Get the doses a user skipped on purpose, newest first
+     */
+    suspend fun getSkippedDoses(userId: String): Either<RedisError, List<SkippedDose>>
+
+    /**
+     * Record a scheduled dose as skipped with its reason, [loggedBy] is the username of the account
+     * that skipped it
+     */
+    suspend fun skipDose(userId: String, request: SkipDoseRequest, loggedBy: String? = null): Either<RedisError, SkippedDose>
+
+    /**
+     * Delete a skipped dose, so it is due or missed again
+     */
+    suspend fun deleteSkippedDose(userId: String, skippedDoseId: UUID): Either<RedisError, Unit>
+
+    // Journal operations
+
+    /**
+     * Get the journal entries of a user, newest first
+     */
+    suspend fun getJournalEntries(userId: String): Either<RedisError, List<JournalEntry>>
+
+    /**
+     * Add an entry to the journal, [loggedBy] is the username of the account that wrote it
+     */
+    suspend fun createJournalEntry(userId: String, request: JournalEntryRequest, loggedBy: String? = null): Either<RedisError, JournalEntry>
+
+    /**
+     * Replace the contents of a journal entry, keeping who wrote it
+     */
+    suspend fun updateJournalEntry(userId: String, entryId: UUID, request: JournalEntryRequest): Either<RedisError, JournalEntry>
+
+    /**
+     * Delete a journal entry
+     */
+    suspend fun deleteJournalEntry(userId: String, entryId: UUID): Either<RedisError, Unit>
+
     // Analytics operations
 
     /**
@@ -200,4 +261,173 @@ interface StorageService {
      * Calculate medicine expiry dates based on current stock and schedules
      */
     suspend fun medicineExpiry(userId: String, now: LocalDateTime = LocalDateTime.now()): Either<RedisError, List<MedicineWithExpiry>>
+
+    // Sharing operations
+
+    /**
+     * Invite a caregiver to the owner's regimen, the share is pending until the caregiver accepts it
+     */
+    suspend fun createShare(ownerId: String, caregiver: User, permission: SharePermission): Either<RedisError, Share>
+
+    /**
+     * Get the shares a user gave to caregivers and received from others
+     */
+    suspend fun getShares(userId: String): Either<RedisError, ShareOverview>
+
+    /**
+     * Accept an invitation, only the invited caregiver can
+     */
+    suspend fun acceptShare(userId: String, shareId: UUID): Either<RedisError, Share>
+
+    /**
+     * Change the permission of a share, only its owner can
+     */
+    suspend fun updateSharePermission(userId: String, shareId: UUID, permission: SharePermission): Either<RedisError, Share>
+
+    /**
+     * Revoke a share (owner), or decline or leave it (caregiver)
+     */
+    suspend fun deleteShare(userId: String, shareId: UUID): Either<RedisError, Unit>
+
+    /**
+     * Permission of the accepted share from the owner to the caregiver, null when there is none
+     */
+    suspend fun getSharePermission(ownerId: String, caregiverId: String): Either<RedisError, SharePermission?>
+
+    // Patient profile operations
+
+    /**
+     * Get the patient profiles a user keeps besides their own
+     */
+    suspend fun getPatientProfiles(userId: String): Either<RedisError, List<PatientProfile>>
+
+    /**
+     * Get one of the user's patient profiles, NotFound when it belongs to someone else
+     */
+    suspend fun getPatientProfile(userId: String, profileId: UUID): Either<RedisError, PatientProfile>
+
+    /**
+     * Add a patient profile with empty medicines, schedules and history
+     */
+    suspend fun createPatientProfile(userId: String, request: PatientProfileRequest): Either<RedisError, PatientProfile>
+
+    /**
+     * Change the name, colour or avatar of a patient profile
+     */
+    suspend fun updatePatientProfile(userId: String, profileId: UUID, request: PatientProfileRequest): Either<RedisError, PatientProfile>
+
+    /**
+     * Delete a patient profile together with its medicines, schedules and dosage history
+     */
+    suspend fun deletePatientProfile(userId: String, profileId: UUID): Either<RedisError, Unit>
+
+    // Two-factor authentication operations
+
+    /**
+     * Get the two-factor settings of a user, empty settings when they never set it up
+     */
+    suspend fun getTwoFactor(userId: String): Either<RedisError, TwoFactor>
+
+    /**
+     * Store the two-factor settings of a user
+     */
+    suspend fun saveTwoFactor(userId: String, twoFactor: TwoFactor): Either<RedisError, TwoFactor>
+
+    /**
+     * Remove TOTP, recovery codes and passkeys of a user, for admins helping someone who lost access
+     */
+    suspend fun resetTwoFactor(userId: String): Either<RedisError, Unit>
+
+    /**
+     * Get the IDs of all users with two-factor authentication enabled
+     */
+    suspend fun getTwoFactorUserIds(): Either<RedisError, Set<String>>
+
+    /**
+     * Count an attempt at the second login step, returns the attempts within the last five minutes
+     */
+    suspend fun countTwoFactorAttempt(userId: String): Either<RedisError, Long>
+
+    /**
+     * Remember a WebAuthn challenge for five minutes, with the user it was handed out for
+     * (null for a login with a passkey alone)
+     */
+    suspend fun saveWebAuthnChallenge(challenge: String, userId: String?): Either<RedisError, Unit>
+
+    /**
+     * Take a WebAuthn challenge, each works once. Returns the user it was handed out for,
+     * NotFound when it is unknown or expired.
+     */
+    suspend fun consumeWebAuthnChallenge(challenge: String): Either<RedisError, String?>
+
+    // Session operations, one session per device that logged in
+
+    /**
+     * Store a new session, it expires with its refresh token
+     */
+    suspend fun createSession(session: UserSession, ttlSeconds: Long): Either<RedisError, UserSession>
+
+    /**
+     * Get a session, NotFound when it was logged out or expired
+     */
+    suspend fun getSession(sessionId: String): Either<RedisError, UserSession>
+
+    /**
+     * Store changes to a session, keeping its expiry
+     */
+    suspend fun updateSession(session: UserSession): Either<RedisError, UserSession>
+
+    /**
+     * Check whether a session is still active
+     */
+    suspend fun sessionExists(sessionId: String): Either<RedisError, Boolean>
+
+    /**
+     * Get the active sessions of a user
+     */
+    suspend fun getSessions(userId: String): Either<RedisError, List<UserSession>>
+
+    /**
+     * Log out one session of a user, NotFound when the user has no such session
+     */
+    suspend fun deleteSession(userId: String, sessionId: String): Either<RedisError, Unit>
+
+    /**
+     * Log out all sessions of a user except the given one (null for all), returns how many were logged out
+     */
+    suspend fun deleteSessions(userId: String, exceptSessionId: String?): Either<RedisError, Int>
+
+    // Audit log of admin actions and security events
+
+    /**
+     * Add an event to the audit log, the oldest events are dropped once it is full
+     */
+    suspend fun recordAuditEvent(event: AuditEvent): Either<RedisError, Unit>
+
+    /**
+     * Get the audit log, newest first
+     */
+    suspend fun getAuditEvents(): Either<RedisError, List<AuditEvent>>
+
+    // Calendar feed operations
+
+    /**
+     * Get the calendar feed of a user, NotFound when they have none
+     */
+    suspend fun getCalendarFeed(userId: String): Either<RedisError, CalendarFeed>
+
+    /**
+     * Store the calendar feed of a user, the token of a previous feed stops working
+     */
+    suspend fun saveCalendarFeed(userId: String, feed: CalendarFeed): Either<RedisError, CalendarFeed>
+
+    /**
+     * Revoke the calendar feed of a user, NotFound when they have none
+     */
+    suspend fun deleteCalendarFeed(userId: String): Either<RedisError, Unit>
+
+    /**
+     * Get the user a calendar feed token belongs to, NotFound when it is unknown or revoked
+     */
+    suspend fun getCalendarFeedUserId(token: String): Either<RedisError, String>
 }
@@ -0,0 +1,269 @@
+package dev.gertjanassies.service
+
+import arrow.core.Either
+import arrow.core.raise.either
+import dev.gertjanassies.model.Passkey
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.jsonObject
+import kotlinx.serialization.json.jsonPrimitive
+import java.net.URI
+import java.net.URLEncoder
+import java.nio.ByteBuffer
+import java.security.KeyFactory
+import java.security.MessageDigest
+import java.security.PublicKey
+import java.security.SecureRandom
+import java.security.Signature
+import java.security.spec.X509EncodedKeySpec
+import java.time.Instant
+import java.util.*
+import javax.crypto.Mac
+import javax.crypto.spec.SecretKeySpec
+
+sealed class TwoFactorError(val message: String) {
+    data class InvalidClientData(val reason: String) : TwoFactorError("Invalid client data: $reason")
+    data class InvalidAuthenticatorData(val reason: String) : TwoFactorError("Invalid authenticator data: $reason")
+    data class UnsupportedAlgorithm(val algorithm: Int) : TwoFactorError("Unsupported key algorithm: $algorithm")
+    data class InvalidSignature(val reason: String) : TwoFactorError("Invalid signature: $reason")
+}
+
+/**
+ * Client data of a WebAuthn ceremony, the challenge tells which one it belongs to
+ */
+data class WebAuthnClientData(val challenge: String)
+
+/**
+ * Codes and checks for two-factor authentication: TOTP (RFC 6238) for authenticator apps and
+ * WebAuthn passkeys. The relying party is the host of the app URL, passkeys only work there.
+ */
+class TwoFactorService(
+    appUrl: String,
+    val issuer: String = "Medicate"
+) {
+    private val random = SecureRandom()
+    private val json = Json { ignoreUnknownKeys = true }
+    private val base64Url = Base64.getUrlEncoder().withoutPadding()
+    private val base64UrlDecoder = Base64.getUrlDecoder()
+
+    val origin: String
+    val rpId: String
+
+    init {
+        val uri = URI(appUrl)
+        rpId = uri.host
+        origin = if (uri.port == -1) "${uri.scheme}://${uri.host}" else "${uri.scheme}://${uri.host}:${uri.port}"
+    }
+
+    /**
+     * Random secret for an authenticator app, Base32 encoded
+     */
+    fun generateTotpSecret(): String = base32Encode(randomBytes(20))
+
+    /**
+     * URI authenticator apps read from the QR code
+     */
+    fun otpauthUri(secret: String, accountName: String): String {
+        val label = encode("$issuer:$accountName")
+        return "otpauth://totp/$label?secret=$secret&issuer=${encode(issuer)}&algorithm=SHA1&digits=$TOTP_DIGITS&period=$TOTP_PERIOD_SECONDS"
+    }
+
+    /**
+     * Whether the code matches the secret, one period before and after now are accepted for clock drift
+     */
+    fun verifyTotp(secret: String, code: String, at: Instant = Instant.now()): Boolean =
+        acceptTotp(secret, code, lastStep = null, at) != null
+
+    /**
+     * Time step of the code when it matches the secret (see verifyTotp) and is later than
+     * [lastStep], the step of the code accepted before, so a code cannot be replayed. Null otherwise.
+     */
+    fun acceptTotp(secret: String, code: String, lastStep: Long?, at: Instant = Instant.now()): Long? {
+        val digits = code.filter { !it.isWhitespace() }
+        if (digits.length != TOTP_DIGITS || !digits.all { it.isDigit() }) return null
+        val key = base32Decode(secret) ?: return null
+        val counter = at.epochSecond / TOTP_PERIOD_SECONDS
+        val step = (-1L..1L).map { drift -> counter + drift }.firstOrNull { step ->
+            MessageDigest.isEqual(totp(key, step).toByteArray(), digits.toByteArray())
+        } ?: return null
+        return step.takeIf { lastStep == null || it > lastStep }
+    }
+
+    /**
+     * TOTP code for the given period
+     */
+    fun totp(key: ByteArray, counter: Long): String {
+        val mac = Mac.getInstance("HmacSHA1")
+        mac.init(SecretKeySpec(key, "HmacSHA1"))
+        val hash = mac.doFinal(ByteBuffer.allocate(8).putLong(counter).array())
+        val offset = hash.last().toInt() and 0x0f
+        val binary = ((hash[offset].toInt() and 0x7f) shl 24) or
+            ((hash[offset + 1].toInt() and 0xff) shl 16) or
+            ((hash[offset + 2].toInt() and 0xff) shl 8) or
+            (hash[offset + 3].toInt() and 0xff)
+        return (binary % 1_000_000).toString().padStart(TOTP_DIGITS, '0')
+    }
+
+    /**
+     * Recovery codes like "k7d2-9xq4", readable without ambiguous characters
+     */
+    fun generateRecoveryCodes(): List<String> = List(RECOVERY_CODE_COUNT) {
+        val chars = List(8) { RECOVERY_CODE_ALPHABET[random.nextInt(RECOVERY_CODE_ALPHABET.length)] }.joinToString("")
+        "${chars.take(4)}-${chars.drop(4)}"
+    }
+
+    /**
+     * Recovery codes are compared without the dash and case, as people type them
+     */
+    fun normalizeRecoveryCode(code: String): String = code.filter { it.isLetterOrDigit() }.lowercase()
+
+    /**
+     * Random challenge for a WebAuthn ceremony, base64url
+     */
+    fun newChallenge(): String = base64Url.encodeToString(randomBytes(32))
+
+    /**
+     * Check the client data of a registration ("webauthn.create") or login ("webauthn.get")
+     * and return its challenge, the caller checks that the challenge was handed out
+     */
+    fun parseClientData(clientDataJSON: String, type: String): Either<TwoFactorError, WebAuthnClientData> = either {
+        val clientData = Either.catch {
+            json.parseToJsonElement(String(base64UrlDecoder.decode(clientDataJSON))).jsonObject
+        }.mapLeft { TwoFactorError.InvalidClientData("not JSON") }.bind()
+
+        val actualType = clientData["type"]?.jsonPrimitive?.content
+        if (actualType != type) raise(TwoFactorError.InvalidClientData("expected $type, got $actualType"))
+        val actualOrigin = clientData["origin"]?.jsonPrimitive?.content
+        if (actualOrigin != origin) raise(TwoFactorError.InvalidClientData("unexpected origin $actualOrigin"))
+        val challenge = clientData["challenge"]?.jsonPrimitive?.content
+        if (challenge.isNullOrBlank()) raise(TwoFactorError.InvalidClientData("no challenge"))
+        WebAuthnClientData(challenge)
+    }
+
+    /**
+     * Check that the public key of a new passkey can verify signatures
+     */
+    fun validatePublicKey(publicKey: String, algorithm: Int): Either<TwoFactorError, Unit> = either {
+        decodePublicKey(publicKey, algorithm).bind()
+    }
+
+    /**
+     * Verify a login with the passkey, returns the new signature counter. Without a password the
+     * authenticator must have verified the user (PIN or biometrics), touching the key is not enough.
+     */
+    fun verifyAssertion(
+        passkey: Passkey,
+        authenticatorData: String,
+        clientDataJSON: String,
+        signature: String,
+        requireUserVerification: Boolean
+    ): Either<TwoFactorError, Long> = either {
+        val authData = Either.catch { base64UrlDecoder.decode(authenticatorData) }
+            .mapLeft { TwoFactorError.InvalidAuthenticatorData("not base64url") }.bind()
+        if (authData.size < 37) raise(TwoFactorError.InvalidAuthenticatorData("too short"))
+
+        val rpIdHash = MessageDigest.getInstance("SHA-256").digest(rpId.toByteArray())
+        if (!MessageDigest.isEqual(authData.copyOfRange(0, 32), rpIdHash)) {
+            raise(TwoFactorError.InvalidAuthenticatorData("credential is for another site"))
+        }
+        val userPresent = (authData[32].toInt() and 0x01) != 0
+        if (!userPresent) raise(TwoFactorError.InvalidAuthenticatorData("user not present"))
+        val userVerified = (authData[32].toInt() and 0x04) != 0
+        if (requireUserVerification && !userVerified) raise(TwoFactorError.InvalidAuthenticatorData("user not verified"))
+
+        val key = decodePublicKey(passkey.publicKey, passkey.algorithm).bind()
+        val verified = Either.catch {
+            val clientDataHash = MessageDigest.getInstance("SHA-256").digest(base64UrlDecoder.decode(clientDataJSON))
+            val verifier = Signature.getInstance(signatureAlgorithm(passkey.algorithm))
+            verifier.initVerify(key)
+            verifier.update(authData + clientDataHash)
+            verifier.verify(base64UrlDecoder.decode(signature))
+        }.mapLeft { e -> TwoFactorError.InvalidSignature(e.message ?: "malformed") }.bind()
+        if (!verified) raise(TwoFactorError.InvalidSignature("does not match the passkey"))
+
+        // Authenticators that count must count up, a lower count points to a cloned credential
+        val signCount = ByteBuffer.wrap(authData, 33, 4).int.toLong() and 0xffffffffL
+        if (signCount != 0L && signCount <= passkey.signCount) {
+            raise(TwoFactorError.InvalidAuthenticatorData("signature counter went back"))
+        }
+        signCount
+    }
+
+    fun encodeBase64Url(bytes: ByteArray): String = base64Url.encodeToString(bytes)
+
+    fun decodeBase64Url(value: String): ByteArray? = try {
+        base64UrlDecoder.decode(value)
+    } catch (_: IllegalArgumentException) {
+        null
+    }
+
+    private fun decodePublicKey(publicKey: String, algorithm: Int): Either<TwoFactorError, PublicKey> = either {
+        val keyAlgorithm = when (algorithm) {
+            COSE_ES256 -> "EC"
+            COSE_EDDSA -> "Ed25519"
+            COSE_RS256 -> "RSA"
+            else -> raise(TwoFactorError.UnsupportedAlgorithm(algorithm))
+        }
+        Either.catch {
+            KeyFactory.getInstance(keyAlgorithm).generatePublic(X509EncodedKeySpec(base64UrlDecoder.decode(publicKey)))
+        }.mapLeft { e -> TwoFactorError.InvalidSignature("unreadable public key: ${e.message}") }.bind()
+    }
+
+    private fun signatureAlgorithm(algorithm: Int): String = when (algorithm) {
+        COSE_ES256 -> "SHA256withECDSA"
+        COSE_EDDSA -> "Ed25519"
+        else -> "SHA256withRSA"
+    }
+
+    private fun randomBytes(size: Int): ByteArray = ByteArray(size).also { random.nextBytes(it) }
+
+    private fun encode(value: String): String = URLEncoder.encode(value, Charsets.UTF_8).replace("+", "%20")
+
+    companion object {
+        const val TOTP_DIGITS = 6
+        const val TOTP_PERIOD_SECONDS = 30L
+        const val RECOVERY_CODE_COUNT = 10
+
+        // COSE algorithm identifiers the frontend asks authenticators for
+        const val COSE_ES256 = -7
+        const val COSE_EDDSA = -8
+        const val COSE_RS256 = -257
+
+        private const val RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789"
+        private const val BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+        fun base32Encode(bytes: ByteArray): String {
+            val result = StringBuilder()
+            var buffer = 0
+            var bits = 0
+            for (byte in bytes) {
+                buffer = (buffer shl 8) or (byte.toInt() and 0xff)
+                bits += 8
+                while (bits >= 5) {
+                    result.append(BASE32_ALPHABET[(buffer shr (bits - 5)) and 0x1f])
+                    bits -= 5
+                }
+            }
+            if (bits > 0) {
+                result.append(BASE32_ALPHABET[(buffer shl (5 - bits)) and 0x1f])
+            }
+            return result.toString()
+        }
+
+        fun base32Decode(value: String): ByteArray? {
+            val output = mutableListOf<Byte>()
+            var buffer = 0
+            var bits = 0
+            for (char in value.uppercase().filter { it != '=' && !it.isWhitespace() }) {
+                val index = BASE32_ALPHABET.indexOf(char)
+                if (index < 0) return null
+                buffer = (buffer shl 5) or index
+                bits += 5
+                if (bits >= 8) {
+                    output.add(((buffer shr (bits - 8)) and 0xff).toByte())
+                    bits -= 8
+                }
+            }
+            return output.toByteArray()
+        }
+    }
+}
@@ -2,12 +2,23 @@ package dev.gertjanassies.routes
 
 import arrow.core.left
 import arrow.core.right
+import dev.gertjanassies.model.AuditEvent
+import dev.gertjanassies.model.AuditEventType
+import dev.gertjanassies.model.DosageHistory
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.PatientProfile
+import dev.gertjanassies.model.Schedule
 import dev.gertjanassies.model.User
+import dev.gertjanassies.model.UserSession
 import dev.gertjanassies.model.response.AdminUserResponse
+import dev.gertjanassies.model.response.AdminUserStatsResponse
 import dev.gertjanassies.model.response.AdminUsersListResponse
+import dev.gertjanassies.model.response.AuditLogResponse
 import dev.gertjanassies.model.response.UserResponse
+import dev.gertjanassies.service.EmailService
 import dev.gertjanassies.service.RedisError
 import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.service.UserPage
 import dev.gertjanassies.test.TestJwtConfig
 import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
 import io.kotest.core.spec.style.FunSpec
@@ -28,6 +39,7 @@ import java.util.*
 
 class AdminRoutesTest : FunSpec({
     lateinit var mockStorageService: StorageService
+    lateinit var mockEmailService: EmailService
     val adminUsername = "adminuser"
     val adminUserId = UUID.randomUUID()
     val adminToken = TestJwtConfig.generateToken(adminUsername, adminUserId.toString(), isAdmin = true)
@@ -38,6 +50,10 @@ class AdminRoutesTest : FunSpec({
 
     beforeEach {
         mockStorageService = mockk()
+        mockEmailService = mockk()
+        coEvery { mockStorageService.getTwoFactorUserIds() } returns emptySet<String>().right()
+        coEvery { mockStorageService.recordAuditEvent(any()) } returns Unit.right()
+        coEvery { mockStorageService.getUserById(any()) } returns RedisError.NotFound("User not found").left()
     }
 
     afterEach {
@@ -56,7 +72,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -80,7 +96,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -110,7 +126,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -147,7 +163,7 @@ class AdminRoutesTest : FunSpec({
             val users = listOf(user1, user2)
 
             coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
-            coEvery { mockStorageService.getAllUsers() } returns users.right()
+            coEvery { mockStorageService.getUsersPage(1, 25, null) } returns UserPage(users, users.size).right()
             coEvery { mockStorageService.getAllAdmins() } returns setOf(adminUserId.toString()).right()
 
             testApplication {
@@ -160,7 +176,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -174,14 +190,15 @@ class AdminRoutesTest : FunSpec({
                 body.users.size shouldBe 2
 
                 coVerify { mockStorageService.isUserAdmin(adminUserId.toString()) }
-                coVerify { mockStorageService.getAllUsers() }
+                coVerify { mockStorageService.getUsersPage(1, 25, null) }
                 coVerify { mockStorageService.getAllAdmins() }
             }
         }
 
-        test("should return 500 when getAllUsers fails") {
+        test("should return 500 when getUsersPage fails") {
             coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
-            coEvery { mockStorageService.getAllUsers() } returns RedisError.OperationError("Database error").left()
+            coEvery { mockStorageService.getAllAdmins() } returns setOf(adminUserId.toString()).right()
+            coEvery { mockStorageService.getUsersPage(any(), any(), any()) } returns RedisError.OperationError("Database error").left()
 
             testApplication {
                 environment {
@@ -193,7 +210,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -207,7 +224,82 @@ class AdminRoutesTest : FunSpec({
                 body["error"] shouldBe "Failed to retrieve users"
 
                 coVerify { mockStorageService.isUserAdmin(adminUserId.toString()) }
-                coVerify { mockStorageService.getAllUsers() }
+                coVerify { mockStorageService.getUsersPage(any(), any(), any()) }
+            }
+        }
+        test("should search, filter and page users") {
+            val users = (1..30).map { i ->
+                User(
+                    id = UUID.randomUUID(),
+                    username = "user%02d".format(i),
+                    email = "user$i@example.com",
+                    passwordHash = "hash",
+                    isActive = i % 2 == 0
+                )
+            } + User(id = UUID.randomUUID(), username = "someone", email = "else@example.com", passwordHash = "hash", isActive = true)
+
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getAllAdmins() } returns setOf(adminUserId.toString()).right()
+            // Pages like the storage does, with the filter the route passes
+            coEvery { mockStorageService.getUsersPage(any(), any(), any()) } answers {
+                val page = firstArg<Int>()
+                val pageSize = secondArg<Int>()
+                val matching = users.sortedBy { it.username }.filter(thirdArg<((User) -> Boolean)?>() ?: { true })
+                UserPage(matching.drop((page - 1) * pageSize).take(pageSize), matching.size).right()
+            }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/admin/users?search=USER&status=active&page=2&pageSize=10") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val body = response.body<AdminUsersListResponse>()
+                body.total shouldBe 15
+                body.page shouldBe 2
+                body.pageSize shouldBe 10
+                body.users.map { it.username } shouldBe (22..30 step 2).map { "user%02d".format(it) }
+            }
+        }
+
+        test("should return 400 for an invalid page size") {
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/admin/users?pageSize=500") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                coVerify(exactly = 0) { mockStorageService.getUsersPage(any(), any(), any()) }
             }
         }
     }
@@ -237,7 +329,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -272,7 +364,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -314,7 +406,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -359,7 +451,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -391,7 +483,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -425,7 +517,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -467,7 +559,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -504,7 +596,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -535,7 +627,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -569,7 +661,7 @@ class AdminRoutesTest : FunSpec({
                 }
                 routing {
                     authenticate("auth-jwt") {
-                        adminRoutes(mockStorageService)
+                        adminRoutes(mockStorageService, mockEmailService)
                     }
                 }
 
@@ -587,4 +679,434 @@ class AdminRoutesTest : FunSpec({
             }
         }
     }
+
+    context("DELETE /admin/users/{userId}/2fa") {
+        test("should reset two-factor authentication of a user") {
+            val targetUserId = UUID.randomUUID().toString()
+
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.resetTwoFactor(targetUserId) } returns Unit.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$targetUserId/2fa") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val body = response.body<Map<String, String>>()
+                body["message"] shouldBe "Two-factor authentication reset"
+
+                coVerify { mockStorageService.resetTwoFactor(targetUserId) }
+            }
+        }
+
+        test("should return 403 when non-admin user resets two-factor authentication") {
+            val targetUserId = UUID.randomUUID().toString()
+
+            coEvery { mockStorageService.isUserAdmin(regularUserId.toString()) } returns false.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$targetUserId/2fa") {
+                    header("Authorization", "Bearer $regularToken")
+                }
+
+                response.status shouldBe HttpStatusCode.Forbidden
+                coVerify(exactly = 0) { mockStorageService.resetTwoFactor(any()) }
+            }
+        }
+
+        test("should return 500 when reset fails") {
+            val targetUserId = UUID.randomUUID().toString()
+
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.resetTwoFactor(targetUserId) } returns RedisError.OperationError("Database error").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$targetUserId/2fa") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.InternalServerError
+                val body = response.body<Map<String, String>>()
+                body["error"] shouldBe "Failed to reset two-factor authentication"
+            }
+        }
+    }
+
+    context("DELETE /admin/users/{userId}/sessions") {
+        test("should log a user out on all devices") {
+            val targetUserId = UUID.randomUUID().toString()
+
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.deleteSessions(targetUserId, null) } returns 2.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$targetUserId/sessions") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val body = response.body<Map<String, String>>()
+                body["message"] shouldBe "User logged out on all devices"
+
+                coVerify { mockStorageService.deleteSessions(targetUserId, null) }
+            }
+        }
+
+        test("should return 403 when non-admin user logs out another user") {
+            val targetUserId = UUID.randomUUID().toString()
+
+            coEvery { mockStorageService.isUserAdmin(regularUserId.toString()) } returns false.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$targetUserId/sessions") {
+                    header("Authorization", "Bearer $regularToken")
+                }
+
+                response.status shouldBe HttpStatusCode.Forbidden
+                coVerify(exactly = 0) { mockStorageService.deleteSessions(any(), any()) }
+            }
+        }
+    }
+
+    context("PUT and DELETE /admin/users/{userId}/admin") {
+        val targetUserId = UUID.randomUUID().toString()
+        val targetUser = User(
+            id = UUID.fromString(targetUserId),
+            username = "targetuser",
+            email = "target@example.com",
+            passwordHash = "hash",
+            isActive = true
+        )
+
+        test("should grant admin privileges and record it") {
+            val event = slot<AuditEvent>()
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getUserById(targetUserId) } returns targetUser.right()
+            coEvery { mockStorageService.addAdmin(targetUserId) } returns Unit.right()
+            coEvery { mockStorageService.getAllAdmins() } returns setOf(adminUserId.toString(), targetUserId).right()
+            coEvery { mockStorageService.recordAuditEvent(capture(event)) } returns Unit.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.put("/admin/users/$targetUserId/admin") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<AdminUserResponse>().isAdmin shouldBe true
+                event.captured.type shouldBe AuditEventType.ADMIN_GRANTED
+                event.captured.actorName shouldBe adminUsername
+                event.captured.targetName shouldBe "targetuser"
+            }
+        }
+
+        test("should revoke admin privileges") {
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getUserById(targetUserId) } returns targetUser.right()
+            coEvery { mockStorageService.getAllAdmins() } returnsMany listOf(
+                setOf(adminUserId.toString(), targetUserId).right(),
+                setOf(adminUserId.toString()).right()
+            )
+            coEvery { mockStorageService.removeAdmin(targetUserId) } returns Unit.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$targetUserId/admin") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<AdminUserResponse>().isAdmin shouldBe false
+                coVerify { mockStorageService.removeAdmin(targetUserId) }
+            }
+        }
+
+        test("should not remove the last admin") {
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getUserById(adminUserId.toString()) } returns targetUser.copy(id = adminUserId).right()
+            coEvery { mockStorageService.getAllAdmins() } returns setOf(adminUserId.toString()).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/admin/users/$adminUserId/admin") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.Conflict
+                response.body<Map<String, String>>()["error"] shouldBe "Cannot remove the last admin"
+                coVerify(exactly = 0) { mockStorageService.removeAdmin(any()) }
+            }
+        }
+    }
+
+    context("POST /admin/users/{userId}/activation-email") {
+        val targetUserId = UUID.randomUUID().toString()
+        val inactiveUser = User(
+            id = UUID.fromString(targetUserId),
+            username = "newuser",
+            email = "new@example.com",
+            passwordHash = "hash",
+            isActive = false
+        )
+
+        test("should resend the activation email in the language of the request") {
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getUserById(targetUserId) } returns inactiveUser.right()
+            coEvery { mockEmailService.sendVerificationEmail(inactiveUser, "nl") } returns "email-id".right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/admin/users/$targetUserId/activation-email") {
+                    header("Authorization", "Bearer $adminToken")
+                    header("Accept-Language", "nl-NL")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                coVerify { mockEmailService.sendVerificationEmail(inactiveUser, "nl") }
+                coVerify { mockStorageService.recordAuditEvent(match { it.type == AuditEventType.ACTIVATION_EMAIL_SENT }) }
+            }
+        }
+
+        test("should return 409 when the user is already active") {
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getUserById(targetUserId) } returns inactiveUser.copy(isActive = true).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/admin/users/$targetUserId/activation-email") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.Conflict
+                coVerify(exactly = 0) { mockEmailService.sendVerificationEmail(any(), any()) }
+            }
+        }
+    }
+
+    context("GET /admin/users/{userId}/stats") {
+        test("should count the data of a user and find the last activity") {
+            val targetUserId = UUID.randomUUID().toString()
+            val session = UserSession(
+                id = "s1",
+                userId = targetUserId,
+                createdAt = "2026-01-01T08:00:00",
+                lastUsedAt = "2026-01-05T08:00:00"
+            )
+
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getUserById(targetUserId) } returns User(
+                id = UUID.fromString(targetUserId), username = "targetuser", email = "target@example.com", passwordHash = "hash"
+            ).right()
+            coEvery { mockStorageService.getSessions(targetUserId) } returns listOf(session).right()
+            coEvery { mockStorageService.getAllDosageHistories(targetUserId) } returns emptyList<DosageHistory>().right()
+            coEvery { mockStorageService.getAllMedicines(targetUserId) } returns listOf(mockk<Medicine>(), mockk()).right()
+            coEvery { mockStorageService.getAllSchedules(targetUserId) } returns emptyList<Schedule>().right()
+            coEvery { mockStorageService.getPatientProfiles(targetUserId) } returns emptyList<PatientProfile>().right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/admin/users/$targetUserId/stats") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val stats = response.body<AdminUserStatsResponse>()
+                stats.medicineCount shouldBe 2
+                stats.activeSessions shouldBe 1
+                stats.lastActivity shouldBe "2026-01-05T08:00:00"
+            }
+        }
+    }
+
+    context("GET /admin/audit") {
+        test("should filter the audit log by category and user") {
+            val targetUserId = UUID.randomUUID().toString()
+            fun event(type: AuditEventType, targetId: String?) = AuditEvent(
+                id = UUID.randomUUID().toString(),
+                type = type,
+                targetId = targetId,
+                createdAt = "2026-01-01T08:00:00"
+            )
+            coEvery { mockStorageService.isUserAdmin(adminUserId.toString()) } returns true.right()
+            coEvery { mockStorageService.getAuditEvents() } returns listOf(
+                event(AuditEventType.LOGIN_FAILED, targetUserId),
+                event(AuditEventType.USER_DEACTIVATED, targetUserId),
+                event(AuditEventType.LOGIN_FAILED, "someone-else")
+            ).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        adminRoutes(mockStorageService, mockEmailService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/admin/audit?category=security&userId=$targetUserId") {
+                    header("Authorization", "Bearer $adminToken")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val body = response.body<AuditLogResponse>()
+                body.total shouldBe 1
+                body.events.single().type shouldBe AuditEventType.LOGIN_FAILED
+            }
+        }
+    }
 })
@@ -1,6 +1,7 @@
 package dev.gertjanassies.routes
 
 import dev.gertjanassies.model.User
+import dev.gertjanassies.model.UserSession
 import dev.gertjanassies.model.request.PasswordResetRequest
 import dev.gertjanassies.model.request.VerifyResetTokenRequest
 import dev.gertjanassies.service.EmailService
@@ -25,6 +26,7 @@ import io.ktor.server.config.*
 import io.ktor.server.plugins.contentnegotiation.ContentNegotiation as ServerContentNegotiation
 import io.ktor.server.testing.*
 import io.ktor.utils.io.*
+import io.lettuce.core.SetArgs
 import io.lettuce.core.api.StatefulRedisConnection
 import io.lettuce.core.api.async.RedisAsyncCommands
 import io.mockk.*
@@ -347,7 +349,8 @@ class AuthRoutesTest : FunSpec({
             val userId = java.util.UUID.randomUUID()
             val user = User(id = userId, username = username, email = "test@example.com", passwordHash = "hash")
             val userJson = json.encodeToString(user)
-            val refreshToken = jwtService.generateRefreshToken(username, userId.toString())
+            val session = UserSession(id = "session-1", userId = userId.toString(), createdAt = "2026-01-01T08:00", lastUsedAt = "2026-01-01T08:00")
+            val refreshToken = jwtService.generateRefreshToken(username, userId.toString(), sessionId = session.id)
 
             // Mock Redis operations for getUser
             every { mockConnection.async() } returns mockAsyncCommands
@@ -356,6 +359,11 @@ class AuthRoutesTest : FunSpec({
             val userKey = "medicate:$environment:user:id:$userId"
             every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(userJson)
 
+            // Mock the session lookup and its last use update
+            val sessionKey = "medicate:$environment:session:${session.id}"
+            every { mockAsyncCommands.get(sessionKey) } returns createRedisFutureMock(json.encodeToString(session))
+            every { mockAsyncCommands.set(eq(sessionKey), any(), any<SetArgs>()) } returns createRedisFutureMock("OK")
+
             // Create mock HTTP client
             val mockEngine = MockEngine { respond("", HttpStatusCode.OK) }
             HttpClient(mockEngine).use { httpClient ->
@@ -378,6 +386,71 @@ class AuthRoutesTest : FunSpec({
                     body shouldContainKey "token"
                     // Refresh token should not be in response (it's in HttpOnly cookie)
                     (body.containsKey("refreshToken")) shouldBe false
+                    jwtService.getSessionId(body["token"]!!) shouldBe session.id
+                }
+            }
+        }
+
+        test("should return 401 when the session was logged out") {
+            val username = "testuser"
+            val userId = java.util.UUID.randomUUID()
+            val user = User(id = userId, username = username, email = "test@example.com", passwordHash = "hash")
+            val refreshToken = jwtService.generateRefreshToken(username, userId.toString(), sessionId = "revoked-session")
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.get("medicate:$environment:user:username:$username") } returns createRedisFutureMock(userId.toString())
+            every { mockAsyncCommands.get("medicate:$environment:user:id:$userId") } returns createRedisFutureMock(json.encodeToString(user))
+            every { mockAsyncCommands.get("medicate:$environment:session:revoked-session") } returns createRedisFutureMock(null as String?)
+
+            val mockEngine = MockEngine { respond("", HttpStatusCode.OK) }
+            HttpClient(mockEngine).use { httpClient ->
+                emailService = EmailService(httpClient, redisService, testApiKey, testAppUrl)
+
+                testApplication {
+                    environment {
+                        config = MapApplicationConfig()
+                    }
+                    install(ServerContentNegotiation) { json() }
+                    routing { authRoutes(redisService, emailService, jwtService) }
+
+                    val client = createClient { install(ClientContentNegotiation) { json() } }
+                    val response = client.post("/auth/refresh") {
+                        cookie("refresh_token", refreshToken)
+                    }
+
+                    response.status shouldBe HttpStatusCode.Unauthorized
+                    response.body<Map<String, String>>()["error"] shouldContain "logged out"
+                }
+            }
+        }
+
+        test("should return 401 for refresh tokens issued before sessions were tracked") {
+            val username = "testuser"
+            val userId = java.util.UUID.randomUUID()
+            val user = User(id = userId, username = username, email = "test@example.com", passwordHash = "hash")
+            val refreshToken = jwtService.generateRefreshToken(username, userId.toString())
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.get("medicate:$environment:user:username:$username") } returns createRedisFutureMock(userId.toString())
+            every { mockAsyncCommands.get("medicate:$environment:user:id:$userId") } returns createRedisFutureMock(json.encodeToString(user))
+
+            val mockEngine = MockEngine { respond("", HttpStatusCode.OK) }
+            HttpClient(mockEngine).use { httpClient ->
+                emailService = EmailService(httpClient, redisService, testApiKey, testAppUrl)
+
+                testApplication {
+                    environment {
+                        config = MapApplicationConfig()
+                    }
+                    install(ServerContentNegotiation) { json() }
+                    routing { authRoutes(redisService, emailService, jwtService) }
+
+                    val client = createClient { install(ClientContentNegotiation) { json() } }
+                    val response = client.post("/auth/refresh") {
+                        cookie("refresh_token", refreshToken)
+                    }
+
+                    response.status shouldBe HttpStatusCode.Unauthorized
                 }
             }
         }
@@ -677,6 +750,14 @@ class AuthRoutesTest : FunSpec({
             every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(inactiveUserJson) andThen createRedisFutureMock(activatedUserJson)
             every { mockAsyncCommands.set(userKey, activatedUserJson) } returns createRedisFutureMock("OK")
 
+            // Mock session creation
+            every { mockAsyncCommands.multi() } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.setex(match { it.startsWith("medicate:$environment:session:") }, any(), any()) } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.sadd("medicate:$environment:user:$userId:sessions", *anyVararg()) } returns createRedisFutureMock(1L)
+            val mockTransactionResult = mockk<io.lettuce.core.TransactionResult>()
+            every { mockTransactionResult.wasDiscarded() } returns false
+            every { mockAsyncCommands.exec() } returns createRedisFutureMock(mockTransactionResult)
+
             // Create mock HTTP client
             val mockEngine = MockEngine { respond("", HttpStatusCode.OK) }
             HttpClient(mockEngine).use { httpClient ->
@@ -0,0 +1,285 @@
+package dev.gertjanassies.routes
+
+import arrow.core.left
+import arrow.core.right
+import dev.gertjanassies.model.CalendarFeed
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.PatientProfile
+import dev.gertjanassies.model.Schedule
+import dev.gertjanassies.model.User
+import dev.gertjanassies.model.request.CalendarFeedRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.test.TestJwtConfig
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.string.shouldContain
+import io.kotest.matchers.string.shouldStartWith
+import io.ktor.client.call.*
+import io.ktor.client.request.*
+import io.ktor.client.statement.*
+import io.ktor.http.*
+import io.ktor.serialization.kotlinx.json.*
+import io.ktor.server.application.*
+import io.ktor.server.auth.*
+import io.ktor.server.config.*
+import io.ktor.server.plugins.contentnegotiation.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import java.util.*
+
+class CalendarRoutesTest : FunSpec({
+    lateinit var mockStorageService: StorageService
+    val userId = UUID.randomUUID()
+    val token = TestJwtConfig.generateToken("testuser", userId.toString())
+    val feed = CalendarFeed(
+        token = "secret-token",
+        timezone = "Europe/Amsterdam",
+        reminderMinutes = 10,
+        createdAt = "2026-01-01T08:00:00"
+    )
+
+    beforeEach {
+        mockStorageService = mockk()
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("GET /calendar/{file}") {
+        val medicine = Medicine(id = UUID.randomUUID(), name = "Aspirin", dose = 100.0, unit = "mg", stock = 30.0)
+        val profile = PatientProfile(id = UUID.randomUUID(), name = "Emma", color = "#E11D48", avatar = "👧", createdAt = "2026-01-01T08:00:00")
+        val profileMedicine = Medicine(id = UUID.randomUUID(), name = "Vitamin D", dose = 10.0, unit = "mcg", stock = 60.0)
+
+        test("should serve the doses of the user and their profiles") {
+            coEvery { mockStorageService.getCalendarFeedUserId("secret-token") } returns userId.toString().right()
+            coEvery { mockStorageService.getCalendarFeed(userId.toString()) } returns feed.right()
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns User(id = userId, username = "testuser").right()
+            coEvery { mockStorageService.getPatientProfiles(userId.toString()) } returns listOf(profile).right()
+            coEvery { mockStorageService.getAllMedicines(userId.toString()) } returns listOf(medicine).right()
+            coEvery { mockStorageService.getAllSchedules(userId.toString()) } returns listOf(
+                Schedule(id = UUID.randomUUID(), medicineId = medicine.id, time = "08:00", amount = 1.0)
+            ).right()
+            coEvery { mockStorageService.getAllMedicines(profile.id.toString()) } returns listOf(profileMedicine).right()
+            coEvery { mockStorageService.getAllSchedules(profile.id.toString()) } returns listOf(
+                Schedule(id = UUID.randomUUID(), medicineId = profileMedicine.id, time = "19:00", amount = 2.0)
+            ).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                }
+                routing {
+                    calendarFeedRoutes(mockStorageService)
+                }
+
+                val response = client.get("/calendar/secret-token.ics")
+
+                response.status shouldBe HttpStatusCode.OK
+                response.contentType()?.withoutParameters() shouldBe ContentType("text", "calendar")
+                val body = response.bodyAsText()
+                body shouldStartWith "BEGIN:VCALENDAR\r\n"
+                body shouldContain "SUMMARY:Aspirin: 1x 100mg\r\n"
+                body shouldContain "SUMMARY:👧 Emma - Vitamin D: 2x 10mcg\r\n"
+                body shouldContain "TRIGGER:-PT10M\r\n"
+            }
+        }
+
+        test("should return 404 for an unknown or revoked token") {
+            coEvery { mockStorageService.getCalendarFeedUserId("revoked") } returns RedisError.NotFound("Calendar feed not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                }
+                routing {
+                    calendarFeedRoutes(mockStorageService)
+                }
+
+                val response = client.get("/calendar/revoked.ics")
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+
+        test("should return 404 when the account was deactivated") {
+            coEvery { mockStorageService.getCalendarFeedUserId("secret-token") } returns userId.toString().right()
+            coEvery { mockStorageService.getCalendarFeed(userId.toString()) } returns feed.right()
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns User(id = userId, username = "testuser", isActive = false).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                }
+                routing {
+                    calendarFeedRoutes(mockStorageService)
+                }
+
+                val response = client.get("/calendar/secret-token.ics")
+
+                response.status shouldBe HttpStatusCode.NotFound
+                coVerify(exactly = 0) { mockStorageService.getAllSchedules(any()) }
+            }
+        }
+    }
+
+    context("POST /user/calendar-feed") {
+        test("should create a feed with a new token") {
+            val saved = slot<CalendarFeed>()
+            coEvery { mockStorageService.saveCalendarFeed(userId.toString(), capture(saved)) } answers { secondArg<CalendarFeed>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        calendarRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/user/calendar-feed") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(CalendarFeedRequest(timezone = "Europe/Amsterdam", reminderMinutes = 15))
+                }
+
+                response.status shouldBe HttpStatusCode.Created
+                val created = response.body<CalendarFeed>()
+                created.token shouldBe saved.captured.token
+                created.timezone shouldBe "Europe/Amsterdam"
+                created.reminderMinutes shouldBe 15
+            }
+        }
+
+        test("should return 400 for an unknown time zone") {
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        calendarRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/user/calendar-feed") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(CalendarFeedRequest(timezone = "Mars/Olympus_Mons"))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                coVerify(exactly = 0) { mockStorageService.saveCalendarFeed(any(), any()) }
+            }
+        }
+    }
+
+    context("PUT /user/calendar-feed") {
+        test("should change the reminder and keep the token") {
+            coEvery { mockStorageService.getCalendarFeed(userId.toString()) } returns feed.right()
+            coEvery { mockStorageService.saveCalendarFeed(userId.toString(), any()) } answers { secondArg<CalendarFeed>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        calendarRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.put("/user/calendar-feed") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(CalendarFeedRequest(timezone = "Europe/Amsterdam", reminderMinutes = null))
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                coVerify { mockStorageService.saveCalendarFeed(userId.toString(), feed.copy(reminderMinutes = null)) }
+            }
+        }
+    }
+
+    context("DELETE /user/calendar-feed") {
+        test("should revoke the feed") {
+            coEvery { mockStorageService.deleteCalendarFeed(userId.toString()) } returns Unit.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        calendarRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/user/calendar-feed") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NoContent
+            }
+        }
+
+        test("should return 404 when there is no feed") {
+            coEvery { mockStorageService.deleteCalendarFeed(userId.toString()) } returns RedisError.NotFound("Calendar feed not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        calendarRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/user/calendar-feed") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+    }
+})
@@ -1,7 +1,11 @@
 package dev.gertjanassies.routes
 
 import dev.gertjanassies.model.DosageHistory
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.SkipReason
+import dev.gertjanassies.model.SkippedDose
 import dev.gertjanassies.model.User
+import dev.gertjanassies.model.request.SkipDoseRequest
 import dev.gertjanassies.service.RedisService
 import dev.gertjanassies.test.TestJwtConfig
 import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
@@ -25,7 +29,9 @@ import io.lettuce.core.api.async.RedisAsyncCommands
 import io.mockk.*
 import kotlinx.serialization.encodeToString
 import kotlinx.serialization.json.Json
+import java.time.LocalDate
 import java.time.LocalDateTime
+import java.time.ZoneId
 import java.util.*
 
 class DosageHistoryRoutesTest : FunSpec({
@@ -66,6 +72,14 @@ class DosageHistoryRoutesTest : FunSpec({
         every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(userJson)
     }
 
+    // Skipped doses and dosage histories found by a scan, none when no keys are given
+    fun mockScan(vararg keys: String) {
+        val cursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+        every { cursor.keys } returns keys.toList()
+        every { cursor.isFinished } returns true
+        every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } returns createRedisFutureMock(cursor)
+    }
+
     context("GET /history") {
         test("should return empty list when no histories exist") {
             mockGetUser()
@@ -420,4 +434,286 @@ class DosageHistoryRoutesTest : FunSpec({
             }
         }
     }
+
+    context("POST /skips") {
+        test("should skip the dose with its reason and who skipped it") {
+            mockGetUser()
+            mockScan()
+            val medicine = Medicine(id = UUID.randomUUID(), name = "Aspirin", dose = 500.0, unit = "mg", stock = 100.0)
+            val medicineKey = "medicate:$environment:user:$testUserId:medicine:${medicine.id}"
+            val savedJson = slot<String>()
+
+            every { mockAsyncCommands.get(medicineKey) } returns createRedisFutureMock(json.encodeToString(medicine))
+            every { mockAsyncCommands.set(match { it.startsWith("medicate:$environment:user:$testUserId:skippeddose:") }, capture(savedJson)) } returns
+                createRedisFutureMock("OK")
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/api/skips") {
+                    header("Authorization", "Bearer $jwtToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(
+                        SkipDoseRequest(
+                            medicineId = medicine.id,
+                            scheduledTime = "08:00",
+                            reason = SkipReason.DOCTORS_ADVICE,
+                            note = " Paused before surgery ",
+                            datetime = LocalDateTime.of(2026, 3, 4, 8, 0)
+                        )
+                    )
+                }
+
+                response.status shouldBe HttpStatusCode.Created
+                val skipped = json.decodeFromString<SkippedDose>(savedJson.captured)
+                skipped.datetime shouldBe LocalDateTime.of(2026, 3, 4, 8, 0)
+                skipped.reason shouldBe SkipReason.DOCTORS_ADVICE
+                skipped.note shouldBe "Paused before surgery"
+                skipped.loggedBy shouldBe testUsername
+            }
+        }
+
+        test("should return 404 for an unknown medicine") {
+            mockGetUser()
+            mockScan()
+            val medicineId = UUID.randomUUID()
+            every { mockAsyncCommands.get("medicate:$environment:user:$testUserId:medicine:$medicineId") } returns
+                createRedisFutureMock(null as String?)
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/api/skips") {
+                    header("Authorization", "Bearer $jwtToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(SkipDoseRequest(medicineId = medicineId, scheduledTime = "08:00", reason = SkipReason.OUT_OF_STOCK))
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+                verify(exactly = 0) { mockAsyncCommands.set(any(), any()) }
+            }
+        }
+
+        test("should skip a dose due today in the user's home time zone") {
+            val homeZone = ZoneId.of("Pacific/Kiritimati")
+            val user = User(
+                id = testUserId,
+                username = testUsername,
+                email = "test@example.com",
+                passwordHash = "hashedpassword",
+                timezone = homeZone.id
+            )
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.get("medicate:$environment:user:id:$testUserId") } returns createRedisFutureMock(json.encodeToString(user))
+            mockScan()
+            val medicine = Medicine(id = UUID.randomUUID(), name = "Aspirin", dose = 500.0, unit = "mg", stock = 100.0)
+            val savedJson = slot<String>()
+            every { mockAsyncCommands.get("medicate:$environment:user:$testUserId:medicine:${medicine.id}") } returns
+                createRedisFutureMock(json.encodeToString(medicine))
+            every { mockAsyncCommands.set(match { it.startsWith("medicate:$environment:user:$testUserId:skippeddose:") }, capture(savedJson)) } returns
+                createRedisFutureMock("OK")
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/api/skips") {
+                    header("Authorization", "Bearer $jwtToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(SkipDoseRequest(medicineId = medicine.id, scheduledTime = "08:00", reason = SkipReason.FEELING_UNWELL))
+                }
+
+                response.status shouldBe HttpStatusCode.Created
+                val skipped = json.decodeFromString<SkippedDose>(savedJson.captured)
+                skipped.datetime shouldBe LocalDate.now(homeZone).atTime(8, 0)
+            }
+        }
+
+        test("should return 409 when the dose was already skipped") {
+            mockGetUser()
+            val medicineId = UUID.randomUUID()
+            val existing = SkippedDose(
+                id = UUID.randomUUID(),
+                datetime = LocalDateTime.of(2026, 3, 4, 8, 0),
+                medicineId = medicineId,
+                scheduledTime = "08:00",
+                reason = SkipReason.SIDE_EFFECTS
+            )
+            val existingKey = "medicate:$environment:user:$testUserId:skippeddose:${existing.id}"
+            mockScan(existingKey)
+            every { mockAsyncCommands.get(existingKey) } returns createRedisFutureMock(json.encodeToString(existing))
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/api/skips") {
+                    header("Authorization", "Bearer $jwtToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(
+                        SkipDoseRequest(
+                            medicineId = medicineId,
+                            scheduledTime = "08:00",
+                            reason = SkipReason.OTHER,
+                            note = "Twice",
+                            datetime = LocalDateTime.of(2026, 3, 4, 8, 0)
+                        )
+                    )
+                }
+
+                response.status shouldBe HttpStatusCode.Conflict
+                verify(exactly = 0) { mockAsyncCommands.set(any(), any()) }
+            }
+        }
+
+        test("should return 409 when the dose was already taken") {
+            mockGetUser()
+            val medicineId = UUID.randomUUID()
+            val taken = DosageHistory(
+                id = UUID.randomUUID(),
+                datetime = LocalDateTime.of(2026, 3, 4, 8, 12),
+                medicineId = medicineId,
+                amount = 1.0,
+                scheduledTime = "08:00"
+            )
+            val takenKey = "medicate:$environment:user:$testUserId:dosagehistory:${taken.id}"
+            mockScan(takenKey)
+            every { mockAsyncCommands.get(takenKey) } returns createRedisFutureMock(json.encodeToString(taken))
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/api/skips") {
+                    header("Authorization", "Bearer $jwtToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(
+                        SkipDoseRequest(
+                            medicineId = medicineId,
+                            scheduledTime = "08:00",
+                            reason = SkipReason.DOCTORS_ADVICE,
+                            datetime = LocalDateTime.of(2026, 3, 4, 8, 0)
+                        )
+                    )
+                }
+
+                response.status shouldBe HttpStatusCode.Conflict
+                verify(exactly = 0) { mockAsyncCommands.set(any(), any()) }
+            }
+        }
+
+        test("should return 400 for an invalid scheduled time") {
+            mockGetUser()
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/api/skips") {
+                    header("Authorization", "Bearer $jwtToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(SkipDoseRequest(medicineId = UUID.randomUUID(), scheduledTime = "8 o'clock", reason = SkipReason.OTHER))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+            }
+        }
+    }
+
+    context("DELETE /skips/{id}") {
+        test("should return 404 when the skipped dose does not exist") {
+            mockGetUser()
+            val skippedDoseId = UUID.randomUUID()
+            every { mockAsyncCommands.del("medicate:$environment:user:$testUserId:skippeddose:$skippedDoseId") } returns
+                createRedisFutureMock(0L)
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    route("/api") {
+                        authenticate("auth-jwt") {
+                            dosageHistoryRoutes(redisService)
+                        }
+                    }
+                }
+
+                val response = client.delete("/api/skips/$skippedDoseId") {
+                    header("Authorization", "Bearer $jwtToken")
+                }
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+    }
 })
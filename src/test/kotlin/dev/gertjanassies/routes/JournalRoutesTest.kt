@@ -0,0 +1,198 @@
+package dev.gertjanassies.routes
+
+import arrow.core.left
+import arrow.core.right
+import dev.gertjanassies.model.JournalEntry
+import dev.gertjanassies.model.JournalEntryType
+import dev.gertjanassies.model.MeasurementType
+import dev.gertjanassies.model.request.JournalEntryRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.test.TestJwtConfig
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.ktor.client.call.*
+import io.ktor.client.request.*
+import io.ktor.http.*
+import io.ktor.serialization.kotlinx.json.*
+import io.ktor.server.application.*
+import io.ktor.server.auth.*
+import io.ktor.server.config.*
+import io.ktor.server.plugins.contentnegotiation.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import java.time.LocalDateTime
+import java.util.*
+
+class JournalRoutesTest : FunSpec({
+    lateinit var mockStorageService: StorageService
+    val userId = UUID.randomUUID()
+    val token = TestJwtConfig.generateToken("testuser", userId.toString())
+    val entry = JournalEntry(
+        id = UUID.randomUUID(),
+        datetime = LocalDateTime.of(2026, 3, 4, 8, 30),
+        type = JournalEntryType.SYMPTOM,
+        name = "Headache",
+        severity = 6,
+        loggedBy = "testuser"
+    )
+
+    beforeEach {
+        mockStorageService = mockk()
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("GET /journal") {
+        test("should return the journal entries") {
+            coEvery { mockStorageService.getJournalEntries(userId.toString()) } returns listOf(entry).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        journalRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/journal") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<List<JournalEntry>>() shouldBe listOf(entry)
+            }
+        }
+    }
+
+    context("POST /journal") {
+        test("should add the entry with who wrote it and a trimmed name") {
+            coEvery { mockStorageService.createJournalEntry(userId.toString(), any(), "testuser") } returns entry.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        journalRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/journal") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(JournalEntryRequest(type = JournalEntryType.SYMPTOM, name = " Headache ", severity = 6, note = " "))
+                }
+
+                response.status shouldBe HttpStatusCode.Created
+                coVerify {
+                    mockStorageService.createJournalEntry(
+                        userId.toString(),
+                        JournalEntryRequest(type = JournalEntryType.SYMPTOM, name = "Headache", severity = 6),
+                        "testuser"
+                    )
+                }
+            }
+        }
+
+        test("should return 400 for a symptom without a severity") {
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        journalRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/journal") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(JournalEntryRequest(type = JournalEntryType.SYMPTOM, name = "Headache"))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                coVerify(exactly = 0) { mockStorageService.createJournalEntry(any(), any(), any()) }
+            }
+        }
+
+        test("should return 400 for a blood pressure without the diastolic pressure") {
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        journalRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/journal") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(JournalEntryRequest(type = JournalEntryType.MEASUREMENT, measurement = MeasurementType.BLOOD_PRESSURE, value = 130.0))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                coVerify(exactly = 0) { mockStorageService.createJournalEntry(any(), any(), any()) }
+            }
+        }
+    }
+
+    context("DELETE /journal/{id}") {
+        test("should return 404 for an unknown entry") {
+            coEvery { mockStorageService.deleteJournalEntry(userId.toString(), entry.id) } returns
+                RedisError.NotFound("Journal entry with id ${entry.id} not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        journalRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/journal/${entry.id}") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+    }
+})
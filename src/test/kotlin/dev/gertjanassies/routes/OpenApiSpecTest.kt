@@ -0,0 +1,148 @@
+package dev.gertjanassies.routes
+
+import dev.gertjanassies.service.EmailService
+import dev.gertjanassies.service.GeoIpService
+import dev.gertjanassies.service.JwtService
+import dev.gertjanassies.service.RedisService
+import dev.gertjanassies.service.TwoFactorService
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.collections.shouldBeEmpty
+import io.kotest.matchers.shouldBe
+import io.ktor.server.auth.authenticate
+import io.ktor.server.config.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import kotlinx.serialization.json.Json
+import kotlinx.serialization.json.JsonObject
+import kotlinx.serialization.json.jsonArray
+import kotlinx.serialization.json.jsonObject
+import kotlinx.serialization.json.jsonPrimitive
+import kotlinx.serialization.serializer
+
+/**
+ * Keeps the OpenAPI description (src/main/resources/openapi/documentation.json) in sync with the routes.
+ * The frontend client is generated from that file, so an undocumented route is unreachable from the frontend
+ * and a documented route that does not exist fails at runtime.
+ */
+class OpenApiSpecTest : FunSpec({
+    lateinit var mockRedisService: RedisService
+
+    val spec = Json.parseToJsonElement(
+        OpenApiSpecTest::class.java.getResource("/openapi/documentation.json")!!.readText()
+    ).jsonObject
+
+    beforeEach {
+        mockRedisService = mockk(relaxed = true)
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    // Schemas of responses the routes build as maps, there is no class to compare them with
+    val mapSchemas = setOf(
+        "ErrorResponse",
+        "MessageResponse",
+        "PasswordResetResponse",
+        "RefreshResponse",
+        "RegistrationResponse",
+        "VerifyResetTokenResponse"
+    )
+    val modelPackages = listOf("dev.gertjanassies.model", "dev.gertjanassies.model.request", "dev.gertjanassies.model.response")
+
+    // "METHOD /path" for every endpoint below the given route
+    fun collectEndpoints(route: Route, path: String = ""): List<String> {
+        val currentPath = when (val selector = route.selector) {
+            is PathSegmentConstantRouteSelector -> "$path/${selector.value}"
+            is PathSegmentParameterRouteSelector -> "$path/{${selector.name}}"
+            else -> path
+        }
+        val own = (route.selector as? HttpMethodRouteSelector)
+            ?.let { listOf("${it.method.value} $currentPath") }
+            ?: emptyList()
+        return own + route.children.flatMap { collectEndpoints(it, currentPath) }
+    }
+
+    fun documentedEndpoints(): List<String> {
+        val prefix = spec["servers"]!!.jsonArray.first().jsonObject["url"]!!.jsonPrimitive.content
+        return spec["paths"]!!.jsonObject.flatMap { (path, item) ->
+            (item as JsonObject).keys.map { method -> "${method.uppercase()} $prefix$path" }
+        }
+    }
+
+    test("every route is documented and every documented route exists") {
+        testApplication {
+            environment { config = MapApplicationConfig() }
+            application {
+                this@application.installTestJwtAuth()
+            }
+
+            lateinit var root: Route
+            // Same route setup as Application.module()
+            routing {
+                route("/api") {
+                    healthRoutes()
+                    authRoutes(mockRedisService, mockk<EmailService>(relaxed = true), JwtService("test-secret"))
+                    userRoutes(mockRedisService, JwtService("test-secret"), mockk<EmailService>(relaxed = true))
+                    twoFactorLoginRoutes(mockRedisService, JwtService("test-secret"), TwoFactorService("http://localhost:5173"))
+                    calendarFeedRoutes(mockRedisService)
+
+                    authenticate("auth-jwt") {
+                        protectedUserRoutes(mockRedisService)
+                        twoFactorRoutes(mockRedisService, TwoFactorService("http://localhost:5173"))
+                        sessionRoutes(mockRedisService, GeoIpService(mockk(relaxed = true), ""))
+                        calendarRoutes(mockRedisService)
+                        medicineRoutes(mockRedisService)
+                        medicineSearchRoutes()
+                        scheduleRoutes(mockRedisService)
+                        dailyRoutes(mockRedisService)
+                        dosageHistoryRoutes(mockRedisService)
+                        journalRoutes(mockRedisService)
+                        adherenceRoutes(mockRedisService)
+                        shareRoutes(mockRedisService)
+                        patientProfileRoutes(mockRedisService)
+                        adminRoutes(mockRedisService, mockk<EmailService>(relaxed = true))
+                    }
+                }
+                root = this
+            }
+            startApplication()
+
+            val routes = collectEndpoints(root).toSet()
+            val documented = documentedEndpoints().toSet()
+
+            (routes - documented).shouldBeEmpty()
+            (documented - routes).shouldBeEmpty()
+        }
+    }
+
+    test("every schema has the fields its class serializes") {
+        val schemas = spec["components"]!!.jsonObject["schemas"]!!.jsonObject
+
+        // A schema is named after its class, an enum lists the constants and an object the properties
+        val mismatches = schemas.filterKeys { it !in mapSchemas }.mapNotNull { (name, schema) ->
+            val type = modelPackages.firstNotNullOfOrNull { pkg -> runCatching { Class.forName("$pkg.$name") }.getOrNull() }
+                ?: return@mapNotNull "$name has no class"
+            val descriptor = serializer(type).descriptor
+            val serialized = (0 until descriptor.elementsCount).map { descriptor.getElementName(it) }.toSet()
+            val documented = schema.jsonObject["enum"]?.jsonArray?.map { it.jsonPrimitive.content }?.toSet()
+                ?: schema.jsonObject["properties"]?.jsonObject?.keys
+                ?: emptySet()
+            if (documented == serialized) null
+            else "$name documents ${documented - serialized} too many and ${serialized - documented} too few"
+        }
+
+        mismatches.shouldBeEmpty()
+    }
+
+    test("every operation has a unique operationId") {
+        val operationIds = spec["paths"]!!.jsonObject.values.flatMap { item ->
+            (item as JsonObject).values.map { it.jsonObject["operationId"]?.jsonPrimitive?.content }
+        }
+
+        operationIds.filterNotNull().size shouldBe operationIds.size
+        operationIds.toSet().size shouldBe operationIds.size
+    }
+})
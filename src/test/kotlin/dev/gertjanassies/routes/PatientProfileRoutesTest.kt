@@ -0,0 +1,197 @@
+package dev.gertjanassies.routes
+
+import arrow.core.left
+import arrow.core.right
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.PatientProfile
+import dev.gertjanassies.model.request.PatientProfileRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.test.TestJwtConfig
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.ktor.client.call.*
+import io.ktor.client.plugins.contentnegotiation.*
+import io.ktor.client.request.*
+import io.ktor.http.*
+import io.ktor.serialization.kotlinx.json.*
+import io.ktor.server.application.*
+import io.ktor.server.auth.*
+import io.ktor.server.config.*
+import io.ktor.server.plugins.contentnegotiation.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import java.util.*
+
+class PatientProfileRoutesTest : FunSpec({
+    lateinit var mockStorageService: StorageService
+    val userId = UUID.randomUUID()
+    val token = TestJwtConfig.generateToken("parent", userId.toString())
+    val profile = PatientProfile(
+        id = UUID.randomUUID(),
+        name = "Emma",
+        color = "#E11D48",
+        avatar = "👧",
+        createdAt = "2026-01-01T08:00:00"
+    )
+
+    beforeEach {
+        mockStorageService = mockk()
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("POST /profiles") {
+        test("should create a profile") {
+            val request = PatientProfileRequest("Emma", "#E11D48", "👧")
+            coEvery { mockStorageService.createPatientProfile(userId.toString(), request) } returns profile.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        patientProfileRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/profiles") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(request)
+                }
+
+                response.status shouldBe HttpStatusCode.Created
+                response.body<PatientProfile>().id shouldBe profile.id
+            }
+        }
+
+        test("should return 400 for a color that is not a hex color") {
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        patientProfileRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/profiles") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(PatientProfileRequest("Emma", "red", "👧"))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                coVerify(exactly = 0) { mockStorageService.createPatientProfile(any(), any()) }
+            }
+        }
+    }
+
+    context("DELETE /profiles/{id}") {
+        test("should return 404 for a profile of another user") {
+            coEvery { mockStorageService.deletePatientProfile(userId.toString(), profile.id) } returns
+                RedisError.NotFound("Profile with id ${profile.id} not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        patientProfileRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/profiles/${profile.id}") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+    }
+
+    context("Selecting a profile") {
+        test("should return the medicines of the profile in the X-Profile header") {
+            val medicine = Medicine(UUID.randomUUID(), "Children's Paracetamol", 120.0, "mg", 20.0)
+            coEvery { mockStorageService.getPatientProfile(userId.toString(), profile.id) } returns profile.right()
+            coEvery { mockStorageService.getAllMedicines(profile.id.toString()) } returns listOf(medicine).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        medicineRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/medicine") {
+                    header("Authorization", "Bearer $token")
+                    header(PROFILE_HEADER, profile.id.toString())
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<List<Medicine>>().map { it.name } shouldBe listOf("Children's Paracetamol")
+            }
+        }
+
+        test("should return 404 for a profile the account does not have") {
+            val unknownId = UUID.randomUUID()
+            coEvery { mockStorageService.getPatientProfile(userId.toString(), unknownId) } returns
+                RedisError.NotFound("Profile with id $unknownId not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        medicineRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/medicine") {
+                    header("Authorization", "Bearer $token")
+                    header(PROFILE_HEADER, unknownId.toString())
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+                coVerify(exactly = 0) { mockStorageService.getAllMedicines(any()) }
+            }
+        }
+    }
+})
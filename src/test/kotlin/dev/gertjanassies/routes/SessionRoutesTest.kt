@@ -0,0 +1,220 @@
+package dev.gertjanassies.routes
+
+import arrow.core.left
+import arrow.core.right
+import dev.gertjanassies.model.UserSession
+import dev.gertjanassies.model.response.SessionResponse
+import dev.gertjanassies.service.GeoIpService
+import dev.gertjanassies.service.JwtService
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.test.TestJwtConfig
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.ktor.client.*
+import io.ktor.client.call.*
+import io.ktor.client.engine.mock.*
+import io.ktor.client.plugins.contentnegotiation.*
+import io.ktor.client.request.*
+import io.ktor.http.*
+import io.ktor.serialization.kotlinx.json.*
+import io.ktor.server.application.*
+import io.ktor.server.auth.*
+import io.ktor.server.config.*
+import io.ktor.server.plugins.contentnegotiation.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import java.util.*
+
+class SessionRoutesTest : FunSpec({
+    lateinit var mockStorageService: StorageService
+    val jwtService = JwtService(
+        secret = TestJwtConfig.SECRET,
+        issuer = TestJwtConfig.ISSUER,
+        audience = TestJwtConfig.AUDIENCE
+    )
+    val userId = UUID.randomUUID().toString()
+    val token = jwtService.generateAccessToken("testuser", userId, sessionId = "current")
+    val noGeoIp = GeoIpService(HttpClient(MockEngine { respondError(HttpStatusCode.InternalServerError) }), "")
+
+    fun session(id: String, lastUsedAt: String, location: String? = "") = UserSession(
+        id = id,
+        userId = userId,
+        userAgent = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15",
+        ipAddress = "203.0.113.7",
+        location = location,
+        createdAt = "2026-01-01T08:00:00",
+        lastUsedAt = lastUsedAt
+    )
+
+    beforeEach {
+        mockStorageService = mockk()
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("GET /user/sessions") {
+        test("should list sessions most recently used first and mark the current one") {
+            coEvery { mockStorageService.getSessions(userId) } returns listOf(
+                session("other", "2026-01-02T08:00:00"),
+                session("current", "2026-01-03T08:00:00")
+            ).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        sessionRoutes(mockStorageService, noGeoIp)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/user/sessions") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val sessions = response.body<List<SessionResponse>>()
+                sessions.map { it.id } shouldBe listOf("current", "other")
+                sessions.map { it.current } shouldBe listOf(true, false)
+                // An unknown location is left out
+                sessions.first().location shouldBe null
+            }
+        }
+
+        test("should look up and store the location of new sessions") {
+            val geoIp = GeoIpService(
+                HttpClient(MockEngine { request ->
+                    request.url.toString() shouldBe "https://geoip.example.com/203.0.113.7"
+                    respond(
+                        """{"ip":"203.0.113.7","city":"Utrecht","country_name":"Netherlands"}""",
+                        HttpStatusCode.OK,
+                        headersOf(HttpHeaders.ContentType, "application/json")
+                    )
+                }),
+                "https://geoip.example.com/{ip}"
+            )
+            val saved = slot<UserSession>()
+            coEvery { mockStorageService.getSessions(userId) } returns listOf(session("current", "2026-01-03T08:00:00", location = null)).right()
+            coEvery { mockStorageService.updateSession(capture(saved)) } answers { firstArg<UserSession>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        sessionRoutes(mockStorageService, geoIp)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/user/sessions") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<List<SessionResponse>>().single().location shouldBe "Utrecht, Netherlands"
+                saved.captured.location shouldBe "Utrecht, Netherlands"
+            }
+        }
+    }
+
+    context("DELETE /user/sessions/{id}") {
+        test("should log out a session of the user") {
+            coEvery { mockStorageService.deleteSession(userId, "other") } returns Unit.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        sessionRoutes(mockStorageService, noGeoIp)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/user/sessions/other") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NoContent
+                coVerify { mockStorageService.deleteSession(userId, "other") }
+            }
+        }
+
+        test("should return 404 for a session of someone else") {
+            coEvery { mockStorageService.deleteSession(userId, "foreign") } returns RedisError.NotFound("Session foreign not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        sessionRoutes(mockStorageService, noGeoIp)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/user/sessions/foreign") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+    }
+
+    context("DELETE /user/sessions") {
+        test("should log out all sessions except the current one") {
+            coEvery { mockStorageService.deleteSessions(userId, "current") } returns 3.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        sessionRoutes(mockStorageService, noGeoIp)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/user/sessions") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.NoContent
+                coVerify { mockStorageService.deleteSessions(userId, "current") }
+            }
+        }
+    }
+})
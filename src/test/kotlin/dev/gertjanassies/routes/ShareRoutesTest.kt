@@ -0,0 +1,269 @@
+package dev.gertjanassies.routes
+
+import arrow.core.left
+import arrow.core.right
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.Share
+import dev.gertjanassies.model.ShareOverview
+import dev.gertjanassies.model.SharePermission
+import dev.gertjanassies.model.ShareStatus
+import dev.gertjanassies.model.User
+import dev.gertjanassies.model.request.ShareRequest
+import dev.gertjanassies.service.RedisError
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.test.TestJwtConfig
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.ktor.client.call.*
+import io.ktor.client.plugins.contentnegotiation.*
+import io.ktor.client.request.*
+import io.ktor.http.*
+import io.ktor.serialization.kotlinx.json.*
+import io.ktor.server.application.*
+import io.ktor.server.auth.*
+import io.ktor.server.config.*
+import io.ktor.server.plugins.contentnegotiation.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import java.util.*
+
+class ShareRoutesTest : FunSpec({
+    lateinit var mockStorageService: StorageService
+    val ownerId = UUID.randomUUID()
+    val ownerToken = TestJwtConfig.generateToken("owner", ownerId.toString())
+    val caregiverId = UUID.randomUUID()
+    val caregiverToken = TestJwtConfig.generateToken("caregiver", caregiverId.toString())
+    val caregiver = User(id = caregiverId, username = "caregiver", email = "caregiver@example.com")
+
+    fun share(permission: SharePermission = SharePermission.READ_ONLY, status: ShareStatus = ShareStatus.ACCEPTED) = Share(
+        id = UUID.randomUUID(),
+        ownerId = ownerId,
+        ownerName = "Owner",
+        caregiverId = caregiverId,
+        caregiverName = "caregiver",
+        caregiverEmail = caregiver.email,
+        permission = permission,
+        status = status,
+        createdAt = "2026-01-01T08:00:00"
+    )
+
+    beforeEach {
+        mockStorageService = mockk()
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("POST /shares") {
+        test("should invite the account with the given email") {
+            val created = share(SharePermission.LOG_DOSES, ShareStatus.PENDING)
+            coEvery { mockStorageService.getUserByEmail("caregiver@example.com") } returns caregiver.right()
+            coEvery { mockStorageService.getShares(ownerId.toString()) } returns ShareOverview(emptyList(), emptyList()).right()
+            coEvery { mockStorageService.createShare(ownerId.toString(), caregiver, SharePermission.LOG_DOSES) } returns created.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        shareRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/shares") {
+                    header("Authorization", "Bearer $ownerToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(ShareRequest("caregiver@example.com", SharePermission.LOG_DOSES))
+                }
+
+                response.status shouldBe HttpStatusCode.Created
+                response.body<Share>().status shouldBe ShareStatus.PENDING
+                coVerify { mockStorageService.createShare(ownerId.toString(), caregiver, SharePermission.LOG_DOSES) }
+            }
+        }
+
+        test("should return 404 when no account has the email") {
+            coEvery { mockStorageService.getUserByEmail("nobody@example.com") } returns RedisError.NotFound("User not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        shareRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/shares") {
+                    header("Authorization", "Bearer $ownerToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(ShareRequest("nobody@example.com", SharePermission.READ_ONLY))
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+
+        test("should return 409 when already shared with the account") {
+            coEvery { mockStorageService.getUserByEmail("caregiver@example.com") } returns caregiver.right()
+            coEvery { mockStorageService.getShares(ownerId.toString()) } returns ShareOverview(listOf(share()), emptyList()).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        shareRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/shares") {
+                    header("Authorization", "Bearer $ownerToken")
+                    contentType(ContentType.Application.Json)
+                    setBody(ShareRequest("caregiver@example.com", SharePermission.MANAGE))
+                }
+
+                response.status shouldBe HttpStatusCode.Conflict
+                coVerify(exactly = 0) { mockStorageService.createShare(any(), any(), any()) }
+            }
+        }
+    }
+
+    context("POST /shares/{id}/accept") {
+        test("should return 404 when the share is not for the user") {
+            val shareId = UUID.randomUUID()
+            coEvery { mockStorageService.acceptShare(ownerId.toString(), shareId) } returns RedisError.NotFound("Share not found").left()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        shareRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/shares/$shareId/accept") {
+                    header("Authorization", "Bearer $ownerToken")
+                }
+
+                response.status shouldBe HttpStatusCode.NotFound
+            }
+        }
+    }
+
+    context("Acting for another user") {
+        test("should return the owner's medicines to a caregiver with read access") {
+            val medicine = Medicine(UUID.randomUUID(), "Owner Medicine", 500.0, "mg", 10.0)
+            coEvery { mockStorageService.getSharePermission(ownerId.toString(), caregiverId.toString()) } returns SharePermission.READ_ONLY.right()
+            coEvery { mockStorageService.getAllMedicines(ownerId.toString()) } returns listOf(medicine).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        medicineRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/medicine") {
+                    header("Authorization", "Bearer $caregiverToken")
+                    header(ACT_AS_HEADER, ownerId.toString())
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<List<Medicine>>().map { it.name } shouldBe listOf("Owner Medicine")
+            }
+        }
+
+        test("should return 403 when the permission does not allow the change") {
+            coEvery { mockStorageService.getSharePermission(ownerId.toString(), caregiverId.toString()) } returns SharePermission.LOG_DOSES.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        medicineRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.delete("/medicine/${UUID.randomUUID()}") {
+                    header("Authorization", "Bearer $caregiverToken")
+                    header(ACT_AS_HEADER, ownerId.toString())
+                }
+
+                response.status shouldBe HttpStatusCode.Forbidden
+                coVerify(exactly = 0) { mockStorageService.deleteMedicine(any(), any()) }
+            }
+        }
+
+        test("should return 403 without an accepted share") {
+            coEvery { mockStorageService.getSharePermission(ownerId.toString(), caregiverId.toString()) } returns null.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        dosageHistoryRoutes(mockStorageService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.get("/history") {
+                    header("Authorization", "Bearer $caregiverToken")
+                    header(ACT_AS_HEADER, ownerId.toString())
+                }
+
+                response.status shouldBe HttpStatusCode.Forbidden
+                coVerify(exactly = 0) { mockStorageService.getAllDosageHistories(any()) }
+            }
+        }
+    }
+})
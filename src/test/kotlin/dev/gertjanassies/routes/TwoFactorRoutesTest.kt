@@ -0,0 +1,343 @@
+package dev.gertjanassies.routes
+
+import arrow.core.right
+import dev.gertjanassies.model.TwoFactor
+import dev.gertjanassies.model.TwoFactorMethod
+import dev.gertjanassies.model.User
+import dev.gertjanassies.model.UserSession
+import dev.gertjanassies.model.request.TotpCodeRequest
+import dev.gertjanassies.model.request.TwoFactorLoginRequest
+import dev.gertjanassies.model.request.UserRequest
+import dev.gertjanassies.model.response.AuthResponse
+import dev.gertjanassies.model.response.RecoveryCodesResponse
+import dev.gertjanassies.model.response.TotpSetupResponse
+import dev.gertjanassies.model.response.TwoFactorChallengeResponse
+import dev.gertjanassies.service.EmailService
+import dev.gertjanassies.service.JwtService
+import dev.gertjanassies.service.StorageService
+import dev.gertjanassies.service.TwoFactorService
+import dev.gertjanassies.test.TestJwtConfig
+import dev.gertjanassies.test.TestJwtConfig.installTestJwtAuth
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.shouldNotBe
+import io.kotest.matchers.string.shouldStartWith
+import io.ktor.client.call.*
+import io.ktor.client.plugins.contentnegotiation.*
+import io.ktor.client.request.*
+import io.ktor.http.*
+import io.ktor.serialization.kotlinx.json.*
+import io.ktor.server.application.*
+import io.ktor.server.auth.*
+import io.ktor.server.config.*
+import io.ktor.server.plugins.contentnegotiation.*
+import io.ktor.server.routing.*
+import io.ktor.server.testing.*
+import io.mockk.*
+import java.time.Instant
+import java.util.*
+
+class TwoFactorRoutesTest : FunSpec({
+    lateinit var mockStorageService: StorageService
+    val twoFactorService = TwoFactorService("http://localhost:5173")
+    val jwtService = JwtService(
+        secret = TestJwtConfig.SECRET,
+        issuer = TestJwtConfig.ISSUER,
+        audience = TestJwtConfig.AUDIENCE
+    )
+    val userId = UUID.randomUUID()
+    val token = TestJwtConfig.generateToken("testuser", userId.toString())
+    val user = User(id = userId, username = "testuser", email = "test@example.com", isActive = true)
+    val secret = "JBSWY3DPEHPK3PXP"
+
+    fun currentCode(): String =
+        twoFactorService.totp(TwoFactorService.base32Decode(secret)!!, Instant.now().epochSecond / TwoFactorService.TOTP_PERIOD_SECONDS)
+
+    beforeEach {
+        mockStorageService = mockk()
+        coEvery { mockStorageService.recordAuditEvent(any()) } returns Unit.right()
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("POST /user/login") {
+        test("should ask for the second step when two-factor authentication is enabled") {
+            coEvery { mockStorageService.loginUser("testuser", "password123") } returns user.right()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor(totpSecret = secret, totpEnabled = true).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { userRoutes(mockStorageService, jwtService, mockk<EmailService>()) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/user/login") {
+                    contentType(ContentType.Application.Json)
+                    setBody(UserRequest("testuser", "", "password123"))
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val body = response.body<TwoFactorChallengeResponse>()
+                body.methods shouldBe listOf(TwoFactorMethod.TOTP)
+                jwtService.validateTwoFactorToken(body.challengeToken) shouldBe userId.toString()
+                // No session until the second step
+                response.setCookie().find { it.name == "refresh_token" } shouldBe null
+            }
+        }
+    }
+
+    context("POST /auth/2fa/verify") {
+        test("should log in with a code from the authenticator app") {
+            coEvery { mockStorageService.countTwoFactorAttempt(userId.toString()) } returns 1L.right()
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns user.right()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor(totpSecret = secret, totpEnabled = true).right()
+            coEvery { mockStorageService.saveTwoFactor(userId.toString(), any()) } answers { secondArg<TwoFactor>().right() }
+            coEvery { mockStorageService.isUserAdmin(userId.toString()) } returns false.right()
+            coEvery { mockStorageService.createSession(any(), any()) } answers { firstArg<UserSession>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { twoFactorLoginRoutes(mockStorageService, jwtService, twoFactorService) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateTwoFactorToken("testuser", userId.toString()), currentCode()))
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<AuthResponse>().user.username shouldBe "testuser"
+                response.setCookie().find { it.name == "refresh_token" } shouldNotBe null
+            }
+        }
+
+        test("should not accept the same code twice") {
+            var stored = TwoFactor(totpSecret = secret, totpEnabled = true)
+            coEvery { mockStorageService.countTwoFactorAttempt(userId.toString()) } returns 1L.right()
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns user.right()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } answers { stored.right() }
+            coEvery { mockStorageService.saveTwoFactor(userId.toString(), any()) } answers {
+                stored = secondArg()
+                stored.right()
+            }
+            coEvery { mockStorageService.isUserAdmin(userId.toString()) } returns false.right()
+            coEvery { mockStorageService.createSession(any(), any()) } answers { firstArg<UserSession>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { twoFactorLoginRoutes(mockStorageService, jwtService, twoFactorService) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val code = currentCode()
+                val first = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateTwoFactorToken("testuser", userId.toString()), code))
+                }
+                val replayed = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateTwoFactorToken("testuser", userId.toString()), code))
+                }
+
+                first.status shouldBe HttpStatusCode.OK
+                replayed.status shouldBe HttpStatusCode.Unauthorized
+                replayed.body<Map<String, String>>()["error"] shouldBe "Invalid code"
+            }
+        }
+
+        test("should return 401 for a deactivated account") {
+            coEvery { mockStorageService.countTwoFactorAttempt(userId.toString()) } returns 1L.right()
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns user.copy(isActive = false).right()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor(totpSecret = secret, totpEnabled = true).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { twoFactorLoginRoutes(mockStorageService, jwtService, twoFactorService) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateTwoFactorToken("testuser", userId.toString()), currentCode()))
+                }
+
+                response.status shouldBe HttpStatusCode.Unauthorized
+                response.setCookie().find { it.name == "refresh_token" } shouldBe null
+                coVerify(exactly = 0) { mockStorageService.createSession(any(), any()) }
+            }
+        }
+
+        test("should return 401 for a wrong code") {
+            coEvery { mockStorageService.countTwoFactorAttempt(userId.toString()) } returns 1L.right()
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns user.right()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor(totpSecret = secret, totpEnabled = true).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { twoFactorLoginRoutes(mockStorageService, jwtService, twoFactorService) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateTwoFactorToken("testuser", userId.toString()), "000000x"))
+                }
+
+                response.status shouldBe HttpStatusCode.Unauthorized
+                response.body<Map<String, String>>()["error"] shouldBe "Invalid code"
+            }
+        }
+
+        test("should return 429 after too many attempts") {
+            coEvery { mockStorageService.countTwoFactorAttempt(userId.toString()) } returns 6L.right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { twoFactorLoginRoutes(mockStorageService, jwtService, twoFactorService) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateTwoFactorToken("testuser", userId.toString()), currentCode()))
+                }
+
+                response.status shouldBe HttpStatusCode.TooManyRequests
+                coVerify(exactly = 0) { mockStorageService.getTwoFactor(any()) }
+            }
+        }
+
+        test("should not accept an access token as challenge token") {
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                install(ContentNegotiation) { json() }
+                routing { twoFactorLoginRoutes(mockStorageService, jwtService, twoFactorService) }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/auth/2fa/verify") {
+                    contentType(ContentType.Application.Json)
+                    setBody(TwoFactorLoginRequest(jwtService.generateAccessToken("testuser", userId.toString()), currentCode()))
+                }
+
+                response.status shouldBe HttpStatusCode.Unauthorized
+            }
+        }
+    }
+
+    context("Authenticator app enrollment") {
+        test("should start the setup with a new secret") {
+            coEvery { mockStorageService.getUserById(userId.toString()) } returns user.right()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor().right()
+            coEvery { mockStorageService.saveTwoFactor(userId.toString(), any()) } answers { secondArg<TwoFactor>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        twoFactorRoutes(mockStorageService, twoFactorService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/user/2fa/totp/setup") {
+                    header("Authorization", "Bearer $token")
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val body = response.body<TotpSetupResponse>()
+                body.otpauthUri shouldStartWith "otpauth://totp/Medicate%3Atestuser?secret=${body.secret}"
+                coVerify { mockStorageService.saveTwoFactor(userId.toString(), TwoFactor(totpSecret = body.secret)) }
+            }
+        }
+
+        test("should enable the app with a valid code and hand out recovery codes") {
+            val saved = slot<TwoFactor>()
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor(totpSecret = secret).right()
+            coEvery { mockStorageService.saveTwoFactor(userId.toString(), capture(saved)) } answers { secondArg<TwoFactor>().right() }
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        twoFactorRoutes(mockStorageService, twoFactorService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/user/2fa/totp/enable") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(TotpCodeRequest(currentCode()))
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                val codes = response.body<RecoveryCodesResponse>().recoveryCodes
+                codes.size shouldBe TwoFactorService.RECOVERY_CODE_COUNT
+                saved.captured.totpEnabled shouldBe true
+                // The code used to enable the app does not log in
+                saved.captured.totpLastStep shouldNotBe null
+                // Only hashes are stored
+                saved.captured.recoveryCodeHashes.size shouldBe codes.size
+                saved.captured.recoveryCodeHashes.none { it in codes } shouldBe true
+            }
+        }
+
+        test("should return 400 for a wrong code") {
+            coEvery { mockStorageService.getTwoFactor(userId.toString()) } returns TwoFactor(totpSecret = secret).right()
+
+            testApplication {
+                environment {
+                    config = MapApplicationConfig()
+                }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        twoFactorRoutes(mockStorageService, twoFactorService)
+                    }
+                }
+
+                val client = createClient { install(io.ktor.client.plugins.contentnegotiation.ContentNegotiation) { json() } }
+                val response = client.post("/user/2fa/totp/enable") {
+                    header("Authorization", "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(TotpCodeRequest("12345"))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                coVerify(exactly = 0) { mockStorageService.saveTwoFactor(any(), any()) }
+            }
+        }
+    }
+})
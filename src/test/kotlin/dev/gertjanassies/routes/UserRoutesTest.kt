@@ -1,6 +1,8 @@
 package dev.gertjanassies.routes
 
 import dev.gertjanassies.model.User
+import dev.gertjanassies.model.request.GracePeriodRequest
+import dev.gertjanassies.model.request.HomeTimezoneRequest
 import dev.gertjanassies.model.request.UpdateProfileRequest
 import dev.gertjanassies.model.request.UserRequest
 import dev.gertjanassies.model.response.AuthResponse
@@ -256,6 +258,17 @@ class UserRoutesTest : FunSpec({
             // Mock getUserById
             every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(userJson)
 
+            // No two-factor authentication set up
+            every { mockAsyncCommands.get("medicate:$environment:user:$userId:two_factor") } returns createRedisFutureMock(null as String?)
+
+            // Mock session creation
+            every { mockAsyncCommands.multi() } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.setex(match { it.startsWith("medicate:$environment:session:") }, any(), any()) } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.sadd("medicate:$environment:user:$userId:sessions", *anyVararg()) } returns createRedisFutureMock(1L)
+            val mockTransactionResult = mockk<io.lettuce.core.TransactionResult>()
+            every { mockTransactionResult.wasDiscarded() } returns false
+            every { mockAsyncCommands.exec() } returns createRedisFutureMock(mockTransactionResult)
+
             testApplication {
                 environment {
                     config = MapApplicationConfig()
@@ -588,6 +601,17 @@ class UserRoutesTest : FunSpec({
             // Mock getUserById
             every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(userJson)
 
+            // No two-factor authentication set up
+            every { mockAsyncCommands.get("medicate:$environment:user:$userId:two_factor") } returns createRedisFutureMock(null as String?)
+
+            // Mock session creation
+            every { mockAsyncCommands.multi() } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.setex(match { it.startsWith("medicate:$environment:session:") }, any(), any()) } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.sadd("medicate:$environment:user:$userId:sessions", *anyVararg()) } returns createRedisFutureMock(1L)
+            val mockTransactionResult = mockk<io.lettuce.core.TransactionResult>()
+            every { mockTransactionResult.wasDiscarded() } returns false
+            every { mockAsyncCommands.exec() } returns createRedisFutureMock(mockTransactionResult)
+
             testApplication {
                 environment {
                     config = MapApplicationConfig()
@@ -1039,4 +1063,142 @@ class UserRoutesTest : FunSpec({
             }
         }
     }
+
+    context("PUT /user/timezone") {
+        test("should set the home time zone") {
+            val username = "testuser"
+            val userId = java.util.UUID.randomUUID()
+            val existingUser = User(id = userId, username = username, email = "test@example.com", passwordHash = "hashedpassword")
+            val userKey = "medicate:$environment:user:id:$userId"
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(json.encodeToString(existingUser))
+            every { mockAsyncCommands.set(userKey, any()) } returns createRedisFutureMock("OK")
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        protectedUserRoutes(redisService)
+                    }
+                }
+
+                val token = TestJwtConfig.generateToken(username, userId.toString())
+                val client = createClient { install(ClientContentNegotiation) { json() } }
+
+                val response = client.put("/user/timezone") {
+                    header(HttpHeaders.Authorization, "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(HomeTimezoneRequest(timezone = "America/New_York"))
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<UserResponse>().timezone shouldBe "America/New_York"
+                verify { mockAsyncCommands.set(userKey, match { it.contains("\"timezone\":\"America/New_York\"") }) }
+            }
+        }
+
+        test("should return BadRequest for an unknown time zone") {
+            val username = "testuser"
+            val userId = java.util.UUID.randomUUID()
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        protectedUserRoutes(redisService)
+                    }
+                }
+
+                val token = TestJwtConfig.generateToken(username, userId.toString())
+                val client = createClient { install(ClientContentNegotiation) { json() } }
+
+                val response = client.put("/user/timezone") {
+                    header(HttpHeaders.Authorization, "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(HomeTimezoneRequest(timezone = "Atlantis/Capital"))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                verify(exactly = 0) { mockConnection.async() }
+            }
+        }
+    }
+
+    context("PUT /user/grace-period") {
+        test("should set the grace period") {
+            val username = "testuser"
+            val userId = java.util.UUID.randomUUID()
+            val existingUser = User(id = userId, username = username, email = "test@example.com", passwordHash = "hashedpassword")
+            val userKey = "medicate:$environment:user:id:$userId"
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.get(userKey) } returns createRedisFutureMock(json.encodeToString(existingUser))
+            every { mockAsyncCommands.set(userKey, any()) } returns createRedisFutureMock("OK")
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        protectedUserRoutes(redisService)
+                    }
+                }
+
+                val token = TestJwtConfig.generateToken(username, userId.toString())
+                val client = createClient { install(ClientContentNegotiation) { json() } }
+
+                val response = client.put("/user/grace-period") {
+                    header(HttpHeaders.Authorization, "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(GracePeriodRequest(minutes = 90))
+                }
+
+                response.status shouldBe HttpStatusCode.OK
+                response.body<UserResponse>().graceMinutes shouldBe 90
+                verify { mockAsyncCommands.set(userKey, match { it.contains("\"graceMinutes\":90") }) }
+            }
+        }
+
+        test("should return BadRequest for a grace period longer than half a day") {
+            val username = "testuser"
+            val userId = java.util.UUID.randomUUID()
+
+            testApplication {
+                environment { config = MapApplicationConfig() }
+                application {
+                    install(ContentNegotiation) { json() }
+                    installTestJwtAuth()
+                }
+                routing {
+                    authenticate("auth-jwt") {
+                        protectedUserRoutes(redisService)
+                    }
+                }
+
+                val token = TestJwtConfig.generateToken(username, userId.toString())
+                val client = createClient { install(ClientContentNegotiation) { json() } }
+
+                val response = client.put("/user/grace-period") {
+                    header(HttpHeaders.Authorization, "Bearer $token")
+                    contentType(ContentType.Application.Json)
+                    setBody(GracePeriodRequest(minutes = 24 * 60))
+                }
+
+                response.status shouldBe HttpStatusCode.BadRequest
+                verify(exactly = 0) { mockConnection.async() }
+            }
+        }
+    }
 })
@@ -20,7 +20,7 @@ import java.util.concurrent.CompletableFuture
  * Test suite for Adherence and Analytics operations in RedisService.
  *
  * Tests cover:
- * - getWeeklyAdherence: Weekly adherence calculation with proper day filtering
+ * - getWeeklyAdherence: Weekly adherence calculation with proper day filtering, recurrences and skipped doses
  * - medicineExpiry: Calculate when medicines will run out based on schedules and stock
  */
 class AdherenceServiceTest : FunSpec({
@@ -210,6 +210,68 @@ class AdherenceServiceTest : FunSpec({
             yesterday.status shouldBe AdherenceStatus.PARTIAL
         }
 
+        test("should not count a dose skipped on purpose as expected") {
+            val medicineId1 = UUID.randomUUID()
+            val medicineId2 = UUID.randomUUID()
+            val yesterday = LocalDate.now().minusDays(1)
+
+            val schedule1 = Schedule(id = UUID.randomUUID(), medicineId = medicineId1, time = "08:00", amount = 1.0, daysOfWeek = emptyList())
+            val schedule2 = Schedule(id = UUID.randomUUID(), medicineId = medicineId2, time = "20:00", amount = 1.0, daysOfWeek = emptyList())
+
+            // Medicine1 taken yesterday, medicine2 skipped on the doctor's advice
+            val dosageHistory = DosageHistory(
+                id = UUID.randomUUID(),
+                datetime = yesterday.atTime(8, 0),
+                medicineId = medicineId1,
+                amount = 1.0,
+                scheduledTime = "08:00"
+            )
+            val skippedDose = SkippedDose(
+                id = UUID.randomUUID(),
+                datetime = yesterday.atTime(20, 0),
+                medicineId = medicineId2,
+                scheduledTime = "20:00",
+                reason = SkipReason.DOCTORS_ADVICE
+            )
+
+            every { mockConnection.async() } returns mockAsyncCommands
+
+            val scheduleScanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            val scheduleKey1 = "medicate:$environment:user:$testUserId:schedule:${schedule1.id}"
+            val scheduleKey2 = "medicate:$environment:user:$testUserId:schedule:${schedule2.id}"
+            every { scheduleScanCursor.keys } returns listOf(scheduleKey1, scheduleKey2)
+            every { scheduleScanCursor.isFinished } returns true
+
+            val dosageScanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            val dosageKey = "medicate:$environment:user:$testUserId:dosagehistory:${dosageHistory.id}"
+            every { dosageScanCursor.keys } returns listOf(dosageKey)
+            every { dosageScanCursor.isFinished } returns true
+
+            val skippedScanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            val skippedKey = "medicate:$environment:user:$testUserId:skippeddose:${skippedDose.id}"
+            every { skippedScanCursor.keys } returns listOf(skippedKey)
+            every { skippedScanCursor.isFinished } returns true
+
+            every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } returns
+                createRedisFutureMock(scheduleScanCursor) andThen
+                createRedisFutureMock(dosageScanCursor) andThen
+                createRedisFutureMock(skippedScanCursor)
+
+            every { mockAsyncCommands.get(scheduleKey1) } returns createRedisFutureMock(json.encodeToString(schedule1))
+            every { mockAsyncCommands.get(scheduleKey2) } returns createRedisFutureMock(json.encodeToString(schedule2))
+            every { mockAsyncCommands.get(dosageKey) } returns createRedisFutureMock(json.encodeToString(dosageHistory))
+            every { mockAsyncCommands.get(skippedKey) } returns createRedisFutureMock(json.encodeToString(skippedDose))
+
+            val result = redisService.getWeeklyAdherence(testUserId.toString())
+
+            result.isRight() shouldBe true
+            val day = result.getOrNull()!!.days.last()
+            day.expectedCount shouldBe 1
+            day.takenCount shouldBe 1
+            day.skippedCount shouldBe 1
+            day.status shouldBe AdherenceStatus.COMPLETE
+        }
+
         test("should respect schedule days of week filtering") {
             val medicineId = UUID.randomUUID()
 
@@ -258,6 +320,52 @@ class AdherenceServiceTest : FunSpec({
             }
         }
 
+        test("should only expect doses on the days of each schedule's recurrence") {
+            val weekStart = LocalDate.now().minusDays(7)
+
+            // Every other day from the first day of the week, and every day until its fourth day
+            val everyOtherDay = Schedule(
+                id = UUID.randomUUID(),
+                medicineId = UUID.randomUUID(),
+                time = "08:00",
+                amount = 1.0,
+                recurrence = ScheduleRecurrence(type = RecurrenceType.EVERY_N_DAYS, intervalDays = 2, startDate = weekStart.toString())
+            )
+            val endingCourse = Schedule(
+                id = UUID.randomUUID(),
+                medicineId = UUID.randomUUID(),
+                time = "20:00",
+                amount = 1.0,
+                recurrence = ScheduleRecurrence(endDate = weekStart.plusDays(3).toString())
+            )
+
+            every { mockConnection.async() } returns mockAsyncCommands
+
+            val scheduleScanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            val scheduleKey1 = "medicate:$environment:user:$testUserId:schedule:${everyOtherDay.id}"
+            val scheduleKey2 = "medicate:$environment:user:$testUserId:schedule:${endingCourse.id}"
+            every { scheduleScanCursor.keys } returns listOf(scheduleKey1, scheduleKey2)
+            every { scheduleScanCursor.isFinished } returns true
+
+            val dosageScanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            every { dosageScanCursor.keys } returns emptyList()
+            every { dosageScanCursor.isFinished } returns true
+
+            every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } returns
+                createRedisFutureMock(scheduleScanCursor) andThen
+                createRedisFutureMock(dosageScanCursor)
+
+            every { mockAsyncCommands.get(scheduleKey1) } returns createRedisFutureMock(json.encodeToString(everyOtherDay))
+            every { mockAsyncCommands.get(scheduleKey2) } returns createRedisFutureMock(json.encodeToString(endingCourse))
+
+            val result = redisService.getWeeklyAdherence(testUserId.toString())
+
+            result.isRight() shouldBe true
+            val weeklyAdherence = result.getOrNull()!!
+            weeklyAdherence.days.first().date shouldBe weekStart.toString()
+            weeklyAdherence.days.map { it.expectedCount } shouldBe listOf(2, 0, 2, 1, 1, 0, 1)
+        }
+
         test("should return NONE status when no medications taken") {
             val schedule = Schedule(
                 id = UUID.randomUUID(),
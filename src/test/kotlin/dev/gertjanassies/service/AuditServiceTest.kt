@@ -0,0 +1,74 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.AuditEvent
+import dev.gertjanassies.model.AuditEventType
+import dev.gertjanassies.util.createRedisFutureMock
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.lettuce.core.TransactionResult
+import io.lettuce.core.api.StatefulRedisConnection
+import io.lettuce.core.api.async.RedisAsyncCommands
+import io.mockk.*
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+
+/**
+ * Test suite for the audit log in RedisService.
+ *
+ * Tests cover:
+ * - Recording events and keeping the log at its maximum size
+ * - Reading events back, skipping entries that cannot be read
+ */
+class AuditServiceTest : FunSpec({
+    lateinit var mockConnection: StatefulRedisConnection<String, String>
+    lateinit var mockAsyncCommands: RedisAsyncCommands<String, String>
+    lateinit var redisService: RedisService
+
+    val json = Json { ignoreUnknownKeys = true }
+    val environment = "test"
+    val auditKey = "medicate:$environment:audit"
+
+    val event = AuditEvent(
+        id = "event-1",
+        type = AuditEventType.LOGIN_FAILED,
+        targetName = "testuser",
+        ipAddress = "203.0.113.7",
+        createdAt = "2026-01-01T08:00:00"
+    )
+
+    beforeEach {
+        mockConnection = mockk()
+        mockAsyncCommands = mockk()
+        redisService = RedisService(environment = environment, connection = mockConnection)
+        every { mockConnection.async() } returns mockAsyncCommands
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    test("should add an event in front and trim the log") {
+        val mockTransactionResult = mockk<TransactionResult>()
+        every { mockTransactionResult.wasDiscarded() } returns false
+        every { mockAsyncCommands.multi() } returns createRedisFutureMock("OK")
+        every { mockAsyncCommands.lpush(auditKey, json.encodeToString(event)) } returns createRedisFutureMock(1L)
+        every { mockAsyncCommands.ltrim(auditKey, 0, RedisService.AUDIT_LOG_SIZE - 1) } returns createRedisFutureMock("OK")
+        every { mockAsyncCommands.exec() } returns createRedisFutureMock(mockTransactionResult)
+
+        val result = redisService.recordAuditEvent(event)
+
+        result.isRight() shouldBe true
+        verify { mockAsyncCommands.lpush(auditKey, json.encodeToString(event)) }
+        verify { mockAsyncCommands.ltrim(auditKey, 0, RedisService.AUDIT_LOG_SIZE - 1) }
+    }
+
+    test("should skip events that cannot be read") {
+        every { mockAsyncCommands.lrange(auditKey, 0, -1) } returns createRedisFutureMock(
+            listOf(json.encodeToString(event), """{"id":"old","type":"REMOVED_TYPE","createdAt":"2025-01-01T08:00:00"}""")
+        )
+
+        val result = redisService.getAuditEvents()
+
+        result.getOrNull() shouldBe listOf(event)
+    }
+})
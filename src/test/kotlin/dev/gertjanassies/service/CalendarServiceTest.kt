@@ -0,0 +1,200 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.CalendarFeed
+import dev.gertjanassies.model.DayOfWeek
+import dev.gertjanassies.model.Medicine
+import dev.gertjanassies.model.RecurrenceType
+import dev.gertjanassies.model.Schedule
+import dev.gertjanassies.model.ScheduleRecurrence
+import dev.gertjanassies.model.TaperStep
+import dev.gertjanassies.model.TimezoneMode
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.collections.shouldContain
+import io.kotest.matchers.collections.shouldContainInOrder
+import io.kotest.matchers.collections.shouldNotContain
+import io.kotest.matchers.ints.shouldBeLessThanOrEqual
+import io.kotest.matchers.string.shouldContain
+import java.time.ZoneId
+import java.time.ZonedDateTime
+import java.util.*
+
+/**
+ * Test suite for the iCalendar feed.
+ *
+ * Tests cover:
+ * - Recurrence rules for each recurrence type, taper steps and course ends
+ * - The time zone definitions, schedules in home time, alarms, escaping and line folding
+ */
+class CalendarServiceTest : FunSpec({
+    val zone = ZoneId.of("Europe/Amsterdam")
+    // A Wednesday
+    val now = ZonedDateTime.of(2026, 3, 4, 12, 0, 0, 0, zone)
+    val feed = CalendarFeed(token = "token", timezone = "Europe/Amsterdam", reminderMinutes = 5, createdAt = "2026-03-01T08:00:00")
+    val medicine = Medicine(id = UUID.randomUUID(), name = "Aspirin", dose = 100.0, unit = "mg", stock = 30.0)
+
+    fun schedule(
+        time: String = "08:00",
+        amount: Double = 1.0,
+        days: List<DayOfWeek> = emptyList(),
+        recurrence: ScheduleRecurrence? = null,
+        timezoneMode: TimezoneMode = TimezoneMode.LOCAL
+    ) = Schedule(
+        id = UUID.randomUUID(),
+        medicineId = medicine.id,
+        time = time,
+        amount = amount,
+        daysOfWeek = days,
+        recurrence = recurrence,
+        timezoneMode = timezoneMode
+    )
+
+    fun lines(vararg schedules: Schedule, calendarFeed: CalendarFeed = feed, description: String? = null): List<String> =
+        CalendarService.buildCalendar(
+            calendarFeed,
+            listOf(CalendarSource(null, listOf(medicine.copy(description = description)), schedules.toList())),
+            now
+        ).split("\r\n")
+
+    test("should repeat on the days of the week from the feed's creation when there is no start date") {
+        val weekly = schedule(days = listOf(DayOfWeek.MONDAY, DayOfWeek.WEDNESDAY))
+
+        // The feed was made on Sunday the 1st, the first Monday after it is the 2nd
+        lines(weekly).shouldContainInOrder(
+            "BEGIN:VEVENT",
+            "UID:${weekly.id}@medicate",
+            "DTSTAMP:20260304T110000Z",
+            "DTSTART;TZID=Europe/Amsterdam:20260302T080000",
+            "DURATION:PT15M",
+            "RRULE:FREQ=WEEKLY;BYDAY=MO,WE",
+            "SUMMARY:Aspirin: 1x 100mg",
+            "BEGIN:VALARM",
+            "TRIGGER:-PT5M",
+            "END:VALARM",
+            "END:VEVENT"
+        )
+    }
+
+    test("should repeat every day until the end of the course in UTC") {
+        val course = schedule(recurrence = ScheduleRecurrence(startDate = "2026-03-02", endDate = "2026-03-10"))
+
+        lines(course).shouldContainInOrder(
+            "DTSTART;TZID=Europe/Amsterdam:20260302T080000",
+            "RRULE:FREQ=DAILY;UNTIL=20260310T225959Z"
+        )
+    }
+
+    test("should start every n days on a day of the interval") {
+        val everyThreeDays = schedule(recurrence = ScheduleRecurrence(type = RecurrenceType.EVERY_N_DAYS, intervalDays = 3, startDate = "2026-03-01"))
+
+        lines(everyThreeDays).shouldContainInOrder(
+            "DTSTART;TZID=Europe/Amsterdam:20260301T080000",
+            "RRULE:FREQ=DAILY;INTERVAL=3"
+        )
+    }
+
+    test("should add an event per day on of a cycle") {
+        val cycle = schedule(recurrence = ScheduleRecurrence(type = RecurrenceType.CYCLE, daysOn = 2, daysOff = 3, startDate = "2026-03-01"))
+
+        lines(cycle).shouldContainInOrder(
+            "UID:${cycle.id}-0@medicate",
+            "DTSTART;TZID=Europe/Amsterdam:20260301T080000",
+            "RRULE:FREQ=DAILY;INTERVAL=5",
+            "UID:${cycle.id}-1@medicate",
+            "DTSTART;TZID=Europe/Amsterdam:20260302T080000",
+            "RRULE:FREQ=DAILY;INTERVAL=5"
+        )
+    }
+
+    test("should repeat every n hours from the time on the start date") {
+        val interval = schedule(time = "06:00", recurrence = ScheduleRecurrence(type = RecurrenceType.INTERVAL, intervalHours = 8, startDate = "2026-03-01"))
+
+        lines(interval).shouldContainInOrder(
+            "DTSTART;TZID=Europe/Amsterdam:20260301T060000",
+            "RRULE:FREQ=HOURLY;INTERVAL=8"
+        )
+    }
+
+    test("should add an event per taper step with its amount") {
+        val taper = schedule(
+            time = "09:00",
+            recurrence = ScheduleRecurrence(startDate = "2026-03-01", taper = listOf(TaperStep(3, 2.0), TaperStep(2, 1.0)))
+        )
+
+        lines(taper).shouldContainInOrder(
+            "UID:${taper.id}-0@medicate",
+            "DTSTART;TZID=Europe/Amsterdam:20260301T090000",
+            "RRULE:FREQ=DAILY;UNTIL=20260303T225959Z",
+            "SUMMARY:Aspirin: 2x 100mg",
+            "UID:${taper.id}-1@medicate",
+            "DTSTART;TZID=Europe/Amsterdam:20260304T090000",
+            "RRULE:FREQ=DAILY;UNTIL=20260305T225959Z",
+            "SUMMARY:Aspirin: 1x 100mg"
+        )
+    }
+
+    test("should leave out courses that ended") {
+        val ended = schedule(days = listOf(DayOfWeek.FRIDAY), recurrence = ScheduleRecurrence(endDate = "2026-03-05"))
+
+        lines(ended) shouldNotContain "BEGIN:VEVENT"
+    }
+
+    test("should describe the daylight saving time of the time zone") {
+        lines(schedule()).shouldContainInOrder(
+            "BEGIN:VTIMEZONE",
+            "TZID:Europe/Amsterdam",
+            "BEGIN:DAYLIGHT",
+            "DTSTART:19700329T020000",
+            "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+            "TZOFFSETFROM:+0100",
+            "TZOFFSETTO:+0200",
+            "END:DAYLIGHT",
+            "END:VTIMEZONE"
+        )
+    }
+
+    test("should keep schedules in home time in the home time zone") {
+        val home = schedule(timezoneMode = TimezoneMode.HOME)
+        val calendar = CalendarService.buildCalendar(
+            feed,
+            listOf(CalendarSource(null, listOf(medicine), listOf(schedule(), home))),
+            now,
+            homeTimezone = "America/New_York"
+        ).split("\r\n")
+
+        calendar.shouldContainInOrder(
+            "TZID:Europe/Amsterdam",
+            "TZID:America/New_York",
+            "DTSTART;TZID=Europe/Amsterdam:20260301T080000",
+            "UID:${home.id}@medicate",
+            "DTSTART;TZID=America/New_York:20260301T080000"
+        )
+    }
+
+    test("should start the same on every fetch") {
+        val daily = schedule()
+        val later = CalendarService.buildCalendar(
+            feed,
+            listOf(CalendarSource(null, listOf(medicine), listOf(daily))),
+            now.plusDays(10)
+        ).split("\r\n")
+
+        later shouldContain "DTSTART;TZID=Europe/Amsterdam:20260301T080000"
+        lines(daily) shouldContain "DTSTART;TZID=Europe/Amsterdam:20260301T080000"
+    }
+
+    test("should leave out the alarm when reminders are off") {
+        lines(schedule(), calendarFeed = feed.copy(reminderMinutes = null)) shouldNotContain "BEGIN:VALARM"
+    }
+
+    test("should escape text and fold long lines") {
+        val description = "Take with food; not with milk, grapefruit or alcohol. Swallow whole and do not crush or chew the tablets"
+        val calendar = CalendarService.buildCalendar(
+            feed,
+            listOf(CalendarSource(null, listOf(medicine.copy(description = description)), listOf(schedule()))),
+            now
+        )
+
+        calendar.replace("\r\n ", "") shouldContain "DESCRIPTION:Take with food\\; not with milk\\, grapefruit or alcohol."
+        calendar.split("\r\n").forEach { line -> line.toByteArray(Charsets.UTF_8).size shouldBeLessThanOrEqual 75 }
+    }
+})
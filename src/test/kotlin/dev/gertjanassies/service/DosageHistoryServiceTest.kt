@@ -21,7 +21,7 @@ import java.util.*
  *
  * Tests cover:
  * - createDosageHistory: transaction creation with WATCH/MULTI/EXEC semantics
- * - addStock: stock adjustments with transaction retry logic
+ * - addStock: stock adjustments and pharmacy pickups with transaction retry logic
  * - getAllDosageHistories: scan cursor pagination with datetime sorting
  */
 class DosageHistoryServiceTest : FunSpec({
@@ -171,6 +171,41 @@ class DosageHistoryServiceTest : FunSpec({
 
             verify(exactly = 10) { mockAsyncCommands.exec() }
         }
+
+        test("should take a dose from the package that expires first") {
+            val medicineId = UUID.randomUUID()
+            val laterPackage = StockBatch(UUID.randomUUID(), quantity = 20.0, lotNumber = "B2", expiryDate = "2027-06-30")
+            val earlierPackage = StockBatch(UUID.randomUUID(), quantity = 2.0, lotNumber = "A1", expiryDate = "2026-12-31")
+            val medicine = Medicine(
+                id = medicineId,
+                name = "Aspirin",
+                dose = 500.0,
+                unit = "mg",
+                stock = 23.0, // One without package details
+                batches = listOf(laterPackage, earlierPackage)
+            )
+            val medicineKey = "medicate:$environment:user:$testUserId:medicine:$medicineId"
+            val medicineJson = json.encodeToString(medicine)
+            val savedMedicine = slot<String>()
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.watch(medicineKey) } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.get(medicineKey) } returns createRedisFutureMock(medicineJson)
+            every { mockAsyncCommands.multi() } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.set(any(), any()) } returns createRedisFutureMock("QUEUED")
+            every { mockAsyncCommands.set(medicineKey, capture(savedMedicine)) } returns createRedisFutureMock("QUEUED")
+
+            val mockTransactionResult = mockk<TransactionResult>()
+            every { mockTransactionResult.wasDiscarded() } returns false
+            every { mockAsyncCommands.exec() } returns createRedisFutureMock(mockTransactionResult)
+
+            val result = redisService.createDosageHistory(testUserId.toString(), medicineId, 4.0, scheduledTime = "08:00")
+
+            result.isRight() shouldBe true
+            val updated = json.decodeFromString<Medicine>(savedMedicine.captured)
+            updated.stock shouldBe 19.0
+            updated.batches shouldBe listOf(laterPackage.copy(quantity = 19.0))
+        }
     }
 
     context("addStock") {
@@ -261,6 +296,41 @@ class DosageHistoryServiceTest : FunSpec({
             verify(atLeast = 2) { mockAsyncCommands.get(medicineKey) }
             verify(atLeast = 2) { mockAsyncCommands.multi() }
         }
+
+        test("should record a pharmacy pickup as a package and complete the refill request") {
+            val medicineId = UUID.randomUUID()
+            val medicine = Medicine(
+                id = medicineId,
+                name = "Aspirin",
+                dose = 500.0,
+                unit = "mg",
+                stock = 5.0,
+                refillRequestedAt = "2026-03-01"
+            )
+            val medicineKey = "medicate:$environment:user:$testUserId:medicine:$medicineId"
+            val medicineJson = json.encodeToString(medicine)
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.watch(medicineKey) } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.get(medicineKey) } returns createRedisFutureMock(medicineJson)
+            every { mockAsyncCommands.multi() } returns createRedisFutureMock("OK")
+            every { mockAsyncCommands.set(any(), any()) } returns createRedisFutureMock("QUEUED")
+
+            val mockTransactionResult = mockk<TransactionResult>()
+            every { mockTransactionResult.wasDiscarded() } returns false
+            every { mockAsyncCommands.exec() } returns createRedisFutureMock(mockTransactionResult)
+
+            val result = redisService.addStock(testUserId.toString(), medicineId, 30.0, lotNumber = "L123", expiryDate = "2027-01-31")
+
+            result.isRight() shouldBe true
+            val updated = result.getOrNull()!!
+            updated.stock shouldBe 35.0
+            updated.refillRequestedAt shouldBe null
+            updated.batches.size shouldBe 1
+            updated.batches[0].quantity shouldBe 30.0
+            updated.batches[0].lotNumber shouldBe "L123"
+            updated.batches[0].expiryDate shouldBe "2027-01-31"
+        }
     }
 
     context("getAllDosageHistories") {
@@ -0,0 +1,103 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.JournalEntry
+import dev.gertjanassies.model.JournalEntryType
+import dev.gertjanassies.model.MeasurementType
+import dev.gertjanassies.model.request.JournalEntryRequest
+import dev.gertjanassies.util.createRedisFutureMock
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.types.shouldBeInstanceOf
+import io.lettuce.core.api.StatefulRedisConnection
+import io.lettuce.core.api.async.RedisAsyncCommands
+import io.mockk.*
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+import java.time.LocalDateTime
+import java.util.*
+
+/**
+ * Test suite for journal operations in RedisService.
+ *
+ * Tests cover:
+ * - createJournalEntry: stored under the user with who wrote it
+ * - updateJournalEntry: keeps the time and author unless a new time is given
+ * - deleteJournalEntry: NotFound for an unknown entry
+ */
+class JournalServiceTest : FunSpec({
+
+    lateinit var mockConnection: StatefulRedisConnection<String, String>
+    lateinit var mockAsyncCommands: RedisAsyncCommands<String, String>
+    lateinit var redisService: RedisService
+
+    val json = Json { ignoreUnknownKeys = true }
+    val environment = "test"
+    val userId = UUID.randomUUID()
+    val entry = JournalEntry(
+        id = UUID.randomUUID(),
+        datetime = LocalDateTime.of(2026, 3, 4, 8, 30),
+        type = JournalEntryType.NOTE,
+        note = "Skipped, felt sick",
+        loggedBy = "caregiver"
+    )
+    val entryKey = "medicate:$environment:user:$userId:journal:${entry.id}"
+
+    beforeEach {
+        mockConnection = mockk()
+        mockAsyncCommands = mockk()
+        redisService = RedisService(environment = environment, connection = mockConnection)
+        every { mockConnection.async() } returns mockAsyncCommands
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("createJournalEntry") {
+        test("should store the entry under the user with who wrote it") {
+            val savedKey = slot<String>()
+            every { mockAsyncCommands.set(capture(savedKey), any()) } returns createRedisFutureMock("OK")
+
+            val request = JournalEntryRequest(
+                type = JournalEntryType.MEASUREMENT,
+                datetime = LocalDateTime.of(2026, 3, 4, 7, 45),
+                measurement = MeasurementType.GLUCOSE,
+                value = 6.2
+            )
+            val result = redisService.createJournalEntry(userId.toString(), request, "testuser")
+
+            val created = result.getOrNull()!!
+            created.datetime shouldBe LocalDateTime.of(2026, 3, 4, 7, 45)
+            created.value shouldBe 6.2
+            created.loggedBy shouldBe "testuser"
+            savedKey.captured shouldBe "medicate:$environment:user:$userId:journal:${created.id}"
+        }
+    }
+
+    context("updateJournalEntry") {
+        test("should keep the time and who wrote the entry") {
+            val savedJson = slot<String>()
+            every { mockAsyncCommands.get(entryKey) } returns createRedisFutureMock(json.encodeToString(entry))
+            every { mockAsyncCommands.set(entryKey, capture(savedJson)) } returns createRedisFutureMock("OK")
+
+            val result = redisService.updateJournalEntry(
+                userId.toString(),
+                entry.id,
+                JournalEntryRequest(type = JournalEntryType.NOTE, note = "Skipped on the doctor's advice")
+            )
+
+            result.getOrNull() shouldBe entry.copy(note = "Skipped on the doctor's advice")
+            json.decodeFromString<JournalEntry>(savedJson.captured) shouldBe entry.copy(note = "Skipped on the doctor's advice")
+        }
+    }
+
+    context("deleteJournalEntry") {
+        test("should return NotFound for an unknown entry") {
+            every { mockAsyncCommands.del(entryKey) } returns createRedisFutureMock(0L)
+
+            val result = redisService.deleteJournalEntry(userId.toString(), entry.id)
+
+            result.leftOrNull().shouldBeInstanceOf<RedisError.NotFound>()
+        }
+    }
+})
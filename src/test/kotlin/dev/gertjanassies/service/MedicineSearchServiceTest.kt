@@ -19,6 +19,7 @@ import java.sql.DriverManager
  * - Limit handling
  * - Case-insensitive search
  * - Empty results handling
+ * - Looking up scanned package barcodes
  */
 class MedicineSearchServiceTest : FunSpec({
     // Use IsolationMode.InstancePerLeaf to ensure clean state for each test
@@ -99,6 +100,10 @@ class MedicineSearchServiceTest : FunSpec({
                 insertStmt.setString(6, row[5])
                 insertStmt.executeUpdate()
             }
+
+            // Package barcodes of the first medicine
+            conn.createStatement().execute("CREATE TABLE barcodes (gtin TEXT PRIMARY KEY, registratienummer TEXT NOT NULL)")
+            conn.createStatement().execute("INSERT INTO barcodes (gtin, registratienummer) VALUES ('08712345678906', 'TEST001')")
         }
 
         // Replace production database with test database temporarily
@@ -313,6 +318,17 @@ class MedicineSearchServiceTest : FunSpec({
         }
     }
 
+    context("barcodes") {
+        test("should find the medicine of a scanned EAN-13 or GTIN-14") {
+            MedicineSearchService.searchMedicines("8712345678906").map { it.productnaam } shouldBe listOf("Paracetamol 500mg tabletten")
+            MedicineSearchService.searchMedicines("08712345678906").map { it.productnaam } shouldBe listOf("Paracetamol 500mg tabletten")
+        }
+
+        test("should not search names for an unknown barcode") {
+            MedicineSearchService.searchMedicines("5012345678900").shouldBeEmpty()
+        }
+    }
+
     context("data loading") {
         test("should handle missing medicines.json gracefully") {
             // This is tested implicitly - if the service can't load data,
@@ -194,6 +194,43 @@ class MedicineServiceTest : FunSpec({
             verify(exactly = 1) { mockAsyncCommands.set(any(), any()) }
         }
 
+        test("should keep the as-needed safeguards of a new medicine") {
+            val prn = PrnSettings(minIntervalHours = 4.0, maxAmountPer24Hours = 6.0)
+            val medicineRequest = MedicineRequest(
+                name = "Ibuprofen",
+                dose = 400.0,
+                unit = "mg",
+                stock = 30.0,
+                prn = prn
+            )
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.set(any(), any()) } returns createRedisFutureMock("OK")
+
+            val result = redisService.createMedicine(testUserId.toString(), medicineRequest)
+
+            result.isRight() shouldBe true
+            result.getOrNull()!!.prn shouldBe prn
+        }
+
+        test("should keep the active ingredients of a new medicine") {
+            val medicineRequest = MedicineRequest(
+                name = "Paracetamol/Coffeine 500/50mg tabletten",
+                dose = 500.0,
+                unit = "mg",
+                stock = 20.0,
+                activeIngredients = listOf("PARACETAMOL", "COFFEINE")
+            )
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.set(any(), any()) } returns createRedisFutureMock("OK")
+
+            val result = redisService.createMedicine(testUserId.toString(), medicineRequest)
+
+            result.isRight() shouldBe true
+            result.getOrNull()!!.activeIngredients shouldBe listOf("PARACETAMOL", "COFFEINE")
+        }
+
         test("should return OperationError when connection fails during create") {
             val medicineRequest = MedicineRequest(
                 name = "Metformin",
@@ -0,0 +1,105 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.PatientProfile
+import dev.gertjanassies.model.request.PatientProfileRequest
+import dev.gertjanassies.util.createKeyScanCursorMock
+import dev.gertjanassies.util.createRedisFutureMock
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.types.shouldBeInstanceOf
+import io.lettuce.core.ScanArgs
+import io.lettuce.core.api.StatefulRedisConnection
+import io.lettuce.core.api.async.RedisAsyncCommands
+import io.mockk.*
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+import java.util.*
+
+/**
+ * Test suite for patient profile operations in RedisService.
+ *
+ * Tests cover:
+ * - createPatientProfile: stored under the user
+ * - getPatientProfile: profiles of other users are not found
+ * - deletePatientProfile: removes the profile and its data
+ */
+class PatientProfileServiceTest : FunSpec({
+
+    lateinit var mockConnection: StatefulRedisConnection<String, String>
+    lateinit var mockAsyncCommands: RedisAsyncCommands<String, String>
+    lateinit var redisService: RedisService
+
+    val json = Json { ignoreUnknownKeys = true }
+    val environment = "test"
+    val userId = UUID.randomUUID()
+    val profile = PatientProfile(
+        id = UUID.randomUUID(),
+        name = "Emma",
+        color = "#E11D48",
+        avatar = "👧",
+        createdAt = "2026-01-01T08:00:00"
+    )
+    val profileKey = "medicate:$environment:user:$userId:profile:${profile.id}"
+
+    beforeEach {
+        mockConnection = mockk()
+        mockAsyncCommands = mockk()
+        redisService = RedisService(environment = environment, connection = mockConnection)
+        every { mockConnection.async() } returns mockAsyncCommands
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("createPatientProfile") {
+        test("should store the profile under the user") {
+            val savedKey = slot<String>()
+            every { mockAsyncCommands.set(capture(savedKey), any()) } returns createRedisFutureMock("OK")
+
+            val result = redisService.createPatientProfile(userId.toString(), PatientProfileRequest("Emma", "#E11D48", "👧"))
+
+            val created = result.getOrNull()!!
+            created.name shouldBe "Emma"
+            savedKey.captured shouldBe "medicate:$environment:user:$userId:profile:${created.id}"
+        }
+    }
+
+    context("getPatientProfile") {
+        test("should return NotFound for a profile of another user") {
+            val otherUserId = UUID.randomUUID()
+            every { mockAsyncCommands.get("medicate:$environment:user:$otherUserId:profile:${profile.id}") } returns
+                createRedisFutureMock(null as String?)
+
+            val result = redisService.getPatientProfile(otherUserId.toString(), profile.id)
+
+            result.leftOrNull().shouldBeInstanceOf<RedisError.NotFound>()
+        }
+    }
+
+    context("deletePatientProfile") {
+        test("should delete the profile with its medicines, schedules and history") {
+            val dataKeys = listOf(
+                "medicate:$environment:user:${profile.id}:medicine:${UUID.randomUUID()}",
+                "medicate:$environment:user:${profile.id}:dosagehistory:${UUID.randomUUID()}"
+            )
+            every { mockAsyncCommands.get(profileKey) } returns createRedisFutureMock(json.encodeToString(profile))
+            every { mockAsyncCommands.scan(any<ScanArgs>()) } returns createRedisFutureMock(createKeyScanCursorMock(dataKeys))
+            every { mockAsyncCommands.del(*anyVararg()) } returns createRedisFutureMock(3L)
+
+            val result = redisService.deletePatientProfile(userId.toString(), profile.id)
+
+            result.isRight() shouldBe true
+            verify { mockAsyncCommands.del(profileKey, *dataKeys.toTypedArray()) }
+        }
+
+        test("should not delete anything for an unknown profile") {
+            every { mockAsyncCommands.get(profileKey) } returns createRedisFutureMock(null as String?)
+
+            val result = redisService.deletePatientProfile(userId.toString(), profile.id)
+
+            result.leftOrNull().shouldBeInstanceOf<RedisError.NotFound>()
+            verify(exactly = 0) { mockAsyncCommands.del(*anyVararg()) }
+        }
+    }
+})
@@ -0,0 +1,85 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.DayOfWeek
+import dev.gertjanassies.model.RecurrenceType
+import dev.gertjanassies.model.Schedule
+import dev.gertjanassies.model.ScheduleRecurrence
+import dev.gertjanassies.model.TaperStep
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import java.time.LocalDate
+import java.time.ZoneId
+import java.util.*
+
+/**
+ * Test suite for expanding schedules into doses.
+ *
+ * Tests cover:
+ * - Days of each recurrence type and the course bounds
+ * - Taper amounts and the course end after the last step
+ * - Interval doses across a daylight saving change
+ */
+class RecurrenceServiceTest : FunSpec({
+    val zone = ZoneId.of("Europe/Amsterdam")
+    // A Wednesday
+    val start = LocalDate.of(2026, 3, 4)
+
+    fun schedule(days: List<DayOfWeek> = emptyList(), recurrence: ScheduleRecurrence? = null, time: String = "08:00") = Schedule(
+        id = UUID.randomUUID(),
+        medicineId = UUID.randomUUID(),
+        time = time,
+        amount = 1.0,
+        daysOfWeek = days,
+        recurrence = recurrence
+    )
+
+    fun firingDays(schedule: Schedule, days: Long = 14): List<Long> =
+        (0 until days).filter { RecurrenceService.firesOn(schedule, start.plusDays(it)) }
+
+    test("should fire on the days of the week, every day when there are none") {
+        firingDays(schedule(days = listOf(DayOfWeek.MONDAY, DayOfWeek.WEDNESDAY)), 7) shouldBe listOf(0L, 5L)
+        firingDays(schedule(), 3) shouldBe listOf(0L, 1L, 2L)
+    }
+
+    test("should fire every n days from the start date") {
+        val everyThreeDays = schedule(recurrence = ScheduleRecurrence(type = RecurrenceType.EVERY_N_DAYS, intervalDays = 3, startDate = start.toString()))
+
+        firingDays(everyThreeDays, 10) shouldBe listOf(0L, 3L, 6L, 9L)
+        RecurrenceService.firesOn(everyThreeDays, start.minusDays(3)) shouldBe false
+    }
+
+    test("should fire on the days on of a cycle") {
+        val cycle = schedule(recurrence = ScheduleRecurrence(type = RecurrenceType.CYCLE, daysOn = 2, daysOff = 3, startDate = start.toString()))
+
+        firingDays(cycle, 10) shouldBe listOf(0L, 1L, 5L, 6L)
+    }
+
+    test("should not fire outside the course") {
+        val course = schedule(recurrence = ScheduleRecurrence(startDate = start.plusDays(1).toString(), endDate = start.plusDays(2).toString()))
+
+        firingDays(course, 5) shouldBe listOf(1L, 2L)
+    }
+
+    test("should follow the taper steps and end after the last one") {
+        val taper = schedule(recurrence = ScheduleRecurrence(startDate = start.toString(), taper = listOf(TaperStep(2, 4.0), TaperStep(1, 2.0))))
+
+        firingDays(taper, 5) shouldBe listOf(0L, 1L, 2L)
+        RecurrenceService.courseEnd(taper) shouldBe start.plusDays(2)
+        (0L..2L).map { RecurrenceService.amountOn(taper, start.plusDays(it)) } shouldBe listOf(4.0, 4.0, 2.0)
+        RecurrenceService.occurrencesOn(taper, start.plusDays(2), zone) shouldBe listOf(ScheduleOccurrence("08:00", 2.0))
+    }
+
+    test("should plan every interval on a day") {
+        val interval = schedule(recurrence = ScheduleRecurrence(type = RecurrenceType.INTERVAL, intervalHours = 8, startDate = start.toString()), time = "06:00")
+
+        RecurrenceService.occurrencesOn(interval, start, zone).map { it.time } shouldBe listOf("06:00", "14:00", "22:00")
+        RecurrenceService.occurrencesOn(interval, start.minusDays(1), zone) shouldBe emptyList()
+    }
+
+    test("should count intervals in elapsed time across a daylight saving change") {
+        // Clocks go forward on Sunday 29 March 2026 in Amsterdam
+        val interval = schedule(recurrence = ScheduleRecurrence(type = RecurrenceType.INTERVAL, intervalHours = 12, startDate = "2026-03-28"), time = "08:00")
+
+        RecurrenceService.occurrencesOn(interval, LocalDate.of(2026, 3, 29), zone).map { it.time } shouldBe listOf("09:00", "21:00")
+    }
+})
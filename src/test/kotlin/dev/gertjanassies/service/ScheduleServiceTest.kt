@@ -5,6 +5,7 @@ import dev.gertjanassies.model.request.*
 import dev.gertjanassies.util.createFailedRedisFutureMock
 import dev.gertjanassies.util.createRedisFutureMock
 import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.collections.shouldContain
 import io.kotest.matchers.shouldBe
 import io.kotest.matchers.types.shouldBeInstanceOf
 import io.lettuce.core.api.StatefulRedisConnection
@@ -23,6 +24,7 @@ import java.util.*
  * - updateSchedule: updates with existence checks
  * - deleteSchedule: deletion with error handling
  * - getAllSchedules: scan cursor pagination and filtering
+ * - getDailySchedule: time slots of today, following each schedule's recurrence
  */
 class ScheduleServiceTest : FunSpec({
 
@@ -124,6 +126,33 @@ class ScheduleServiceTest : FunSpec({
             verify(exactly = 1) { mockAsyncCommands.set(any(), any()) }
         }
 
+        test("should store the recurrence of a new schedule") {
+            val medicineId = UUID.randomUUID()
+            val recurrence = ScheduleRecurrence(
+                type = RecurrenceType.CYCLE,
+                daysOn = 21,
+                daysOff = 7,
+                startDate = "2026-01-05",
+                taper = listOf(TaperStep(days = 5, amount = 2.0), TaperStep(days = 5, amount = 1.0))
+            )
+            val scheduleRequest = ScheduleRequest(
+                medicineId = medicineId,
+                time = "08:00",
+                amount = 2.0,
+                recurrence = recurrence
+            )
+            val storedJson = slot<String>()
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.set(any(), capture(storedJson)) } returns createRedisFutureMock("OK")
+
+            val result = redisService.createSchedule(testUserId.toString(), scheduleRequest)
+
+            result.isRight() shouldBe true
+            result.getOrNull()!!.recurrence shouldBe recurrence
+            json.decodeFromString<Schedule>(storedJson.captured).recurrence shouldBe recurrence
+        }
+
         test("should return OperationError when create fails") {
             val medicineId = UUID.randomUUID()
             val scheduleRequest = ScheduleRequest(
@@ -711,5 +740,56 @@ class ScheduleServiceTest : FunSpec({
             dailySchedule.schedule[1].time shouldBe "14:00"
             dailySchedule.schedule[2].time shouldBe "20:00"
         }
+
+        test("should follow the recurrence of each schedule") {
+            val medicineId = UUID.randomUUID()
+            val medicine = Medicine(id = medicineId, name = "Prednisone", dose = 5.0, unit = "mg", stock = 30.0)
+            val today = java.time.LocalDate.now()
+
+            // Second day of a taper: two days at 4, then 2
+            val tapered = Schedule(
+                id = UUID.randomUUID(), medicineId = medicineId, time = "08:00", amount = 1.0,
+                recurrence = ScheduleRecurrence(startDate = today.minusDays(1).toString(), taper = listOf(TaperStep(2, 4.0), TaperStep(2, 2.0)))
+            )
+            // Every other day, starting yesterday
+            val everyOtherDay = Schedule(
+                id = UUID.randomUUID(), medicineId = medicineId, time = "12:00", amount = 1.0,
+                recurrence = ScheduleRecurrence(type = RecurrenceType.EVERY_N_DAYS, intervalDays = 2, startDate = today.minusDays(1).toString())
+            )
+            // Course ended yesterday
+            val ended = Schedule(
+                id = UUID.randomUUID(), medicineId = medicineId, time = "15:00", amount = 1.0,
+                recurrence = ScheduleRecurrence(endDate = today.minusDays(1).toString())
+            )
+            // Every 8 hours from 06:00 in the server's zone
+            val interval = Schedule(
+                id = UUID.randomUUID(), medicineId = medicineId, time = "06:00", amount = 1.0,
+                recurrence = ScheduleRecurrence(type = RecurrenceType.INTERVAL, intervalHours = 8, startDate = today.minusDays(3).toString())
+            )
+            val schedules = listOf(tapered, everyOtherDay, ended, interval)
+            val scheduleKeys = schedules.map { "medicate:$environment:user:$testUserId:schedule:${it.id}" }
+            val medicineKey = "medicate:$environment:user:$testUserId:medicine:$medicineId"
+
+            every { mockConnection.async() } returns mockAsyncCommands
+
+            val mockScanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            every { mockScanCursor.keys } returns scheduleKeys
+            every { mockScanCursor.isFinished } returns true
+            every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } returns createRedisFutureMock(mockScanCursor)
+
+            schedules.zip(scheduleKeys).forEach { (schedule, key) ->
+                every { mockAsyncCommands.get(key) } returns createRedisFutureMock(json.encodeToString(schedule))
+            }
+            every { mockAsyncCommands.get(medicineKey) } returns createRedisFutureMock(json.encodeToString(medicine))
+
+            val result = redisService.getDailySchedule(testUserId.toString())
+
+            result.isRight() shouldBe true
+            val dailySchedule = result.getOrNull()!!
+            val zone = java.time.ZoneId.systemDefault()
+            val intervalTimes = RecurrenceService.occurrencesOn(interval, today, zone).map { it.time }
+            dailySchedule.schedule.map { it.time } shouldBe (intervalTimes + "08:00").distinct().sorted()
+            dailySchedule.schedule.first { it.time == "08:00" }.medicines.map { it.amount } shouldContain 4.0
+        }
     }
 })
@@ -0,0 +1,107 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.UserSession
+import dev.gertjanassies.util.createRedisFutureMock
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.types.shouldBeInstanceOf
+import io.ktor.client.*
+import io.ktor.client.engine.mock.*
+import io.lettuce.core.KeyValue
+import io.lettuce.core.api.StatefulRedisConnection
+import io.lettuce.core.api.async.RedisAsyncCommands
+import io.mockk.*
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+import java.util.*
+
+/**
+ * Test suite for sessions of logged in devices.
+ *
+ * Tests cover:
+ * - RedisService: listing, logging out and cleaning up expired sessions
+ * - GeoIpService: which addresses are looked up and how the answer is read
+ */
+class SessionServiceTest : FunSpec({
+
+    context("RedisService") {
+        lateinit var mockConnection: StatefulRedisConnection<String, String>
+        lateinit var mockAsyncCommands: RedisAsyncCommands<String, String>
+        lateinit var redisService: RedisService
+
+        val json = Json { ignoreUnknownKeys = true }
+        val environment = "test"
+        val userId = UUID.randomUUID().toString()
+        val sessionsKey = "medicate:$environment:user:$userId:sessions"
+
+        fun session(id: String) = UserSession(id = id, userId = userId, createdAt = "2026-01-01T08:00", lastUsedAt = "2026-01-01T08:00")
+
+        beforeEach {
+            mockConnection = mockk()
+            mockAsyncCommands = mockk()
+            redisService = RedisService(environment = environment, connection = mockConnection)
+            every { mockConnection.async() } returns mockAsyncCommands
+        }
+
+        afterEach {
+            clearAllMocks()
+        }
+
+        test("should list sessions and forget the ones that expired") {
+            every { mockAsyncCommands.smembers(sessionsKey) } returns createRedisFutureMock(linkedSetOf("a", "b"))
+            every {
+                mockAsyncCommands.mget("medicate:$environment:session:a", "medicate:$environment:session:b")
+            } returns createRedisFutureMock(
+                listOf(KeyValue.just("medicate:$environment:session:a", json.encodeToString(session("a"))), KeyValue.empty("medicate:$environment:session:b"))
+            )
+            every { mockAsyncCommands.srem(sessionsKey, "b") } returns createRedisFutureMock(1L)
+
+            val result = redisService.getSessions(userId)
+
+            result.getOrNull() shouldBe listOf(session("a"))
+            verify { mockAsyncCommands.srem(sessionsKey, "b") }
+        }
+
+        test("should not log out a session of another user") {
+            every { mockAsyncCommands.srem(sessionsKey, "foreign") } returns createRedisFutureMock(0L)
+
+            val result = redisService.deleteSession(userId, "foreign")
+
+            result.leftOrNull().shouldBeInstanceOf<RedisError.NotFound>()
+            verify(exactly = 0) { mockAsyncCommands.del(*anyVararg()) }
+        }
+
+        test("should report a missing session as not found") {
+            every { mockAsyncCommands.get("medicate:$environment:session:gone") } returns createRedisFutureMock(null as String?)
+
+            redisService.getSession("gone").leftOrNull().shouldBeInstanceOf<RedisError.NotFound>()
+        }
+    }
+
+    context("GeoIpService") {
+        test("should not look up local and private addresses") {
+            GeoIpService.isPrivateAddress("127.0.0.1") shouldBe true
+            GeoIpService.isPrivateAddress("192.168.1.20") shouldBe true
+            GeoIpService.isPrivateAddress("10.0.0.5") shouldBe true
+            GeoIpService.isPrivateAddress("::1") shouldBe true
+            GeoIpService.isPrivateAddress("fd12:3456::1") shouldBe true
+            GeoIpService.isPrivateAddress("localhost") shouldBe true
+            GeoIpService.isPrivateAddress("203.0.113.7") shouldBe false
+            GeoIpService.isPrivateAddress("2001:db8::1") shouldBe false
+        }
+
+        test("should read city and country from both answer formats") {
+            val geoIp = GeoIpService(HttpClient(MockEngine { respondOk() }), "")
+
+            geoIp.parseLocation("""{"city":"Utrecht","country_name":"Netherlands","country":"NL"}""") shouldBe "Utrecht, Netherlands"
+            geoIp.parseLocation("""{"status":"success","city":"Ghent","country":"Belgium"}""") shouldBe "Ghent, Belgium"
+            geoIp.parseLocation("""{"error":true,"reason":"Reserved IP Address"}""") shouldBe ""
+        }
+
+        test("should not look up anything when disabled") {
+            val geoIp = GeoIpService(HttpClient(MockEngine { error("No lookups expected") }), "")
+
+            geoIp.locate("203.0.113.7") shouldBe null
+        }
+    }
+})
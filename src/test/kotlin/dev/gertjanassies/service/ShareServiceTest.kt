@@ -0,0 +1,110 @@
+package dev.gertjanassies.service
+
+import dev.gertjanassies.model.Share
+import dev.gertjanassies.model.SharePermission
+import dev.gertjanassies.model.ShareStatus
+import dev.gertjanassies.util.createRedisFutureMock
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.types.shouldBeInstanceOf
+import io.lettuce.core.api.StatefulRedisConnection
+import io.lettuce.core.api.async.RedisAsyncCommands
+import io.mockk.*
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+import java.util.*
+
+/**
+ * Test suite for caregiver sharing operations in RedisService.
+ *
+ * Tests cover:
+ * - getSharePermission: only accepted shares grant access
+ * - acceptShare: only the invited caregiver can accept
+ */
+class ShareServiceTest : FunSpec({
+
+    lateinit var mockConnection: StatefulRedisConnection<String, String>
+    lateinit var mockAsyncCommands: RedisAsyncCommands<String, String>
+    lateinit var redisService: RedisService
+
+    val json = Json { ignoreUnknownKeys = true }
+    val environment = "test"
+    val ownerId = UUID.randomUUID()
+    val caregiverId = UUID.randomUUID()
+
+    fun share(status: ShareStatus) = Share(
+        id = UUID.randomUUID(),
+        ownerId = ownerId,
+        ownerName = "Owner",
+        caregiverId = caregiverId,
+        caregiverName = "Caregiver",
+        caregiverEmail = "caregiver@example.com",
+        permission = SharePermission.LOG_DOSES,
+        status = status,
+        createdAt = "2026-01-01T08:00:00"
+    )
+
+    beforeEach {
+        mockConnection = mockk()
+        mockAsyncCommands = mockk()
+        redisService = RedisService(environment = environment, connection = mockConnection)
+        every { mockConnection.async() } returns mockAsyncCommands
+    }
+
+    afterEach {
+        clearAllMocks()
+    }
+
+    context("getSharePermission") {
+        test("should return the permission of an accepted share") {
+            val accepted = share(ShareStatus.ACCEPTED)
+            every { mockAsyncCommands.smembers("medicate:$environment:user:$caregiverId:shares_received") } returns
+                createRedisFutureMock(setOf(accepted.id.toString()))
+            every { mockAsyncCommands.get("medicate:$environment:share:${accepted.id}") } returns
+                createRedisFutureMock(json.encodeToString(accepted))
+
+            val result = redisService.getSharePermission(ownerId.toString(), caregiverId.toString())
+
+            result.getOrNull() shouldBe SharePermission.LOG_DOSES
+        }
+
+        test("should not grant access before the caregiver accepted") {
+            val pending = share(ShareStatus.PENDING)
+            every { mockAsyncCommands.smembers("medicate:$environment:user:$caregiverId:shares_received") } returns
+                createRedisFutureMock(setOf(pending.id.toString()))
+            every { mockAsyncCommands.get("medicate:$environment:share:${pending.id}") } returns
+                createRedisFutureMock(json.encodeToString(pending))
+
+            val result = redisService.getSharePermission(ownerId.toString(), caregiverId.toString())
+
+            result.isRight() shouldBe true
+            result.getOrNull() shouldBe null
+        }
+    }
+
+    context("acceptShare") {
+        test("should mark the share as accepted for the invited caregiver") {
+            val pending = share(ShareStatus.PENDING)
+            val shareKey = "medicate:$environment:share:${pending.id}"
+            val saved = slot<String>()
+            every { mockAsyncCommands.get(shareKey) } returns createRedisFutureMock(json.encodeToString(pending))
+            every { mockAsyncCommands.set(shareKey, capture(saved)) } returns createRedisFutureMock("OK")
+
+            val result = redisService.acceptShare(caregiverId.toString(), pending.id)
+
+            result.getOrNull()!!.status shouldBe ShareStatus.ACCEPTED
+            json.decodeFromString<Share>(saved.captured).status shouldBe ShareStatus.ACCEPTED
+        }
+
+        test("should return NotFound when another user accepts") {
+            val pending = share(ShareStatus.PENDING)
+            every { mockAsyncCommands.get("medicate:$environment:share:${pending.id}") } returns
+                createRedisFutureMock(json.encodeToString(pending))
+
+            val result = redisService.acceptShare(ownerId.toString(), pending.id)
+
+            result.leftOrNull().shouldBeInstanceOf<RedisError.NotFound>()
+            verify(exactly = 0) { mockAsyncCommands.set(any(), any()) }
+        }
+    }
+})
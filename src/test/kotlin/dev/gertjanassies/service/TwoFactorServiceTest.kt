@@ -0,0 +1,238 @@
+package dev.gertjanassies.service
+
+import arrow.core.Either
+import dev.gertjanassies.model.Passkey
+import dev.gertjanassies.model.TwoFactor
+import dev.gertjanassies.util.createRedisFutureMock
+import io.kotest.core.spec.style.FunSpec
+import io.kotest.matchers.shouldBe
+import io.kotest.matchers.string.shouldMatch
+import io.kotest.matchers.types.shouldBeInstanceOf
+import io.lettuce.core.api.StatefulRedisConnection
+import io.lettuce.core.api.async.RedisAsyncCommands
+import io.mockk.*
+import kotlinx.serialization.encodeToString
+import kotlinx.serialization.json.Json
+import java.security.KeyPairGenerator
+import java.security.MessageDigest
+import java.security.Signature
+import java.security.spec.ECGenParameterSpec
+import java.time.Instant
+import java.util.*
+
+/**
+ * Test suite for two-factor authentication.
+ *
+ * Tests cover:
+ * - TwoFactorService: TOTP codes (RFC 6238 test vectors), Base32, recovery codes, WebAuthn client data and assertions
+ * - RedisService: storing the settings and counting second step attempts
+ */
+class TwoFactorServiceTest : FunSpec({
+
+    val twoFactorService = TwoFactorService("https://medicate.example.com")
+    // The RFC 6238 SHA1 test key, "12345678901234567890"
+    val rfcKey = "12345678901234567890".toByteArray()
+
+    context("TOTP") {
+        test("should match the RFC 6238 test vectors") {
+            // The RFC lists eight digits, an authenticator app shows the last six
+            twoFactorService.totp(rfcKey, 59L / 30) shouldBe "287082"
+            twoFactorService.totp(rfcKey, 1111111109L / 30) shouldBe "081804"
+            twoFactorService.totp(rfcKey, 1234567890L / 30) shouldBe "005924"
+            twoFactorService.totp(rfcKey, 2000000000L / 30) shouldBe "279037"
+        }
+
+        test("should accept the code of the previous and next period") {
+            val secret = TwoFactorService.base32Encode(rfcKey)
+            val at = Instant.ofEpochSecond(1111111109L)
+
+            twoFactorService.verifyTotp(secret, "081804", at) shouldBe true
+            twoFactorService.verifyTotp(secret, "081804", at.plusSeconds(30)) shouldBe true
+            twoFactorService.verifyTotp(secret, "081804", at.plusSeconds(90)) shouldBe false
+        }
+
+        test("should accept a code only once") {
+            val secret = TwoFactorService.base32Encode(rfcKey)
+            val at = Instant.ofEpochSecond(1111111109L)
+            val step = 1111111109L / 30
+
+            twoFactorService.acceptTotp(secret, "081804", lastStep = null, at) shouldBe step
+            twoFactorService.acceptTotp(secret, "081804", lastStep = step - 1, at) shouldBe step
+            twoFactorService.acceptTotp(secret, "081804", lastStep = step, at) shouldBe null
+            twoFactorService.acceptTotp(secret, "081804", lastStep = step + 1, at.plusSeconds(30)) shouldBe null
+        }
+
+        test("should reject codes that are not six digits") {
+            val secret = TwoFactorService.base32Encode(rfcKey)
+            val at = Instant.ofEpochSecond(1111111109L)
+
+            twoFactorService.verifyTotp(secret, "81804", at) shouldBe false
+            twoFactorService.verifyTotp(secret, "08180a", at) shouldBe false
+            twoFactorService.verifyTotp(secret, "081 804", at) shouldBe true
+        }
+
+        test("should round trip Base32") {
+            val secret = twoFactorService.generateTotpSecret()
+
+            secret.length shouldBe 32
+            TwoFactorService.base32Encode(TwoFactorService.base32Decode(secret)!!) shouldBe secret
+            TwoFactorService.base32Decode("not base32!") shouldBe null
+        }
+
+        test("should build the URI authenticator apps read") {
+            twoFactorService.otpauthUri("JBSWY3DPEHPK3PXP", "jane doe") shouldBe
+                "otpauth://totp/Medicate%3Ajane%20doe?secret=JBSWY3DPEHPK3PXP&issuer=Medicate&algorithm=SHA1&digits=6&period=30"
+        }
+    }
+
+    context("Recovery codes") {
+        test("should hand out ten distinct codes") {
+            val codes = twoFactorService.generateRecoveryCodes()
+
+            codes.size shouldBe 10
+            codes.toSet().size shouldBe 10
+            codes.forEach { it shouldMatch Regex("[a-z2-9]{4}-[a-z2-9]{4}") }
+        }
+
+        test("should compare codes without dash and case") {
+            twoFactorService.normalizeRecoveryCode(" K7D2-9xq4 ") shouldBe "k7d29xq4"
+        }
+    }
+
+    context("WebAuthn client data") {
+        fun clientData(type: String, origin: String) = Base64.getUrlEncoder().withoutPadding().encodeToString(
+            """{"type":"$type","challenge":"abc","origin":"$origin"}""".toByteArray()
+        )
+
+        test("should use the host of the app URL as relying party") {
+            twoFactorService.rpId shouldBe "medicate.example.com"
+            twoFactorService.origin shouldBe "https://medicate.example.com"
+            TwoFactorService("http://localhost:5173").origin shouldBe "http://localhost:5173"
+        }
+
+        test("should return the challenge of a login") {
+            val result = twoFactorService.parseClientData(clientData("webauthn.get", "https://medicate.example.com"), "webauthn.get")
+
+            result.getOrNull()?.challenge shouldBe "abc"
+        }
+
+        test("should reject client data from another origin") {
+            val result = twoFactorService.parseClientData(clientData("webauthn.get", "https://evil.example.com"), "webauthn.get")
+
+            result.leftOrNull().shouldBeInstanceOf<TwoFactorError.InvalidClientData>()
+        }
+
+        test("should reject a registration used as login") {
+            val result = twoFactorService.parseClientData(clientData("webauthn.create", "https://medicate.example.com"), "webauthn.get")
+
+            result.leftOrNull().shouldBeInstanceOf<TwoFactorError.InvalidClientData>()
+        }
+
+        test("should reject unsupported key algorithms") {
+            val result = twoFactorService.validatePublicKey("AAAA", -65535)
+
+            result.leftOrNull() shouldBe TwoFactorError.UnsupportedAlgorithm(-65535)
+        }
+    }
+
+    context("WebAuthn assertion") {
+        val keyPair = KeyPairGenerator.getInstance("EC").apply { initialize(ECGenParameterSpec("secp256r1")) }.generateKeyPair()
+        val encoder = Base64.getUrlEncoder().withoutPadding()
+        val passkey = Passkey(
+            id = "credential",
+            name = "Phone",
+            publicKey = encoder.encodeToString(keyPair.public.encoded),
+            algorithm = TwoFactorService.COSE_ES256,
+            createdAt = "2024-01-01T00:00:00"
+        )
+        val clientDataJSON = """{"type":"webauthn.get","challenge":"abc","origin":"https://medicate.example.com"}""".toByteArray()
+
+        // Authenticator data with the given flags and counter 1, signed like an authenticator would
+        fun login(flags: Int, requireUserVerification: Boolean): Either<TwoFactorError, Long> {
+            val rpIdHash = MessageDigest.getInstance("SHA-256").digest("medicate.example.com".toByteArray())
+            val authData = rpIdHash + byteArrayOf(flags.toByte(), 0, 0, 0, 1)
+            val signature = Signature.getInstance("SHA256withECDSA").run {
+                initSign(keyPair.private)
+                update(authData + MessageDigest.getInstance("SHA-256").digest(clientDataJSON))
+                sign()
+            }
+            return twoFactorService.verifyAssertion(
+                passkey, encoder.encodeToString(authData), encoder.encodeToString(clientDataJSON),
+                encoder.encodeToString(signature), requireUserVerification
+            )
+        }
+
+        test("should accept a second step with only user presence") {
+            login(0x01, requireUserVerification = false).getOrNull() shouldBe 1L
+        }
+
+        test("should accept a passwordless login with user verification") {
+            login(0x05, requireUserVerification = true).getOrNull() shouldBe 1L
+        }
+
+        test("should reject a passwordless login without user verification") {
+            login(0x01, requireUserVerification = true).leftOrNull() shouldBe
+                TwoFactorError.InvalidAuthenticatorData("user not verified")
+        }
+    }
+
+    context("RedisService") {
+        lateinit var mockConnection: StatefulRedisConnection<String, String>
+        lateinit var mockAsyncCommands: RedisAsyncCommands<String, String>
+        lateinit var redisService: RedisService
+
+        val json = Json { ignoreUnknownKeys = true }
+        val environment = "test"
+        val userId = UUID.randomUUID().toString()
+
+        beforeEach {
+            mockConnection = mockk()
+            mockAsyncCommands = mockk()
+            redisService = RedisService(environment = environment, connection = mockConnection)
+            every { mockConnection.async() } returns mockAsyncCommands
+        }
+
+        afterEach {
+            clearAllMocks()
+        }
+
+        test("should return empty settings for users without two-factor authentication") {
+            every { mockAsyncCommands.get("medicate:$environment:user:$userId:two_factor") } returns createRedisFutureMock(null as String?)
+
+            val result = redisService.getTwoFactor(userId)
+
+            result.getOrNull() shouldBe TwoFactor()
+            result.getOrNull()?.isEnabled shouldBe false
+        }
+
+        test("should read stored settings") {
+            val twoFactor = TwoFactor(totpSecret = "JBSWY3DPEHPK3PXP", totpEnabled = true)
+            every { mockAsyncCommands.get("medicate:$environment:user:$userId:two_factor") } returns
+                createRedisFutureMock(json.encodeToString(twoFactor))
+
+            val result = redisService.getTwoFactor(userId)
+
+            result.getOrNull() shouldBe twoFactor
+            result.getOrNull()?.isEnabled shouldBe true
+        }
+
+        test("should start the attempt window at the first attempt") {
+            val key = "medicate:$environment:user:$userId:two_factor_attempts"
+            every { mockAsyncCommands.incr(key) } returns createRedisFutureMock(1L)
+            every { mockAsyncCommands.expire(key, RedisService.TWO_FACTOR_WINDOW_SECONDS) } returns createRedisFutureMock(true)
+
+            redisService.countTwoFactorAttempt(userId).getOrNull() shouldBe 1L
+
+            verify { mockAsyncCommands.expire(key, RedisService.TWO_FACTOR_WINDOW_SECONDS) }
+        }
+
+        test("should not extend the window on later attempts") {
+            val key = "medicate:$environment:user:$userId:two_factor_attempts"
+            every { mockAsyncCommands.incr(key) } returns createRedisFutureMock(3L)
+
+            redisService.countTwoFactorAttempt(userId).getOrNull() shouldBe 3L
+
+            verify(exactly = 0) { mockAsyncCommands.expire(any<String>(), any<Long>()) }
+        }
+    }
+})
@@ -2,6 +2,7 @@ package dev.gertjanassies.service
 
 import dev.gertjanassies.model.User
 import dev.gertjanassies.util.createFailedRedisFutureMock
+import dev.gertjanassies.util.createKeyScanCursorMock
 import dev.gertjanassies.util.createRedisFutureMock
 import io.kotest.core.spec.style.FunSpec
 import io.kotest.matchers.shouldBe
@@ -21,6 +22,8 @@ import kotlinx.serialization.json.Json
  * Tests cover:
  * - registerUser: user registration with duplicate check
  * - loginUser: user authentication and retrieval
+ * - getUsersPage: paging through the username index
+ * - deleteUserCompletely: removes every key of the user
  */
 class UserServiceTest : FunSpec({
 
@@ -947,4 +950,96 @@ class UserServiceTest : FunSpec({
             updatedUser.passwordHash.startsWith("$2a$") shouldBe true // BCrypt hash starts with $2a$
         }
     }
+
+    context("getUsersPage") {
+        val users = listOf("carol", "Alice", "bob", "dave").map { username ->
+            User(id = java.util.UUID.randomUUID(), username = username, email = "$username@example.com", isActive = username != "bob")
+        }
+
+        fun mockUsers() {
+            every { mockConnection.async() } returns mockAsyncCommands
+            val scanCursor = mockk<io.lettuce.core.KeyScanCursor<String>>()
+            every { scanCursor.keys } returns users.map { "medicate:$environment:user:username:${it.username}" }
+            every { scanCursor.isFinished } returns true
+            every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } returns createRedisFutureMock(scanCursor)
+            users.forEach { user ->
+                every { mockAsyncCommands.get("medicate:$environment:user:username:${user.username}") } returns
+                    createRedisFutureMock(user.id.toString())
+                every { mockAsyncCommands.get("medicate:$environment:user:id:${user.id}") } returns
+                    createRedisFutureMock(json.encodeToString(user))
+            }
+        }
+
+        test("should load only the users on the page, sorted by username") {
+            mockUsers()
+
+            val result = redisService.getUsersPage(page = 2, pageSize = 2)
+
+            val page = result.getOrNull()!!
+            page.users.map { it.username } shouldBe listOf("carol", "dave")
+            page.total shouldBe 4
+            verify(exactly = 0) { mockAsyncCommands.get("medicate:$environment:user:id:${users[1].id}") }
+            verify(exactly = 0) { mockAsyncCommands.get("medicate:$environment:user:id:${users[2].id}") }
+        }
+
+        test("should count and page the users matching the filter") {
+            mockUsers()
+
+            val result = redisService.getUsersPage(page = 1, pageSize = 2) { it.isActive }
+
+            val page = result.getOrNull()!!
+            page.users.map { it.username } shouldBe listOf("Alice", "carol")
+            page.total shouldBe 3
+        }
+
+        test("should return OperationError when SCAN fails") {
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } returns createFailedRedisFutureMock(
+                RuntimeException("SCAN failed")
+            )
+
+            val result = redisService.getUsersPage(page = 1, pageSize = 25)
+
+            result.leftOrNull().shouldBeInstanceOf<RedisError.OperationError>()
+        }
+    }
+
+    context("deleteUserCompletely") {
+        test("should leave no keys of the user behind") {
+            val user = User(id = java.util.UUID.randomUUID(), username = "leaving", email = "leaving@example.com")
+            val userPrefix = "medicate:$environment:user:${user.id}:"
+            val otherKey = "medicate:$environment:user:${java.util.UUID.randomUUID()}:journal:${java.util.UUID.randomUUID()}"
+            // A stand-in for Redis, SCAN lists the keys stored under the user's ID
+            val store = mutableMapOf(
+                "medicate:$environment:user:id:${user.id}" to json.encodeToString(user),
+                "medicate:$environment:user:username:${user.username}" to user.id.toString(),
+                "medicate:$environment:user:email:${user.email}" to user.id.toString(),
+                "${userPrefix}medicine:${java.util.UUID.randomUUID()}" to "{}",
+                "${userPrefix}schedule:${java.util.UUID.randomUUID()}" to "{}",
+                "${userPrefix}dosagehistory:${java.util.UUID.randomUUID()}" to "{}",
+                "${userPrefix}skippeddose:${java.util.UUID.randomUUID()}" to "{}",
+                "${userPrefix}journal:${java.util.UUID.randomUUID()}" to "{}",
+                "${userPrefix}two_factor" to "{}",
+                "${userPrefix}two_factor_attempts" to "1",
+                otherKey to "{}"
+            )
+
+            every { mockConnection.async() } returns mockAsyncCommands
+            every { mockAsyncCommands.get(any()) } answers { createRedisFutureMock(store[firstArg()]) }
+            every { mockAsyncCommands.smembers(any()) } returns createRedisFutureMock(emptySet<String>())
+            every { mockAsyncCommands.srem(any(), *anyVararg()) } returns createRedisFutureMock(0L)
+            every { mockAsyncCommands.scan(any<io.lettuce.core.ScanArgs>()) } answers {
+                createKeyScanCursorMock(store.keys.filter { it.startsWith(userPrefix) })
+            }
+            every { mockAsyncCommands.del(*anyVararg()) } answers {
+                val keys = args.flatMap { arg -> (arg as? Array<*>)?.toList() ?: listOf(arg) }
+                createRedisFutureMock(keys.count { store.remove(it) != null }.toLong())
+            }
+
+            val result = redisService.deleteUserCompletely(user.id.toString())
+
+            result.isRight() shouldBe true
+            store.keys shouldBe setOf(otherKey)
+        }
+    }
 })